@@ -0,0 +1,195 @@
+import type { AlertRule } from '../services/AlertManager'
+
+// Built-in alert rules, used until a rules file exists (see ALERT_RULES_FILE)
+export const DEFAULT_ALERT_RULES: AlertRule[] = [
+  // Contract alert rules
+  {
+    id: 'high-error-rate',
+    name: 'High Error Rate',
+    category: 'contract',
+    metric: 'errorRate',
+    comparator: '>',
+    threshold: 0.05, // 5%
+    severity: 'error',
+    message: 'Contract error rate is above 5%',
+    cooldown: 15,
+    enabled: true
+  },
+  {
+    id: 'low-performance',
+    name: 'Low Performance Score',
+    category: 'contract',
+    metric: 'performanceScore',
+    comparator: '<',
+    threshold: 50,
+    severity: 'warning',
+    message: 'Contract performance score is below 50',
+    cooldown: 30,
+    enabled: true
+  },
+  {
+    id: 'high-gas-usage',
+    name: 'High Gas Usage',
+    category: 'contract',
+    metric: 'gasUsage.average',
+    comparator: '>',
+    threshold: 600000,
+    severity: 'warning',
+    message: 'Average gas usage is above 600,000',
+    cooldown: 60,
+    enabled: true
+  },
+  {
+    id: 'low-aum',
+    name: 'Low AUM',
+    category: 'contract',
+    metric: 'totalAUM',
+    comparator: '<',
+    threshold: 1000,
+    severity: 'warning',
+    message: 'Total AUM is below $1,000',
+    cooldown: 120,
+    enabled: true
+  },
+  {
+    id: 'nav-drop',
+    name: 'NAV Drop',
+    category: 'contract',
+    metric: 'navPerShare',
+    comparator: '<',
+    threshold: -3,
+    window: { minutes: 60, aggregation: 'percentChange' },
+    severity: 'error',
+    message: 'NAV per share changed by {value}% in the last hour',
+    cooldown: 60,
+    enabled: true
+  },
+
+  // Validator alert rules
+  {
+    id: 'validator-slashing',
+    name: 'Validator Slashing Event',
+    category: 'validator',
+    metric: 'totalSlashingEvents',
+    comparator: '>',
+    threshold: 0,
+    severity: 'critical',
+    message: 'Validator slashing event detected',
+    cooldown: 5,
+    enabled: true
+  },
+  {
+    id: 'low-validator-uptime',
+    name: 'Low Validator Uptime',
+    category: 'validator',
+    metric: 'averageUptime',
+    comparator: '<',
+    threshold: 95,
+    severity: 'warning',
+    message: 'Average validator uptime is below 95%',
+    cooldown: 60,
+    enabled: true
+  },
+  {
+    id: 'inactive-validators',
+    name: 'Inactive Validators',
+    category: 'validator',
+    metric: 'activeValidators / totalValidators',
+    comparator: '<',
+    threshold: 0.8,
+    severity: 'error',
+    message: 'More than 20% of validators are inactive',
+    cooldown: 30,
+    enabled: true
+  },
+  {
+    id: 'validator-inactive',
+    name: 'Validator Inactive',
+    category: 'validator',
+    metric: 'isActive',
+    comparator: '==',
+    threshold: false,
+    forEach: { path: 'validators', key: 'address', group: true },
+    severity: 'warning',
+    message: '{count} validator(s) inactive: {subjects}',
+    cooldown: 30,
+    enabled: true
+  },
+  {
+    id: 'validator-uptime-below-90',
+    name: 'Validator Uptime Below 90%',
+    category: 'validator',
+    metric: 'uptime',
+    comparator: '<',
+    threshold: 90,
+    forEach: { path: 'validators', key: 'address', group: true },
+    severity: 'warning',
+    message: '{count} validator(s) below 90% uptime: {subjects}',
+    cooldown: 60,
+    enabled: true
+  },
+  {
+    id: 'validator-commission-raised',
+    name: 'Validator Commission Raised',
+    category: 'validator',
+    metric: 'signals.commissionRaised',
+    comparator: '==',
+    threshold: true,
+    forEach: { path: 'validators', key: 'address', group: true },
+    severity: 'warning',
+    message: '{count} validator(s) raised commission in the last 7 days: {subjects}',
+    cooldown: 24 * 60,
+    enabled: true
+  },
+  {
+    id: 'validator-risk-rising',
+    name: 'Validator Risk Score Rising',
+    category: 'validator',
+    metric: 'signals.riskScoreChange',
+    comparator: '>',
+    threshold: 20,
+    forEach: { path: 'validators', key: 'address', group: true },
+    severity: 'warning',
+    message: '{count} validator(s) gained more than 20 risk points in the last 7 days: {subjects}',
+    cooldown: 6 * 60,
+    enabled: true
+  },
+
+  // Price alert rules
+  {
+    id: 'stale-price-feed',
+    name: 'Stale Price Feed',
+    category: 'price',
+    metric: 'isStale',
+    comparator: '==',
+    threshold: true,
+    severity: 'critical',
+    message: 'Price feed is stale and needs updating',
+    cooldown: 5,
+    enabled: true
+  },
+  {
+    id: 'high-price-deviation',
+    name: 'High Price Deviation',
+    category: 'price',
+    metric: 'deviation',
+    comparator: '>',
+    threshold: 0.1, // 10%
+    severity: 'warning',
+    message: 'Price deviation is above 10%',
+    cooldown: 15,
+    enabled: true
+  },
+  {
+    id: 'extreme-price-movement',
+    name: 'Extreme Price Movement',
+    category: 'price',
+    metric: 'deviation',
+    comparator: '>',
+    threshold: 0.25, // 25%
+    severity: 'critical',
+    message: 'Extreme price movement detected (>25%)',
+    cooldown: 1,
+    enabled: true
+  }
+]
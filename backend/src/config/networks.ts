@@ -0,0 +1,44 @@
+import type { Chain } from 'viem'
+import { hardhat } from 'viem/chains'
+import { coreTestnet2, coreMainnet } from './chains'
+import { CONTRACT_ADDRESSES } from './contracts'
+
+export type NetworkKey = keyof typeof CONTRACT_ADDRESSES
+
+export interface MonitoredNetwork {
+  key: NetworkKey
+  chain: Chain
+  contracts: (typeof CONTRACT_ADDRESSES)[NetworkKey]
+}
+
+const CHAINS: Record<NetworkKey, Chain> = {
+  hardhat,
+  coreTestnet2,
+  coreMainnet
+}
+
+export function getNetwork(key: NetworkKey): MonitoredNetwork {
+  return { key, chain: CHAINS[key], contracts: CONTRACT_ADDRESSES[key] }
+}
+
+/**
+ * Networks the backend monitors, from MONITORED_NETWORKS (comma-separated
+ * keys, e.g. "coreTestnet2,coreMainnet"). The first one is the default for
+ * routes called without a chainId.
+ */
+export function getMonitoredNetworks(): MonitoredNetwork[] {
+  const keys = (process.env.MONITORED_NETWORKS || 'coreTestnet2')
+    .split(',')
+    .map(key => key.trim())
+    .filter(Boolean)
+
+  for (const key of keys) {
+    if (!(key in CHAINS)) {
+      throw new Error(`Unknown network in MONITORED_NETWORKS: ${key}. Use: ${Object.keys(CHAINS).join(', ')}`)
+    }
+  }
+
+  return [...new Set(keys)].map(key => getNetwork(key as NetworkKey))
+}
+
+export const DEFAULT_NETWORK = getNetwork('coreTestnet2')
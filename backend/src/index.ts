@@ -5,6 +5,7 @@ import cron from 'node-cron'
 
 // Security middleware imports
 import { securityHeaders, corsConfig, requestSizeLimit, requestLogger, errorHandler } from './middleware/security'
+import { requestMetrics } from './middleware/metrics'
 
 import { monitoringRoutes } from './routes/monitoring'
 import { alertsRoutes } from './routes/alerts'
@@ -13,18 +14,18 @@ import { automationRoutes } from './routes/automation'
 import { metricsRoutes } from './routes/metrics'
 import { oracleRoutes } from './routes/oracle'
 import { faucetRoutes } from './routes/faucet'
+import { prometheusRoutes } from './routes/prometheus'
+import { userRoutes } from './routes/users'
+import { actionRoutes } from './routes/actions'
 
-import { ContractMonitor } from './services/ContractMonitor'
-import { ValidatorMonitor } from './services/ValidatorMonitor'
-import { AlertManager } from './services/AlertManager'
-import { AutomationEngine } from './services/AutomationEngine'
-import { MetricsCollector } from './services/MetricsCollector'
+import { metricsCollector, alertManager, automationEngine, networkMonitors, validatorHistory, priceHistory } from './services/instances'
 
 const app = new Hono()
 
 // Security middleware (order matters!)
 app.use('*', errorHandler())
 app.use('*', requestLogger())
+app.use('*', requestMetrics(metricsCollector))
 app.use('*', securityHeaders())
 app.use('*', corsConfig())
 app.use('*', requestSizeLimit(2 * 1024 * 1024)) // 2MB limit
@@ -44,6 +45,9 @@ app.get('/health', (c) => {
   })
 })
 
+// Prometheus scrape endpoint
+app.route('/metrics', prometheusRoutes)
+
 // API Routes
 app.route('/api/monitoring', monitoringRoutes)
 app.route('/api/alerts', alertsRoutes)
@@ -52,13 +56,8 @@ app.route('/api/automation', automationRoutes)
 app.route('/api/metrics', metricsRoutes)
 app.route('/api/oracle', oracleRoutes)
 app.route('/api/faucet', faucetRoutes)
-
-// Initialize services
-const contractMonitor = new ContractMonitor()
-const validatorMonitor = new ValidatorMonitor()
-const alertManager = new AlertManager()
-const automationEngine = new AutomationEngine()
-const metricsCollector = new MetricsCollector()
+app.route('/api/users', userRoutes)
+app.route('/api/actions', actionRoutes)
 
 // WebSocket server for real-time updates
 const wss = new WebSocketServer({ port: 8080 })
@@ -90,66 +89,107 @@ export const broadcast = (type: string, data: any) => {
 // Scheduled tasks
 console.log('Setting up scheduled monitoring tasks...')
 
+// Monitoring jobs run once per monitored network; a failing network doesn't stop the others
+
+// Event indexing every 15 seconds
+cron.schedule('*/15 * * * * *', async () => {
+  for (const { eventIndexer, chainId } of networkMonitors) {
+    try {
+      const result = await eventIndexer.sync()
+      if (result && result.indexed > 0) {
+        broadcast('contract_events', { chainId, ...result })
+      }
+    } catch (error) {
+      console.error(`Event indexer error (chain ${chainId}):`, error)
+    }
+  }
+})
+
 // Contract monitoring every 30 seconds
 cron.schedule('*/30 * * * * *', async () => {
-  try {
-    const metrics = await contractMonitor.collectMetrics()
-    await metricsCollector.store('contract', metrics)
-    
-    // Check for alerts
-    const alerts = await alertManager.checkContractAlerts(metrics)
-    if (alerts.length > 0) {
-      broadcast('alerts', alerts)
+  for (const { contractMonitor, chainId } of networkMonitors) {
+    try {
+      const metrics = await contractMonitor.collectMetrics()
+      await metricsCollector.store('contract', metrics, chainId)
+      
+      // Check for alerts
+      const alerts = await alertManager.checkContractAlerts(metrics)
+      if (alerts.length > 0) {
+        broadcast('alerts', alerts)
+      }
+      
+      // Broadcast metrics
+      broadcast('contract_metrics', metrics)
+    } catch (error) {
+      console.error(`Contract monitoring error (chain ${chainId}):`, error)
     }
-    
-    // Broadcast metrics
-    broadcast('contract_metrics', metrics)
-  } catch (error) {
-    console.error('Contract monitoring error:', error)
   }
 })
 
 // Validator monitoring every 2 minutes
 cron.schedule('*/2 * * * *', async () => {
-  try {
-    const validatorData = await validatorMonitor.checkValidators()
-    await metricsCollector.store('validators', validatorData)
-    
-    // Check for validator alerts
-    const alerts = await alertManager.checkValidatorAlerts(validatorData)
-    if (alerts.length > 0) {
-      broadcast('validator_alerts', alerts)
+  for (const { validatorMonitor, chainId } of networkMonitors) {
+    try {
+      const validatorData = validatorHistory.withSignals(await validatorMonitor.checkValidators())
+      validatorHistory.record(validatorData)
+      await metricsCollector.store('validators', validatorData, chainId)
+      
+      // Check for validator alerts
+      const alerts = await alertManager.checkValidatorAlerts(validatorData)
+      if (alerts.length > 0) {
+        broadcast('validator_alerts', alerts)
+      }
+      
+      broadcast('validator_metrics', validatorData)
+    } catch (error) {
+      console.error(`Validator monitoring error (chain ${chainId}):`, error)
     }
-    
-    broadcast('validator_metrics', validatorData)
-  } catch (error) {
-    console.error('Validator monitoring error:', error)
   }
 })
 
-// Automation engine every 5 minutes
-cron.schedule('*/5 * * * *', async () => {
+// Automation tasks run on their own interval or cron schedules (see /api/automation/tasks)
+automationEngine.start()
+
+// Price oracle monitoring every minute
+cron.schedule('* * * * *', async () => {
+  for (const { contractMonitor, chainId } of networkMonitors) {
+    try {
+      const priceData = await contractMonitor.checkPriceFeeds()
+      await metricsCollector.store('price', priceData, chainId)
+      priceHistory.recordPriceFeed(priceData)
+      
+      // Check for price alerts
+      const alerts = await alertManager.checkPriceAlerts(priceData)
+      if (alerts.length > 0) {
+        broadcast('price_alerts', alerts)
+      }
+      
+      broadcast('price_data', priceData)
+    } catch (error) {
+      console.error(`Price monitoring error (chain ${chainId}):`, error)
+    }
+  }
+})
+
+// Alert escalation: raise alerts left unacknowledged past their deadline
+cron.schedule('* * * * *', () => {
   try {
-    await automationEngine.runAutomatedTasks()
+    const escalated = alertManager.processEscalations()
+    if (escalated.length > 0) {
+      broadcast('alert_escalations', escalated)
+    }
   } catch (error) {
-    console.error('Automation engine error:', error)
+    console.error('Alert escalation error:', error)
   }
 })
 
-// Price oracle monitoring every minute
-cron.schedule('* * * * *', async () => {
+// Metrics retention: downsample old raw points and drop expired rollups every hour
+cron.schedule('0 * * * *', async () => {
   try {
-    const priceData = await contractMonitor.checkPriceFeeds()
-    
-    // Check for price alerts
-    const alerts = await alertManager.checkPriceAlerts(priceData)
-    if (alerts.length > 0) {
-      broadcast('price_alerts', alerts)
-    }
-    
-    broadcast('price_data', priceData)
+    const result = await metricsCollector.applyRetention()
+    console.log(`Metrics retention: ${result.downsampled} points downsampled, ${result.deleted} expired`)
   } catch (error) {
-    console.error('Price monitoring error:', error)
+    console.error('Metrics retention error:', error)
   }
 })
 
@@ -0,0 +1,23 @@
+import { Context, Next } from 'hono'
+import type { MetricsCollector } from '../services/MetricsCollector'
+
+// Request instrumentation middleware: records latency and status per matched route
+export function requestMetrics(collector: MetricsCollector) {
+  return async (c: Context, next: Next) => {
+    const start = performance.now()
+
+    try {
+      await next()
+    } finally {
+      const duration = performance.now() - start
+      collector.recordRequest(`${c.req.method} ${getRoutePattern(c)}`, duration, c.res.status)
+    }
+  }
+}
+
+// Use the route pattern rather than the raw path so /validators/0xabc.. and
+// /validators/0xdef.. are aggregated together
+function getRoutePattern(c: Context): string {
+  const handler = c.req.matchedRoutes.filter(route => route.method !== 'ALL').pop()
+  return handler ? handler.path : 'unmatched'
+}
@@ -1,5 +1,6 @@
 import { Context, Next } from 'hono'
 import { z, ZodError } from 'zod'
+import { nextCronRun } from '../utils/cron'
 
 // Common validation schemas
 export const addressSchema = z.string().regex(/^0x[a-fA-F0-9]{40}$/, 'Invalid Ethereum address')
@@ -45,6 +46,27 @@ export function validateQuery(schema: z.ZodSchema) {
   }
 }
 
+// Parse an optional ?chainId= and make sure it is a network the backend monitors
+export function validateChainId(isMonitored: (chainId: number) => boolean) {
+  return async (c: Context, next: Next) => {
+    const raw = c.req.query('chainId')
+    if (raw === undefined || raw === '') {
+      return next()
+    }
+
+    const chainId = Number(raw)
+    if (!Number.isInteger(chainId) || chainId <= 0) {
+      return c.json({ success: false, error: 'chainId must be a positive integer' }, 400)
+    }
+    if (!isMonitored(chainId)) {
+      return c.json({ success: false, error: `Chain ${chainId} is not monitored` }, 404)
+    }
+
+    c.set('chainId', chainId)
+    await next()
+  }
+}
+
 // Sanitization functions
 export function sanitizeInput(input: string): string {
   return input.replace(/[<>\"']/g, '')
@@ -67,14 +89,179 @@ export const oracleUpdateSchema = z.object({
   timestamp: z.number().positive().optional()
 })
 
+// Query for /api/oracle/prices/history; limit is the number of candles
+export const priceHistoryQuerySchema = z.object({
+  asset: z.string().min(1).max(10),
+  interval: z.enum(['1m', '5m', '15m', '1h', '4h', '1d']).default('1h'),
+  limit: z.coerce.number().int().min(1).max(1000).default(168),
+  source: z.string().min(1).max(32).optional()
+})
+
+// Runtime change to one asset's oracle push policy
+export const oraclePushPolicySchema = z.object({
+  deviationBps: z.number().positive().max(10000).optional(),
+  heartbeatSeconds: z.number().int().positive().optional(),
+  enabled: z.boolean().optional()
+})
+
 export const automationTaskSchema = z.object({
   taskId: z.string().min(1),
   parameters: z.record(z.any()).optional()
 })
 
+export const taskScheduleSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('interval'), minutes: z.number().int().min(1).max(7 * 24 * 60) }),
+  z.object({
+    type: z.literal('cron'),
+    expression: z.string().max(100).refine(expression => {
+      // Also rejects valid expressions that never fire, e.g. "0 0 31 2 *"
+      try {
+        nextCronRun(expression, Date.now())
+        return true
+      } catch {
+        return false
+      }
+    }, 'Must be a 5-field cron expression (minute hour day-of-month month day-of-week, UTC) that fires within a year')
+  })
+])
+
+export const automationTaskUpdateSchema = z.object({
+  enabled: z.boolean().optional(),
+  schedule: taskScheduleSchema.optional(),
+  parameters: z.record(z.any()).optional()
+}).refine(update => Object.keys(update).length > 0, {
+  message: 'Provide enabled, schedule and/or parameters'
+})
+
 export const alertSchema = z.object({
   type: z.enum(['price', 'system', 'security']),
   message: z.string().min(1).max(500),
   severity: z.enum(['low', 'medium', 'high', 'critical']),
   metadata: z.record(z.any()).optional()
-})
\ No newline at end of file
+})
+// Declarative alert rules: a metric path (or "a / b" ratio of two paths) compared
+// against a threshold, optionally aggregated over a sliding window
+const metricPathSchema = z.string().regex(
+  /^[A-Za-z_][\w]*(\.[\w]+)*(\s*\/\s*[A-Za-z_][\w]*(\.[\w]+)*)?$/,
+  'Metric must be a dot-separated path, or a ratio of two paths ("a / b")'
+)
+
+export const alertRuleWindowSchema = z.object({
+  minutes: z.number().positive().max(7 * 24 * 60),
+  aggregation: z.enum(['avg', 'min', 'max', 'sum', 'change', 'percentChange'])
+})
+
+export const alertRuleForEachSchema = z.object({
+  path: metricPathSchema,
+  key: metricPathSchema,
+  group: z.boolean().default(true)
+})
+
+const alertRuleFieldsSchema = z.object({
+  id: z.string().regex(/^[a-z0-9][a-z0-9-]{0,63}$/, 'Rule id must be lowercase letters, digits and dashes'),
+  name: z.string().min(1).max(100),
+  category: z.enum(['contract', 'validator', 'price', 'security']),
+  metric: metricPathSchema,
+  comparator: z.enum(['>', '>=', '<', '<=', '==', '!=']),
+  threshold: z.union([z.number(), z.boolean()]),
+  window: alertRuleWindowSchema.optional(),
+  forEach: alertRuleForEachSchema.optional(),
+  severity: z.enum(['warning', 'error', 'critical']),
+  message: z.string().min(1).max(500),
+  cooldown: z.number().min(0), // minutes
+  enabled: z.boolean().default(true)
+})
+
+const booleanThresholdCheck = (rule: { comparator?: string; threshold?: number | boolean; window?: unknown }) =>
+  typeof rule.threshold !== 'boolean' || ((rule.comparator === '==' || rule.comparator === '!=') && !rule.window)
+
+const booleanThresholdMessage = {
+  message: 'Boolean thresholds only support == and != without a window',
+  path: ['threshold']
+}
+
+export const alertRuleSchema = alertRuleFieldsSchema.refine(booleanThresholdCheck, booleanThresholdMessage)
+
+// Partial update; the id is taken from the URL and cannot change. The combined
+// rule is validated again against alertRuleSchema before it is applied.
+export const alertRuleUpdateSchema = alertRuleFieldsSchema
+  .omit({ id: true })
+  .extend({
+    window: alertRuleWindowSchema.nullable().optional(),
+    forEach: alertRuleForEachSchema.nullable().optional()
+  })
+  .partial()
+
+// Silences suppress notifications and escalation for a rule and/or category until they end
+export const alertSilenceSchema = z.object({
+  ruleId: z.string().min(1).optional(),
+  category: z.enum(['contract', 'validator', 'price', 'security']).optional(),
+  chainId: z.number().int().positive().optional(),
+  reason: z.string().min(1).max(500),
+  startsAt: z.string().datetime().optional(),
+  endsAt: z.string().datetime().optional(),
+  durationMinutes: z.number().positive().max(30 * 24 * 60).optional()
+}).refine(silence => silence.ruleId || silence.category, {
+  message: 'A silence needs a ruleId or a category',
+  path: ['ruleId']
+}).refine(silence => (silence.endsAt === undefined) !== (silence.durationMinutes === undefined), {
+  message: 'Provide exactly one of endsAt or durationMinutes',
+  path: ['endsAt']
+})
+
+// Rebalancer configuration; strategy ids match ALLOCATION_STRATEGIES
+export const allocationParamsSchema = z.object({
+  maxRiskScore: z.number().min(0).max(100),
+  minEffectiveAPY: z.number().min(0).max(100),
+  maxCommission: z.number().min(0).max(100),
+  maxValidators: z.number().int().min(1).max(100),
+  maxConcentration: z.number().gt(0).max(1),
+  driftThreshold: z.number().min(0).max(1)
+}).partial()
+
+export const rebalancingConfigSchema = z.object({
+  thresholds: z.object({
+    minImprovement: z.number()
+  }).partial().optional(),
+  intervalMinutes: z.number().int().positive().optional(),
+  enabled: z.boolean().optional(),
+  strategy: z.enum(['equal-weight', 'apy-weighted', 'risk-parity', 'capped']).optional(),
+  strategyParams: allocationParamsSchema.optional()
+})
+
+export const feeProposalRejectionSchema = z.object({
+  reason: z.string().max(500).optional()
+})
+
+export const actionRequestSchema = z.object({
+  type: z.string().min(1).max(100),
+  params: z.record(z.any()).default({})
+})
+
+// Comment on an approval, or reason for a rejection or cancellation
+export const actionDecisionSchema = z.object({
+  comment: z.string().max(500).optional(),
+  reason: z.string().max(500).optional()
+})
+
+// Backtest of the rebalancer over stored validator snapshots, or over snapshots
+// supplied in the body (ValidatorMetrics objects or exported metrics history)
+export const rebalancingBacktestSchema = z.object({
+  snapshots: z.array(z.object({
+    timestamp: z.string().datetime(),
+    validators: z.array(z.record(z.any())).optional(),
+    data: z.object({ validators: z.array(z.record(z.any())) }).passthrough().optional()
+  }).passthrough().refine(snapshot => snapshot.validators || snapshot.data, {
+    message: 'Each snapshot needs a validators list',
+    path: ['validators']
+  })).min(2).max(10000).optional(),
+  chainId: z.number().int().positive().optional(),
+  timeframe: z.enum(['24h', '7d', '30d', '90d']).default('30d'),
+  limit: z.number().int().min(2).max(10000).default(5000),
+  strategy: z.enum(['equal-weight', 'apy-weighted', 'risk-parity', 'capped']).optional(),
+  strategyParams: allocationParamsSchema.optional(),
+  minImprovement: z.number().optional(),
+  initialStake: amountSchema.default('1000'), // CORE
+  gasPerMove: z.number().int().positive().optional(),
+  gasPriceGwei: z.number().positive().optional()
+})
@@ -0,0 +1,130 @@
+import { Context, Hono } from 'hono'
+import { actionRequests } from '../services/instances'
+import { ActionRequestError } from '../services/ActionRequests'
+import type { ActionRequestStatus } from '../services/ActionRequests'
+import { jwtAuth, requireRole, UserRole, AuthUser } from '../middleware/auth'
+import { validateBody, actionRequestSchema, actionDecisionSchema } from '../middleware/validation'
+
+const actions = new Hono()
+
+/**
+ * Queue an action for approval on behalf of the authenticated user. Used by
+ * the routes that used to run privileged actions directly; responds 202 with
+ * the pending request and its preview.
+ */
+export async function submitAction(c: Context, type: string, params: Record<string, any>) {
+  try {
+    const request = await actionRequests.submit(type, params, c.get('user') as AuthUser)
+    return c.json({ success: true, message: `${type} is awaiting approval`, data: request }, 202)
+  } catch (error) {
+    if (error instanceof ActionRequestError) {
+      return c.json({ success: false, error: error.message }, error.status)
+    }
+    throw error
+  }
+}
+
+function errorResponse(c: Context, error: any) {
+  if (error instanceof ActionRequestError) {
+    return c.json({ success: false, error: error.message }, error.status)
+  }
+  return c.json({ success: false, error: error.message }, 500)
+}
+
+// Action types that can be requested, with their approval policy
+actions.get('/types', async (c) => {
+  try {
+    return c.json({ success: true, data: actionRequests.getTypes() })
+  } catch (error) {
+    return c.json({ success: false, error: error.message }, 500)
+  }
+})
+
+// Audit trail across all requests, oldest first
+actions.get('/audit', jwtAuth, requireRole(UserRole.OPERATOR), async (c) => {
+  try {
+    const limit = Math.min(parseInt(c.req.query('limit') || '200') || 200, 1000)
+    const entries = actionRequests.getAudit(undefined, limit)
+    
+    return c.json({ success: true, data: { entries, total: entries.length } })
+  } catch (error) {
+    return c.json({ success: false, error: error.message }, 500)
+  }
+})
+
+actions.get('/', jwtAuth, requireRole(UserRole.OPERATOR), async (c) => {
+  try {
+    const status = c.req.query('status') as ActionRequestStatus | undefined
+    const type = c.req.query('type')
+    const limit = Math.min(parseInt(c.req.query('limit') || '50') || 50, 200)
+    const requests = actionRequests.getRequests({ status, type }, limit)
+    
+    return c.json({ success: true, data: { requests, total: requests.length } })
+  } catch (error) {
+    return c.json({ success: false, error: error.message }, 500)
+  }
+})
+
+actions.get('/:requestId', jwtAuth, requireRole(UserRole.OPERATOR), async (c) => {
+  try {
+    const request = actionRequests.getRequest(c.req.param('requestId'))
+    
+    if (!request) {
+      return c.json({ success: false, error: 'Action request not found' }, 404)
+    }
+    
+    return c.json({ success: true, data: { ...request, audit: actionRequests.getAudit(request.id) } })
+  } catch (error) {
+    return c.json({ success: false, error: error.message }, 500)
+  }
+})
+
+// Request any registered action type
+actions.post('/', jwtAuth, requireRole(UserRole.OPERATOR), validateBody(actionRequestSchema), async (c) => {
+  try {
+    const { type, params } = c.get('validatedBody')
+    return await submitAction(c, type, params)
+  } catch (error) {
+    return c.json({ success: false, error: error.message }, 500)
+  }
+})
+
+// Approve a pending request; the action runs once it has its required approvals
+actions.post('/:requestId/approve', jwtAuth, requireRole(UserRole.ADMIN), validateBody(actionDecisionSchema), async (c) => {
+  try {
+    const user = c.get('user') as AuthUser
+    const request = await actionRequests.approve(c.req.param('requestId'), user, c.get('validatedBody').comment)
+    const message = request.status === 'pending'
+      ? `Approval recorded (${request.approvals.length} of ${request.approvalsRequired})`
+      : `Action ${request.status}`
+    
+    return c.json({ success: request.status !== 'failed', message, data: request })
+  } catch (error) {
+    return errorResponse(c, error)
+  }
+})
+
+actions.post('/:requestId/reject', jwtAuth, requireRole(UserRole.ADMIN), validateBody(actionDecisionSchema), async (c) => {
+  try {
+    const user = c.get('user') as AuthUser
+    const request = actionRequests.reject(c.req.param('requestId'), user, c.get('validatedBody').reason)
+    
+    return c.json({ success: true, message: 'Action request rejected', data: request })
+  } catch (error) {
+    return errorResponse(c, error)
+  }
+})
+
+// Withdraw a pending request; its requester or an admin
+actions.post('/:requestId/cancel', jwtAuth, requireRole(UserRole.OPERATOR), validateBody(actionDecisionSchema), async (c) => {
+  try {
+    const user = c.get('user') as AuthUser
+    const request = actionRequests.cancel(c.req.param('requestId'), user, c.get('validatedBody').reason)
+    
+    return c.json({ success: true, message: 'Action request cancelled', data: request })
+  } catch (error) {
+    return errorResponse(c, error)
+  }
+})
+
+export const actionRoutes = actions
@@ -1,8 +1,11 @@
 import { Hono } from 'hono'
-import { AlertManager } from '../services/AlertManager'
+import { alertManager, alertNotifier, isMonitoredChain } from '../services/instances'
+import { jwtAuth, requireRole, UserRole, AuthUser } from '../middleware/auth'
+import { validateBody, validateChainId, alertRuleSchema, alertRuleUpdateSchema, alertSilenceSchema } from '../middleware/validation'
 
 const alerts = new Hono()
-const alertManager = new AlertManager()
+
+alerts.use('*', validateChainId(isMonitoredChain))
 
 // Get all alerts
 alerts.get('/', async (c) => {
@@ -10,8 +13,10 @@ alerts.get('/', async (c) => {
     const limit = parseInt(c.req.query('limit') || '50')
     const acknowledged = c.req.query('acknowledged') === 'true' ? true : 
                         c.req.query('acknowledged') === 'false' ? false : undefined
+    const resolved = c.req.query('resolved') === 'true' ? true : 
+                    c.req.query('resolved') === 'false' ? false : undefined
     
-    const alertList = alertManager.getAlerts(limit, acknowledged)
+    const alertList = alertManager.getAlerts(limit, acknowledged, resolved, c.get('chainId'))
     
     return c.json({ 
       success: true, 
@@ -30,7 +35,7 @@ alerts.get('/', async (c) => {
 // Get alert statistics
 alerts.get('/stats', async (c) => {
   try {
-    const stats = alertManager.getAlertStats()
+    const stats = alertManager.getAlertStats(c.get('chainId'))
     return c.json({ success: true, data: stats })
   } catch (error) {
     return c.json({ success: false, error: error.message }, 500)
@@ -38,16 +43,17 @@ alerts.get('/stats', async (c) => {
 })
 
 // Acknowledge an alert
-alerts.patch('/:alertId/acknowledge', async (c) => {
+alerts.patch('/:alertId/acknowledge', jwtAuth, requireRole(UserRole.OPERATOR), async (c) => {
   try {
     const alertId = c.req.param('alertId')
-    const success = alertManager.acknowledgeAlert(alertId)
+    const user = c.get('user') as AuthUser
+    const success = alertManager.acknowledgeAlert(alertId, user.id)
     
     if (success) {
       return c.json({ 
         success: true, 
         message: 'Alert acknowledged',
-        data: { alertId }
+        data: alertManager.getAlert(alertId)
       })
     } else {
       return c.json({ 
@@ -60,6 +66,99 @@ alerts.patch('/:alertId/acknowledge', async (c) => {
   }
 })
 
+// Resolve an alert
+alerts.patch('/:alertId/resolve', jwtAuth, requireRole(UserRole.OPERATOR), async (c) => {
+  try {
+    const alertId = c.req.param('alertId')
+    const user = c.get('user') as AuthUser
+    
+    if (!alertManager.resolveAlert(alertId, user.id)) {
+      return c.json({ success: false, error: 'Alert not found' }, 404)
+    }
+    
+    return c.json({ 
+      success: true, 
+      message: 'Alert resolved',
+      data: alertManager.getAlert(alertId)
+    })
+  } catch (error) {
+    return c.json({ success: false, error: error.message }, 500)
+  }
+})
+
+// List silences
+alerts.get('/silences', async (c) => {
+  try {
+    const silences = alertManager.getSilences(c.req.query('includeExpired') === 'true', Date.now(), c.get('chainId'))
+    
+    return c.json({ 
+      success: true, 
+      data: silences,
+      count: silences.length
+    })
+  } catch (error) {
+    return c.json({ success: false, error: error.message }, 500)
+  }
+})
+
+// Silence alerts for a rule and/or category
+alerts.post('/silences', jwtAuth, requireRole(UserRole.OPERATOR), validateBody(alertSilenceSchema), async (c) => {
+  try {
+    const { ruleId, category, chainId, reason, startsAt, endsAt, durationMinutes } = c.get('validatedBody')
+    const user = c.get('user') as AuthUser
+    
+    if (ruleId && !alertManager.getRule(ruleId)) {
+      return c.json({ success: false, error: 'Alert rule not found' }, 404)
+    }
+    if (chainId !== undefined && !isMonitoredChain(chainId)) {
+      return c.json({ success: false, error: `Chain ${chainId} is not monitored` }, 404)
+    }
+    
+    const start = startsAt ? new Date(startsAt).getTime() : Date.now()
+    const end = endsAt ? new Date(endsAt).getTime() : start + durationMinutes * 60 * 1000
+    if (end <= start) {
+      return c.json({ success: false, error: 'Silence must end after it starts' }, 400)
+    }
+    
+    const silence = alertManager.createSilence({
+      ruleId,
+      category,
+      chainId,
+      reason,
+      createdBy: user.id,
+      startsAt: new Date(start).toISOString(),
+      endsAt: new Date(end).toISOString()
+    })
+    
+    return c.json({ 
+      success: true, 
+      message: 'Silence created',
+      data: silence
+    }, 201)
+  } catch (error) {
+    return c.json({ success: false, error: error.message }, 500)
+  }
+})
+
+// Expire a silence early
+alerts.delete('/silences/:silenceId', jwtAuth, requireRole(UserRole.OPERATOR), async (c) => {
+  try {
+    const silenceId = c.req.param('silenceId')
+    
+    if (!alertManager.expireSilence(silenceId)) {
+      return c.json({ success: false, error: 'Silence not found' }, 404)
+    }
+    
+    return c.json({ 
+      success: true, 
+      message: 'Silence expired',
+      data: { silenceId }
+    })
+  } catch (error) {
+    return c.json({ success: false, error: error.message }, 500)
+  }
+})
+
 // Create custom alert
 alerts.post('/custom', async (c) => {
   try {
@@ -91,7 +190,7 @@ alerts.get('/category/:category', async (c) => {
     const category = c.req.param('category')
     const limit = parseInt(c.req.query('limit') || '50')
     
-    const allAlerts = alertManager.getAlerts()
+    const allAlerts = alertManager.getAlerts(undefined, undefined, undefined, c.get('chainId'))
     const categoryAlerts = allAlerts
       .filter(alert => alert.category === category)
       .slice(0, limit)
@@ -113,7 +212,7 @@ alerts.get('/type/:type', async (c) => {
     const type = c.req.param('type')
     const limit = parseInt(c.req.query('limit') || '50')
     
-    const allAlerts = alertManager.getAlerts()
+    const allAlerts = alertManager.getAlerts(undefined, undefined, undefined, c.get('chainId'))
     const typeAlerts = allAlerts
       .filter(alert => alert.type === type)
       .slice(0, limit)
@@ -129,6 +228,201 @@ alerts.get('/type/:type', async (c) => {
   }
 })
 
+// List alert rules
+alerts.get('/rules', async (c) => {
+  try {
+    const category = c.req.query('category')
+    const rules = alertManager.getRules().filter(rule => !category || rule.category === category)
+    
+    return c.json({ 
+      success: true, 
+      data: rules,
+      count: rules.length
+    })
+  } catch (error) {
+    return c.json({ success: false, error: error.message }, 500)
+  }
+})
+
+// Get a single alert rule
+alerts.get('/rules/:ruleId', async (c) => {
+  try {
+    const rule = alertManager.getRule(c.req.param('ruleId'))
+    
+    if (!rule) {
+      return c.json({ success: false, error: 'Alert rule not found' }, 404)
+    }
+    
+    return c.json({ success: true, data: rule })
+  } catch (error) {
+    return c.json({ success: false, error: error.message }, 500)
+  }
+})
+
+// Create an alert rule
+alerts.post('/rules', jwtAuth, requireRole(UserRole.OPERATOR), validateBody(alertRuleSchema), async (c) => {
+  try {
+    const rule = c.get('validatedBody')
+    
+    if (alertManager.getRule(rule.id)) {
+      return c.json({ success: false, error: `Alert rule already exists: ${rule.id}` }, 409)
+    }
+    
+    return c.json({ 
+      success: true, 
+      message: 'Alert rule created',
+      data: alertManager.createRule(rule)
+    }, 201)
+  } catch (error) {
+    return c.json({ success: false, error: error.message }, 500)
+  }
+})
+
+// Reload alert rules from the rules file
+alerts.post('/rules/reload', jwtAuth, requireRole(UserRole.OPERATOR), async (c) => {
+  try {
+    const rules = alertManager.reloadRules()
+    
+    return c.json({ 
+      success: true, 
+      message: 'Alert rules reloaded',
+      data: rules,
+      count: rules.length
+    })
+  } catch (error) {
+    return c.json({ success: false, error: error.message }, 400)
+  }
+})
+
+// Update an alert rule (partial)
+alerts.patch('/rules/:ruleId', jwtAuth, requireRole(UserRole.OPERATOR), validateBody(alertRuleUpdateSchema), async (c) => {
+  try {
+    const ruleId = c.req.param('ruleId')
+    const existing = alertManager.getRule(ruleId)
+    
+    if (!existing) {
+      return c.json({ success: false, error: 'Alert rule not found' }, 404)
+    }
+    
+    // Validate the merged rule, since e.g. a new comparator may not suit the existing threshold
+    const { window, forEach, ...changes } = c.get('validatedBody')
+    const merged = { ...existing, ...changes, id: ruleId }
+    if (window === null) {
+      delete merged.window
+    } else if (window !== undefined) {
+      merged.window = window
+    }
+    if (forEach === null) {
+      delete merged.forEach
+    } else if (forEach !== undefined) {
+      merged.forEach = forEach
+    }
+    
+    const result = alertRuleSchema.safeParse(merged)
+    if (!result.success) {
+      return c.json({ error: 'Validation failed', details: result.error.errors }, 400)
+    }
+    
+    return c.json({ 
+      success: true, 
+      message: 'Alert rule updated',
+      data: alertManager.updateRule(ruleId, result.data)
+    })
+  } catch (error) {
+    return c.json({ success: false, error: error.message }, 500)
+  }
+})
+
+// Delete an alert rule
+alerts.delete('/rules/:ruleId', jwtAuth, requireRole(UserRole.OPERATOR), async (c) => {
+  try {
+    const ruleId = c.req.param('ruleId')
+    
+    if (!alertManager.deleteRule(ruleId)) {
+      return c.json({ success: false, error: 'Alert rule not found' }, 404)
+    }
+    
+    return c.json({ 
+      success: true, 
+      message: 'Alert rule deleted',
+      data: { ruleId }
+    })
+  } catch (error) {
+    return c.json({ success: false, error: error.message }, 500)
+  }
+})
+
+// Get notification delivery history
+alerts.get('/notifications/deliveries', async (c) => {
+  try {
+    const limit = parseInt(c.req.query('limit') || '50')
+    const status = c.req.query('status') as 'pending' | 'retrying' | 'delivered' | 'failed' | undefined
+    
+    const deliveries = alertNotifier.getDeliveries({
+      alertId: c.req.query('alertId'),
+      channel: c.req.query('channel'),
+      status,
+      limit
+    })
+    
+    return c.json({ 
+      success: true, 
+      data: deliveries,
+      count: deliveries.length
+    })
+  } catch (error) {
+    return c.json({ success: false, error: error.message }, 500)
+  }
+})
+
+// Get configured notification channels and routing rules
+alerts.get('/notifications/channels', async (c) => {
+  try {
+    return c.json({ 
+      success: true, 
+      data: {
+        channels: alertNotifier.getChannelSummaries(),
+        routes: alertNotifier.getRoutes()
+      }
+    })
+  } catch (error) {
+    return c.json({ success: false, error: error.message }, 500)
+  }
+})
+
+// Send a test notification through a channel
+alerts.post('/notifications/test/:channelId', jwtAuth, requireRole(UserRole.OPERATOR), async (c) => {
+  try {
+    const channelId = c.req.param('channelId')
+    const delivery = await alertNotifier.sendTest(channelId)
+    
+    return c.json({ 
+      success: delivery.status === 'delivered', 
+      message: delivery.status === 'delivered' ? 'Test notification delivered' : `Test notification ${delivery.status}`,
+      data: delivery
+    })
+  } catch (error) {
+    return c.json({ success: false, error: error.message }, 404)
+  }
+})
+
+// Get notification deliveries for a single alert
+alerts.get('/:alertId/deliveries', async (c) => {
+  try {
+    const alertId = c.req.param('alertId')
+    const deliveries = alertNotifier.getDeliveries({ alertId })
+    
+    return c.json({ 
+      success: true, 
+      data: deliveries,
+      alertId,
+      count: deliveries.length
+    })
+  } catch (error) {
+    return c.json({ success: false, error: error.message }, 500)
+  }
+})
+
 // Clear old alerts
 alerts.delete('/cleanup', async (c) => {
   try {
@@ -1,16 +1,47 @@
 import { Hono } from 'hono'
-import { AutomationEngine } from '../services/AutomationEngine'
-import { AutomatedRebalancer } from '../services/AutomatedRebalancer'
+import { parseEther } from 'viem'
 import { ValidatorMonitor } from '../services/ValidatorMonitor'
+import { actionRequests, automationEngine, feeManager, getNetworkMonitor, metricsCollector, rebalancer } from '../services/instances'
+import { DEFAULT_BACKTEST_GAS, runBacktest, toBacktestSnapshots } from '../services/RebalancingBacktester'
+import { AuthUser, jwtAuth, requireRole, UserRole } from '../middleware/auth'
+import { validateBody, automationTaskUpdateSchema, feeProposalRejectionSchema, rebalancingBacktestSchema, rebalancingConfigSchema } from '../middleware/validation'
+import type { FeeProposalStatus } from '../services/FeeManager'
+import { getTransactionManagers } from '../services/TransactionManager'
+import { submitAction } from './actions'
 
 const automation = new Hono()
-const automationEngine = new AutomationEngine()
-const rebalancer = new AutomatedRebalancer(60) // 60 minute intervals
 const validatorMonitor = new ValidatorMonitor()
 
 // Start automated rebalancing on module load
 rebalancer.start()
 
+// Manual rebalancing and out-of-schedule task runs are queued for admin approval
+actionRequests.register({
+  type: 'rebalancing.trigger',
+  description: 'Run a manual rebalancing of validator delegations',
+  policy: { approvals: 1 },
+  preview: async () => {
+    const plan = await rebalancer.triggerManualRebalancing({ dryRun: true })
+    const calls = plan.dryRun ? plan.transactions?.length ?? 0 : 0
+    return { effect: calls > 0 ? `Sends ${calls} manualRebalance call(s) as planned` : `Nothing to rebalance: ${plan.reason}`, plan }
+  },
+  execute: async () => rebalancer.triggerManualRebalancing()
+})
+
+actionRequests.register({
+  type: 'automation.run-task',
+  description: 'Run an automation task now, outside its schedule',
+  policy: { approvals: 1 },
+  preview: async (params) => {
+    const task = automationEngine.getTask(params.taskId)
+    if (!task) throw new Error(`Task ${params.taskId} not found`)
+    
+    const { id, name, type, action, enabled, lastRun, nextRun } = task
+    return { effect: `Runs ${name} once`, task: { id, name, type, action, enabled, lastRun, nextRun } }
+  },
+  execute: async (params) => automationEngine.runTask(params.taskId)
+})
+
 // Get all automation tasks
 automation.get('/tasks', async (c) => {
   try {
@@ -21,46 +52,98 @@ automation.get('/tasks', async (c) => {
   }
 })
 
-// Toggle automation task
-automation.patch('/tasks/:taskId/toggle', async (c) => {
+// Get one automation task with its most recent runs
+automation.get('/tasks/:taskId', async (c) => {
   try {
     const taskId = c.req.param('taskId')
-    const body = await c.req.json()
-    const { enabled } = body
-    
-    const success = automationEngine.toggleTask(taskId, enabled)
-    
-    if (success) {
-      return c.json({ 
-        success: true, 
-        message: `Task ${enabled ? 'enabled' : 'disabled'}`,
-        data: { taskId, enabled }
-      })
-    } else {
+    const task = automationEngine.getTask(taskId)
+    
+    if (!task) {
       return c.json({ success: false, error: 'Task not found' }, 404)
     }
+    
+    return c.json({ 
+      success: true, 
+      data: { ...task, recentRuns: automationEngine.getTaskRuns(taskId, 10) }
+    })
   } catch (error) {
     return c.json({ success: false, error: error.message }, 500)
   }
 })
 
-// Update task parameters
-automation.patch('/tasks/:taskId/parameters', async (c) => {
+// Run history of a task (newest first) with duration, outcome and error
+automation.get('/tasks/:taskId/runs', async (c) => {
   try {
     const taskId = c.req.param('taskId')
-    const parameters = await c.req.json()
+    const limit = Math.min(parseInt(c.req.query('limit') || '50') || 50, 200)
     
-    const success = automationEngine.updateTaskParameters(taskId, parameters)
+    if (!automationEngine.getTask(taskId)) {
+      return c.json({ success: false, error: 'Task not found' }, 404)
+    }
+    
+    const runs = automationEngine.getTaskRuns(taskId, limit)
+    return c.json({ success: true, data: { runs, total: runs.length } })
+  } catch (error) {
+    return c.json({ success: false, error: error.message }, 500)
+  }
+})
+
+// Edit a task: enable/disable, change its schedule ({type: 'interval', minutes} or
+// {type: 'cron', expression}) and/or merge parameters
+automation.patch('/tasks/:taskId', jwtAuth, requireRole(UserRole.OPERATOR), validateBody(automationTaskUpdateSchema), async (c) => {
+  try {
+    const task = automationEngine.editTask(c.req.param('taskId'), c.get('validatedBody'))
     
-    if (success) {
-      return c.json({ 
-        success: true, 
-        message: 'Task parameters updated',
-        data: { taskId, parameters }
-      })
-    } else {
+    if (!task) {
       return c.json({ success: false, error: 'Task not found' }, 404)
     }
+    
+    return c.json({ success: true, message: 'Task updated', data: task })
+  } catch (error) {
+    return c.json({ success: false, error: error.message }, 500)
+  }
+})
+
+// Pause a task; it keeps its schedule and counters but won't run until resumed
+automation.post('/tasks/:taskId/pause', jwtAuth, requireRole(UserRole.OPERATOR), async (c) => {
+  try {
+    const task = automationEngine.pauseTask(c.req.param('taskId'))
+    
+    if (!task) {
+      return c.json({ success: false, error: 'Task not found' }, 404)
+    }
+    
+    return c.json({ success: true, message: 'Task paused', data: task })
+  } catch (error) {
+    return c.json({ success: false, error: error.message }, 500)
+  }
+})
+
+// Resume a paused task; its next run is scheduled from now
+automation.post('/tasks/:taskId/resume', jwtAuth, requireRole(UserRole.OPERATOR), async (c) => {
+  try {
+    const task = automationEngine.resumeTask(c.req.param('taskId'))
+    
+    if (!task) {
+      return c.json({ success: false, error: 'Task not found' }, 404)
+    }
+    
+    return c.json({ success: true, message: 'Task resumed', data: task })
+  } catch (error) {
+    return c.json({ success: false, error: error.message }, 500)
+  }
+})
+
+// Request a run of a task outside its schedule; it runs once an admin approves
+automation.post('/tasks/:taskId/run', jwtAuth, requireRole(UserRole.OPERATOR), async (c) => {
+  try {
+    const taskId = c.req.param('taskId')
+    
+    if (!automationEngine.getTask(taskId)) {
+      return c.json({ success: false, error: 'Task not found' }, 404)
+    }
+    
+    return await submitAction(c, 'automation.run-task', { taskId })
   } catch (error) {
     return c.json({ success: false, error: error.message }, 500)
   }
@@ -77,6 +160,7 @@ automation.get('/rebalancing/status', async (c) => {
       success: true, 
       data: { 
         status, 
+        execution: rebalancer.getExecutionConfig(),
         statistics, 
         recentHistory: history 
       } 
@@ -86,10 +170,10 @@ automation.get('/rebalancing/status', async (c) => {
   }
 })
 
-// Update rebalancing configuration
-automation.patch('/rebalancing/config', async (c) => {
+// Update rebalancing configuration (thresholds, interval, enabled, allocation strategy and its parameters)
+automation.patch('/rebalancing/config', jwtAuth, requireRole(UserRole.OPERATOR), validateBody(rebalancingConfigSchema), async (c) => {
   try {
-    const config = await c.req.json()
+    const config = c.get('validatedBody')
     
     if (config.thresholds) {
       rebalancer.updateThresholds(config.thresholds)
@@ -103,24 +187,88 @@ automation.patch('/rebalancing/config', async (c) => {
       rebalancer.setEnabled(config.enabled)
     }
     
+    if (config.strategy || config.strategyParams) {
+      rebalancer.updateStrategy(config.strategy, config.strategyParams)
+    }
+    
     return c.json({ 
       success: true, 
       message: 'Rebalancing configuration updated',
-      data: config
+      data: rebalancer.getStatus()
+    })
+  } catch (error) {
+    return c.json({ success: false, error: error.message }, 500)
+  }
+})
+
+// Compare every allocation strategy's target (expected APY, concentration) for the current validators
+automation.get('/rebalancing/strategies', async (c) => {
+  try {
+    const comparison = await rebalancer.compareStrategies()
+    
+    return c.json({ 
+      success: true, 
+      data: comparison
+    })
+  } catch (error) {
+    return c.json({ success: false, error: error.message }, 500)
+  }
+})
+
+// Replay stored (or supplied) validator snapshots through the rebalancer. Strategy,
+// parameters and minImprovement default to the rebalancer's current configuration.
+automation.post('/rebalancing/backtest', validateBody(rebalancingBacktestSchema), async (c) => {
+  try {
+    const body = c.get('validatedBody')
+    const status = rebalancer.getStatus()
+    
+    let records = body.snapshots
+    if (!records) {
+      const monitor = getNetworkMonitor(body.chainId)
+      if (!monitor) {
+        return c.json({ success: false, error: `Chain ${body.chainId} is not monitored` }, 404)
+      }
+      records = await metricsCollector.getHistory('validators', body.limit, body.timeframe, monitor.chainId)
+    }
+    
+    const snapshots = toBacktestSnapshots(records)
+    if (snapshots.length < 2) {
+      return c.json({ success: false, error: 'At least two validator snapshots are needed for a backtest' }, 400)
+    }
+    
+    const report = runBacktest(snapshots, {
+      strategy: body.strategy ?? status.strategy,
+      params: { ...status.strategyParams, ...body.strategyParams },
+      minImprovement: body.minImprovement ?? status.thresholds.minImprovement,
+      initialStake: parseEther(body.initialStake),
+      gasPerMove: body.gasPerMove ?? DEFAULT_BACKTEST_GAS.gasPerMove,
+      gasPriceGwei: body.gasPriceGwei ?? DEFAULT_BACKTEST_GAS.gasPriceGwei
+    })
+    
+    return c.json({ 
+      success: true, 
+      data: report
     })
   } catch (error) {
     return c.json({ success: false, error: error.message }, 500)
   }
 })
 
-// Manual rebalancing trigger
-automation.post('/rebalancing/trigger', async (c) => {
+// Manual rebalancing trigger; ?dryRun=true (or {"dryRun": true}) returns the calldata plan
+// straight away, otherwise the rebalancing is queued for admin approval
+automation.post('/rebalancing/trigger', jwtAuth, requireRole(UserRole.OPERATOR), async (c) => {
   try {
-    const result = await rebalancer.triggerManualRebalancing()
+    const body = await c.req.json().catch(() => ({}))
+    const dryRun = c.req.query('dryRun') === 'true' || body.dryRun === true
+    
+    if (!dryRun) {
+      return await submitAction(c, 'rebalancing.trigger', {})
+    }
     
+    const result = await rebalancer.triggerManualRebalancing({ dryRun: true })
     return c.json({ 
       success: true, 
-      message: 'Manual rebalancing completed',
+      message: 'Rebalancing plan generated (dry run)',
       data: result
     })
   } catch (error) {
@@ -160,74 +308,156 @@ automation.get('/validators/analysis', async (c) => {
   }
 })
 
-// Simulate validator state changes for testing
-automation.post('/validators/simulate', async (c) => {
+// Get risk parameters
+automation.get('/risk/parameters', async (c) => {
   try {
-    const changes = await c.req.json()
-    
-    const result = await rebalancer.simulateValidatorStateChanges(changes)
+    const parameters = automationEngine.getRiskParameters()
+    return c.json({ success: true, data: parameters })
+  } catch (error) {
+    return c.json({ success: false, error: error.message }, 500)
+  }
+})
+
+// Update risk parameters; these include the circuit breaker's pause conditions, so admin only
+automation.patch('/risk/parameters', jwtAuth, requireRole(UserRole.ADMIN), async (c) => {
+  try {
+    const parameters = await c.req.json()
+    automationEngine.updateRiskParameters(parameters)
     
     return c.json({ 
       success: true, 
-      message: result.message,
-      data: { 
-        applied: result.success,
-        changes
-      }
+      message: 'Risk parameters updated',
+      data: parameters
     })
   } catch (error) {
     return c.json({ success: false, error: error.message }, 500)
   }
 })
 
-// Get risk parameters
-automation.get('/risk/parameters', async (c) => {
+// Fee change proposals from the dynamic-fees task, newest first (?status=pending,recommended)
+automation.get('/fees/proposals', async (c) => {
   try {
-    const parameters = automationEngine.getRiskParameters()
-    return c.json({ success: true, data: parameters })
+    const statuses = (c.req.query('status') || '').split(',').filter(Boolean) as FeeProposalStatus[]
+    const limit = Math.min(parseInt(c.req.query('limit') || '50') || 50, 200)
+    const proposals = feeManager.getProposals(statuses, limit)
+    
+    return c.json({ success: true, data: { proposals, total: proposals.length } })
   } catch (error) {
     return c.json({ success: false, error: error.message }, 500)
   }
 })
 
-// Update risk parameters
-automation.patch('/risk/parameters', async (c) => {
+automation.get('/fees/proposals/:proposalId', async (c) => {
   try {
-    const parameters = await c.req.json()
-    automationEngine.updateRiskParameters(parameters)
+    const proposal = feeManager.getProposal(c.req.param('proposalId'))
+    
+    if (!proposal) {
+      return c.json({ success: false, error: 'Fee proposal not found' }, 404)
+    }
+    
+    return c.json({ success: true, data: proposal })
+  } catch (error) {
+    return c.json({ success: false, error: error.message }, 500)
+  }
+})
+
+// Approve a pending fee proposal and send its StakeBasket transactions (calldata only without a signer)
+automation.post('/fees/proposals/:proposalId/approve', jwtAuth, requireRole(UserRole.ADMIN), async (c) => {
+  try {
+    const proposal = feeManager.getProposal(c.req.param('proposalId'))
+    const user = c.get('user') as AuthUser
     
+    if (!proposal) {
+      return c.json({ success: false, error: 'Fee proposal not found' }, 404)
+    }
+    if (proposal.status !== 'pending') {
+      return c.json({ success: false, error: `Fee proposal is ${proposal.status}` }, 409)
+    }
+    
+    const decided = await feeManager.approve(proposal.id, user.id)
     return c.json({ 
-      success: true, 
-      message: 'Risk parameters updated',
-      data: parameters
+      success: decided.status !== 'failed', 
+      message: decided.status === 'approved' ? 'Fee proposal approved; no signer configured, send the calldata manually' : `Fee proposal ${decided.status}`,
+      data: decided
+    })
+  } catch (error) {
+    return c.json({ success: false, error: error.message }, 500)
+  }
+})
+
+automation.post('/fees/proposals/:proposalId/reject', jwtAuth, requireRole(UserRole.ADMIN), validateBody(feeProposalRejectionSchema), async (c) => {
+  try {
+    const proposal = feeManager.getProposal(c.req.param('proposalId'))
+    const user = c.get('user') as AuthUser
+    
+    if (!proposal) {
+      return c.json({ success: false, error: 'Fee proposal not found' }, 404)
+    }
+    if (proposal.status !== 'pending') {
+      return c.json({ success: false, error: `Fee proposal is ${proposal.status}` }, 409)
+    }
+    
+    const decided = feeManager.reject(proposal.id, user.id, c.get('validatedBody').reason)
+    return c.json({ success: true, message: 'Fee proposal rejected', data: decided })
+  } catch (error) {
+    return c.json({ success: false, error: error.message }, 500)
+  }
+})
+
+// Circuit breaker state: armed or tripped, the conditions last evaluated and past trips
+automation.get('/guardian', async (c) => {
+  try {
+    return c.json({ success: true, data: automationEngine.getGuardianStatus() })
+  } catch (error) {
+    return c.json({ success: false, error: error.message }, 500)
+  }
+})
+
+// Each backend signer's transaction queue: next nonce, the in-flight transaction and recent sends
+automation.get('/transactions', async (c) => {
+  try {
+    return c.json({ success: true, data: getTransactionManagers().map(manager => manager.getStatus()) })
+  } catch (error) {
+    return c.json({ success: false, error: error.message }, 500)
+  }
+})
+
+// Unpause the contracts the circuit breaker paused and re-arm it (admin only)
+automation.post('/guardian/unpause', jwtAuth, requireRole(UserRole.ADMIN), async (c) => {
+  try {
+    const user = c.get('user') as AuthUser
+    
+    if (automationEngine.getGuardianStatus().state !== 'tripped') {
+      return c.json({ success: false, error: 'Circuit breaker is not tripped' }, 409)
+    }
+    
+    const trip = await automationEngine.resetGuardian(user.id)
+    const failed = trip.resetActions!.filter(action => action.status === 'failed' || action.status === 'reverted')
+    
+    return c.json({ 
+      success: failed.length === 0, 
+      message: failed.length === 0 ? 'Contracts unpaused' : `Could not unpause ${failed.map(a => a.contract).join(', ')}`,
+      data: trip
     })
   } catch (error) {
     return c.json({ success: false, error: error.message }, 500)
   }
 })
 
-// Manual trigger for automation tasks
-automation.post('/trigger/:taskId', async (c) => {
+// Manual trigger for automation tasks, queued for admin approval
+automation.post('/trigger/:taskId', jwtAuth, requireRole(UserRole.OPERATOR), async (c) => {
   try {
     const taskId = c.req.param('taskId')
     
     if (taskId === 'rebalancing') {
-      const result = await rebalancer.triggerManualRebalancing()
-      return c.json({ 
-        success: true, 
-        message: 'Rebalancing task triggered manually',
-        data: { taskId, result, timestamp: new Date().toISOString() }
-      })
-    } else {
-      // This would trigger other automation tasks
-      await automationEngine.runAutomatedTasks()
-      
-      return c.json({ 
-        success: true, 
-        message: 'Automation task triggered manually',
-        data: { taskId, timestamp: new Date().toISOString() }
-      })
+      return await submitAction(c, 'rebalancing.trigger', {})
     }
+    
+    if (!automationEngine.getTask(taskId)) {
+      return c.json({ success: false, error: 'Task not found' }, 404)
+    }
+    
+    return await submitAction(c, 'automation.run-task', { taskId })
   } catch (error) {
     return c.json({ success: false, error: error.message }, 500)
   }
@@ -239,7 +469,7 @@ automation.get('/status', async (c) => {
     const tasks = automationEngine.getAutomationTasks()
     const enabledTasks = tasks.filter(t => t.enabled)
     const lastRuns = tasks.map(t => new Date(t.lastRun).getTime())
-    const nextRuns = tasks.map(t => new Date(t.nextRun).getTime())
+    const nextRuns = tasks.filter(t => t.nextRun !== null).map(t => new Date(t.nextRun!).getTime()) // paused tasks have none
     
     // Get rebalancing status
     const rebalancingStatus = rebalancer.getStatus()
@@ -254,8 +484,8 @@ automation.get('/status', async (c) => {
         new Date(Math.max(Math.max(...lastRuns), new Date(rebalancingStatus.lastRun).getTime())).toISOString() :
         new Date(Math.max(...lastRuns)).toISOString(),
       nextScheduled: rebalancingStatus.nextRun ?
-        new Date(Math.min(Math.min(...nextRuns), new Date(rebalancingStatus.nextRun).getTime())).toISOString() :
-        new Date(Math.min(...nextRuns)).toISOString(),
+        new Date(Math.min(...nextRuns, new Date(rebalancingStatus.nextRun).getTime())).toISOString() :
+        nextRuns.length > 0 ? new Date(Math.min(...nextRuns)).toISOString() : null,
       
       // Rebalancing specific
       rebalancing: {
@@ -1,8 +1,11 @@
 import { Hono } from 'hono'
-import { MetricsCollector } from '../services/MetricsCollector'
+import { metricsCollector, isMonitoredChain } from '../services/instances'
+import { WINDOWS } from '../services/RequestStats'
+import { validateChainId } from '../middleware/validation'
 
 const metrics = new Hono()
-const metricsCollector = new MetricsCollector()
+
+metrics.use('*', validateChainId(isMonitoredChain))
 
 // Get historical metrics
 metrics.get('/history', async (c) => {
@@ -11,12 +14,13 @@ metrics.get('/history', async (c) => {
     const limit = parseInt(c.req.query('limit') || '100')
     const timeframe = c.req.query('timeframe') || '24h'
     
-    const history = await metricsCollector.getHistory(type, limit, timeframe)
+    const chainId = c.get('chainId')
+    const history = await metricsCollector.getHistory(type, limit, timeframe, chainId)
     
     return c.json({ 
       success: true, 
       data: history,
-      metadata: { type, limit, timeframe }
+      metadata: { type, limit, timeframe, chainId: chainId ?? null }
     })
   } catch (error) {
     return c.json({ success: false, error: error.message }, 500)
@@ -27,7 +31,7 @@ metrics.get('/history', async (c) => {
 metrics.get('/summary', async (c) => {
   try {
     const timeframe = c.req.query('timeframe') || '24h'
-    const summary = await metricsCollector.getSummary(timeframe)
+    const summary = await metricsCollector.getSummary(timeframe, c.get('chainId'))
     
     return c.json({ success: true, data: summary })
   } catch (error) {
@@ -35,10 +39,25 @@ metrics.get('/summary', async (c) => {
   }
 })
 
-// Get real-time performance metrics
+// Get real-time API performance metrics (window: 1m, 5m, 15m, 1h, 24h)
 metrics.get('/performance', async (c) => {
   try {
-    const performance = await metricsCollector.getPerformanceMetrics()
+    const window = c.req.query('window') || '5m'
+    const route = c.req.query('route')
+    
+    if (!WINDOWS[window]) {
+      return c.json({ success: false, error: `Invalid window. Use: ${Object.keys(WINDOWS).join(', ')}` }, 400)
+    }
+    
+    const performance = await metricsCollector.getPerformanceMetrics(window)
+    
+    if (route) {
+      const routeStats = performance.routes.find((r: any) => r.route === route)
+      if (!routeStats) {
+        return c.json({ success: false, error: `No requests recorded for route ${route} in the last ${window}` }, 404)
+      }
+      return c.json({ success: true, data: { window, ...routeStats } })
+    }
     
     return c.json({ success: true, data: performance })
   } catch (error) {
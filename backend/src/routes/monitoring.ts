@@ -1,13 +1,34 @@
 import { Hono } from 'hono'
-import { ContractMonitor } from '../services/ContractMonitor'
+import { getNetworkMonitor, isMonitoredChain, networkMonitors } from '../services/instances'
+import type { EventCategory } from '../storage/EventStore'
+import { validateChainId } from '../middleware/validation'
 import { broadcast } from '../index'
 
 const monitoring = new Hono()
-const contractMonitor = new ContractMonitor()
+
+// ?chainId= picks the network; without it routes use the default (first) monitored network
+monitoring.use('*', validateChainId(isMonitoredChain))
+
+// List the monitored networks
+monitoring.get('/networks', async (c) => {
+  try {
+    const networks = networkMonitors.map((monitor, index) => ({
+      key: monitor.network.key,
+      chainId: monitor.chainId,
+      name: monitor.network.chain.name,
+      default: index === 0,
+      contracts: monitor.network.contracts
+    }))
+    return c.json({ success: true, data: networks })
+  } catch (error) {
+    return c.json({ success: false, error: error.message }, 500)
+  }
+})
 
 // Get current contract metrics
 monitoring.get('/metrics', async (c) => {
   try {
+    const { contractMonitor } = getNetworkMonitor(c.get('chainId'))!
     const metrics = await contractMonitor.collectMetrics()
     return c.json({ success: true, data: metrics })
   } catch (error) {
@@ -18,6 +39,7 @@ monitoring.get('/metrics', async (c) => {
 // Get price feed data
 monitoring.get('/prices', async (c) => {
   try {
+    const { contractMonitor } = getNetworkMonitor(c.get('chainId'))!
     const priceData = await contractMonitor.checkPriceFeeds()
     return c.json({ success: true, data: priceData })
   } catch (error) {
@@ -25,12 +47,54 @@ monitoring.get('/prices', async (c) => {
   }
 })
 
-// Get contract events
+// Get indexed contract events (newest first)
 monitoring.get('/events', async (c) => {
   try {
-    const fromBlock = parseInt(c.req.query('fromBlock') || '-100')
-    const events = await contractMonitor.getContractEvents(fromBlock)
-    return c.json({ success: true, data: events })
+    const limit = Math.min(parseInt(c.req.query('limit') || '50'), 500)
+    const offset = parseInt(c.req.query('offset') || '0')
+    const fromBlock = c.req.query('fromBlock')
+    const toBlock = c.req.query('toBlock')
+    const category = c.req.query('category')
+    
+    if (isNaN(limit) || limit < 1 || isNaN(offset) || offset < 0) {
+      return c.json({ success: false, error: 'limit must be positive and offset non-negative' }, 400)
+    }
+    
+    // The event store is shared by every network, so always scope the query to one
+    const { eventIndexer, chainId } = getNetworkMonitor(c.get('chainId'))!
+    const { events, total } = eventIndexer.getStore().queryEvents({
+      chainId,
+      contract: c.req.query('contract'),
+      eventName: c.req.query('event'),
+      categories: category ? category.split(',') as EventCategory[] : undefined,
+      account: c.req.query('account'),
+      fromBlock: fromBlock ? parseInt(fromBlock) : undefined,
+      toBlock: toBlock ? parseInt(toBlock) : undefined,
+      limit,
+      offset
+    })
+    
+    return c.json({ 
+      success: true, 
+      data: events,
+      pagination: {
+        limit,
+        offset,
+        total,
+        hasMore: offset + events.length < total
+      }
+    })
+  } catch (error) {
+    return c.json({ success: false, error: error.message }, 500)
+  }
+})
+
+// Event indexer progress: cursor, lag behind head, reorgs handled
+monitoring.get('/events/status', async (c) => {
+  try {
+    const { eventIndexer } = getNetworkMonitor(c.get('chainId'))!
+    const status = await eventIndexer.getStatus()
+    return c.json({ success: true, data: status })
   } catch (error) {
     return c.json({ success: false, error: error.message }, 500)
   }
@@ -39,12 +103,14 @@ monitoring.get('/events', async (c) => {
 // Real-time monitoring status
 monitoring.get('/status', async (c) => {
   try {
+    const { contractMonitor, chainId } = getNetworkMonitor(c.get('chainId'))!
     const [metrics, priceData] = await Promise.all([
       contractMonitor.collectMetrics(),
       contractMonitor.checkPriceFeeds()
     ])
     
     const status = {
+      chainId,
       contract: {
         operational: metrics.performanceScore > 70,
         performance: metrics.performanceScore,
@@ -70,6 +136,7 @@ monitoring.get('/status', async (c) => {
 // Trigger manual monitoring update
 monitoring.post('/refresh', async (c) => {
   try {
+    const { contractMonitor } = getNetworkMonitor(c.get('chainId'))!
     const [metrics, priceData] = await Promise.all([
       contractMonitor.collectMetrics(),
       contractMonitor.checkPriceFeeds()
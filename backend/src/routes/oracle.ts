@@ -1,8 +1,11 @@
 import { Hono } from 'hono';
 import { CoreAPIService } from '../services/CoreAPIService.js';
-import { OracleUpdater } from '../services/OracleUpdater.js';
-import { apiKeyAuth, requireRole, UserRole, rateLimit } from '../middleware/auth';
-import { validateQuery, validateBody, oracleUpdateSchema } from '../middleware/validation';
+import { OracleUpdater, ORACLE_ASSETS } from '../services/OracleUpdater.js';
+import { OraclePushPolicy } from '../services/OraclePushPolicy.js';
+import { apiKeyAuth, jwtAuth, requireRole, UserRole, rateLimit } from '../middleware/auth';
+import { validateQuery, validateBody, validateChainId, oracleUpdateSchema, oraclePushPolicySchema, priceHistoryQuerySchema } from '../middleware/validation';
+import { actionRequests, getNetworkMonitor, isMonitoredChain, priceHistory } from '../services/instances';
+import { submitAction } from './actions';
 
 const oracle = new Hono();
 
@@ -12,6 +15,88 @@ const coreAPI = new CoreAPIService(process.env.CORE_API_KEY);
 // Oracle updater instance (will be initialized when needed)
 let oracleUpdater: OracleUpdater | null = null;
 
+// Deviation/heartbeat settings per asset; kept here so runtime changes survive updater restarts
+const pushPolicy = new OraclePushPolicy();
+
+function updaterConfig(contractAddress: string) {
+  return {
+    contractAddress,
+    privateKey: process.env.PRIVATE_KEY!,
+    rpcUrl: process.env.VITE_CORE_TESTNET_RPC || 'https://rpc.test2.btcs.network',
+    updateInterval: 60000 // 1 minute
+  };
+}
+
+// Starting the updater and pushing prices both sign transactions, so they go through admin approval
+actionRequests.register({
+  type: 'oracle.start-updater',
+  description: 'Start the automated oracle price updater',
+  policy: { approvals: 1 },
+  preview: async (params) => {
+    if (oracleUpdater && oracleUpdater.getStatus().isRunning) {
+      throw new Error('Oracle updater is already running');
+    }
+    const contractAddress = params.contractAddress || process.env.ORACLE_CONTRACT_ADDRESS;
+    if (!contractAddress) {
+      throw new Error('Oracle contract address required');
+    }
+    
+    const { privateKey, ...config } = updaterConfig(contractAddress);
+    return {
+      effect: 'Checks CORE, BTC, lstBTC and coreBTC prices every minute and pushes those past their deviation or heartbeat',
+      config,
+      pushPolicy: pushPolicy.getAll(ORACLE_ASSETS)
+    };
+  },
+  execute: async (params) => {
+    if (oracleUpdater && oracleUpdater.getStatus().isRunning) {
+      throw new Error('Oracle updater is already running');
+    }
+    const contractAddress = params.contractAddress || process.env.ORACLE_CONTRACT_ADDRESS;
+    
+    oracleUpdater = new OracleUpdater(updaterConfig(contractAddress), process.env.CORE_API_KEY, undefined, pushPolicy, undefined, priceHistory);
+    await oracleUpdater.startUpdating();
+    oracleUpdater.setupEventListeners();
+    return oracleUpdater.getStatus();
+  }
+});
+
+actionRequests.register({
+  type: 'oracle.manual-update',
+  description: 'Push current prices to the oracle contract',
+  policy: { approvals: 1 },
+  preview: async (params) => {
+    if (!oracleUpdater) {
+      throw new Error('Oracle updater not initialized');
+    }
+    
+    // With {"force": true} every aggregated price is pushed, otherwise only those the push policy says are due
+    const { assets, aggregation, derived, decisions } = await oracleUpdater.planPriceUpdates(params.force === true);
+    return {
+      effect: assets.length > 0 ? `Writes ${assets.join(', ')} to the oracle contract` : 'Nothing to push; all prices within policy',
+      prices: decisions.map(decision => ({
+        asset: decision.asset,
+        current: decision.onChainPrice,
+        next: decision.price,
+        push: decision.push,
+        reason: decision.reason,
+        sources: aggregation.prices[decision.asset]?.accepted.map(quote => quote.source) ?? [],
+        rejected: aggregation.prices[decision.asset]?.rejected ?? [],
+        derived: derived[decision.asset]
+      })),
+      skipped: aggregation.failures,
+      sourceErrors: aggregation.sourceErrors
+    };
+  },
+  execute: async (params) => {
+    if (!oracleUpdater) {
+      throw new Error('Oracle updater not initialized');
+    }
+    const decisions = await oracleUpdater.updateAllPrices({ force: params.force === true });
+    return { updatedAt: new Date().toISOString(), pushed: decisions.filter(d => d.push).map(d => d.asset), decisions };
+  }
+});
+
 /**
  * @route GET /validators
  * @desc Get real-time validator data from Core blockchain
@@ -105,6 +190,28 @@ oracle.get('/price', async (c) => {
   }
 });
 
+/**
+ * @route GET /api/oracle/prices/history
+ * @desc OHLC candles and per-candle source spread from the stored price observations,
+ * e.g. ?asset=CORE&interval=1h&limit=168; ?source= picks the series (default: the oracle's price, else the PriceFeed's, per interval)
+ */
+oracle.get('/prices/history', validateChainId(isMonitoredChain), validateQuery(priceHistoryQuerySchema), async (c) => {
+  try {
+    const { asset, interval, limit, source } = c.get('validatedQuery');
+    const chainId = getNetworkMonitor(c.get('chainId'))!.chainId;
+    
+    return c.json({
+      success: true,
+      data: priceHistory.getCandles(chainId, asset, interval, limit, source)
+    });
+  } catch (error) {
+    return c.json({
+      success: false,
+      error: error.message
+    }, 500);
+  }
+});
+
 /**
  * @route GET /api/oracle/network-stats
  * @desc Get comprehensive network statistics
@@ -129,48 +236,18 @@ oracle.get('/network-stats', async (c) => {
 
 /**
  * @route POST /api/oracle/start-updater
- * @desc Start the automated oracle price updater service
+ * @desc Request a start of the automated oracle price updater service (needs admin approval)
  */
-oracle.post('/start-updater', async (c) => {
+oracle.post('/start-updater', jwtAuth, requireRole(UserRole.OPERATOR), async (c) => {
   try {
-    if (oracleUpdater && oracleUpdater.getStatus().isRunning) {
-      return c.json({
-        success: false,
-        message: 'Oracle updater is already running'
-      });
-    }
-    
     // Oracle contract address from environment or request body
     const body = await c.req.json().catch(() => ({}));
-    const contractAddress = body.contractAddress || process.env.ORACLE_CONTRACT_ADDRESS;
-    if (!contractAddress) {
-      return c.json({
-        success: false,
-        error: 'Oracle contract address required'
-      }, 400);
-    }
-    
-    const config = {
-      contractAddress,
-      privateKey: process.env.PRIVATE_KEY!,
-      rpcUrl: process.env.VITE_CORE_TESTNET_RPC || 'https://rpc.test2.btcs.network',
-      updateInterval: 60000 // 1 minute
-    };
-    
-    oracleUpdater = new OracleUpdater(config, process.env.CORE_API_KEY);
-    await oracleUpdater.startUpdating();
-    oracleUpdater.setupEventListeners();
-    
-    return c.json({
-      success: true,
-      message: 'Oracle updater started successfully',
-      status: oracleUpdater.getStatus()
-    });
+    return await submitAction(c, 'oracle.start-updater', body.contractAddress ? { contractAddress: body.contractAddress } : {});
   } catch (error) {
-    console.error('Error starting oracle updater:', error);
+    console.error('Error requesting oracle updater start:', error);
     return c.json({
       success: false,
-      error: 'Failed to start oracle updater',
+      error: 'Failed to request oracle updater start',
       message: error instanceof Error ? error.message : 'Unknown error'
     }, 500);
   }
@@ -180,7 +257,7 @@ oracle.post('/start-updater', async (c) => {
  * @route POST /api/oracle/stop-updater
  * @desc Stop the automated oracle price updater service
  */
-oracle.post('/stop-updater', async (c) => {
+oracle.post('/stop-updater', jwtAuth, requireRole(UserRole.OPERATOR), async (c) => {
   try {
     if (oracleUpdater) {
       oracleUpdater.stopUpdating();
@@ -214,7 +291,8 @@ oracle.get('/status', async (c) => {
         success: true,
         data: {
           isRunning: false,
-          message: 'Oracle updater not initialized'
+          message: 'Oracle updater not initialized',
+          pushPolicy: pushPolicy.getAll(ORACLE_ASSETS)
         }
       });
     }
@@ -248,29 +326,65 @@ oracle.get('/status', async (c) => {
 });
 
 /**
- * @route POST /api/oracle/manual-update
- * @desc Manually trigger a price update
+ * @route GET /api/oracle/push-policy
+ * @desc Per-asset deviation (bps) and heartbeat (seconds) settings for pushing prices
  */
-oracle.post('/manual-update', async (c) => {
+oracle.get('/push-policy', async (c) => {
   try {
-    if (!oracleUpdater) {
+    return c.json({
+      success: true,
+      data: pushPolicy.getAll(ORACLE_ASSETS)
+    });
+  } catch (error) {
+    return c.json({
+      success: false,
+      error: 'Failed to get push policy'
+    }, 500);
+  }
+});
+
+/**
+ * @route PATCH /api/oracle/push-policy/:asset
+ * @desc Change an asset's push policy at runtime; applies from the next update
+ */
+oracle.patch('/push-policy/:asset', jwtAuth, requireRole(UserRole.ADMIN), validateBody(oraclePushPolicySchema), async (c) => {
+  const asset = c.req.param('asset');
+  try {
+    if (!ORACLE_ASSETS.includes(asset)) {
       return c.json({
         success: false,
-        error: 'Oracle updater not initialized'
-      }, 400);
+        error: `Unknown oracle asset: ${asset}`
+      }, 404);
     }
     
-    await oracleUpdater.updateAllPrices();
-    
+    const settings = pushPolicy.set(asset, c.get('validatedBody'));
     return c.json({
       success: true,
-      message: 'Manual price update completed successfully'
+      message: `Push policy for ${asset} updated`,
+      data: settings
     });
   } catch (error) {
-    console.error('Error in manual update:', error);
     return c.json({
       success: false,
-      error: 'Failed to update prices manually',
+      error: 'Failed to update push policy',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, 400);
+  }
+});
+
+/**
+ * @route POST /api/oracle/manual-update
+ * @desc Request a manual price update (needs admin approval); {"force": true} ignores the push policy
+ */
+oracle.post('/manual-update', jwtAuth, requireRole(UserRole.OPERATOR), async (c) => {
+  try {
+    const body = await c.req.json().catch(() => ({}));
+    return await submitAction(c, 'oracle.manual-update', body.force === true ? { force: true } : {});
+  } catch (error) {
+    console.error('Error requesting manual update:', error);
+    return c.json({
+      success: false,
+      error: 'Failed to request manual price update',
       message: error instanceof Error ? error.message : 'Unknown error'
     }, 500);
   }
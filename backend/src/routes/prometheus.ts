@@ -0,0 +1,24 @@
+import { Hono } from 'hono'
+import { OpenMetricsExporter, OPENMETRICS_CONTENT_TYPE } from '../services/OpenMetricsExporter'
+import { metricsCollector, alertManager, automationEngine, rebalancer, networkMonitors } from '../services/instances'
+
+const prometheus = new Hono()
+const exporter = new OpenMetricsExporter(
+  metricsCollector,
+  alertManager,
+  automationEngine,
+  rebalancer,
+  networkMonitors.map(monitor => monitor.chainId)
+)
+
+// Prometheus/OpenMetrics scrape endpoint
+prometheus.get('/', async (c) => {
+  try {
+    const body = await exporter.render()
+    return c.body(body, 200, { 'Content-Type': OPENMETRICS_CONTENT_TYPE })
+  } catch (error) {
+    return c.text(`# Failed to render metrics: ${error.message}\n`, 500)
+  }
+})
+
+export { prometheus as prometheusRoutes }
@@ -0,0 +1,57 @@
+import { Hono } from 'hono'
+import { eventIndexer, isMonitoredChain } from '../services/instances'
+import { TransactionHistory, TRANSACTION_TYPES, TransactionType, isTransactionType } from '../services/TransactionHistory'
+import { addressSchema, validateChainId } from '../middleware/validation'
+
+const users = new Hono()
+const transactionHistory = new TransactionHistory(eventIndexer.getStore())
+
+// ?chainId= limits the history to one monitored network; without it every network is included
+users.use('*', validateChainId(isMonitoredChain))
+
+// Get a user's StakeBasket transaction history (newest first)
+users.get('/:address/transactions', async (c) => {
+  try {
+    const address = c.req.param('address')
+    if (!addressSchema.safeParse(address).success) {
+      return c.json({ success: false, error: 'Invalid Ethereum address' }, 400)
+    }
+
+    const limit = Math.min(parseInt(c.req.query('limit') || '20'), 100)
+    const offset = parseInt(c.req.query('offset') || '0')
+    if (isNaN(limit) || limit < 1 || isNaN(offset) || offset < 0) {
+      return c.json({ success: false, error: 'limit must be positive and offset non-negative' }, 400)
+    }
+
+    const types = (c.req.query('type') || '').split(',').map(t => t.trim()).filter(Boolean)
+    const unknown = types.filter(t => !isTransactionType(t))
+    if (unknown.length > 0) {
+      return c.json({
+        success: false,
+        error: `Unknown transaction type: ${unknown.join(', ')}. Use one of: ${TRANSACTION_TYPES.join(', ')}`
+      }, 400)
+    }
+
+    const { transactions, total } = transactionHistory.getTransactions(address, {
+      types: types as TransactionType[],
+      chainId: c.get('chainId'),
+      limit,
+      offset
+    })
+
+    return c.json({
+      success: true,
+      data: transactions,
+      pagination: {
+        limit,
+        offset,
+        total,
+        hasMore: offset + transactions.length < total
+      }
+    })
+  } catch (error) {
+    return c.json({ success: false, error: error.message }, 500)
+  }
+})
+
+export { users as userRoutes }
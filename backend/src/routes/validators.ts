@@ -1,13 +1,49 @@
 import { Hono } from 'hono'
-import { ValidatorMonitor } from '../services/ValidatorMonitor'
+import { getNetworkMonitor, isMonitoredChain, metricsCollector, validatorHistory } from '../services/instances'
+import { validateChainId } from '../middleware/validation'
 
 const validators = new Hono()
-const validatorMonitor = new ValidatorMonitor()
+
+// Routes take an optional ?chainId= (defaults to the first monitored network)
+validators.use('*', validateChainId(isMonitoredChain))
+
+const validatorMonitorFor = (chainId?: number) => getNetworkMonitor(chainId)!.validatorMonitor
+const historyChainId = (chainId?: number) => getNetworkMonitor(chainId)!.chainId
+const historyDays = (days?: string) => Math.min(Math.max(parseInt(days || '30') || 30, 1), 90)
+
+// Derived signals (commission raised, uptime, delegation and risk changes) for every validator,
+// from the latest monitoring cycle; ?days= sets the window (default 7)
+validators.get('/signals', async (c) => {
+  try {
+    const chainId = historyChainId(c.get('chainId'))
+    const latest = await metricsCollector.getLatest('validators', chainId)
+    if (!latest) {
+      return c.json({ success: false, error: 'No validator snapshots collected yet' }, 404)
+    }
+    
+    const signals = validatorHistory.getSignals(latest.data, historyDays(c.req.query('days') || '7'))
+    
+    return c.json({ 
+      success: true, 
+      data: {
+        chainId,
+        timestamp: latest.timestamp,
+        validators: latest.data.validators.map((v: any) => ({
+          address: v.address,
+          name: v.name,
+          signals: signals.get(v.address.toLowerCase())
+        }))
+      }
+    })
+  } catch (error) {
+    return c.json({ success: false, error: error.message }, 500)
+  }
+})
 
 // Get all validator metrics
 validators.get('/', async (c) => {
   try {
-    const metrics = await validatorMonitor.checkValidators()
+    const metrics = await validatorMonitorFor(c.get('chainId')).checkValidators()
     return c.json({ success: true, data: metrics })
   } catch (error) {
     return c.json({ success: false, error: error.message }, 500)
@@ -18,7 +54,7 @@ validators.get('/', async (c) => {
 validators.get('/:address', async (c) => {
   try {
     const address = c.req.param('address')
-    const validator = await validatorMonitor.getValidatorDetails(address)
+    const validator = await validatorMonitorFor(c.get('chainId')).getValidatorDetails(address)
     
     if (validator) {
       return c.json({ success: true, data: validator })
@@ -34,7 +70,7 @@ validators.get('/:address', async (c) => {
 validators.get('/top/:limit', async (c) => {
   try {
     const limit = parseInt(c.req.param('limit') || '10')
-    const topValidators = await validatorMonitor.getTopValidators(limit)
+    const topValidators = await validatorMonitorFor(c.get('chainId')).getTopValidators(limit)
     
     return c.json({ 
       success: true, 
@@ -50,7 +86,7 @@ validators.get('/top/:limit', async (c) => {
 // Get validator performance summary
 validators.get('/performance/summary', async (c) => {
   try {
-    const metrics = await validatorMonitor.checkValidators()
+    const metrics = await validatorMonitorFor(c.get('chainId')).checkValidators()
     
     const summary = {
       totalValidators: metrics.totalValidators,
@@ -86,7 +122,7 @@ validators.get('/performance/summary', async (c) => {
 validators.get('/tier/:tier', async (c) => {
   try {
     const tier = c.req.param('tier').toLowerCase()
-    const metrics = await validatorMonitor.checkValidators()
+    const metrics = await validatorMonitorFor(c.get('chainId')).checkValidators()
     
     let filteredValidators = []
     
@@ -127,19 +163,13 @@ validators.get('/tier/:tier', async (c) => {
   }
 })
 
-// Get validator uptime history (mock endpoint)
+// Get validator uptime history from the stored snapshots
 validators.get('/:address/uptime', async (c) => {
   try {
     const address = c.req.param('address')
-    const days = parseInt(c.req.query('days') || '30')
-    
-    // Mock uptime history data
-    const uptimeHistory = Array.from({ length: days }, (_, i) => ({
-      date: new Date(Date.now() - i * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
-      uptime: 95 + Math.random() * 5, // 95-100% uptime
-      blocks: Math.floor(8640 + Math.random() * 200), // ~8640 blocks per day on Core
-      missed: Math.floor(Math.random() * 50)
-    })).reverse()
+    const days = historyDays(c.req.query('days'))
+    const trend = validatorHistory.getTrend(historyChainId(c.get('chainId')), address, days)
+    const uptimeHistory = trend.points.map(p => ({ timestamp: p.timestamp, uptime: p.uptime, isActive: p.isActive }))
     
     return c.json({ 
       success: true, 
@@ -147,7 +177,9 @@ validators.get('/:address/uptime', async (c) => {
         validator: address,
         period: `${days} days`,
         history: uptimeHistory,
-        averageUptime: uptimeHistory.reduce((sum, day) => sum + day.uptime, 0) / uptimeHistory.length
+        averageUptime: uptimeHistory.length > 0
+          ? uptimeHistory.reduce((sum, point) => sum + point.uptime, 0) / uptimeHistory.length
+          : null
       }
     })
   } catch (error) {
@@ -155,11 +187,25 @@ validators.get('/:address/uptime', async (c) => {
   }
 })
 
+// Time series of uptime, commission, delegated amount, effective APY and risk score, plus
+// every commission change; ?days= (max 90) and ?points= (max points returned, default 500)
+validators.get('/:address/history', async (c) => {
+  try {
+    const address = c.req.param('address')
+    const maxPoints = parseInt(c.req.query('points') || '500') || 500
+    const trend = validatorHistory.getTrend(historyChainId(c.get('chainId')), address, historyDays(c.req.query('days')), maxPoints)
+    
+    return c.json({ success: true, data: trend })
+  } catch (error) {
+    return c.json({ success: false, error: error.message }, 500)
+  }
+})
+
 // Get validator slashing history
 validators.get('/:address/slashing', async (c) => {
   try {
     const address = c.req.param('address')
-    const validator = await validatorMonitor.getValidatorDetails(address)
+    const validator = await validatorMonitorFor(c.get('chainId')).getValidatorDetails(address)
     
     if (!validator) {
       return c.json({ success: false, error: 'Validator not found' }, 404)
@@ -182,7 +228,7 @@ validators.get('/:address/slashing', async (c) => {
 // Get commission analysis
 validators.get('/analysis/commission', async (c) => {
   try {
-    const metrics = await validatorMonitor.checkValidators()
+    const metrics = await validatorMonitorFor(c.get('chainId')).checkValidators()
     
     const calculateMedian = (values: number[]) => {
       const sorted = values.sort((a, b) => a - b)
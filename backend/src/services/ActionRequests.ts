@@ -0,0 +1,239 @@
+import { ActionRequestStore } from '../storage/ActionRequestStore'
+import { AuthUser, UserRole } from '../middleware/auth'
+
+const HOUR = 60 * 60 * 1000
+
+export type ActionRequestStatus = 'pending' | 'executing' | 'executed' | 'failed' | 'rejected' | 'cancelled' | 'expired'
+
+export interface ActionApproval {
+  userId: string
+  role: UserRole
+  at: string
+  comment?: string
+}
+
+/**
+ * A privileged action an operator asked for. It runs once enough distinct
+ * approvers other than the requester have approved it.
+ */
+export interface ActionRequest {
+  id: string
+  type: string
+  params: Record<string, any>
+  preview: Record<string, any> // what the action is expected to do, computed at submission
+  status: ActionRequestStatus
+  requestedBy: string
+  requestedAt: string
+  expiresAt: string
+  approvalsRequired: number
+  approvals: ActionApproval[]
+  decidedBy?: string // who rejected or cancelled it
+  decidedAt?: string
+  reason?: string
+  executedAt?: string
+  result?: any
+  error?: string
+}
+
+export interface ActionAuditEntry {
+  id: number
+  requestId: string
+  timestamp: string
+  actor: string // user id, or 'system' for expiry
+  role: string
+  event: 'submitted' | 'approved' | 'rejected' | 'cancelled' | 'expired' | 'executed' | 'failed'
+  detail?: any
+}
+
+// Who may approve an action type and how many of them must
+export interface ApprovalPolicy {
+  approvals: number // N
+  approvers?: string[] // the M user ids allowed to approve; any admin when unset
+}
+
+export interface ActionDefinition {
+  type: string
+  description: string
+  policy: ApprovalPolicy
+  // Check the parameters and work out the effect; throw to refuse the request
+  preview(params: Record<string, any>): Promise<Record<string, any>>
+  execute(params: Record<string, any>): Promise<any>
+}
+
+export class ActionRequestError extends Error {
+  constructor(message: string, public status: 400 | 403 | 404 | 409) {
+    super(message)
+    this.name = 'ActionRequestError'
+  }
+}
+
+/**
+ * Per-type policy overrides from ACTION_APPROVAL_POLICY, a JSON object such as
+ * {"rebalancing.trigger": {"approvals": 2, "approvers": ["alice", "bob", "carol"]}}.
+ */
+export function loadApprovalPolicies(json: string | undefined = process.env.ACTION_APPROVAL_POLICY): Record<string, ApprovalPolicy> {
+  if (!json) return {}
+  try {
+    return JSON.parse(json)
+  } catch (error) {
+    throw new Error(`ACTION_APPROVAL_POLICY is not valid JSON: ${error.message}`)
+  }
+}
+
+/**
+ * Queue of privileged actions awaiting N-of-M admin approval. Action types
+ * are registered by the modules that own them; every submission, decision
+ * and execution is written to the audit trail.
+ */
+export class ActionRequestManager {
+  private definitions = new Map<string, ActionDefinition>()
+
+  constructor(
+    private store: ActionRequestStore = new ActionRequestStore(),
+    private policies: Record<string, ApprovalPolicy> = loadApprovalPolicies(),
+    private ttlMs: number = parseInt(process.env.ACTION_REQUEST_TTL_HOURS || '24') * HOUR
+  ) {}
+
+  register(definition: ActionDefinition): void {
+    const policy = { ...definition.policy, ...this.policies[definition.type] }
+    if (!Number.isInteger(policy.approvals) || policy.approvals < 1) {
+      throw new Error(`Action ${definition.type} needs at least one approval`)
+    }
+    if (policy.approvers && policy.approvers.length < policy.approvals) {
+      throw new Error(`Action ${definition.type} needs ${policy.approvals} approvals but lists ${policy.approvers.length} approvers`)
+    }
+    this.definitions.set(definition.type, { ...definition, policy })
+  }
+
+  getTypes(): Array<{ type: string; description: string; policy: ApprovalPolicy }> {
+    return [...this.definitions.values()].map(({ type, description, policy }) => ({ type, description, policy }))
+  }
+
+  async submit(type: string, params: Record<string, any>, user: AuthUser, now: number = Date.now()): Promise<ActionRequest> {
+    const definition = this.definitions.get(type)
+    if (!definition) throw new ActionRequestError(`Unknown action type: ${type}`, 400)
+
+    let preview: Record<string, any>
+    try {
+      preview = await definition.preview(params)
+    } catch (error) {
+      throw new ActionRequestError(`Cannot request ${type}: ${error.message}`, 400)
+    }
+
+    const request: ActionRequest = {
+      id: `action-${now}-${Math.random().toString(36).slice(2, 8)}`,
+      type,
+      params,
+      preview,
+      status: 'pending',
+      requestedBy: user.id,
+      requestedAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + this.ttlMs).toISOString(),
+      approvalsRequired: definition.policy.approvals,
+      approvals: []
+    }
+    this.store.save(request)
+    this.audit(request.id, user, 'submitted', { type, params }, now)
+    return request
+  }
+
+  /**
+   * Add an admin's approval; the action runs as soon as it has enough.
+   * Requesters can't approve their own requests and nobody approves twice.
+   */
+  async approve(id: string, user: AuthUser, comment?: string, now: number = Date.now()): Promise<ActionRequest> {
+    const request = this.requirePending(id, now)
+    const definition = this.definitions.get(request.type)
+    if (!definition) throw new ActionRequestError(`Action type ${request.type} is no longer registered`, 409)
+
+    if (user.role !== UserRole.ADMIN) throw new ActionRequestError('Only admins can approve actions', 403)
+    if (definition.policy.approvers && !definition.policy.approvers.includes(user.id)) {
+      throw new ActionRequestError(`${user.id} is not an approver for ${request.type}`, 403)
+    }
+    if (user.id === request.requestedBy) throw new ActionRequestError('Requesters cannot approve their own actions', 403)
+    if (request.approvals.some(approval => approval.userId === user.id)) {
+      throw new ActionRequestError(`${user.id} has already approved this action`, 409)
+    }
+
+    request.approvals.push({ userId: user.id, role: user.role, at: new Date(now).toISOString(), comment })
+    this.audit(id, user, 'approved', { approvals: request.approvals.length, required: request.approvalsRequired, comment }, now)
+
+    if (request.approvals.length < request.approvalsRequired) {
+      this.store.save(request)
+      return request
+    }
+
+    request.status = 'executing'
+    this.store.save(request)
+    try {
+      request.result = await definition.execute(request.params)
+      request.status = 'executed'
+      this.audit(id, user, 'executed', request.result, now)
+    } catch (error) {
+      request.error = error.message
+      request.status = 'failed'
+      this.audit(id, user, 'failed', { error: error.message }, now)
+    }
+    request.executedAt = new Date().toISOString()
+    this.store.save(request)
+    return request
+  }
+
+  reject(id: string, user: AuthUser, reason?: string, now: number = Date.now()): ActionRequest {
+    const request = this.requirePending(id, now)
+    if (user.role !== UserRole.ADMIN) throw new ActionRequestError('Only admins can reject actions', 403)
+    return this.close(request, 'rejected', user, reason, now)
+  }
+
+  // Withdraw a pending request; only its requester or an admin may
+  cancel(id: string, user: AuthUser, reason?: string, now: number = Date.now()): ActionRequest {
+    const request = this.requirePending(id, now)
+    if (user.id !== request.requestedBy && user.role !== UserRole.ADMIN) {
+      throw new ActionRequestError('Only the requester or an admin can cancel this action', 403)
+    }
+    return this.close(request, 'cancelled', user, reason, now)
+  }
+
+  getRequest(id: string, now: number = Date.now()): ActionRequest | null {
+    const request = this.store.get(id)
+    return request ? this.expireIfDue(request, now) : null
+  }
+
+  getRequests(filter: { status?: ActionRequestStatus; type?: string } = {}, limit?: number, now: number = Date.now()): ActionRequest[] {
+    return this.store.list(filter, limit).map(request => this.expireIfDue(request, now))
+  }
+
+  getAudit(requestId?: string, limit?: number): ActionAuditEntry[] {
+    return this.store.getAudit(requestId, limit)
+  }
+
+  private requirePending(id: string, now: number): ActionRequest {
+    const request = this.getRequest(id, now)
+    if (!request) throw new ActionRequestError('Action request not found', 404)
+    if (request.status !== 'pending') throw new ActionRequestError(`Action request is ${request.status}`, 409)
+    return request
+  }
+
+  private close(request: ActionRequest, status: 'rejected' | 'cancelled', user: AuthUser, reason: string | undefined, now: number): ActionRequest {
+    request.status = status
+    request.decidedBy = user.id
+    request.decidedAt = new Date(now).toISOString()
+    request.reason = reason
+    this.store.save(request)
+    this.audit(request.id, user, status, reason ? { reason } : undefined, now)
+    return request
+  }
+
+  private expireIfDue(request: ActionRequest, now: number): ActionRequest {
+    if (request.status !== 'pending' || new Date(request.expiresAt).getTime() > now) return request
+
+    request.status = 'expired'
+    this.store.save(request)
+    this.store.addAudit({ requestId: request.id, timestamp: new Date(now).toISOString(), actor: 'system', role: 'system', event: 'expired' })
+    return request
+  }
+
+  private audit(requestId: string, user: AuthUser, event: ActionAuditEntry['event'], detail: any, now: number): void {
+    this.store.addAudit({ requestId, timestamp: new Date(now).toISOString(), actor: user.id, role: user.role, event, detail })
+  }
+}
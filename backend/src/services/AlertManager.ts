@@ -1,5 +1,9 @@
 import { ContractMetrics, PriceData } from './ContractMonitor'
 import { ValidatorMetrics } from './ValidatorMonitor'
+import type { AlertNotifier } from './AlertNotifier'
+import { AlertRuleEvaluator, RuleEvaluation, getPath } from './AlertRuleEvaluator'
+import { AlertRuleStore } from '../storage/AlertRuleStore'
+import { DEFAULT_ALERT_RULES } from '../config/alertRules'
 
 export interface Alert {
   id: string
@@ -10,213 +14,341 @@ export interface Alert {
   timestamp: string
   acknowledged: boolean
   data?: any
+  ruleId?: string
+  acknowledgedBy?: string
+  acknowledgedAt?: string
+  resolved?: boolean
+  resolvedBy?: string // 'system' when the rule's condition cleared on its own
+  resolvedAt?: string
+  silencedBy?: string // id of the silence that suppressed notifications
+  escalationLevel?: number
+  escalatedAt?: string
+  fingerprint?: string // rule + subject; repeat detections update the open alert with this fingerprint
+  occurrences?: number
+  firstSeen?: string
+  lastSeen?: string
+  subject?: string // e.g. the validator address for per-subject rules
+  subjects?: string[] // subjects currently affected, for grouped alerts
+  chainId?: number // network the monitored payload came from
+}
+
+export interface AlertSilence {
+  id: string
+  ruleId?: string
+  category?: Alert['category']
+  chainId?: number
+  reason: string
+  createdBy: string
+  startsAt: string
+  endsAt: string
+}
+
+// How long an unacknowledged alert may stay at a severity before it is raised to the next one
+export interface EscalationStep {
+  afterMinutes: number
+  to: Alert['type']
+}
+
+export const DEFAULT_ESCALATION_POLICY: Partial<Record<Alert['type'], EscalationStep>> = {
+  warning: { afterMinutes: 60, to: 'error' },
+  error: { afterMinutes: 30, to: 'critical' }
+}
+
+export interface AlertRuleWindow {
+  minutes: number
+  aggregation: 'avg' | 'min' | 'max' | 'sum' | 'change' | 'percentChange'
+}
+
+// Evaluate the rule once per element of an array in the payload (e.g. each validator)
+export interface AlertRuleForEach {
+  path: string // path of the array, e.g. 'validators'
+  key: string // path of the subject id within each element, e.g. 'address'
+  group: boolean // one alert listing every affected subject, rather than one per subject
 }
 
 export interface AlertRule {
   id: string
   name: string
-  category: string
-  condition: (data: any) => boolean
+  category: 'contract' | 'validator' | 'price' | 'security'
+  metric: string // path into the monitored payload, or a ratio "a / b"
+  comparator: '>' | '>=' | '<' | '<=' | '==' | '!='
+  threshold: number | boolean
+  window?: AlertRuleWindow // aggregate the metric over a sliding window before comparing
+  forEach?: AlertRuleForEach
   severity: 'warning' | 'error' | 'critical'
-  message: string
+  message: string // may reference {value}, {threshold}, {subject}, {count} and {subjects}
   cooldown: number // minutes
+  enabled: boolean
+}
+
+interface SubjectEvaluation {
+  subject?: string
+  item: any
+  evaluation: RuleEvaluation
 }
 
 export class AlertManager {
   private alerts: Alert[] = []
   private lastAlertTime: Map<string, number> = new Map()
   private alertRules: AlertRule[] = []
+  private silences: AlertSilence[] = []
+  private escalationPolicy = DEFAULT_ESCALATION_POLICY
+  private evaluator = new AlertRuleEvaluator()
+  private notifier: AlertNotifier | null = null
+  private customSequence = 0
 
-  constructor() {
-    this.initializeAlertRules()
-  }
-
-  private initializeAlertRules() {
-    this.alertRules = [
-      // Contract alert rules
-      {
-        id: 'high-error-rate',
-        name: 'High Error Rate',
-        category: 'contract',
-        condition: (metrics: ContractMetrics) => metrics.errorRate > 0.05, // 5%
-        severity: 'error',
-        message: 'Contract error rate is above 5%',
-        cooldown: 15
-      },
-      {
-        id: 'low-performance',
-        name: 'Low Performance Score',
-        category: 'contract',
-        condition: (metrics: ContractMetrics) => metrics.performanceScore < 50,
-        severity: 'warning',
-        message: 'Contract performance score is below 50',
-        cooldown: 30
-      },
-      {
-        id: 'high-gas-usage',
-        name: 'High Gas Usage',
-        category: 'contract',
-        condition: (metrics: ContractMetrics) => metrics.gasUsage.average > 600000,
-        severity: 'warning',
-        message: 'Average gas usage is above 600,000',
-        cooldown: 60
-      },
-      {
-        id: 'low-aum',
-        name: 'Low AUM',
-        category: 'contract',
-        condition: (metrics: ContractMetrics) => parseFloat(metrics.totalAUM) < 1000,
-        severity: 'warning',
-        message: 'Total AUM is below $1,000',
-        cooldown: 120
-      },
-
-      // Validator alert rules
-      {
-        id: 'validator-slashing',
-        name: 'Validator Slashing Event',
-        category: 'validator',
-        condition: (metrics: ValidatorMetrics) => metrics.totalSlashingEvents > 0,
-        severity: 'critical',
-        message: 'Validator slashing event detected',
-        cooldown: 5
-      },
-      {
-        id: 'low-validator-uptime',
-        name: 'Low Validator Uptime',
-        category: 'validator',
-        condition: (metrics: ValidatorMetrics) => metrics.averageUptime < 95,
-        severity: 'warning',
-        message: 'Average validator uptime is below 95%',
-        cooldown: 60
-      },
-      {
-        id: 'inactive-validators',
-        name: 'Inactive Validators',
-        category: 'validator',
-        condition: (metrics: ValidatorMetrics) => metrics.activeValidators / metrics.totalValidators < 0.8,
-        severity: 'error',
-        message: 'More than 20% of validators are inactive',
-        cooldown: 30
-      },
-
-      // Price alert rules
-      {
-        id: 'stale-price-feed',
-        name: 'Stale Price Feed',
-        category: 'price',
-        condition: (priceData: PriceData) => priceData.isStale,
-        severity: 'critical',
-        message: 'Price feed is stale and needs updating',
-        cooldown: 5
-      },
-      {
-        id: 'high-price-deviation',
-        name: 'High Price Deviation',
-        category: 'price',
-        condition: (priceData: PriceData) => priceData.deviation > 0.1, // 10%
-        severity: 'warning',
-        message: 'Price deviation is above 10%',
-        cooldown: 15
-      },
-      {
-        id: 'extreme-price-movement',
-        name: 'Extreme Price Movement',
-        category: 'price',
-        condition: (priceData: PriceData) => priceData.deviation > 0.25, // 25%
-        severity: 'critical',
-        message: 'Extreme price movement detected (>25%)',
-        cooldown: 1
-      }
-    ]
+  constructor(private ruleStore: AlertRuleStore = new AlertRuleStore()) {
+    // A broken rules file shouldn't stop startup; fix it and reload the rules
+    try {
+      this.alertRules = this.ruleStore.load()
+    } catch (error) {
+      console.error(`Ignoring alert rules file ${this.ruleStore.getFilePath()}, using the built-in rules:`, error.message)
+      this.alertRules = DEFAULT_ALERT_RULES.map(rule => ({ ...rule }))
+    }
   }
 
   async checkContractAlerts(metrics: ContractMetrics): Promise<Alert[]> {
-    const newAlerts: Alert[] = []
-    
-    const contractRules = this.alertRules.filter(rule => rule.category === 'contract')
-    
-    for (const rule of contractRules) {
-      if (this.shouldTriggerAlert(rule, metrics)) {
-        const alert = this.createAlert(rule, metrics)
-        newAlerts.push(alert)
-        this.alerts.push(alert)
-        this.lastAlertTime.set(rule.id, Date.now())
-      }
-    }
-    
-    return newAlerts
+    return this.checkRules('contract', metrics)
   }
 
   async checkValidatorAlerts(metrics: ValidatorMetrics): Promise<Alert[]> {
-    const newAlerts: Alert[] = []
-    
-    const validatorRules = this.alertRules.filter(rule => rule.category === 'validator')
-    
-    for (const rule of validatorRules) {
-      if (this.shouldTriggerAlert(rule, metrics)) {
-        const alert = this.createAlert(rule, metrics)
-        newAlerts.push(alert)
-        this.alerts.push(alert)
-        this.lastAlertTime.set(rule.id, Date.now())
+    return this.checkRules('validator', metrics)
+  }
+
+  async checkPriceAlerts(priceData: PriceData): Promise<Alert[]> {
+    return this.checkRules('price', priceData)
+  }
+
+  getRules(): AlertRule[] {
+    return [...this.alertRules]
+  }
+
+  getRule(ruleId: string): AlertRule | undefined {
+    return this.alertRules.find(rule => rule.id === ruleId)
+  }
+
+  createRule(rule: AlertRule): AlertRule {
+    if (this.getRule(rule.id)) {
+      throw new Error(`Alert rule already exists: ${rule.id}`)
+    }
+
+    this.alertRules.push(rule)
+    this.ruleStore.save(this.alertRules)
+    return rule
+  }
+
+  updateRule(ruleId: string, rule: AlertRule): AlertRule | null {
+    const index = this.alertRules.findIndex(r => r.id === ruleId)
+    if (index === -1) return null
+
+    this.alertRules[index] = { ...rule, id: ruleId }
+    this.evaluator.reset(ruleId)
+    this.ruleStore.save(this.alertRules)
+    return this.alertRules[index]
+  }
+
+  deleteRule(ruleId: string): boolean {
+    const index = this.alertRules.findIndex(r => r.id === ruleId)
+    if (index === -1) return false
+
+    this.alertRules.splice(index, 1)
+    this.evaluator.reset(ruleId)
+    for (const fingerprint of this.lastAlertTime.keys()) {
+      if (fingerprint === ruleId || fingerprint.startsWith(`${ruleId}:`) || fingerprint.startsWith(`${ruleId}@`)) {
+        this.lastAlertTime.delete(fingerprint)
       }
     }
-    
-    return newAlerts
+    this.ruleStore.save(this.alertRules)
+    return true
   }
 
-  async checkPriceAlerts(priceData: PriceData): Promise<Alert[]> {
+  // Re-read the rules file, e.g. after editing it by hand
+  reloadRules(): AlertRule[] {
+    this.alertRules = this.ruleStore.load()
+    this.evaluator.reset()
+    return this.alertRules
+  }
+
+  setNotifier(notifier: AlertNotifier): void {
+    this.notifier = notifier
+  }
+
+  getNotifier(): AlertNotifier | null {
+    return this.notifier
+  }
+
+  private recordAlert(alert: Alert): void {
+    const silence = this.findSilence(alert)
+    if (silence) {
+      alert.silencedBy = silence.id
+    }
+
+    this.alerts.push(alert)
+    if (!silence) {
+      this.dispatch(alert)
+    }
+  }
+
+  private dispatch(alert: Alert): void {
+    // Deliver in the background so a slow channel never blocks the monitoring loop
+    if (this.notifier) {
+      this.notifier.notify(alert).catch(error => {
+        console.error(`Error sending notifications for alert ${alert.id}:`, error)
+      })
+    }
+  }
+
+  private checkRules(category: AlertRule['category'], data: any): Alert[] {
     const newAlerts: Alert[] = []
-    
-    const priceRules = this.alertRules.filter(rule => rule.category === 'price')
-    
-    for (const rule of priceRules) {
-      if (this.shouldTriggerAlert(rule, priceData)) {
-        const alert = this.createAlert(rule, priceData)
-        newAlerts.push(alert)
-        this.alerts.push(alert)
-        this.lastAlertTime.set(rule.id, Date.now())
+    const now = Date.now()
+    // Payloads from each monitored network are tracked separately
+    const chainId: number | undefined = typeof data?.chainId === 'number' ? data.chainId : undefined
+
+    for (const rule of this.alertRules.filter(r => r.category === category && r.enabled)) {
+      let results: SubjectEvaluation[]
+      try {
+        // Evaluate even during cooldown so windowed rules keep their samples
+        results = this.evaluateRule(rule, data, now, chainId)
+      } catch (error) {
+        console.error(`Error evaluating alert rule ${rule.id}:`, error)
+        continue
+      }
+
+      const triggered = results.filter(r => r.evaluation.triggered)
+      // A missing metric says nothing about the condition, so only resolve on a real value
+      const cleared = results.filter(r => !r.evaluation.triggered && r.evaluation.value !== null)
+
+      if (rule.forEach && rule.forEach.group) {
+        if (triggered.length > 0) {
+          const alert = this.raise(rule, undefined, triggered, data, now, chainId)
+          if (alert) newAlerts.push(alert)
+        } else if (cleared.length > 0) {
+          this.autoResolve(fingerprintFor(rule.id, undefined, chainId), now)
+        }
+        continue
+      }
+
+      for (const result of cleared) {
+        this.autoResolve(fingerprintFor(rule.id, result.subject, chainId), now)
+      }
+      for (const result of triggered) {
+        const alert = this.raise(rule, result.subject, [result], result.item, now, chainId)
+        if (alert) newAlerts.push(alert)
       }
     }
-    
+
     return newAlerts
   }
 
-  private shouldTriggerAlert(rule: AlertRule, data: any): boolean {
-    // Check cooldown period
-    const lastAlert = this.lastAlertTime.get(rule.id)
-    if (lastAlert && Date.now() - lastAlert < rule.cooldown * 60 * 1000) {
-      return false
-    }
-    
-    // Check condition
-    try {
-      return rule.condition(data)
-    } catch (error) {
-      console.error(`Error evaluating alert rule ${rule.id}:`, error)
-      return false
+  private evaluateRule(rule: AlertRule, data: any, now: number, chainId?: number): SubjectEvaluation[] {
+    // Windowed samples are kept per chain as well as per subject
+    const seriesKey = (subject?: string) =>
+      chainId === undefined ? subject : subject === undefined ? String(chainId) : `${chainId}:${subject}`
+
+    if (!rule.forEach) {
+      return [{ item: data, evaluation: this.evaluator.evaluate(rule, data, now, seriesKey()) }]
     }
+
+    const items = getPath(data, rule.forEach.path)
+    if (!Array.isArray(items)) return []
+
+    return items.map(item => {
+      const subject = String(getPath(item, rule.forEach!.key))
+      return { subject, item, evaluation: this.evaluator.evaluate(rule, item, now, seriesKey(subject)) }
+    })
   }
 
-  private createAlert(rule: AlertRule, data: any): Alert {
-    return {
-      id: `${rule.id}-${Date.now()}`,
+  /**
+   * Open a new alert for a rule/subject, or fold the detection into the alert
+   * that is already open for it. Returns the alert only when it is new.
+   */
+  private raise(
+    rule: AlertRule,
+    subject: string | undefined,
+    triggered: SubjectEvaluation[],
+    data: any,
+    now: number,
+    chainId?: number
+  ): Alert | null {
+    const fingerprint = fingerprintFor(rule.id, subject, chainId)
+    const message = formatMessage(rule, triggered)
+    const subjects = rule.forEach?.group ? triggered.map(t => t.subject!) : undefined
+
+    const open = this.findOpenAlert(fingerprint)
+    if (open) {
+      this.recordOccurrence(open, message, data, now)
+      if (subjects) {
+        open.subjects = subjects
+        open.title = `${rule.name} (${subjects.length} affected)`
+      }
+      return null
+    }
+
+    const lastAlert = this.lastAlertTime.get(fingerprint)
+    if (lastAlert !== undefined && now - lastAlert < rule.cooldown * 60 * 1000) return null
+
+    const timestamp = new Date(now).toISOString()
+    const alert: Alert = {
+      id: `${rule.id}-${now}${chainId !== undefined ? `-${chainId}` : ''}${subject ? `-${subject}` : ''}`,
       type: rule.severity,
-      category: rule.category as any,
-      title: rule.name,
-      message: rule.message,
-      timestamp: new Date().toISOString(),
+      category: rule.category,
+      title: subjects ? `${rule.name} (${subjects.length} affected)` : rule.name,
+      message,
+      timestamp,
       acknowledged: false,
-      data
+      data,
+      ruleId: rule.id,
+      resolved: false,
+      escalationLevel: 0,
+      fingerprint,
+      occurrences: 1,
+      firstSeen: timestamp,
+      lastSeen: timestamp,
+      subject,
+      subjects,
+      chainId
+    }
+
+    this.recordAlert(alert)
+    this.lastAlertTime.set(fingerprint, now)
+    return alert
+  }
+
+  private findOpenAlert(fingerprint: string): Alert | undefined {
+    return this.alerts.find(alert => alert.fingerprint === fingerprint && !alert.resolved)
+  }
+
+  private recordOccurrence(alert: Alert, message: string, data: any, now: number): void {
+    alert.occurrences = (alert.occurrences || 1) + 1
+    alert.lastSeen = new Date(now).toISOString()
+    alert.message = message
+    alert.data = data
+  }
+
+  private autoResolve(fingerprint: string, now: number): void {
+    for (const alert of this.alerts) {
+      if (alert.fingerprint === fingerprint && !alert.resolved) {
+        alert.resolved = true
+        alert.resolvedBy = 'system'
+        alert.resolvedAt = new Date(now).toISOString()
+      }
     }
   }
 
-  getAlerts(limit?: number, acknowledged?: boolean): Alert[] {
+  getAlerts(limit?: number, acknowledged?: boolean, resolved?: boolean, chainId?: number): Alert[] {
     let filteredAlerts = this.alerts
+
+    if (chainId !== undefined) {
+      filteredAlerts = filteredAlerts.filter(alert => alert.chainId === chainId)
+    }
     
     if (acknowledged !== undefined) {
       filteredAlerts = filteredAlerts.filter(alert => alert.acknowledged === acknowledged)
     }
+
+    if (resolved !== undefined) {
+      filteredAlerts = filteredAlerts.filter(alert => !!alert.resolved === resolved)
+    }
     
     // Sort by timestamp (newest first)
     filteredAlerts.sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
@@ -228,38 +360,137 @@ export class AlertManager {
     return filteredAlerts
   }
 
-  acknowledgeAlert(alertId: string): boolean {
+  getAlert(alertId: string): Alert | undefined {
+    return this.alerts.find(a => a.id === alertId)
+  }
+
+  acknowledgeAlert(alertId: string, user: string = 'unknown'): boolean {
     const alert = this.alerts.find(a => a.id === alertId)
     if (alert) {
       alert.acknowledged = true
+      alert.acknowledgedBy = user
+      alert.acknowledgedAt = new Date().toISOString()
       return true
     }
     return false
   }
 
-  getAlertStats() {
-    const total = this.alerts.length
-    const unacknowledged = this.alerts.filter(a => !a.acknowledged).length
-    const critical = this.alerts.filter(a => a.type === 'critical').length
-    const errors = this.alerts.filter(a => a.type === 'error').length
-    const warnings = this.alerts.filter(a => a.type === 'warning').length
+  resolveAlert(alertId: string, user: string): boolean {
+    const alert = this.alerts.find(a => a.id === alertId)
+    if (!alert) return false
+
+    if (!alert.resolved) {
+      alert.resolved = true
+      alert.resolvedBy = user
+      alert.resolvedAt = new Date().toISOString()
+    }
+    return true
+  }
+
+  /**
+   * Raise unacknowledged, unresolved alerts to the next severity once they have
+   * sat at their current one past the policy deadline, and notify again.
+   */
+  processEscalations(now: number = Date.now()): Alert[] {
+    const escalated: Alert[] = []
+
+    for (const alert of this.alerts) {
+      if (alert.acknowledged || alert.resolved || this.findSilence(alert, now)) continue
+
+      const step = this.escalationPolicy[alert.type]
+      if (!step) continue
+
+      const since = new Date(alert.escalatedAt || alert.timestamp).getTime()
+      if (now - since < step.afterMinutes * 60 * 1000) continue
+
+      alert.type = step.to
+      alert.escalationLevel = (alert.escalationLevel || 0) + 1
+      alert.escalatedAt = new Date(now).toISOString()
+      escalated.push(alert)
+      this.dispatch(alert)
+    }
+
+    return escalated
+  }
+
+  setEscalationPolicy(policy: Partial<Record<Alert['type'], EscalationStep>>): void {
+    this.escalationPolicy = policy
+  }
+
+  createSilence(silence: Omit<AlertSilence, 'id' | 'startsAt'> & { startsAt?: string }): AlertSilence {
+    if (!silence.ruleId && !silence.category) {
+      throw new Error('A silence needs a ruleId or a category')
+    }
+
+    const created: AlertSilence = {
+      ...silence,
+      id: `silence-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      startsAt: silence.startsAt || new Date().toISOString()
+    }
+    this.silences.push(created)
+    return created
+  }
+
+  getSilences(includeExpired: boolean = false, now: number = Date.now(), chainId?: number): AlertSilence[] {
+    return this.silences.filter(s =>
+      (includeExpired || new Date(s.endsAt).getTime() > now) &&
+      (chainId === undefined || s.chainId === undefined || s.chainId === chainId)
+    )
+  }
+
+  // Expire a silence immediately; it stays in the list for the record
+  expireSilence(silenceId: string): boolean {
+    const silence = this.silences.find(s => s.id === silenceId)
+    if (!silence) return false
+
+    const now = new Date().toISOString()
+    if (silence.endsAt > now) silence.endsAt = now
+    return true
+  }
+
+  private findSilence(alert: Alert, now: number = Date.now()): AlertSilence | undefined {
+    return this.silences.find(silence =>
+      new Date(silence.startsAt).getTime() <= now &&
+      new Date(silence.endsAt).getTime() > now &&
+      (!silence.ruleId || silence.ruleId === alert.ruleId) &&
+      (!silence.category || silence.category === alert.category) &&
+      (silence.chainId === undefined || silence.chainId === alert.chainId)
+    )
+  }
+
+  getAlertStats(chainId?: number) {
+    const alerts = chainId === undefined ? this.alerts : this.alerts.filter(a => a.chainId === chainId)
+    const total = alerts.length
+    const unacknowledged = alerts.filter(a => !a.acknowledged).length
+    const open = alerts.filter(a => !a.resolved).length
+    const resolved = total - open
+    const silenced = alerts.filter(a => a.silencedBy).length
+    const escalated = alerts.filter(a => (a.escalationLevel || 0) > 0).length
+    const critical = alerts.filter(a => a.type === 'critical').length
+    const errors = alerts.filter(a => a.type === 'error').length
+    const warnings = alerts.filter(a => a.type === 'warning').length
     
-    const last24h = this.alerts.filter(a => 
+    const last24h = alerts.filter(a => 
       Date.now() - new Date(a.timestamp).getTime() < 24 * 60 * 60 * 1000
     ).length
     
     return {
       total,
       unacknowledged,
+      open,
+      resolved,
+      silenced,
+      escalated,
+      activeSilences: this.getSilences(false, Date.now(), chainId).length,
       critical,
       errors,
       warnings,
       last24h,
       byCategory: {
-        contract: this.alerts.filter(a => a.category === 'contract').length,
-        validator: this.alerts.filter(a => a.category === 'validator').length,
-        price: this.alerts.filter(a => a.category === 'price').length,
-        security: this.alerts.filter(a => a.category === 'security').length
+        contract: alerts.filter(a => a.category === 'contract').length,
+        validator: alerts.filter(a => a.category === 'validator').length,
+        price: alerts.filter(a => a.category === 'price').length,
+        security: alerts.filter(a => a.category === 'security').length
       }
     }
   }
@@ -269,24 +500,54 @@ export class AlertManager {
     this.alerts = this.alerts.filter(alert => 
       new Date(alert.timestamp).getTime() > cutoffTime
     )
+    this.silences = this.silences.filter(silence =>
+      new Date(silence.endsAt).getTime() > cutoffTime
+    )
   }
 
-  addCustomAlert(type: 'warning' | 'error' | 'critical', category: string, title: string, message: string, data?: any): Alert {
+  /**
+   * Raise an alert from code rather than a rule. Repeats with the same
+   * category, title and key fold into the open alert until resolveCustomAlert
+   * closes it, so give one-off events their own key (e.g. a trip or proposal
+   * id) to have each of them notified.
+   */
+  addCustomAlert(type: 'warning' | 'error' | 'critical', category: string, title: string, message: string, data?: any, key?: string): Alert {
+    const now = Date.now()
+    const fingerprint = customFingerprint(category, title, key)
+
+    const open = this.findOpenAlert(fingerprint)
+    if (open) {
+      this.recordOccurrence(open, message, data, now)
+      return open
+    }
+
+    const timestamp = new Date(now).toISOString()
     const alert: Alert = {
-      id: `custom-${Date.now()}`,
+      id: `custom-${now}-${++this.customSequence}`,
       type,
       category: category as any,
       title,
       message,
-      timestamp: new Date().toISOString(),
+      timestamp,
       acknowledged: false,
-      data
+      data,
+      resolved: false,
+      escalationLevel: 0,
+      fingerprint,
+      occurrences: 1,
+      firstSeen: timestamp,
+      lastSeen: timestamp
     }
     
-    this.alerts.push(alert)
+    this.recordAlert(alert)
     return alert
   }
 
+  // Close the open custom alert once its condition has cleared
+  resolveCustomAlert(category: string, title: string, key?: string): void {
+    this.autoResolve(customFingerprint(category, title, key), Date.now())
+  }
+
   // Real-time suspicious activity detection
   async checkSuspiciousActivity(metrics: ContractMetrics): Promise<Alert[]> {
     const alerts: Alert[] = []
@@ -301,6 +562,8 @@ export class AlertManager {
           'Unusual Transaction Pattern',
           `Deposit ratio is ${(depositRatio * 100).toFixed(1)}% - possibly suspicious activity`
         ))
+      } else {
+        this.resolveCustomAlert('security', 'Unusual Transaction Pattern')
       }
     }
     
@@ -313,6 +576,8 @@ export class AlertManager {
         'Rapid NAV Change',
         `NAV changed by ${(navChange * 100).toFixed(2)}% rapidly`
       ))
+    } else {
+      this.resolveCustomAlert('security', 'Rapid NAV Change')
     }
     
     return alerts
@@ -323,4 +588,31 @@ export class AlertManager {
     // For now, return a mock calculation
     return (Math.random() - 0.5) * 0.1 // ±5% random change
   }
-}
\ No newline at end of file
+}
+
+function customFingerprint(category: string, title: string, key?: string): string {
+  return key === undefined ? `custom:${category}:${title}` : `custom:${category}:${title}:${key}`
+}
+
+// e.g. 'validator-inactive@1114:0xabc...' for a validator on Core testnet2
+function fingerprintFor(ruleId: string, subject?: string, chainId?: number): string {
+  const scope = chainId === undefined ? ruleId : `${ruleId}@${chainId}`
+  return subject === undefined ? scope : `${scope}:${subject}`
+}
+
+function formatMessage(rule: AlertRule, triggered: SubjectEvaluation[]): string {
+  const [first] = triggered
+  const value = first.evaluation.value
+  const formatted = typeof value === 'number' ? String(Number(value.toFixed(4))) : String(value)
+  const subjects = triggered.map(t => t.subject).filter(Boolean) as string[]
+  const listed = subjects.length > 10
+    ? `${subjects.slice(0, 10).join(', ')} and ${subjects.length - 10} more`
+    : subjects.join(', ')
+
+  return rule.message
+    .replace(/\{value\}/g, formatted)
+    .replace(/\{threshold\}/g, String(rule.threshold))
+    .replace(/\{subject\}/g, first.subject || '')
+    .replace(/\{count\}/g, String(triggered.length))
+    .replace(/\{subjects\}/g, listed)
+}
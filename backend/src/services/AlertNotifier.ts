@@ -0,0 +1,423 @@
+import * as fs from 'fs'
+import * as path from 'path'
+import nodemailer from 'nodemailer'
+import { z } from 'zod'
+import type { Alert } from './AlertManager'
+
+export type ChannelType = 'webhook' | 'slack' | 'email' | 'file' | 'stdout'
+
+export interface NotificationChannel {
+  id: string
+  type: ChannelType
+  send(alert: Alert): Promise<void>
+}
+
+export interface RoutingRule {
+  channels: string[]
+  severities?: Alert['type'][] // omitted = every severity
+  categories?: string[] // omitted = every category
+}
+
+export interface DeliveryRecord {
+  id: string
+  alertId: string
+  channel: string
+  status: 'pending' | 'retrying' | 'delivered' | 'failed'
+  attempts: number
+  lastError?: string
+  createdAt: string
+  updatedAt: string
+  nextAttemptAt?: string
+}
+
+export interface RetryPolicy {
+  maxAttempts: number
+  baseDelayMs: number
+  maxDelayMs: number
+}
+
+const channelSchema = z.discriminatedUnion('type', [
+  z.object({
+    id: z.string().min(1),
+    type: z.literal('webhook'),
+    url: z.string().url(),
+    headers: z.record(z.string()).optional()
+  }),
+  z.object({
+    id: z.string().min(1),
+    type: z.literal('slack'),
+    url: z.string().url()
+  }),
+  z.object({
+    id: z.string().min(1),
+    type: z.literal('email'),
+    host: z.string().min(1),
+    port: z.number().int().positive().default(587),
+    secure: z.boolean().default(false),
+    user: z.string().optional(),
+    password: z.string().optional(),
+    from: z.string().min(1),
+    to: z.array(z.string().email()).min(1)
+  }),
+  z.object({
+    id: z.string().min(1),
+    type: z.literal('file'),
+    path: z.string().min(1)
+  }),
+  z.object({
+    id: z.string().min(1),
+    type: z.literal('stdout')
+  })
+])
+
+export const notificationConfigSchema = z.object({
+  channels: z.array(channelSchema),
+  routes: z.array(z.object({
+    channels: z.array(z.string().min(1)).min(1),
+    severities: z.array(z.enum(['warning', 'error', 'critical'])).optional(),
+    categories: z.array(z.string().min(1)).optional()
+  })).optional(),
+  retry: z.object({
+    maxAttempts: z.number().int().min(1).max(20),
+    baseDelayMs: z.number().int().min(0),
+    maxDelayMs: z.number().int().min(0)
+  }).partial().optional()
+})
+
+export type ChannelConfig = z.infer<typeof channelSchema>
+export type NotificationConfig = z.infer<typeof notificationConfigSchema>
+
+const SEVERITY_COLORS: Record<Alert['type'], string> = {
+  warning: '#f2c744',
+  error: '#e8590c',
+  critical: '#c92a2a'
+}
+
+const REQUEST_TIMEOUT_MS = 10000
+const MAX_DELIVERY_HISTORY = 1000
+
+async function postJson(url: string, body: unknown, headers: Record<string, string> = {}): Promise<void> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+  })
+
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status} from ${new URL(url).host}`)
+  }
+}
+
+export class WebhookChannel implements NotificationChannel {
+  readonly type = 'webhook'
+
+  constructor(readonly id: string, private url: string, private headers: Record<string, string> = {}) {}
+
+  async send(alert: Alert): Promise<void> {
+    await postJson(this.url, { event: 'alert', alert }, this.headers)
+  }
+}
+
+export class SlackChannel implements NotificationChannel {
+  readonly type = 'slack'
+
+  constructor(readonly id: string, private url: string) {}
+
+  async send(alert: Alert): Promise<void> {
+    await postJson(this.url, {
+      text: `[${alert.type.toUpperCase()}] ${alert.title}`,
+      attachments: [{
+        color: SEVERITY_COLORS[alert.type],
+        title: alert.title,
+        text: alert.message,
+        fields: [
+          { title: 'Severity', value: alert.type, short: true },
+          { title: 'Category', value: alert.category, short: true }
+        ],
+        ts: Math.floor(new Date(alert.timestamp).getTime() / 1000)
+      }]
+    })
+  }
+}
+
+export class EmailChannel implements NotificationChannel {
+  readonly type = 'email'
+  private transporter: nodemailer.Transporter
+
+  constructor(readonly id: string, private config: Extract<ChannelConfig, { type: 'email' }>) {
+    this.transporter = nodemailer.createTransport({
+      host: config.host,
+      port: config.port,
+      secure: config.secure,
+      auth: config.user ? { user: config.user, pass: config.password } : undefined
+    })
+  }
+
+  async send(alert: Alert): Promise<void> {
+    await this.transporter.sendMail({
+      from: this.config.from,
+      to: this.config.to.join(', '),
+      subject: `[StakeBasket ${alert.type.toUpperCase()}] ${alert.title}`,
+      text: [
+        alert.message,
+        '',
+        `Severity: ${alert.type}`,
+        `Category: ${alert.category}`,
+        `Time: ${alert.timestamp}`,
+        `Alert ID: ${alert.id}`
+      ].join('\n')
+    })
+  }
+}
+
+export class FileChannel implements NotificationChannel {
+  readonly type = 'file'
+
+  constructor(readonly id: string, private filePath: string) {}
+
+  async send(alert: Alert): Promise<void> {
+    await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true })
+    await fs.promises.appendFile(this.filePath, JSON.stringify(alert) + '\n')
+  }
+}
+
+export class StdoutChannel implements NotificationChannel {
+  readonly type = 'stdout'
+
+  constructor(readonly id: string) {}
+
+  async send(alert: Alert): Promise<void> {
+    console.log(JSON.stringify({ level: 'alert', ...alert }))
+  }
+}
+
+export function createChannel(config: ChannelConfig): NotificationChannel {
+  switch (config.type) {
+    case 'webhook':
+      return new WebhookChannel(config.id, config.url, config.headers)
+    case 'slack':
+      return new SlackChannel(config.id, config.url)
+    case 'email':
+      return new EmailChannel(config.id, config)
+    case 'file':
+      return new FileChannel(config.id, config.path)
+    case 'stdout':
+      return new StdoutChannel(config.id)
+  }
+}
+
+/**
+ * Load the notification config from ALERT_NOTIFICATIONS_CONFIG (a JSON file),
+ * falling back to channels described by individual environment variables.
+ * A config that can't be read or is invalid, from either place, is logged
+ * and leaves notifications without channels rather than stopping startup.
+ */
+export function loadNotificationConfig(): NotificationConfig {
+  const configPath = process.env.ALERT_NOTIFICATIONS_CONFIG
+  if (configPath) {
+    try {
+      const raw = JSON.parse(fs.readFileSync(configPath, 'utf8'))
+      return notificationConfigSchema.parse(raw)
+    } catch (error) {
+      console.error(`Ignoring notification config ${configPath}, no alerts will be delivered:`, error instanceof Error ? error.message : error)
+      return { channels: [] }
+    }
+  }
+
+  const channels: ChannelConfig[] = []
+  if (process.env.ALERT_WEBHOOK_URL) {
+    channels.push({ id: 'webhook', type: 'webhook', url: process.env.ALERT_WEBHOOK_URL })
+  }
+  if (process.env.ALERT_SLACK_WEBHOOK_URL) {
+    channels.push({ id: 'slack', type: 'slack', url: process.env.ALERT_SLACK_WEBHOOK_URL })
+  }
+  if (process.env.SMTP_HOST && process.env.ALERT_EMAIL_TO) {
+    channels.push({
+      id: 'email',
+      type: 'email',
+      host: process.env.SMTP_HOST,
+      port: parseInt(process.env.SMTP_PORT || '587'),
+      secure: process.env.SMTP_SECURE === 'true',
+      user: process.env.SMTP_USER,
+      password: process.env.SMTP_PASSWORD,
+      from: process.env.ALERT_EMAIL_FROM || 'alerts@stakebasket.local',
+      to: process.env.ALERT_EMAIL_TO.split(',').map(address => address.trim())
+    })
+  }
+  if (process.env.ALERT_LOG_FILE) {
+    channels.push({ id: 'file', type: 'file', path: process.env.ALERT_LOG_FILE })
+  }
+
+  const parsed = notificationConfigSchema.safeParse({ channels })
+  if (!parsed.success) {
+    console.error('Ignoring notification channels from the environment, no alerts will be delivered:', parsed.error.message)
+    return { channels: [] }
+  }
+  return parsed.data
+}
+
+/**
+ * Delivers alerts to notification channels according to routing rules,
+ * retrying failed deliveries with exponential backoff.
+ */
+export class AlertNotifier {
+  private channels: Map<string, NotificationChannel> = new Map()
+  private routes: RoutingRule[] = []
+  private retryPolicy: RetryPolicy
+  private deliveries: DeliveryRecord[] = []
+  private deliverySequence = 0
+  private retryTimers: Set<ReturnType<typeof setTimeout>> = new Set()
+
+  constructor(config: NotificationConfig = loadNotificationConfig()) {
+    for (const channelConfig of config.channels) {
+      this.channels.set(channelConfig.id, createChannel(channelConfig))
+    }
+
+    // Without explicit routes every alert goes to every channel
+    this.routes = config.routes || [{ channels: [...this.channels.keys()] }]
+
+    this.retryPolicy = {
+      maxAttempts: config.retry?.maxAttempts ?? 5,
+      baseDelayMs: config.retry?.baseDelayMs ?? 1000,
+      maxDelayMs: config.retry?.maxDelayMs ?? 60000
+    }
+  }
+
+  /**
+   * Resolve the channels an alert should be delivered to
+   */
+  getChannelsFor(alert: Alert): NotificationChannel[] {
+    const channelIds = new Set<string>()
+
+    for (const rule of this.routes) {
+      if (rule.severities && !rule.severities.includes(alert.type)) continue
+      if (rule.categories && !rule.categories.includes(alert.category)) continue
+      rule.channels.forEach(id => channelIds.add(id))
+    }
+
+    return [...channelIds]
+      .map(id => this.channels.get(id))
+      .filter((channel): channel is NotificationChannel => channel !== undefined)
+  }
+
+  /**
+   * Fan an alert out to its routed channels. Resolves once every delivery has
+   * had its first attempt; retries continue in the background.
+   */
+  async notify(alert: Alert): Promise<DeliveryRecord[]> {
+    const records = this.getChannelsFor(alert).map(channel => this.createDelivery(alert, channel))
+    await Promise.all(records.map(record => this.attempt(record, alert)))
+    return records
+  }
+
+  async sendTest(channelId: string): Promise<DeliveryRecord> {
+    const channel = this.channels.get(channelId)
+    if (!channel) {
+      throw new Error(`Unknown notification channel: ${channelId}`)
+    }
+
+    const alert: Alert = {
+      id: `test-${Date.now()}`,
+      type: 'warning',
+      category: 'security',
+      title: 'Test Notification',
+      message: `Test notification for channel "${channelId}"`,
+      timestamp: new Date().toISOString(),
+      acknowledged: false
+    }
+
+    const record = this.createDelivery(alert, channel)
+    await this.attempt(record, alert)
+    return record
+  }
+
+  getDeliveries(filters: { alertId?: string; channel?: string; status?: DeliveryRecord['status']; limit?: number } = {}): DeliveryRecord[] {
+    let records = [...this.deliveries].reverse() // Most recent first
+
+    if (filters.alertId) records = records.filter(r => r.alertId === filters.alertId)
+    if (filters.channel) records = records.filter(r => r.channel === filters.channel)
+    if (filters.status) records = records.filter(r => r.status === filters.status)
+
+    return filters.limit ? records.slice(0, filters.limit) : records
+  }
+
+  getChannelSummaries() {
+    return [...this.channels.values()].map(channel => {
+      const records = this.deliveries.filter(r => r.channel === channel.id)
+      return {
+        id: channel.id,
+        type: channel.type,
+        delivered: records.filter(r => r.status === 'delivered').length,
+        failed: records.filter(r => r.status === 'failed').length,
+        pending: records.filter(r => r.status === 'pending' || r.status === 'retrying').length
+      }
+    })
+  }
+
+  getRoutes(): RoutingRule[] {
+    return this.routes
+  }
+
+  destroy(): void {
+    this.retryTimers.forEach(timer => clearTimeout(timer))
+    this.retryTimers.clear()
+  }
+
+  private createDelivery(alert: Alert, channel: NotificationChannel): DeliveryRecord {
+    const now = new Date().toISOString()
+    const record: DeliveryRecord = {
+      // An escalated alert is notified again under the same alert id
+      id: `${alert.id}-${channel.id}-${++this.deliverySequence}`,
+      alertId: alert.id,
+      channel: channel.id,
+      status: 'pending',
+      attempts: 0,
+      createdAt: now,
+      updatedAt: now
+    }
+
+    this.deliveries.push(record)
+    if (this.deliveries.length > MAX_DELIVERY_HISTORY) {
+      this.deliveries = this.deliveries.slice(-MAX_DELIVERY_HISTORY)
+    }
+
+    return record
+  }
+
+  private async attempt(record: DeliveryRecord, alert: Alert): Promise<void> {
+    const channel = this.channels.get(record.channel)
+    if (!channel) return
+
+    record.attempts++
+    try {
+      await channel.send(alert)
+      record.status = 'delivered'
+      record.lastError = undefined
+      record.nextAttemptAt = undefined
+    } catch (error) {
+      record.lastError = error instanceof Error ? error.message : String(error)
+
+      if (record.attempts >= this.retryPolicy.maxAttempts) {
+        record.status = 'failed'
+        record.nextAttemptAt = undefined
+        console.error(`Alert ${alert.id} could not be delivered to ${channel.id} after ${record.attempts} attempts:`, record.lastError)
+      } else {
+        const delay = Math.min(
+          this.retryPolicy.baseDelayMs * 2 ** (record.attempts - 1),
+          this.retryPolicy.maxDelayMs
+        )
+        record.status = 'retrying'
+        record.nextAttemptAt = new Date(Date.now() + delay).toISOString()
+
+        const timer = setTimeout(() => {
+          this.retryTimers.delete(timer)
+          this.attempt(record, alert)
+        }, delay)
+        this.retryTimers.add(timer)
+      }
+    } finally {
+      record.updatedAt = new Date().toISOString()
+    }
+  }
+}
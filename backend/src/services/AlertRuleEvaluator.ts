@@ -0,0 +1,119 @@
+import type { AlertRule, AlertRuleWindow } from './AlertManager'
+
+interface Sample {
+  timestamp: number
+  value: number
+}
+
+export interface RuleEvaluation {
+  triggered: boolean
+  value: number | boolean | null // null when the metric is missing or the window has too few samples
+}
+
+/**
+ * Evaluates declarative alert rules against monitoring payloads. Windowed
+ * rules keep a sliding buffer of metric samples per rule and subject, so the
+ * evaluator has to see every payload of the rule's category, not only those
+ * that alert.
+ */
+export class AlertRuleEvaluator {
+  private samples: Map<string, Sample[]> = new Map()
+
+  evaluate(rule: AlertRule, data: any, now: number = Date.now(), subject?: string): RuleEvaluation {
+    const current = resolveMetric(data, rule.metric)
+
+    if (!rule.window) {
+      if (current === null) return { triggered: false, value: null }
+      return { triggered: compare(current, rule.comparator, rule.threshold), value: current }
+    }
+
+    if (typeof current !== 'number') return { triggered: false, value: null }
+
+    const key = subject === undefined ? rule.id : `${rule.id}:${subject}`
+    const from = now - rule.window.minutes * 60 * 1000
+    const samples = (this.samples.get(key) || []).filter(s => s.timestamp >= from)
+    samples.push({ timestamp: now, value: current })
+    this.samples.set(key, samples)
+
+    const value = aggregate(samples.map(s => s.value), rule.window.aggregation)
+    if (value === null) return { triggered: false, value: null }
+    return { triggered: compare(value, rule.comparator, rule.threshold), value }
+  }
+
+  // Forget buffered samples, e.g. after a rule's metric or window changed
+  reset(ruleId?: string): void {
+    if (ruleId) {
+      for (const key of this.samples.keys()) {
+        if (key === ruleId || key.startsWith(`${ruleId}:`)) this.samples.delete(key)
+      }
+    } else {
+      this.samples.clear()
+    }
+  }
+}
+
+/**
+ * Resolve a metric path ("gasUsage.average") or ratio ("activeValidators / totalValidators")
+ * against a payload. Numeric strings such as totalAUM are parsed; booleans pass through.
+ */
+export function resolveMetric(data: any, metric: string): number | boolean | null {
+  const [numeratorPath, denominatorPath] = metric.split('/').map(part => part.trim())
+
+  const numerator = toValue(getPath(data, numeratorPath))
+  if (denominatorPath === undefined) return numerator
+
+  const denominator = toValue(getPath(data, denominatorPath))
+  if (typeof numerator !== 'number' || typeof denominator !== 'number' || denominator === 0) return null
+  return numerator / denominator
+}
+
+export function getPath(data: any, path: string): unknown {
+  return path.split('.').reduce((value, key) => (value == null ? undefined : value[key]), data)
+}
+
+function toValue(raw: unknown): number | boolean | null {
+  if (typeof raw === 'boolean') return raw
+  if (typeof raw === 'number') return Number.isFinite(raw) ? raw : null
+  if (typeof raw === 'string' && raw.trim() !== '') {
+    const parsed = Number(raw)
+    return Number.isFinite(parsed) ? parsed : null
+  }
+  return null
+}
+
+function aggregate(values: number[], aggregation: AlertRuleWindow['aggregation']): number | null {
+  const first = values[0]
+  const last = values[values.length - 1]
+
+  switch (aggregation) {
+    case 'avg':
+      return values.reduce((sum, v) => sum + v, 0) / values.length
+    case 'min':
+      return Math.min(...values)
+    case 'max':
+      return Math.max(...values)
+    case 'sum':
+      return values.reduce((sum, v) => sum + v, 0)
+    case 'change':
+      return values.length < 2 ? null : last - first
+    case 'percentChange':
+      return values.length < 2 || first === 0 ? null : ((last - first) / Math.abs(first)) * 100
+  }
+}
+
+function compare(value: number | boolean, comparator: AlertRule['comparator'], threshold: number | boolean): boolean {
+  if (typeof value === 'boolean' || typeof threshold === 'boolean') {
+    if (comparator === '==') return value === threshold
+    if (comparator === '!=') return value !== threshold
+    return false
+  }
+
+  switch (comparator) {
+    case '>': return value > threshold
+    case '>=': return value >= threshold
+    case '<': return value < threshold
+    case '<=': return value <= threshold
+    case '==': return value === threshold
+    case '!=': return value !== threshold
+  }
+}
@@ -0,0 +1,295 @@
+import type { RebalanceRecommendation, ValidatorInfo } from './ValidatorMonitor'
+
+export type AllocationStrategyId = 'equal-weight' | 'apy-weighted' | 'risk-parity' | 'capped'
+
+export interface AllocationParams {
+  maxRiskScore: number // validators above this risk score get no stake
+  minEffectiveAPY: number // percent
+  maxCommission: number // percent
+  maxValidators: number // stake is spread over at most this many validators
+  maxConcentration: number // largest share one validator may hold (capped strategy)
+  driftThreshold: number // rebalance once this share of stake is away from its target
+}
+
+export const DEFAULT_ALLOCATION_PARAMS: AllocationParams = {
+  maxRiskScore: 60,
+  minEffectiveAPY: 6,
+  maxCommission: 8,
+  maxValidators: 3,
+  maxConcentration: 0.4,
+  driftThreshold: 0.05
+}
+
+// Share of the staked total per validator address; weights sum to 1 (or the map is empty)
+export type AllocationWeights = Record<string, number>
+
+export interface AllocationStrategy {
+  id: AllocationStrategyId
+  name: string
+  description: string
+  allocate(candidates: ValidatorInfo[], params: AllocationParams): AllocationWeights
+}
+
+export interface AllocationSummary {
+  strategy: AllocationStrategyId
+  name: string
+  weights: AllocationWeights
+  expectedAPY: number // stake-weighted effective APY of the target allocation
+  maxConcentration: number // largest single-validator share
+  herfindahlIndex: number // sum of squared shares: 1/N when even, 1 when all in one validator
+  validatorCount: number
+}
+
+const byAPY = (a: ValidatorInfo, b: ValidatorInfo) => b.effectiveAPY - a.effectiveAPY
+
+function normalize(scores: Array<[string, number]>): AllocationWeights {
+  const total = scores.reduce((sum, [, score]) => sum + score, 0)
+  if (total <= 0) return {}
+  return Object.fromEntries(scores.map(([address, score]) => [address, score / total]))
+}
+
+/**
+ * Limit every weight to `cap` and hand the excess to the uncapped validators
+ * in proportion to their weight, repeating until nothing exceeds the cap.
+ * A cap below 1/N can't be met, so it is raised to 1/N.
+ */
+export function capWeights(weights: AllocationWeights, cap: number): AllocationWeights {
+  const addresses = Object.keys(weights)
+  if (addresses.length === 0) return {}
+
+  const limit = Math.max(cap, 1 / addresses.length)
+  const result = { ...weights }
+  const capped = new Set<string>()
+
+  for (;;) {
+    const over = addresses.filter(a => !capped.has(a) && result[a] > limit + 1e-12)
+    if (over.length === 0) break
+
+    let excess = 0
+    for (const address of over) {
+      excess += result[address] - limit
+      result[address] = limit
+      capped.add(address)
+    }
+
+    const open = addresses.filter(a => !capped.has(a))
+    const openTotal = open.reduce((sum, a) => sum + result[a], 0)
+    if (open.length === 0 || openTotal <= 0) break
+    for (const address of open) {
+      result[address] += excess * (result[address] / openTotal)
+    }
+  }
+
+  return result
+}
+
+export const ALLOCATION_STRATEGIES: Record<AllocationStrategyId, AllocationStrategy> = {
+  'equal-weight': {
+    id: 'equal-weight',
+    name: 'Equal weight',
+    description: 'Split stake evenly across the highest-APY eligible validators',
+    allocate: (candidates, params) =>
+      normalize([...candidates].sort(byAPY).slice(0, params.maxValidators).map(v => [v.address, 1]))
+  },
+  'apy-weighted': {
+    id: 'apy-weighted',
+    name: 'APY weighted',
+    description: 'Stake in proportion to effective APY across the highest-APY eligible validators',
+    allocate: (candidates, params) =>
+      normalize([...candidates].sort(byAPY).slice(0, params.maxValidators).map(v => [v.address, v.effectiveAPY]))
+  },
+  'risk-parity': {
+    id: 'risk-parity',
+    name: 'Risk parity',
+    description: 'Stake in inverse proportion to risk score across the lowest-risk eligible validators',
+    allocate: (candidates, params) =>
+      normalize(
+        [...candidates]
+          .sort((a, b) => a.riskScore - b.riskScore || byAPY(a, b))
+          .slice(0, params.maxValidators)
+          .map(v => [v.address, 1 / Math.max(v.riskScore, 1)])
+      )
+  },
+  capped: {
+    id: 'capped',
+    name: 'Concentration capped',
+    description: 'APY weighted across the top N eligible validators, with no validator above the concentration cap',
+    allocate: (candidates, params) =>
+      capWeights(ALLOCATION_STRATEGIES['apy-weighted'].allocate(candidates, params), params.maxConcentration)
+  }
+}
+
+export const ALLOCATION_STRATEGY_IDS = Object.keys(ALLOCATION_STRATEGIES) as AllocationStrategyId[]
+
+export function getAllocationStrategy(id: string): AllocationStrategy {
+  const strategy = ALLOCATION_STRATEGIES[id as AllocationStrategyId]
+  if (!strategy) {
+    throw new Error(`Unknown allocation strategy: ${id}. Use one of: ${ALLOCATION_STRATEGY_IDS.join(', ')}`)
+  }
+  return strategy
+}
+
+// Validators allowed to receive stake under the given limits
+export function eligibleValidators(validators: ValidatorInfo[], params: AllocationParams): ValidatorInfo[] {
+  return validators.filter(v =>
+    v.isActive &&
+    v.riskScore <= params.maxRiskScore &&
+    v.effectiveAPY >= params.minEffectiveAPY &&
+    v.commission <= params.maxCommission
+  )
+}
+
+export function summarizeAllocation(strategy: AllocationStrategy, validators: ValidatorInfo[], weights: AllocationWeights): AllocationSummary {
+  const shares = Object.values(weights)
+  const apyOf = new Map(validators.map(v => [v.address, v.effectiveAPY]))
+
+  return {
+    strategy: strategy.id,
+    name: strategy.name,
+    weights,
+    expectedAPY: Object.entries(weights).reduce((sum, [address, weight]) => sum + weight * (apyOf.get(address) || 0), 0),
+    maxConcentration: shares.length > 0 ? Math.max(...shares) : 0,
+    herfindahlIndex: shares.reduce((sum, w) => sum + w * w, 0),
+    validatorCount: shares.filter(w => w > 0).length
+  }
+}
+
+export function targetAllocation(strategyId: string, validators: ValidatorInfo[], params: AllocationParams): AllocationSummary {
+  const strategy = getAllocationStrategy(strategyId)
+  const weights = strategy.allocate(eligibleValidators(validators, params), params)
+  return summarizeAllocation(strategy, validators, weights)
+}
+
+// Every strategy's target allocation for the same validator set, for side-by-side comparison
+export function compareStrategies(validators: ValidatorInfo[], params: AllocationParams): AllocationSummary[] {
+  return ALLOCATION_STRATEGY_IDS.map(id => targetAllocation(id, validators, params))
+}
+
+export interface AllocationDiff {
+  decreases: Array<{ address: string; amount: bigint }>
+  increases: Array<{ address: string; amount: bigint }>
+  drift: number // share of the total that has to move to reach the target
+}
+
+/**
+ * Split `total` wei by weight. Shares are taken in parts per million and the
+ * largest one absorbs the rounding, so the amounts always sum to the total.
+ */
+export function allocateAmount(total: bigint, weights: AllocationWeights): Record<string, bigint> {
+  const entries = Object.entries(weights).sort(([, a], [, b]) => b - a)
+  if (entries.length === 0) return {}
+
+  const amounts: Record<string, bigint> = {}
+  let assigned = 0n
+  for (const [address, weight] of entries.slice(1)) {
+    amounts[address] = total * BigInt(Math.round(weight * 1_000_000)) / 1_000_000n
+    assigned += amounts[address]
+  }
+  amounts[entries[0][0]] = total - assigned
+  return amounts
+}
+
+/**
+ * Compare current delegations (wei) with target weights. Validators missing
+ * from the weights have a target of zero. Increases and decreases balance out,
+ * since the total delegated stays the same.
+ */
+export function diffAllocation(current: Record<string, bigint>, weights: AllocationWeights): AllocationDiff {
+  const total = Object.values(current).reduce((sum, amount) => sum + amount, 0n)
+  if (total === 0n || Object.keys(weights).length === 0) {
+    return { decreases: [], increases: [], drift: 0 }
+  }
+
+  const targets = allocateAmount(total, weights)
+  const decreases: AllocationDiff['decreases'] = []
+  const increases: AllocationDiff['increases'] = []
+  for (const address of new Set([...Object.keys(current), ...Object.keys(targets)])) {
+    const delta = (targets[address] || 0n) - (current[address] || 0n)
+    if (delta < 0n) decreases.push({ address, amount: -delta })
+    if (delta > 0n) increases.push({ address, amount: delta })
+  }
+
+  const moved = increases.reduce((sum, entry) => sum + entry.amount, 0n)
+  return { decreases, increases, drift: Number(moved * 1_000_000n / total) / 1_000_000 }
+}
+
+/**
+ * The stake moves that bring `current` delegations (wei) to a strategy's
+ * target. Small drift is tolerated up to params.driftThreshold, unless stake
+ * sits with a validator that is no longer eligible.
+ */
+export function recommendRebalance(
+  validators: ValidatorInfo[],
+  current: Record<string, bigint>,
+  strategyId: string,
+  params: AllocationParams
+): RebalanceRecommendation {
+  const target = targetAllocation(strategyId, validators, params)
+  const noRebalance = (reason: string): RebalanceRecommendation => ({
+    shouldRebalance: false,
+    reason,
+    fromValidators: [],
+    toValidators: [],
+    estimatedImprovementAPY: 0,
+    strategy: target.strategy,
+    target
+  })
+
+  if (target.validatorCount === 0) {
+    return noRebalance(`No validators are eligible under the ${target.name} strategy limits`)
+  }
+
+  const diff = diffAllocation(current, target.weights)
+  const heldByIneligible = diff.decreases.some(d => !(d.address in target.weights))
+  if (diff.drift === 0 || (diff.drift < params.driftThreshold && !heldByIneligible)) {
+    return noRebalance(
+      diff.drift === 0 ? 'Allocation matches the target' : `Allocation is within ${(params.driftThreshold * 100).toFixed(1)}% of the target`
+    )
+  }
+
+  const byAddress = new Map(validators.map(v => [v.address, v]))
+  const total = Object.values(current).reduce((sum, amount) => sum + amount, 0n)
+  const currentAPY = Object.entries(current).reduce((sum, [address, amount]) =>
+    sum + (byAddress.get(address)?.effectiveAPY || 0) * Number(amount * 1_000_000n / total) / 1_000_000, 0)
+  const issue = findValidatorIssue(validators, params)
+
+  return {
+    shouldRebalance: true,
+    reason: issue ?? `${(diff.drift * 100).toFixed(1)}% of stake is away from the ${target.name} target`,
+    fromValidators: diff.decreases.map(d => ({
+      address: d.address,
+      amount: d.amount.toString(),
+      reason: d.address in target.weights ? 'Above target weight' : exitReason(byAddress.get(d.address), params)
+    })),
+    toValidators: diff.increases.map(i => ({
+      address: i.address,
+      amount: i.amount.toString(),
+      expectedAPY: byAddress.get(i.address)?.effectiveAPY || 0
+    })),
+    estimatedImprovementAPY: target.expectedAPY - currentAPY,
+    strategy: target.strategy,
+    target
+  }
+}
+
+function findValidatorIssue(validators: ValidatorInfo[], params: AllocationParams): string | null {
+  const inactive = validators.filter(v => !v.isActive).length
+  if (inactive > 0) return `${inactive} validators are inactive`
+
+  const highRisk = validators.filter(v => v.riskScore > params.maxRiskScore).length
+  if (highRisk > 0) return `${highRisk} validators have high risk scores`
+
+  const lowAPY = validators.filter(v => v.effectiveAPY < params.minEffectiveAPY).length
+  if (lowAPY > 0) return `${lowAPY} validators have low effective APY`
+
+  return null
+}
+
+function exitReason(validator: ValidatorInfo | undefined, params: AllocationParams): string {
+  if (!validator) return 'Validator no longer listed'
+  if (!validator.isActive) return 'Validator inactive'
+  if (validator.riskScore > params.maxRiskScore) return 'High risk score'
+  if (validator.effectiveAPY < params.minEffectiveAPY) return 'Low APY'
+  if (validator.commission > params.maxCommission) return 'High commission'
+  return 'Not in the target allocation'
+}
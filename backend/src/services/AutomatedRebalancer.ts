@@ -1,4 +1,13 @@
-import { ValidatorMonitor } from './ValidatorMonitor'
+import { ValidatorMonitor, ValidatorMetrics, RebalanceRecommendation } from './ValidatorMonitor'
+import { RebalanceExecutor, RebalanceCall, planRebalanceMoves } from './RebalanceExecutor'
+import {
+  AllocationParams,
+  AllocationStrategyId,
+  AllocationSummary,
+  DEFAULT_ALLOCATION_PARAMS,
+  compareStrategies,
+  getAllocationStrategy
+} from './AllocationStrategies'
 
 export interface RebalancingJob {
   id: string
@@ -8,16 +17,18 @@ export interface RebalancingJob {
   nextRun: string | null
   enabled: boolean
   thresholds: {
-    apyDrop: number // minimum APY drop to trigger rebalancing
-    riskIncrease: number // maximum risk score to tolerate
     minImprovement: number // minimum expected improvement to execute
   }
+  strategy: AllocationStrategyId
+  strategyParams: AllocationParams
 }
 
 export interface RebalancingResult {
   executed: boolean
   reason: string
-  txHash?: string
+  txHash?: string // last confirmed transaction of the run
+  dryRun?: boolean
+  transactions?: RebalanceCall[] // the manualRebalance calls, planned or sent
   beforeAPY: number
   afterAPY: number
   improvement: number
@@ -33,9 +44,14 @@ export class AutomatedRebalancer {
   private job: RebalancingJob
   private intervalId: NodeJS.Timeout | null = null
   private rebalancingHistory: RebalancingResult[] = []
+  private executing = false
 
-  constructor(intervalMinutes: number = 60) {
-    this.validatorMonitor = new ValidatorMonitor()
+  constructor(
+    intervalMinutes: number = 60,
+    validatorMonitor: ValidatorMonitor = new ValidatorMonitor(),
+    private executor: RebalanceExecutor = new RebalanceExecutor()
+  ) {
+    this.validatorMonitor = validatorMonitor
     
     this.job = {
       id: 'core-staking-rebalancer',
@@ -45,10 +61,10 @@ export class AutomatedRebalancer {
       nextRun: null,
       enabled: true,
       thresholds: {
-        apyDrop: 0.5, // 0.5% APY drop threshold
-        riskIncrease: 60, // Risk score above 60 is concerning
         minImprovement: 0.2 // Minimum 0.2% improvement to execute
-      }
+      },
+      strategy: 'equal-weight',
+      strategyParams: { ...DEFAULT_ALLOCATION_PARAMS }
     }
   }
 
@@ -106,7 +122,11 @@ export class AutomatedRebalancer {
       const metrics = await this.validatorMonitor.checkValidators()
       
       // Generate rebalancing recommendation based on validator metrics
-      const rebalanceRec = this.generateRebalancingRecommendation(metrics)
+      const rebalanceRec = await this.validatorMonitor.getRebalanceRecommendation(
+        metrics.validators,
+        this.job.strategy,
+        this.job.strategyParams
+      )
 
       console.log(`Rebalancing assessment: ${rebalanceRec.reason}`)
       console.log(`Should rebalance: ${rebalanceRec.shouldRebalance}`)
@@ -114,67 +134,30 @@ export class AutomatedRebalancer {
 
       // Check if rebalancing meets our criteria
       if (!rebalanceRec.shouldRebalance) {
-        this.recordRebalancingResult({
-          executed: false,
-          reason: rebalanceRec.reason,
-          beforeAPY: metrics.averagePerformance, // Use averagePerformance instead
-          afterAPY: metrics.averagePerformance,
-          improvement: 0,
-          timestamp: new Date().toISOString(),
-          validatorsChanged: { from: [], to: [] }
-        })
+        this.recordRebalancingResult(this.skippedResult(rebalanceRec.reason, metrics))
         return
       }
 
       // Check if improvement meets minimum threshold
       if (rebalanceRec.estimatedImprovementAPY < this.job.thresholds.minImprovement) {
         console.log(`Improvement ${rebalanceRec.estimatedImprovementAPY.toFixed(2)}% below threshold ${this.job.thresholds.minImprovement}%`)
-        this.recordRebalancingResult({
-          executed: false,
-          reason: `Improvement below threshold (${rebalanceRec.estimatedImprovementAPY.toFixed(2)}% < ${this.job.thresholds.minImprovement}%)`,
-          beforeAPY: metrics.averageEffectiveAPY,
-          afterAPY: metrics.averageEffectiveAPY,
-          improvement: 0,
-          timestamp: new Date().toISOString(),
-          validatorsChanged: { from: [], to: [] }
-        })
+        this.recordRebalancingResult(this.skippedResult(
+          `Improvement below threshold (${rebalanceRec.estimatedImprovementAPY.toFixed(2)}% < ${this.job.thresholds.minImprovement}%)`,
+          metrics
+        ))
         return
       }
 
       // Execute rebalancing
       console.log('Conditions met, executing automated rebalancing...')
-      const result = await this.executeAutomatedRebalancing()
-
-      if (result.success) {
-        console.log(`✅ Rebalancing executed successfully: ${result.message}`)
-        this.recordRebalancingResult({
-          executed: true,
-          reason: rebalanceRec.reason,
-          txHash: result.txHash,
-          beforeAPY: metrics.averagePerformance,
-          afterAPY: metrics.averagePerformance + rebalanceRec.estimatedImprovementAPY,
-          improvement: rebalanceRec.estimatedImprovementAPY,
-          timestamp: new Date().toISOString(),
-          validatorsChanged: {
-            from: rebalanceRec.fromValidators.map(v => v.address),
-            to: rebalanceRec.toValidators.map(v => v.address)
-          }
-        })
+      const result = await this.executeAutomatedRebalancing(rebalanceRec, metrics, rebalanceRec.reason)
+
+      if (result.executed) {
+        console.log(`✅ Rebalancing executed successfully: ${result.reason}`)
       } else {
-        console.error(`❌ Rebalancing failed: ${result.message}`)
-        this.recordRebalancingResult({
-          executed: false,
-          reason: `Execution failed: ${result.message}`,
-          beforeAPY: metrics.averageEffectiveAPY,
-          afterAPY: metrics.averageEffectiveAPY,
-          improvement: 0,
-          timestamp: new Date().toISOString(),
-          validatorsChanged: {
-            from: rebalanceRec.fromValidators.map(v => v.address),
-            to: []
-          }
-        })
+        console.error(`❌ Rebalancing not executed: ${result.reason}`)
       }
+      this.recordRebalancingResult(result)
     } catch (error) {
       console.error('Error in automated rebalancing check:', error)
       this.recordRebalancingResult({
@@ -202,46 +185,32 @@ export class AutomatedRebalancer {
   }
 
   /**
-   * Manual trigger for rebalancing (bypasses some automated checks)
+   * Manual trigger for rebalancing (bypasses the improvement threshold).
+   * With dryRun the manualRebalance calldata is planned but nothing is sent,
+   * and the preview is not recorded in the history.
    */
-  async triggerManualRebalancing(): Promise<RebalancingResult> {
+  async triggerManualRebalancing(options: { dryRun?: boolean } = {}): Promise<RebalancingResult> {
     console.log('Manual rebalancing triggered...')
+    const record = (result: RebalancingResult) => {
+      if (!options.dryRun) this.recordRebalancingResult(result)
+    }
     
     try {
       const metrics = await this.validatorMonitor.checkValidators()
-      const rebalanceRec = this.generateRebalancingRecommendation(metrics)
+      const rebalanceRec = await this.validatorMonitor.getRebalanceRecommendation(
+        metrics.validators,
+        this.job.strategy,
+        this.job.strategyParams
+      )
 
       if (!rebalanceRec.shouldRebalance) {
-        const result: RebalancingResult = {
-          executed: false,
-          reason: `Manual trigger: ${rebalanceRec.reason}`,
-          beforeAPY: metrics.averagePerformance,
-          afterAPY: metrics.averagePerformance,
-          improvement: 0,
-          timestamp: new Date().toISOString(),
-          validatorsChanged: { from: [], to: [] }
-        }
-        this.recordRebalancingResult(result)
+        const result = this.skippedResult(`Manual trigger: ${rebalanceRec.reason}`, metrics)
+        record(result)
         return result
       }
 
-      const executionResult = await this.executeAutomatedRebalancing()
-      
-      const result: RebalancingResult = {
-        executed: executionResult.success,
-        reason: `Manual trigger: ${executionResult.message}`,
-        txHash: executionResult.txHash,
-        beforeAPY: metrics.averageEffectiveAPY,
-        afterAPY: metrics.averageEffectiveAPY + (executionResult.success ? rebalanceRec.estimatedImprovementAPY : 0),
-        improvement: executionResult.success ? rebalanceRec.estimatedImprovementAPY : 0,
-        timestamp: new Date().toISOString(),
-        validatorsChanged: {
-          from: rebalanceRec.fromValidators.map(v => v.address),
-          to: executionResult.success ? rebalanceRec.toValidators.map(v => v.address) : []
-        }
-      }
-
-      this.recordRebalancingResult(result)
+      const result = await this.executeAutomatedRebalancing(rebalanceRec, metrics, 'Manual trigger', options.dryRun)
+      record(result)
       return result
     } catch (error) {
       const errorResult: RebalancingResult = {
@@ -253,60 +222,41 @@ export class AutomatedRebalancer {
         timestamp: new Date().toISOString(),
         validatorsChanged: { from: [], to: [] }
       }
-      this.recordRebalancingResult(errorResult)
+      record(errorResult)
       return errorResult
     }
   }
 
   /**
-   * Simulate validator changes to test rebalancing logic
+   * Update rebalancing thresholds
    */
-  async simulateValidatorStateChanges(changes: Array<{
-    validatorAddress: string
-    status?: boolean
-    commission?: number
-    hybridScore?: number
-  }>): Promise<{ success: boolean; message: string }> {
-    console.log('Simulating validator state changes for testing...')
-    
-    try {
-      const results = []
-      
-      for (const change of changes) {
-        const result = await this.validatorMonitor.simulateValidatorStateChange(
-          change.validatorAddress,
-          {
-            status: change.status,
-            commission: change.commission,
-            hybridScore: change.hybridScore
-          }
-        )
-        results.push(result)
-      }
-      
-      const allSuccessful = results.every(r => r.success)
-      
-      return {
-        success: allSuccessful,
-        message: allSuccessful 
-          ? `Successfully applied ${changes.length} validator state changes`
-          : `Some state changes failed: ${results.filter(r => !r.success).map(r => r.message).join(', ')}`
-      }
-    } catch (error) {
-      console.error('Error simulating validator state changes:', error)
-      return {
-        success: false,
-        message: `Simulation failed: ${error instanceof Error ? error.message : 'Unknown error'}`
-      }
+  updateThresholds(thresholds: Partial<RebalancingJob['thresholds']>): void {
+    this.job.thresholds = { ...this.job.thresholds, ...thresholds }
+    console.log('Updated rebalancing thresholds:', this.job.thresholds)
+  }
+
+  /**
+   * Switch the allocation strategy and/or adjust its parameters
+   */
+  updateStrategy(strategy?: string, params: Partial<AllocationParams> = {}): void {
+    if (strategy !== undefined) {
+      this.job.strategy = getAllocationStrategy(strategy).id
     }
+    this.job.strategyParams = { ...this.job.strategyParams, ...params }
+    console.log(`Rebalancing strategy: ${this.job.strategy}`, this.job.strategyParams)
   }
 
   /**
-   * Update rebalancing thresholds
+   * Target allocation of every strategy for the current validator set, using
+   * the configured strategy parameters
    */
-  updateThresholds(thresholds: Partial<RebalancingJob['thresholds']>): void {
-    this.job.thresholds = { ...this.job.thresholds, ...thresholds }
-    console.log('Updated rebalancing thresholds:', this.job.thresholds)
+  async compareStrategies(): Promise<{ active: AllocationStrategyId; params: AllocationParams; strategies: AllocationSummary[] }> {
+    const metrics = await this.validatorMonitor.checkValidators()
+    return {
+      active: this.job.strategy,
+      params: { ...this.job.strategyParams },
+      strategies: compareStrategies(metrics.validators, this.job.strategyParams)
+    }
   }
 
   /**
@@ -337,7 +287,16 @@ export class AutomatedRebalancer {
    * Get current job status
    */
   getStatus(): RebalancingJob {
-    return { ...this.job }
+    return { ...this.job, strategyParams: { ...this.job.strategyParams } }
+  }
+
+  /**
+   * How rebalancing moves are carried out: the signer sending manualRebalance,
+   * and whether runs only plan calldata
+   */
+  getExecutionConfig(): { dryRun: boolean; signer: string | null; executing: boolean } {
+    const signer = this.executor.getSigner()
+    return { dryRun: this.executor.isDryRun() || !signer, signer, executing: this.executing }
   }
 
   /**
@@ -382,84 +341,72 @@ export class AutomatedRebalancer {
   }
 
   /**
-   * Execute the actual rebalancing operation
+   * Turn a recommendation into manualRebalance calls and run them through the
+   * executor (or only plan them for a dry run)
    */
-  private async executeAutomatedRebalancing(): Promise<{ success: boolean; message: string }> {
+  private async executeAutomatedRebalancing(
+    rebalanceRec: RebalanceRecommendation,
+    metrics: ValidatorMetrics,
+    label: string,
+    dryRun?: boolean
+  ): Promise<RebalancingResult> {
+    const moves = planRebalanceMoves(rebalanceRec)
+    if (moves.length === 0) {
+      return this.skippedResult(`${label}: no valid rebalancing moves identified`, metrics)
+    }
+
+    if (this.executing) {
+      return this.skippedResult(`${label}: another rebalancing run is still in progress`, metrics)
+    }
+
+    this.executing = true
     try {
-      // In a real implementation, this would:
-      // 1. Calculate optimal validator allocation
-      // 2. Execute delegation/undelegation transactions
-      // 3. Update internal state
-      
-      console.log('🔄 Executing rebalancing (simulated)...')
-      
-      // Simulate rebalancing execution
-      const success = Math.random() > 0.1 // 90% success rate for simulation
-      
-      if (success) {
-        return {
-          success: true,
-          message: 'Rebalancing completed successfully',
-          txHash: '0x' + Math.random().toString(16).substr(2, 64) // Mock transaction hash
-        }
+      const execution = await this.executor.execute(moves, dryRun)
+      const confirmed = execution.calls.filter(call => call.status === 'confirmed')
+      const executed = !execution.dryRun && execution.success
+      const failed = execution.calls.find(call => call.status === 'failed' || call.status === 'reverted')
+
+      let reason: string
+      if (execution.dryRun) {
+        reason = `${label}: dry run, ${execution.calls.length} manualRebalance call(s) planned`
+      } else if (executed) {
+        reason = `${label}: ${confirmed.length} manualRebalance call(s) confirmed`
       } else {
-        return {
-          success: false,
-          message: 'Rebalancing failed due to network conditions',
-          txHash: null
-        }
+        reason = `${label}: execution stopped after ${confirmed.length} of ${execution.calls.length} call(s)` +
+          (failed ? ` (${failed.status}${failed.error ? `: ${failed.error}` : ''})` : '')
       }
-    } catch (error) {
+
       return {
-        success: false,
-        message: `Rebalancing failed: ${error.message}`,
-        txHash: null
+        executed,
+        reason,
+        txHash: confirmed.length > 0 ? confirmed[confirmed.length - 1].txHash : undefined,
+        dryRun: execution.dryRun,
+        transactions: execution.calls,
+        beforeAPY: metrics.averageEffectiveAPY,
+        afterAPY: metrics.averageEffectiveAPY + (executed ? rebalanceRec.estimatedImprovementAPY : 0),
+        improvement: executed ? rebalanceRec.estimatedImprovementAPY : 0,
+        timestamp: new Date().toISOString(),
+        validatorsChanged: {
+          from: [...new Set(confirmed.map(call => call.from))],
+          to: [...new Set(confirmed.map(call => call.to))]
+        }
       }
+    } catch (error) {
+      return this.skippedResult(`${label}: execution failed: ${error instanceof Error ? error.message : 'Unknown error'}`, metrics)
+    } finally {
+      this.executing = false
     }
   }
 
-  /**
-   * Generate rebalancing recommendation based on validator metrics
-   */
-  private generateRebalancingRecommendation(metrics: any) {
-    // Simple rebalancing logic based on validator performance
-    const averagePerformance = metrics.averagePerformance
-    const averageUptime = metrics.averageUptime
-    const activeValidators = metrics.activeValidators
-    const totalValidators = metrics.totalValidators
-    
-    let shouldRebalance = false
-    let reason = 'No rebalancing needed'
-    let estimatedImprovementAPY = 0
-    
-    // Check if performance is below threshold
-    if (averagePerformance < 80) {
-      shouldRebalance = true
-      reason = `Low validator performance: ${averagePerformance.toFixed(1)}%`
-      estimatedImprovementAPY = (85 - averagePerformance) * 0.1 // Simple estimation
-    }
-    
-    // Check if uptime is below threshold
-    if (averageUptime < 95) {
-      shouldRebalance = true
-      reason = `Low validator uptime: ${averageUptime.toFixed(1)}%`
-      estimatedImprovementAPY = Math.max(estimatedImprovementAPY, (98 - averageUptime) * 0.05)
-    }
-    
-    // Check if too many inactive validators
-    const inactiveRatio = 1 - (activeValidators / totalValidators)
-    if (inactiveRatio > 0.2) {
-      shouldRebalance = true
-      reason = `High inactive validator ratio: ${(inactiveRatio * 100).toFixed(1)}%`
-      estimatedImprovementAPY = Math.max(estimatedImprovementAPY, inactiveRatio * 2)
-    }
-    
+  private skippedResult(reason: string, metrics: ValidatorMetrics): RebalancingResult {
     return {
-      shouldRebalance,
+      executed: false,
       reason,
-      estimatedImprovementAPY,
-      fromValidators: [], // Mock empty array for now
-      toValidators: []    // Mock empty array for now
+      beforeAPY: metrics.averageEffectiveAPY,
+      afterAPY: metrics.averageEffectiveAPY,
+      improvement: 0,
+      timestamp: new Date().toISOString(),
+      validatorsChanged: { from: [], to: [] }
     }
   }
 
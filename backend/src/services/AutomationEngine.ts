@@ -1,22 +1,27 @@
 import { createWalletClient, http, parseEther, formatEther } from 'viem'
 import { privateKeyToAccount } from 'viem/accounts'
 import { coreTestnet2 } from '../config/chains'
-import { ContractMonitor } from './ContractMonitor'
+import { ContractMetrics, ContractMonitor } from './ContractMonitor'
 import { ValidatorMonitor } from './ValidatorMonitor'
 import { AlertManager } from './AlertManager'
-
-export interface AutomationTask {
-  id: string
+import { FeeManager, FeeProposal, FeeProposalMode, FeeSchedule, VolatilityEstimate, feeScheduleFor, hasVolatilityHistory, pricePointsFromHistory, realisedVolatility } from './FeeManager'
+import { Guardian, GuardianStatus, GuardianTrip, TrippedCondition, unconfirmedPauses } from './Guardian'
+import { MetricsCollector, TIMEFRAMES } from './MetricsCollector'
+import { PriceHistory } from './PriceHistory'
+import { LiquidityAdjustment, LiquidityAsset, LiquidityBounds, LiquidityManager, PoolLiquidity, planLiquidityAdjustment } from './LiquidityManager'
+import { ScheduledTaskDefinition, ScheduledTaskState, TaskScheduler } from './TaskScheduler'
+import type { TaskRun, TaskSchedule } from '../storage/TaskStore'
+
+// Scheduler state plus what the task does; parameters are passed to each run
+export interface AutomationTask extends ScheduledTaskState {
   name: string
   type: 'rebalancing' | 'liquidity' | 'fees' | 'risk-management'
-  enabled: boolean
-  lastRun: string
-  nextRun: string
   condition: string
   action: string
-  parameters: any
 }
 
+type AutomationTaskDefinition = ScheduledTaskDefinition & Pick<AutomationTask, 'name' | 'type' | 'condition' | 'action'>
+
 export interface RebalancingStrategy {
   targetAllocation: {
     CORE: number // percentage
@@ -31,7 +36,14 @@ export interface RiskParameters {
   maxDrawdown: number // maximum acceptable drawdown
   maxConcentration: number // maximum allocation to single asset
   emergencyThreshold: number // threshold for emergency actions
-  pauseConditions: string[]
+  pauseConditions: string[] // conditions that trip the guardian and pause the contracts
+  maxErrorRate: number // high_error_rate: failed transaction share
+  minErrorRateTransactions: number // high_error_rate: transactions needed before it can trip
+  extremeVolatility: number // extreme_market_volatility: annualised realised volatility
+  volatilityWindow: string // price history the volatility is measured over
+  minVolatilitySamples: number // prices needed in the window before volatility can trip
+  minVolatilityCoverage: number // share of the window those prices must span
+  slashingWindowMinutes: number // validator_slashing_event: how recent a slash must be
 }
 
 export class AutomationEngine {
@@ -39,14 +51,24 @@ export class AutomationEngine {
   private validatorMonitor: ValidatorMonitor
   private alertManager: AlertManager
   private walletClient: any
-  private automationTasks: AutomationTask[]
+  private taskDefinitions: AutomationTaskDefinition[]
   private rebalancingStrategy: RebalancingStrategy
   private riskParameters: RiskParameters
 
-  constructor() {
-    this.contractMonitor = new ContractMonitor()
-    this.validatorMonitor = new ValidatorMonitor()
-    this.alertManager = new AlertManager()
+  constructor(
+    alertManager: AlertManager = new AlertManager(),
+    contractMonitor: ContractMonitor = new ContractMonitor(),
+    private scheduler: TaskScheduler = new TaskScheduler(),
+    private liquidityManager: LiquidityManager = new LiquidityManager(),
+    private feeManager: FeeManager = new FeeManager(),
+    private metricsCollector: MetricsCollector = new MetricsCollector(),
+    private guardian: Guardian = new Guardian(),
+    private priceHistory: PriceHistory = new PriceHistory(),
+    validatorMonitor: ValidatorMonitor = new ValidatorMonitor()
+  ) {
+    this.contractMonitor = contractMonitor
+    this.validatorMonitor = validatorMonitor
+    this.alertManager = alertManager
     
     // Initialize wallet client for automated transactions
     // NOTE: In production, use secure key management
@@ -64,14 +86,13 @@ export class AutomationEngine {
   }
 
   private initializeAutomationTasks() {
-    this.automationTasks = [
+    this.taskDefinitions = [
       {
         id: 'auto-rebalance',
         name: 'Automatic Portfolio Rebalancing',
         type: 'rebalancing',
         enabled: true,
-        lastRun: new Date(0).toISOString(),
-        nextRun: new Date(Date.now() + 60 * 60 * 1000).toISOString(), // 1 hour
+        schedule: { type: 'interval', minutes: 60 }, // 1 hour
         condition: 'allocation_deviation > threshold',
         action: 'rebalance_portfolio',
         parameters: {
@@ -84,13 +105,14 @@ export class AutomationEngine {
         name: 'Liquidity Pool Management',
         type: 'liquidity',
         enabled: true,
-        lastRun: new Date(0).toISOString(),
-        nextRun: new Date(Date.now() + 30 * 60 * 1000).toISOString(), // 30 minutes
+        schedule: { type: 'interval', minutes: 30 }, // 30 minutes
         condition: 'available_liquidity < minimum_threshold',
         action: 'adjust_liquidity',
         parameters: {
+          assets: ['CORE', 'lstBTC'],
           minLiquidityRatio: 0.05, // 5%
-          targetLiquidityRatio: 0.10 // 10%
+          targetLiquidityRatio: 0.10, // 10%
+          maxLiquidityRatio: 0.20 // 20%
         }
       },
       {
@@ -98,13 +120,18 @@ export class AutomationEngine {
         name: 'Dynamic Fee Adjustment',
         type: 'fees',
         enabled: false, // Disabled by default for safety
-        lastRun: new Date(0).toISOString(),
-        nextRun: new Date(Date.now() + 4 * 60 * 60 * 1000).toISOString(), // 4 hours
+        schedule: { type: 'interval', minutes: 240 }, // 4 hours
         condition: 'market_volatility > threshold',
         action: 'adjust_fees',
         parameters: {
-          volatilityThreshold: 0.15, // 15%
-          maxFeeAdjustment: 0.002 // 0.2%
+          mode: 'recommend', // 'approval' to queue proposals for an admin to approve and send
+          volatilityWindow: '7d', // price history to measure realised volatility over
+          minPriceSamples: 24,
+          volatilityThreshold: 0.15, // 15% annualised
+          maxFeeAdjustment: 0.002, // 0.2%
+          maxProtocolFeeAdjustment: 0.1, // protocol share rises by at most 10 points
+          baseManagementFeeBps: 50, // 0.5%
+          baseProtocolFeeBps: 2000 // 20% of fees
         }
       },
       {
@@ -112,8 +139,7 @@ export class AutomationEngine {
         name: 'Risk Monitoring and Mitigation',
         type: 'risk-management',
         enabled: true,
-        lastRun: new Date(0).toISOString(),
-        nextRun: new Date(Date.now() + 15 * 60 * 1000).toISOString(), // 15 minutes
+        schedule: { type: 'interval', minutes: 15 }, // 15 minutes
         condition: 'risk_metrics > safe_threshold',
         action: 'mitigate_risk',
         parameters: {
@@ -122,6 +148,10 @@ export class AutomationEngine {
         }
       }
     ]
+
+    for (const definition of this.taskDefinitions) {
+      this.scheduler.register(definition, () => this.executeTask(definition.id))
+    }
   }
 
   private initializeStrategies() {
@@ -144,61 +174,70 @@ export class AutomationEngine {
         'price_feed_failure',
         'high_error_rate',
         'extreme_market_volatility'
-      ]
+      ],
+      maxErrorRate: 0.25, // 25% of recent transactions failing
+      minErrorRateTransactions: 20,
+      extremeVolatility: 1.5, // 150% annualised
+      volatilityWindow: '24h',
+      minVolatilitySamples: 24,
+      minVolatilityCoverage: 0.75, // prices from at least 18 of the 24 hours
+      slashingWindowMinutes: 60
     }
   }
 
-  async runAutomatedTasks(): Promise<void> {
-    console.log('🤖 Running automated tasks...')
-    
-    for (const task of this.automationTasks) {
-      if (!task.enabled) continue
-      
-      const now = new Date()
-      const nextRun = new Date(task.nextRun)
-      
-      if (now >= nextRun) {
-        try {
-          await this.executeTask(task)
-          task.lastRun = now.toISOString()
-          
-          // Schedule next run
-          const intervalMs = this.getTaskInterval(task)
-          task.nextRun = new Date(now.getTime() + intervalMs).toISOString()
-          
-          console.log(`✅ Completed task: ${task.name}`)
-        } catch (error) {
-          console.error(`❌ Error executing task ${task.name}:`, error)
-          
-          // Create alert for failed automation
-          this.alertManager.addCustomAlert(
-            'error',
-            'automation',
-            'Automation Task Failed',
-            `Task "${task.name}" failed: ${error.message}`,
-            { task: task.id, error: error.message }
-          )
-        }
-      }
-    }
+  // Run tasks on their schedules until stop() is called
+  start(): void {
+    this.scheduler.start()
+  }
+
+  stop(): void {
+    this.scheduler.stop()
   }
 
-  private async executeTask(task: AutomationTask): Promise<void> {
-    switch (task.type) {
-      case 'rebalancing':
-        await this.executeRebalancing(task)
-        break
-      case 'liquidity':
-        await this.executeLiquidityManagement(task)
-        break
-      case 'fees':
-        await this.executeFeeAdjustment(task)
-        break
-      case 'risk-management':
-        await this.executeRiskManagement(task)
-        break
-      default:
-        throw new Error(`Unknown task type: ${task.type}`)
+  // Run every task that is due now (the scheduler does this on its own once started)
+  async runAutomatedTasks(): Promise<TaskRun[]> {
+    return this.scheduler.tick()
+  }
+
+  // Returns the task's summary of what it did, which is kept in its run history
+  private async executeTask(taskId: string): Promise<Record<string, any> | void> {
+    const task = this.getTask(taskId)!
+    console.log(`🤖 Running task: ${task.name}`)
+
+    try {
+      let result: Record<string, any> | void
+      switch (task.type) {
+        case 'rebalancing':
+          await this.executeRebalancing(task)
+          break
+        case 'liquidity':
+          result = await this.executeLiquidityManagement(task)
+          break
+        case 'fees':
+          result = await this.executeFeeAdjustment(task)
+          break
+        case 'risk-management':
+          result = await this.executeRiskManagement(task)
+          break
+        default:
+          throw new Error(`Unknown task type: ${task.type}`)
+      }
+      console.log(`✅ Completed task: ${task.name}`)
+      this.alertManager.resolveCustomAlert('automation', 'Automation Task Failed', task.id)
+      return result
+    } catch (error) {
+      console.error(`❌ Error executing task ${task.name}:`, error)
+
+      // Create alert for failed automation
+      this.alertManager.addCustomAlert(
+        'error',
+        'automation',
+        'Automation Task Failed',
+        `Task "${task.name}" failed: ${error.message}`,
+        { task: task.id, error: error.message },
+        task.id
+      )
+      throw error
     }
   }
 
@@ -230,72 +269,94 @@ export class AutomationEngine {
         'automation',
         'Portfolio Rebalanced',
         `Portfolio rebalanced due to ${maxDeviation.toFixed(2)}% deviation`,
-        { allocation, trades }
+        { allocation, trades },
+        String(Date.now())
       )
     }
   }
 
-  private async executeLiquidityManagement(task: AutomationTask): Promise<void> {
+  private async executeLiquidityManagement(task: AutomationTask): Promise<Record<string, any>> {
     console.log('💧 Checking liquidity levels...')
-    
-    const metrics = await this.contractMonitor.collectMetrics()
-    const totalAUM = parseFloat(metrics.totalAUM)
-    const liquidityRatio = await this.getCurrentLiquidityRatio()
-    
-    const minRatio = task.parameters.minLiquidityRatio
-    const targetRatio = task.parameters.targetLiquidityRatio
-    
-    if (liquidityRatio < minRatio) {
-      console.log(`💰 Liquidity too low: ${(liquidityRatio * 100).toFixed(2)}%`)
-      
-      // Calculate required liquidity adjustment
-      const targetLiquidity = totalAUM * targetRatio
-      const currentLiquidity = totalAUM * liquidityRatio
-      const requiredIncrease = targetLiquidity - currentLiquidity
-      
-      // Execute liquidity adjustment (simulated)
-      await this.adjustLiquidity(requiredIncrease)
-      
+
+    if (!this.liquidityManager.isDeployed()) {
+      console.log('UnbondingQueue is not deployed on this network, skipping liquidity management')
+      return { skipped: 'UnbondingQueue is not deployed' }
+    }
+
+    const bounds: LiquidityBounds = {
+      minLiquidityRatio: task.parameters.minLiquidityRatio,
+      targetLiquidityRatio: task.parameters.targetLiquidityRatio,
+      maxLiquidityRatio: task.parameters.maxLiquidityRatio
+    }
+    const pools: PoolLiquidity[] = []
+    const adjustments: LiquidityAdjustment[] = []
+
+    for (const asset of task.parameters.assets as LiquidityAsset[]) {
+      const pool = await this.getCurrentLiquidityRatio(asset)
+      pools.push(pool)
+
+      const adjustment = await this.adjustLiquidity(pool, bounds)
+      if (!adjustment) {
+        this.alertManager.resolveCustomAlert('automation', 'Liquidity Adjustment Planned', asset)
+        continue
+      }
+      adjustments.push(adjustment)
+
+      const change = `${(adjustment.fromRatio * 100).toFixed(2)}% -> ${(adjustment.toRatio * 100).toFixed(2)}%`
+      if (adjustment.status === 'failed' || adjustment.status === 'reverted') {
+        throw new Error(`${adjustment.method} for ${asset} ${adjustment.status}: ${adjustment.error || adjustment.txHash}`)
+      }
+
       this.alertManager.addCustomAlert(
         'warning',
         'automation',
-        'Liquidity Adjusted',
-        `Increased liquidity by $${requiredIncrease.toFixed(0)}`,
-        { oldRatio: liquidityRatio, newRatio: targetRatio }
+        adjustment.status === 'planned' ? 'Liquidity Adjustment Planned' : 'Liquidity Adjusted',
+        adjustment.status === 'planned'
+          ? `${asset} instant-withdrawal liquidity should move ${change} (dry run, not sent)`
+          : `${asset} instant-withdrawal liquidity moved ${change}`,
+        { ...adjustment },
+        // A dry-run plan repeats every cycle until the pool is back in bounds
+        adjustment.status === 'planned' ? asset : adjustment.txHash
       )
     }
+
+    return { bounds, pools, adjustments }
   }
 
-  private async executeFeeAdjustment(task: AutomationTask): Promise<void> {
+  private async executeFeeAdjustment(task: AutomationTask): Promise<Record<string, any>> {
     console.log('💰 Checking fee adjustment conditions...')
-    
-    // Calculate market volatility (simplified)
-    const volatility = await this.calculateMarketVolatility()
-    const threshold = task.parameters.volatilityThreshold
-    
-    if (volatility > threshold) {
-      console.log(`📈 High volatility detected: ${(volatility * 100).toFixed(2)}%`)
-      
-      // Adjust fees based on volatility
-      const feeAdjustment = Math.min(
-        volatility * 0.01, // 1% of volatility
-        task.parameters.maxFeeAdjustment
-      )
-      
-      // Execute fee adjustment (simulated)
-      await this.adjustFees(feeAdjustment)
-      
+
+    const volatility = await this.calculateMarketVolatility(task.parameters.volatilityWindow)
+    if (volatility.samples < task.parameters.minPriceSamples) {
+      console.log(`Not enough price history for volatility (${volatility.samples} samples)`)
+      return { volatility, skipped: 'Not enough price history' }
+    }
+
+    const schedule = feeScheduleFor(volatility.volatility, {
+      volatilityThreshold: task.parameters.volatilityThreshold,
+      maxFeeAdjustment: task.parameters.maxFeeAdjustment,
+      maxProtocolFeeAdjustment: task.parameters.maxProtocolFeeAdjustment,
+      baseManagementFeeBps: task.parameters.baseManagementFeeBps,
+      baseProtocolFeeBps: task.parameters.baseProtocolFeeBps
+    })
+    const proposal = await this.adjustFees(schedule, volatility, task.parameters.mode)
+
+    if (proposal) {
+      console.log(`📈 Volatility ${(volatility.volatility * 100).toFixed(1)}%: proposing ${schedule.managementFeeBps} bps management fee`)
       this.alertManager.addCustomAlert(
         'warning',
         'automation',
-        'Fees Adjusted',
-        `Increased fees by ${(feeAdjustment * 100).toFixed(3)}% due to volatility`,
-        { volatility, feeAdjustment }
+        proposal.status === 'pending' ? 'Fee Change Awaiting Approval' : 'Fee Change Recommended',
+        `Management fee ${proposal.current.managementFeeBps} -> ${schedule.managementFeeBps} bps, protocol share ${proposal.current.protocolFeeBps} -> ${schedule.protocolFeeBps} bps at ${(volatility.volatility * 100).toFixed(1)}% volatility`,
+        { proposalId: proposal.id, volatility, schedule },
+        proposal.id
       )
     }
+
+    return { volatility, schedule, proposalId: proposal?.id ?? null }
   }
 
-  private async executeRiskManagement(task: AutomationTask): Promise<void> {
+  private async executeRiskManagement(task: AutomationTask): Promise<Record<string, any>> {
     console.log('🛡️ Monitoring risk metrics...')
     
     const metrics = await this.contractMonitor.collectMetrics()
@@ -303,21 +364,76 @@ export class AutomationEngine {
     
     // Check for emergency conditions
     const riskLevel = await this.calculateRiskLevel(metrics, validatorMetrics)
+    const conditions = await this.checkPauseConditions(metrics, validatorMetrics)
+
+    // Pauses that didn't take effect when the guardian tripped are sent again every cycle
+    const retried = await this.guardian.retryPauses()
+    if (retried.length > 0) {
+      this.reportFailedPauses(this.guardian.getStatus().current!, riskLevel)
+    }
+
+    const trip = await this.executeRiskMitigation(conditions)
     
-    if (riskLevel > this.riskParameters.emergencyThreshold) {
-      console.log(`🚨 High risk level detected: ${(riskLevel * 100).toFixed(1)}%`)
+    if (trip) {
+      console.log(`🛑 Circuit breaker tripped: ${conditions.map(c => c.condition).join(', ')}`)
       
-      // Execute risk mitigation
-      await this.executeRiskMitigation(riskLevel)
+      this.alertManager.addCustomAlert(
+        'critical',
+        'automation',
+        'Circuit Breaker Tripped',
+        `${conditions.map(c => c.detail).join('; ')}. ${describePauses(trip)}. An admin must reset the guardian to unpause.`,
+        { trip, riskLevel },
+        trip.id
+      )
+      this.reportFailedPauses(trip, riskLevel)
+    } else if (riskLevel > this.riskParameters.emergencyThreshold) {
+      console.log(`🚨 High risk level detected: ${(riskLevel * 100).toFixed(1)}%`)
       
       this.alertManager.addCustomAlert(
         'critical',
         'automation',
-        'Risk Mitigation Activated',
-        `Automated risk mitigation triggered at ${(riskLevel * 100).toFixed(1)}% risk level`,
+        'High Risk Level',
+        `Risk level is ${(riskLevel * 100).toFixed(1)}%`,
         { riskLevel, metrics, validatorMetrics }
       )
+    } else {
+      this.alertManager.resolveCustomAlert('automation', 'High Risk Level')
     }
+    
+    return { riskLevel, conditions, guardian: this.guardian.getStatus().state, tripId: trip?.id ?? null }
+  }
+
+  // Evaluate the enabled pause conditions against this cycle's monitor output
+  private async checkPauseConditions(metrics: ContractMetrics, validatorMetrics: any): Promise<TrippedCondition[]> {
+    let priceData = null
+    let priceError = null
+    try {
+      priceData = await this.contractMonitor.checkPriceFeeds()
+    } catch (error) {
+      priceError = error.message
+    }
+    
+    const { volatilityWindow, minVolatilitySamples, minVolatilityCoverage } = this.riskParameters
+    const volatility = await this.calculateMarketVolatility(volatilityWindow)
+    const measured = hasVolatilityHistory(volatility, TIMEFRAMES[volatilityWindow], minVolatilitySamples, minVolatilityCoverage)
+    
+    return this.guardian.evaluate(
+      {
+        contractMetrics: metrics,
+        validatorMetrics,
+        delegatedValidators: await this.validatorMonitor.getDelegatedValidators(validatorMetrics.validators),
+        priceData,
+        priceError,
+        volatility: measured ? volatility.volatility : null
+      },
+      this.riskParameters.pauseConditions,
+      {
+        maxErrorRate: this.riskParameters.maxErrorRate,
+        minErrorRateTransactions: this.riskParameters.minErrorRateTransactions,
+        extremeVolatility: this.riskParameters.extremeVolatility,
+        slashingWindowMinutes: this.riskParameters.slashingWindowMinutes
+      }
+    )
   }
 
   // Helper methods (simplified implementations)
@@ -339,24 +455,38 @@ export class AutomationEngine {
     console.log('Executing rebalancing trades:', trades)
   }
 
-  private async getCurrentLiquidityRatio(): Promise<number> {
-    // Mock liquidity ratio calculation
-    return 0.03 // 3%
+  private async getCurrentLiquidityRatio(asset: LiquidityAsset): Promise<PoolLiquidity> {
+    const pool = await this.liquidityManager.getPool(asset)
+    console.log(`💧 ${asset} liquidity ratio: ${(pool.liquidityRatio * 100).toFixed(2)}% (${formatEther(BigInt(pool.available))} available, ${formatEther(BigInt(pool.queued))} queued)`)
+    return pool
   }
 
-  private async adjustLiquidity(amount: number): Promise<void> {
-    // Simulate liquidity adjustment
-    console.log(`Adjusting liquidity by $${amount}`)
+  // Bring the pool back to the target ratio if it is out of bounds; null when nothing needed changing
+  private async adjustLiquidity(pool: PoolLiquidity, bounds: LiquidityBounds): Promise<LiquidityAdjustment | null> {
+    const planned = planLiquidityAdjustment(pool, bounds)
+    if (!planned) return null
+
+    console.log(`💰 ${pool.asset} liquidity ${planned.reason}: setting ${formatEther(BigInt(planned.to))} available via ${planned.method}`)
+    return this.liquidityManager.apply(planned)
   }
 
-  private async calculateMarketVolatility(): Promise<number> {
-    // Mock volatility calculation
-    return Math.random() * 0.2 // 0-20%
+  // Realised CORE and BTC volatility over the stored price history of the fee manager's network
+  // From the price history's 5 minute closes, or the collected price metrics until it has any
+  private async calculateMarketVolatility(window: string): Promise<VolatilityEstimate> {
+    const chainId = this.feeManager.getNetwork().chain.id
+    const points = this.priceHistory.getPricePoints(chainId, Date.now() - (TIMEFRAMES[window] ?? 0))
+    if (points.length >= 2) {
+      return realisedVolatility(points)
+    }
+
+    const history = await this.metricsCollector.getHistory('price', 20000, window, chainId)
+    return realisedVolatility(pricePointsFromHistory(history))
   }
 
-  private async adjustFees(adjustment: number): Promise<void> {
-    // Simulate fee adjustment
-    console.log(`Adjusting fees by ${(adjustment * 100).toFixed(3)}%`)
+  // Propose moving StakeBasket fees to the schedule; null when they already match or the same change is open
+  private async adjustFees(schedule: FeeSchedule, volatility: VolatilityEstimate, mode: FeeProposalMode): Promise<FeeProposal | null> {
+    const current = await this.feeManager.getCurrentFees()
+    return this.feeManager.propose(volatility, current, schedule, mode)
   }
 
   private async calculateRiskLevel(contractMetrics: any, validatorMetrics: any): Promise<number> {
@@ -380,51 +510,64 @@ export class AutomationEngine {
     return Math.min(1, riskScore)
   }
 
-  private async executeRiskMitigation(riskLevel: number): Promise<void> {
-    if (riskLevel > 0.8) {
-      // Emergency pause
-      console.log('🛑 Executing emergency pause')
-    } else if (riskLevel > 0.5) {
-      // Reduce exposure
-      console.log('📉 Reducing risk exposure')
-    } else {
-      // Increase monitoring frequency
-      console.log('👁️ Increasing monitoring frequency')
-    }
+  // Trip the guardian, pausing the contracts; null when nothing tripped or it already has
+  private async executeRiskMitigation(conditions: TrippedCondition[]): Promise<GuardianTrip | null> {
+    return this.guardian.trip(conditions)
   }
 
-  private getTaskInterval(task: AutomationTask): number {
-    const intervals = {
-      'auto-rebalance': 60 * 60 * 1000, // 1 hour
-      'liquidity-management': 30 * 60 * 1000, // 30 minutes
-      'dynamic-fees': 4 * 60 * 60 * 1000, // 4 hours
-      'risk-monitoring': 15 * 60 * 1000 // 15 minutes
+  // Raise a separate alert while any of the trip's pauses has not taken effect, and close it once they all have
+  private reportFailedPauses(trip: GuardianTrip, riskLevel: number): void {
+    const failed = unconfirmedPauses(trip)
+    if (failed.length === 0) {
+      this.alertManager.resolveCustomAlert('automation', 'Circuit Breaker Pause Failed', trip.id)
+      return
     }
-    
-    return intervals[task.id as keyof typeof intervals] || 60 * 60 * 1000
+
+    this.alertManager.addCustomAlert(
+      'critical',
+      'automation',
+      'Circuit Breaker Pause Failed',
+      `Could not pause ${failed.map(a => `${a.contract} (${a.status}${a.error ? `: ${a.error}` : ''})`).join(', ')}; retrying on every risk check`,
+      { trip, riskLevel },
+      trip.id
+    )
   }
 
   // Public API methods
   getAutomationTasks(): AutomationTask[] {
-    return this.automationTasks
+    return this.taskDefinitions.map(definition => this.getTask(definition.id)!)
   }
 
-  toggleTask(taskId: string, enabled: boolean): boolean {
-    const task = this.automationTasks.find(t => t.id === taskId)
-    if (task) {
-      task.enabled = enabled
-      return true
-    }
-    return false
+  getTask(taskId: string): AutomationTask | null {
+    const definition = this.taskDefinitions.find(t => t.id === taskId)
+    const state = this.scheduler.getTask(taskId)
+    if (!definition || !state) return null
+
+    const { name, type, condition, action } = definition
+    return { ...state, name, type, condition, action }
   }
 
-  updateTaskParameters(taskId: string, parameters: any): boolean {
-    const task = this.automationTasks.find(t => t.id === taskId)
-    if (task) {
-      task.parameters = { ...task.parameters, ...parameters }
-      return true
-    }
-    return false
+  getTaskRuns(taskId: string, limit?: number): TaskRun[] {
+    return this.scheduler.getRuns(taskId, limit)
+  }
+
+  // Run a task immediately; throws TaskBusyError while it is already running
+  async runTask(taskId: string): Promise<TaskRun> {
+    return this.scheduler.runNow(taskId)
+  }
+
+  pauseTask(taskId: string): AutomationTask | null {
+    return this.editTask(taskId, { enabled: false })
+  }
+
+  resumeTask(taskId: string): AutomationTask | null {
+    return this.editTask(taskId, { enabled: true })
+  }
+
+  editTask(taskId: string, changes: { enabled?: boolean; schedule?: TaskSchedule; parameters?: Record<string, any> }): AutomationTask | null {
+    if (!this.getTask(taskId)) return null
+    this.scheduler.update(taskId, changes)
+    return this.getTask(taskId)
   }
 
   getRebalancingStrategy(): RebalancingStrategy {
@@ -435,6 +578,26 @@ export class AutomationEngine {
     this.rebalancingStrategy = { ...this.rebalancingStrategy, ...strategy }
   }
 
+  getGuardianStatus(): GuardianStatus {
+    return this.guardian.getStatus()
+  }
+
+  // Unpause what the guardian paused and re-arm it; callers must have checked for an admin
+  async resetGuardian(resetBy: string): Promise<GuardianTrip> {
+    const trip = await this.guardian.reset(resetBy)
+    this.alertManager.resolveCustomAlert('automation', 'Circuit Breaker Tripped', trip.id)
+    this.alertManager.resolveCustomAlert('automation', 'Circuit Breaker Pause Failed', trip.id)
+    this.alertManager.addCustomAlert(
+      'warning',
+      'automation',
+      'Circuit Breaker Reset',
+      `Contracts unpaused by ${resetBy} after trip at ${trip.trippedAt}`,
+      { trip },
+      trip.id
+    )
+    return trip
+  }
+
   getRiskParameters(): RiskParameters {
     return this.riskParameters
   }
@@ -442,4 +605,16 @@ export class AutomationEngine {
   updateRiskParameters(parameters: Partial<RiskParameters>): void {
     this.riskParameters = { ...this.riskParameters, ...parameters }
   }
-}
\ No newline at end of file
+}
+
+// e.g. "Paused StakeBasket; Not paused CoreLiquidStakingManager"
+function describePauses(trip: GuardianTrip): string {
+  const contracts = (statuses: string[]) => trip.actions.filter(a => statuses.includes(a.status)).map(a => a.contract)
+  const parts = [
+    ['Paused', contracts(['confirmed'])],
+    ['Planned pauses (dry run)', contracts(['planned'])],
+    ['Not paused', contracts(['failed', 'reverted'])]
+  ] as const
+  const described = parts.filter(([, names]) => names.length > 0).map(([label, names]) => `${label} ${names.join(', ')}`)
+  return described.length > 0 ? described.join('; ') : 'Nothing needed pausing'
+}
@@ -1,8 +1,9 @@
 import { createPublicClient, http, formatEther, parseAbi } from 'viem'
-import { coreTestnet2 } from '../config/chains'
-import { CONTRACT_ADDRESSES } from '../config/contracts'
+import { DEFAULT_NETWORK, MonitoredNetwork } from '../config/networks'
+import type { EventStore, IndexedEvent } from '../storage/EventStore'
 
 export interface ContractMetrics {
+  chainId: number
   totalAUM: string
   navPerShare: string
   totalSupply: string
@@ -15,6 +16,7 @@ export interface ContractMetrics {
     deposits: number
     withdrawals: number
     total: number
+    checked: number // StakeBasket transactions whose receipts the error rate is based on
   }
   errorRate: number
   performanceScore: number
@@ -22,6 +24,7 @@ export interface ContractMetrics {
 }
 
 export interface PriceData {
+  chainId: number
   corePrice: string
   lstBTCPrice: string
   btcPrice: string
@@ -30,13 +33,24 @@ export interface PriceData {
   deviation: number
 }
 
+interface TransactionOutcomes {
+  succeeded: number
+  failed: number
+}
+
 export class ContractMonitor {
   private client: any
   private contracts: any
+  private network: MonitoredNetwork
+  private eventStore: EventStore | null
+  // StakeBasket transaction outcomes per scanned block, so each cycle only fetches new blocks
+  private blockOutcomes = new Map<number, TransactionOutcomes>()
 
-  constructor() {
-    this.client = createPublicClient({
-      chain: coreTestnet2,
+  constructor(network: MonitoredNetwork = DEFAULT_NETWORK, eventStore: EventStore | null = null, client?: any) {
+    this.network = network
+    this.eventStore = eventStore
+    this.client = client || createPublicClient({
+      chain: network.chain,
       transport: http()
     })
 
@@ -58,11 +72,11 @@ export class ContractMonitor {
 
     this.contracts = {
       stakeBasket: {
-        address: CONTRACT_ADDRESSES.coreTestnet2.StakeBasket,
+        address: network.contracts.StakeBasket,
         abi: stakeBasketAbi
       },
       priceFeed: {
-        address: CONTRACT_ADDRESSES.coreTestnet2.PriceFeed,
+        address: network.contracts.PriceFeed,
         abi: priceFeedAbi
       }
     }
@@ -105,6 +119,7 @@ export class ContractMonitor {
       })
 
       return {
+        chainId: this.network.chain.id,
         totalAUM: formatEther(totalAUM as bigint),
         navPerShare: formatEther(navPerShare as bigint),
         totalSupply: formatEther(totalSupply as bigint),
@@ -116,7 +131,8 @@ export class ContractMonitor {
         transactionCount: {
           deposits: recentBlocks.depositCount,
           withdrawals: recentBlocks.withdrawCount,
-          total: recentBlocks.totalTxns
+          total: recentBlocks.totalTxns,
+          checked: recentBlocks.checkedTxns
         },
         errorRate: 1 - recentBlocks.successRate,
         performanceScore,
@@ -185,6 +201,7 @@ export class ContractMonitor {
       const deviation = Math.abs(currentCorePrice - expectedCorePrice) / expectedCorePrice
 
       return {
+        chainId: this.network.chain.id,
         corePrice: (Number(formatEther(corePrice as bigint)) * 100).toFixed(8), // 8 decimals
         lstBTCPrice: (Number(formatEther(lstBTCPrice as bigint)) * 100).toFixed(8),
         btcPrice: (Number(formatEther(btcPrice as bigint)) * 100).toFixed(8),
@@ -202,17 +219,33 @@ export class ContractMonitor {
     try {
       // Get recent blocks (last 100 blocks)
       const latestBlock = await this.client.getBlockNumber()
-      const fromBlock = latestBlock - 100n
+      const fromBlock = Number(latestBlock) - 100
+
+      if (!this.eventStore) {
+        throw new Error('No event store configured')
+      }
+
+      const { events } = this.eventStore.queryEvents({
+        chainId: this.network.chain.id,
+        categories: ['deposit', 'redeem', 'withdrawal'],
+        fromBlock,
+        limit: 10000
+      })
+
+      const deposits = events.filter(e => e.category === 'deposit')
+      const withdrawals = events.filter(e => e.category !== 'deposit')
+      // Reverted transactions emit no events, so outcomes come from the receipts instead
+      const { succeeded, failed } = await this.getTransactionOutcomes(fromBlock, Number(latestBlock))
 
-      // This is a simplified version - in production, you'd use event logs
       return {
-        depositCount: 5,
-        withdrawCount: 3,
-        totalTxns: 8,
-        avgDepositGas: 180000,
-        avgWithdrawGas: 220000,
-        avgGasUsed: 200000,
-        successRate: 0.95
+        depositCount: deposits.length,
+        withdrawCount: withdrawals.length,
+        totalTxns: events.length,
+        avgDepositGas: averageGas(deposits),
+        avgWithdrawGas: averageGas(withdrawals),
+        avgGasUsed: averageGas(events),
+        checkedTxns: succeeded + failed,
+        successRate: succeeded + failed > 0 ? succeeded / (succeeded + failed) : 1
       }
     } catch (error) {
       console.error('Error getting transaction data:', error)
@@ -223,11 +256,43 @@ export class ContractMonitor {
         avgDepositGas: 0,
         avgWithdrawGas: 0,
         avgGasUsed: 0,
+        checkedTxns: 0,
         successRate: 1
       }
     }
   }
 
+  private async getTransactionOutcomes(fromBlock: number, toBlock: number): Promise<TransactionOutcomes> {
+    const basket = this.contracts.stakeBasket.address.toLowerCase()
+
+    for (const number of this.blockOutcomes.keys()) {
+      if (number < fromBlock) this.blockOutcomes.delete(number)
+    }
+
+    const missing: number[] = []
+    for (let number = Math.max(fromBlock, 0); number <= toBlock; number++) {
+      if (!this.blockOutcomes.has(number)) missing.push(number)
+    }
+
+    await Promise.all(missing.map(async number => {
+      const block = await this.client.getBlock({ blockNumber: BigInt(number), includeTransactions: true })
+      const hashes: string[] = block.transactions
+        .filter((tx: any) => tx.to && tx.to.toLowerCase() === basket)
+        .map((tx: any) => tx.hash)
+      const receipts = await Promise.all(hashes.map(hash => this.client.getTransactionReceipt({ hash })))
+      const succeeded = receipts.filter(receipt => receipt.status === 'success').length
+      this.blockOutcomes.set(number, { succeeded, failed: receipts.length - succeeded })
+    }))
+
+    let succeeded = 0
+    let failed = 0
+    for (const outcomes of this.blockOutcomes.values()) {
+      succeeded += outcomes.succeeded
+      failed += outcomes.failed
+    }
+    return { succeeded, failed }
+  }
+
   private calculatePerformanceScore(metrics: {
     isPaused: boolean
     transactionSuccess: number
@@ -247,27 +312,34 @@ export class ContractMonitor {
     return Math.max(0, score)
   }
 
-  async getContractEvents(fromBlock: number = -100) {
+  getNetwork(): MonitoredNetwork {
+    return this.network
+  }
+
+  async getContractEvents(fromBlock: number = -100): Promise<IndexedEvent[]> {
     try {
-      const latestBlock = await this.client.getBlockNumber()
-      const targetBlock = fromBlock < 0 ? latestBlock + BigInt(fromBlock) : BigInt(fromBlock)
+      if (!this.eventStore) return []
 
-      const logs = await this.client.getLogs({
-        address: this.contracts.stakeBasket.address,
-        fromBlock: targetBlock,
-        toBlock: latestBlock
-      })
+      const latestBlock = Number(await this.client.getBlockNumber())
+      const targetBlock = fromBlock < 0 ? latestBlock + fromBlock : fromBlock
 
-      return logs.map(log => ({
-        blockNumber: Number(log.blockNumber),
-        transactionHash: log.transactionHash,
-        topics: log.topics,
-        data: log.data,
-        timestamp: new Date().toISOString() // In production, get actual block timestamp
-      }))
+      const { events } = this.eventStore.queryEvents({ chainId: this.network.chain.id, fromBlock: targetBlock, limit: 1000 })
+      return events
     } catch (error) {
       console.error('Error getting contract events:', error)
       return []
     }
   }
-}
\ No newline at end of file
+}
+
+// Average gas per transaction; several events can share one transaction
+function averageGas(events: IndexedEvent[]): number {
+  const perTransaction = new Map<string, number>()
+  for (const event of events) {
+    if (event.gasUsed !== null) perTransaction.set(event.transactionHash, event.gasUsed)
+  }
+  if (perTransaction.size === 0) return 0
+
+  const total = [...perTransaction.values()].reduce((sum, gas) => sum + gas, 0)
+  return Math.round(total / perTransaction.size)
+}
@@ -0,0 +1,37 @@
+import { MonitoredNetwork } from '../config/networks'
+import { CoreAPIService } from './CoreAPIService'
+import { ValidatorDataSource, ValidatorHealthReader, ValidatorRecord, publicClientFor } from './ValidatorDataSource'
+
+/**
+ * Validator list, names, status, deposits and fees from the Core staking API;
+ * uptime and slashing still come from the chain, which the API doesn't report.
+ */
+export class CoreAPIValidatorSource implements ValidatorDataSource {
+  readonly name = 'core-api'
+  private health: ValidatorHealthReader
+
+  constructor(network: MonitoredNetwork, private coreAPI: CoreAPIService = new CoreAPIService(), client: any = publicClientFor(network)) {
+    this.health = new ValidatorHealthReader(client)
+  }
+
+  async getValidators(): Promise<ValidatorRecord[]> {
+    const validators = await this.coreAPI.getValidators()
+    const activeCount = validators.filter(v => v.validatorStatus === '1').length
+    const uptime = await this.health.getUptime(validators.map(v => v.consensusAddress), activeCount)
+    const slashes = await this.health.getSlashingEvents()
+
+    return validators.map(v => {
+      const isActive = v.validatorStatus === '1'
+      return {
+        address: v.operatorAddress,
+        consensusAddress: v.consensusAddress,
+        name: v.validatorName || 'Unnamed',
+        isActive,
+        totalDelegated: v.totalDeposit,
+        commission: parseFloat(v.feePercent) / 100,
+        uptime: isActive ? uptime.get(v.consensusAddress.toLowerCase()) ?? 0 : 0,
+        slashingHistory: slashes.get(v.consensusAddress.toLowerCase()) || []
+      }
+    })
+  }
+}
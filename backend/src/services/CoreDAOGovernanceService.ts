@@ -1,6 +1,15 @@
 import { ethers } from 'ethers';
 import fetch from 'node-fetch';
+import { parseAbi } from 'viem';
 import { Logger } from '../utils/logger';
+import { DEFAULT_NETWORK } from '../config/networks';
+import { TransactionManager, transactionManagerFor } from './TransactionManager';
+
+const governanceProxyWriteAbi = parseAbi([
+  'function createCoreDAOProposal(string title, string description, string snapshotId) returns (uint256)',
+  'function createValidatorDelegation(address validator, uint256 amount) returns (uint256)',
+  'function createHashPowerDelegation(address validator, uint256 hashPower) returns (uint256)'
+]);
 
 interface SnapshotProposal {
   id: string;
@@ -32,18 +41,21 @@ interface CoreDAOGovernanceConfig {
   basketGovernanceAddress: string;
   operatorPrivateKey: string;
   rpcUrl: string;
+  receiptTimeoutMs?: number; // give up waiting for a proposal transaction after this long
 }
 
 export class CoreDAOGovernanceService {
   private config: CoreDAOGovernanceConfig;
   private provider: ethers.JsonRpcProvider;
-  private operatorWallet: ethers.Wallet;
+  private transactions: TransactionManager;
+  private receiptTimeoutMs: number;
   private logger: Logger;
 
   constructor(config: CoreDAOGovernanceConfig) {
     this.config = config;
     this.provider = new ethers.JsonRpcProvider(config.rpcUrl);
-    this.operatorWallet = new ethers.Wallet(config.operatorPrivateKey, this.provider);
+    this.transactions = transactionManagerFor(DEFAULT_NETWORK.chain, config.operatorPrivateKey, config.rpcUrl);
+    this.receiptTimeoutMs = config.receiptTimeoutMs ?? parseInt(process.env.GOVERNANCE_RECEIPT_TIMEOUT_MS || '180000');
     this.logger = new Logger('CoreDAOGovernanceService');
   }
 
@@ -109,23 +121,12 @@ export class CoreDAOGovernanceService {
     snapshotId: string
   ): Promise<string> {
     try {
-      const governanceProxyAbi = [
-        'function createCoreDAOProposal(string memory title, string memory description, string memory snapshotId) external returns (uint256)',
-      ];
-
-      const governanceProxy = new ethers.Contract(
-        this.config.governanceProxyAddress,
-        governanceProxyAbi,
-        this.operatorWallet
-      );
-
       this.logger.info(`Creating proxy proposal: ${title}`);
       
-      const tx = await governanceProxy.createCoreDAOProposal(title, description, snapshotId);
-      const receipt = await tx.wait();
+      const hash = await this.sendProposal('createCoreDAOProposal', [title, description, snapshotId]);
 
-      this.logger.info(`Proxy proposal created. Transaction: ${receipt.hash}`);
-      return receipt.hash;
+      this.logger.info(`Proxy proposal created. Transaction: ${hash}`);
+      return hash;
     } catch (error) {
       this.logger.error('Failed to create proxy proposal:', error);
       throw error;
@@ -322,23 +323,12 @@ export class CoreDAOGovernanceService {
     amount: string
   ): Promise<string> {
     try {
-      const governanceProxyAbi = [
-        'function createValidatorDelegation(address validator, uint256 amount) external returns (uint256)',
-      ];
-
-      const governanceProxy = new ethers.Contract(
-        this.config.governanceProxyAddress,
-        governanceProxyAbi,
-        this.operatorWallet
-      );
-
       this.logger.info(`Creating validator delegation proposal for ${validatorAddress}, amount: ${amount}`);
       
-      const tx = await governanceProxy.createValidatorDelegation(validatorAddress, amount);
-      const receipt = await tx.wait();
+      const hash = await this.sendProposal('createValidatorDelegation', [validatorAddress, amount]);
 
-      this.logger.info(`Validator delegation proposal created. Transaction: ${receipt.hash}`);
-      return receipt.hash;
+      this.logger.info(`Validator delegation proposal created. Transaction: ${hash}`);
+      return hash;
     } catch (error) {
       this.logger.error('Failed to create validator delegation proposal:', error);
       throw error;
@@ -353,26 +343,39 @@ export class CoreDAOGovernanceService {
     hashPower: string
   ): Promise<string> {
     try {
-      const governanceProxyAbi = [
-        'function createHashPowerDelegation(address validator, uint256 hashPower) external returns (uint256)',
-      ];
-
-      const governanceProxy = new ethers.Contract(
-        this.config.governanceProxyAddress,
-        governanceProxyAbi,
-        this.operatorWallet
-      );
-
       this.logger.info(`Creating hash power delegation proposal for ${validatorAddress}, hash power: ${hashPower}`);
       
-      const tx = await governanceProxy.createHashPowerDelegation(validatorAddress, hashPower);
-      const receipt = await tx.wait();
+      const hash = await this.sendProposal('createHashPowerDelegation', [validatorAddress, hashPower]);
 
-      this.logger.info(`Hash power delegation proposal created. Transaction: ${receipt.hash}`);
-      return receipt.hash;
+      this.logger.info(`Hash power delegation proposal created. Transaction: ${hash}`);
+      return hash;
     } catch (error) {
       this.logger.error('Failed to create hash power delegation proposal:', error);
       throw error;
     }
   }
+
+  /**
+   * Simulate and send a governance proxy write through the operator's
+   * transaction manager; rejects when it reverts or isn't mined within
+   * receiptTimeoutMs
+   */
+  private async sendProposal(
+    functionName: 'createCoreDAOProposal' | 'createValidatorDelegation' | 'createHashPowerDelegation',
+    args: any[]
+  ): Promise<string> {
+    const { request } = await this.transactions.publicClient.simulateContract({
+      account: this.transactions.walletClient.account,
+      address: this.config.governanceProxyAddress,
+      abi: governanceProxyWriteAbi,
+      functionName,
+      args
+    });
+
+    const { hash, receipt } = await this.transactions.send(request, { receiptTimeoutMs: this.receiptTimeoutMs });
+    if (receipt.status !== 'success') {
+      throw new Error(`${functionName} reverted in ${hash}`);
+    }
+    return hash;
+  }
 }
\ No newline at end of file
@@ -0,0 +1,116 @@
+import { formatEther, parseAbi } from 'viem'
+import { MonitoredNetwork } from '../config/networks'
+import { publicClientFor } from './ValidatorDataSource'
+
+// ILstBTC and MockLstBTC both report coreBTC per lstBTC, scaled by 1e18
+export const lstBTCAbi = parseAbi(['function getExchangeRate() view returns (uint256)'])
+
+export type CoreBTCPegSource = 'fixed' | 'market'
+
+export interface DerivedPriceOptions {
+  lstBTCAddress?: string // defaults to the network's LstBTC, then MockLstBTC
+  coreBTCPegSource: CoreBTCPegSource // 'market' uses the aggregated coreBTC quote when there is one
+  coreBTCPeg: number // coreBTC per BTC for the fixed peg, e.g. 0.995 for a 50 bps discount
+  client?: any
+}
+
+export interface DerivedPrice {
+  asset: 'coreBTC' | 'lstBTC'
+  price: number // USD
+  method: 'fixed-peg' | 'market' | 'exchange-rate'
+  btcPrice: number
+  peg: number // coreBTC per BTC the price was derived with
+  exchangeRate?: number // coreBTC per lstBTC
+}
+
+const DEFAULT_OPTIONS: DerivedPriceOptions = {
+  lstBTCAddress: process.env.LSTBTC_ADDRESS || undefined,
+  coreBTCPegSource: process.env.COREBTC_PEG_SOURCE === 'market' ? 'market' : 'fixed',
+  coreBTCPeg: parseFloat(process.env.COREBTC_PEG || '1')
+}
+
+/**
+ * coreBTC in USD: BTC/USD times the peg, taken from the market quote when
+ * the peg source is 'market' and one is available, else the fixed peg.
+ */
+export function deriveCoreBTCPrice(btcPrice: number, options: Pick<DerivedPriceOptions, 'coreBTCPegSource' | 'coreBTCPeg'>, marketPrice?: number | null): DerivedPrice {
+  if (options.coreBTCPegSource === 'market' && marketPrice && marketPrice > 0) {
+    return { asset: 'coreBTC', price: marketPrice, method: 'market', btcPrice, peg: marketPrice / btcPrice }
+  }
+  return { asset: 'coreBTC', price: btcPrice * options.coreBTCPeg, method: 'fixed-peg', btcPrice, peg: options.coreBTCPeg }
+}
+
+/**
+ * lstBTC in USD: each lstBTC redeems for `exchangeRate` coreBTC, so it is
+ * worth that much coreBTC and grows in price as staking yield accrues.
+ */
+export function deriveLstBTCPrice(coreBTC: DerivedPrice, exchangeRate: number): DerivedPrice {
+  return {
+    asset: 'lstBTC',
+    price: coreBTC.price * exchangeRate,
+    method: 'exchange-rate',
+    btcPrice: coreBTC.btcPrice,
+    peg: coreBTC.peg,
+    exchangeRate
+  }
+}
+
+/**
+ * Prices for the BTC wrappers, derived from BTC/USD instead of quoted
+ * directly: coreBTC from its peg, lstBTC from the on-chain exchange rate.
+ */
+export class DerivedPriceCalculator {
+  private options: DerivedPriceOptions
+  private client: any
+
+  constructor(private network: MonitoredNetwork, options: Partial<DerivedPriceOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options }
+    if (!(this.options.coreBTCPeg > 0)) {
+      throw new Error('COREBTC_PEG must be a positive number')
+    }
+    this.client = this.options.client || publicClientFor(network)
+  }
+
+  getLstBTCAddress(): string | null {
+    const { LstBTC, MockLstBTC } = this.network.contracts as Record<string, string>
+    const address = [this.options.lstBTCAddress, LstBTC, MockLstBTC].find(a => a && !/^0x0{40}$/.test(a))
+    return address || null
+  }
+
+  getOptions(): Omit<DerivedPriceOptions, 'client'> {
+    const { client, ...options } = this.options
+    return { ...options, lstBTCAddress: this.getLstBTCAddress() ?? undefined }
+  }
+
+  // coreBTC per lstBTC
+  async getExchangeRate(): Promise<number> {
+    const address = this.getLstBTCAddress()
+    if (!address) {
+      throw new Error(`lstBTC is not deployed on ${this.network.chain.name}`)
+    }
+
+    const rate = await this.client.readContract({ address, abi: lstBTCAbi, functionName: 'getExchangeRate' }) as bigint
+    if (rate === 0n) {
+      throw new Error('lstBTC exchange rate is zero')
+    }
+    return Number(formatEther(rate))
+  }
+
+  /**
+   * coreBTC and lstBTC prices for a BTC/USD price. lstBTC is left out, with
+   * the reason in `errors`, when the exchange rate can't be read.
+   */
+  async derive(btcPrice: number, marketCoreBTC?: number | null): Promise<{ prices: Record<string, DerivedPrice>; errors: Array<{ asset: string; error: string }> }> {
+    const coreBTC = deriveCoreBTCPrice(btcPrice, this.options, marketCoreBTC)
+    const prices: Record<string, DerivedPrice> = { coreBTC }
+    const errors: Array<{ asset: string; error: string }> = []
+
+    try {
+      prices.lstBTC = deriveLstBTCPrice(coreBTC, await this.getExchangeRate())
+    } catch (error) {
+      errors.push({ asset: 'lstBTC', error: error.shortMessage || error.message })
+    }
+
+    return { prices, errors }
+  }
+}
@@ -0,0 +1,295 @@
+import { createPublicClient, decodeEventLog, http, parseAbi, type Abi, type Log, type PublicClient } from 'viem'
+import { DEFAULT_NETWORK, MonitoredNetwork } from '../config/networks'
+import { EventStore, EventCategory, IndexedEvent } from '../storage/EventStore'
+
+export interface IndexedContract {
+  name: string
+  address: string
+  abi: Abi
+}
+
+export interface EventIndexerOptions {
+  startBlock?: number // first block to index when there is no cursor yet
+  initialLookback: number // blocks behind head to start from when startBlock is unset
+  confirmations: number // stay this many blocks behind head
+  batchSize: number // blocks per getLogs call
+  maxBatchesPerSync: number
+  reorgDepth: number // how far back block hashes are kept to find a common ancestor
+}
+
+export interface SyncResult {
+  fromBlock: number
+  toBlock: number
+  indexed: number
+  reorg: { ancestor: number; removed: number } | null
+}
+
+export const stakeBasketEventsAbi = parseAbi([
+  'event Deposited(address indexed user, uint256 coreAmount, uint256 sharesIssued)',
+  'event Redeemed(address indexed user, uint256 sharesBurned, uint256 coreAmount)',
+  'event WithdrawalRequested(address indexed user, uint256 shares, uint256 requestId, uint256 requestTime)',
+  'event WithdrawalProcessed(address indexed user, uint256 shares, uint256 coreAmount, uint256 requestId)',
+  'event InstantRedeemExecuted(address indexed user, uint256 shares, uint256 coreAmount)',
+  'event FeesCollected(address indexed recipient, uint256 amount)',
+  'event ProtocolFeesDistributed(uint256 amount)',
+  'event RewardsCompounded(uint256 totalRewards)'
+])
+
+export const dualStakingBasketEventsAbi = parseAbi([
+  'event Deposited(address indexed user, uint256 coreAmount, uint256 btcAmount, uint256 shares)',
+  'event Redeemed(address indexed user, uint256 shares, uint256 coreAmount, uint256 btcAmount)',
+  'event Rebalanced(uint256 coreSwapped, uint256 btcSwapped, uint8 currentTier, address keeper)',
+  'event RewardsCompounded(uint256 rewards, uint256 coreRewards, uint256 btcRewards)',
+  'event KeeperRewardPaid(address indexed keeper, uint256 reward)'
+])
+
+export const basketGovernanceEventsAbi = parseAbi([
+  'event VoteCast(address indexed voter, uint256 indexed proposalId, uint8 support, uint256 weight)'
+])
+
+export const sparksEventsAbi = parseAbi([
+  'event SparksSpent(address indexed user, uint256 amount, string reason)'
+])
+
+const EVENT_CATEGORIES: Record<string, EventCategory> = {
+  Deposited: 'deposit',
+  Redeemed: 'redeem',
+  InstantRedeemExecuted: 'redeem',
+  WithdrawalRequested: 'withdrawal',
+  WithdrawalProcessed: 'withdrawal',
+  Rebalanced: 'rebalance',
+  FeesCollected: 'fee',
+  ProtocolFeesDistributed: 'fee',
+  KeeperRewardPaid: 'fee',
+  RewardsCompounded: 'rewards',
+  SparksSpent: 'sparks',
+  VoteCast: 'governance'
+}
+
+const DEFAULT_OPTIONS: EventIndexerOptions = {
+  startBlock: process.env.EVENT_INDEXER_START_BLOCK ? parseInt(process.env.EVENT_INDEXER_START_BLOCK) : undefined,
+  initialLookback: 5000,
+  confirmations: parseInt(process.env.EVENT_INDEXER_CONFIRMATIONS || '3'),
+  batchSize: 2000,
+  maxBatchesPerSync: 10,
+  reorgDepth: 128
+}
+
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000'
+
+/**
+ * Indexes StakeBasket and DualStakingBasket events (plus governance votes and
+ * Sparks redemptions where those contracts are deployed) into the EventStore.
+ * Each sync checks the cursor block's hash against the chain first and rolls
+ * back to the last common block when they differ, then indexes forward.
+ */
+export class EventIndexer {
+  private options: EventIndexerOptions
+  private syncing = false
+  private lastSync: { at: string; result: SyncResult } | null = null
+  private lastError: { at: string; message: string } | null = null
+  private reorgCount = 0
+  private headBlock: number | null = null
+
+  constructor(
+    private client: PublicClient,
+    private store: EventStore,
+    private contracts: IndexedContract[] = defaultContracts(DEFAULT_NETWORK),
+    options: Partial<EventIndexerOptions> = {}
+  ) {
+    this.options = { ...DEFAULT_OPTIONS, ...options }
+  }
+
+  async sync(): Promise<SyncResult | null> {
+    if (this.syncing || this.contracts.length === 0) return null
+    this.syncing = true
+
+    try {
+      const chainId = await this.getChainId()
+      const head = Number(await this.client.getBlockNumber())
+      this.headBlock = head
+      const safeHead = head - this.options.confirmations
+
+      const reorg = await this.checkForReorg(chainId)
+      let cursor = this.store.getCursor(chainId)?.blockNumber
+        ?? (this.options.startBlock ?? Math.max(0, safeHead - this.options.initialLookback)) - 1
+
+      const fromBlock = cursor + 1
+      let indexed = 0
+
+      for (let batch = 0; batch < this.options.maxBatchesPerSync && cursor < safeHead; batch++) {
+        const from = cursor + 1
+        const to = Math.min(from + this.options.batchSize - 1, safeHead)
+        indexed += await this.indexRange(chainId, from, to)
+        cursor = to
+      }
+
+      const result = { fromBlock, toBlock: cursor, indexed, reorg }
+      this.lastSync = { at: new Date().toISOString(), result }
+      this.lastError = null
+      return result
+    } catch (error) {
+      this.lastError = { at: new Date().toISOString(), message: error.message }
+      throw error
+    } finally {
+      this.syncing = false
+    }
+  }
+
+  async getStatus() {
+    const chainId = await this.getChainId()
+    const cursor = this.store.getCursor(chainId)
+
+    return {
+      chainId,
+      contracts: this.contracts.map(c => ({ name: c.name, address: c.address })),
+      cursor,
+      headBlock: this.headBlock,
+      lag: cursor && this.headBlock !== null ? Math.max(0, this.headBlock - cursor.blockNumber) : null,
+      confirmations: this.options.confirmations,
+      reorgsHandled: this.reorgCount,
+      lastSync: this.lastSync,
+      lastError: this.lastError
+    }
+  }
+
+  getStore(): EventStore {
+    return this.store
+  }
+
+  private async indexRange(chainId: number, fromBlock: number, toBlock: number): Promise<number> {
+    const logs = await this.client.getLogs({
+      address: this.contracts.map(c => c.address as `0x${string}`),
+      fromBlock: BigInt(fromBlock),
+      toBlock: BigInt(toBlock)
+    })
+
+    const decoded = logs
+      .map(log => this.decode(log))
+      .filter((entry): entry is NonNullable<typeof entry> => entry !== null)
+
+    // Fetch each block once for its timestamp and hash; the range end anchors the cursor
+    const blockNumbers = [...new Set([...decoded.map(d => Number(d.log.blockNumber)), toBlock])]
+    const blocks = new Map<number, { hash: string; timestamp: number }>()
+    for (const number of blockNumbers) {
+      const block = await this.client.getBlock({ blockNumber: BigInt(number) })
+      blocks.set(number, { hash: block.hash, timestamp: Number(block.timestamp) * 1000 })
+    }
+
+    const gasUsed = new Map<string, number>()
+    for (const hash of new Set(decoded.map(d => d.log.transactionHash as string))) {
+      const receipt = await this.client.getTransactionReceipt({ hash: hash as `0x${string}` })
+      gasUsed.set(hash, Number(receipt.gasUsed))
+    }
+
+    const events: IndexedEvent[] = decoded.map(({ log, contract, eventName, args }) => {
+      const blockNumber = Number(log.blockNumber)
+      const block = blocks.get(blockNumber)!
+      if (log.blockHash !== block.hash) {
+        // The chain moved under us mid-range; the next sync's reorg check sorts it out
+        throw new Error(`Block ${blockNumber} changed while indexing (reorg in progress)`)
+      }
+
+      return {
+        id: `${chainId}:${log.transactionHash}:${log.logIndex}`,
+        chainId,
+        contract: contract.name,
+        address: contract.address.toLowerCase(),
+        eventName,
+        category: EVENT_CATEGORIES[eventName],
+        account: (args.user || args.voter || args.keeper || args.recipient || null)?.toLowerCase() ?? null,
+        blockNumber,
+        blockHash: block.hash,
+        transactionHash: log.transactionHash as string,
+        logIndex: Number(log.logIndex),
+        timestamp: new Date(block.timestamp).toISOString(),
+        gasUsed: gasUsed.get(log.transactionHash as string) ?? null,
+        args: serializeArgs(args)
+      }
+    })
+
+    const blockHashes = [...blocks.entries()].map(([number, block]) => ({ number, hash: block.hash }))
+    this.store.commitRange(chainId, events, blockHashes, { number: toBlock, hash: blocks.get(toBlock)!.hash })
+    this.store.pruneBlockHashes(chainId, toBlock - this.options.reorgDepth)
+
+    return events.length
+  }
+
+  private decode(log: Log) {
+    const contract = this.contracts.find(c => c.address.toLowerCase() === log.address.toLowerCase())
+    if (!contract) return null
+
+    try {
+      const { eventName, args } = decodeEventLog({ abi: contract.abi, data: log.data, topics: log.topics }) as {
+        eventName: string
+        args: Record<string, any>
+      }
+      if (!EVENT_CATEGORIES[eventName]) return null
+      return { log, contract, eventName, args }
+    } catch {
+      return null // an event we don't index (e.g. admin setters)
+    }
+  }
+
+  /**
+   * Compare the cursor block with the chain. On a mismatch, walk back through
+   * the recorded hashes to the newest block both agree on and roll back to it.
+   */
+  private async checkForReorg(chainId: number): Promise<SyncResult['reorg']> {
+    const cursor = this.store.getCursor(chainId)
+    if (!cursor) return null
+
+    const current = await this.client.getBlock({ blockNumber: BigInt(cursor.blockNumber) })
+    if (current.hash === cursor.blockHash) return null
+
+    let ancestor: { number: number; hash: string } | null = null
+    for (const recorded of this.store.getBlockHashes(chainId, this.options.reorgDepth)) {
+      if (recorded.number >= cursor.blockNumber) continue
+      const block = await this.client.getBlock({ blockNumber: BigInt(recorded.number) })
+      if (block.hash === recorded.hash) {
+        ancestor = recorded
+        break
+      }
+    }
+
+    if (!ancestor) {
+      // Deeper than anything recorded: re-index the whole reorg window
+      const number = Math.max(0, cursor.blockNumber - this.options.reorgDepth)
+      const block = await this.client.getBlock({ blockNumber: BigInt(number) })
+      ancestor = { number, hash: block.hash }
+    }
+
+    const removed = this.store.rollback(chainId, ancestor.number, ancestor.hash)
+    this.reorgCount++
+    console.warn(`Reorg detected at block ${cursor.blockNumber}: rolled back to ${ancestor.number}, removed ${removed} events`)
+    return { ancestor: ancestor.number, removed }
+  }
+
+  private async getChainId(): Promise<number> {
+    return this.client.chain?.id ?? await this.client.getChainId()
+  }
+}
+
+function defaultContracts(network: MonitoredNetwork): IndexedContract[] {
+  const addresses = network.contracts
+  return [
+    { name: 'StakeBasket', address: addresses.StakeBasket, abi: stakeBasketEventsAbi },
+    { name: 'DualStakingBasket', address: addresses.DualStakingBasket, abi: dualStakingBasketEventsAbi },
+    { name: 'BasketGovernance', address: addresses.BasketGovernance, abi: basketGovernanceEventsAbi },
+    { name: 'SparksManager', address: addresses.SparksManager, abi: sparksEventsAbi }
+  ].filter(c => c.address && c.address !== ZERO_ADDRESS)
+}
+
+function serializeArgs(args: Record<string, any>): Record<string, any> {
+  return Object.fromEntries(
+    Object.entries(args).map(([key, value]) => [key, typeof value === 'bigint' ? value.toString() : value])
+  )
+}
+
+export function createEventIndexer(network: MonitoredNetwork, store: EventStore): EventIndexer {
+  const client = createPublicClient({
+    chain: network.chain,
+    transport: http()
+  })
+  return new EventIndexer(client as PublicClient, store, defaultContracts(network))
+}
@@ -0,0 +1,368 @@
+import { createPublicClient, encodeFunctionData, http, parseAbi } from 'viem'
+import { DEFAULT_NETWORK, MonitoredNetwork } from '../config/networks'
+import { TransactionManager, transactionManagerFor } from './TransactionManager'
+import { FeeProposalStore } from '../storage/FeeProposalStore'
+import type { HistoricalMetric } from './MetricsCollector'
+
+export const stakeBasketFeeAbi = parseAbi([
+  'function managementFeeBasisPoints() view returns (uint256)',
+  'function protocolFeePercentage() view returns (uint256)',
+  'function setManagementFee(uint256 _feeBasisPoints)',
+  'function setProtocolFeePercentage(uint256 _percentage)'
+])
+
+// Limits enforced by StakeBasket
+export const MAX_MANAGEMENT_FEE_BPS = 1000
+export const MAX_PROTOCOL_FEE_BPS = 5000
+
+const YEAR = 365 * 24 * 60 * 60 * 1000
+
+export interface PricePoint {
+  timestamp: string
+  core: number
+  btc: number
+}
+
+// Annualised realised volatility of each asset; `volatility` is the higher of the two
+export interface VolatilityEstimate {
+  core: number
+  btc: number
+  volatility: number
+  samples: number
+  from: string | null
+  to: string | null
+}
+
+export interface FeeLevels {
+  managementFeeBps: number
+  protocolFeeBps: number // share of collected fees that goes to the protocol
+}
+
+export interface FeeSchedule extends FeeLevels {
+  surchargeBps: number // added to the base management fee for volatility
+}
+
+export interface DynamicFeeParameters {
+  volatilityThreshold: number // annualised volatility above which the surcharge starts
+  maxFeeAdjustment: number // largest surcharge, as a fraction (0.002 = 0.2%)
+  maxProtocolFeeAdjustment: number // largest rise of the protocol share, as a fraction of fees (0.1 = 10 points)
+  baseManagementFeeBps: number
+  baseProtocolFeeBps: number
+}
+
+export type FeeProposalMode = 'recommend' | 'approval'
+
+export type FeeProposalStatus = 'recommended' | 'pending' | 'approved' | 'executed' | 'failed' | 'rejected' | 'superseded'
+
+export interface FeeCall {
+  functionName: 'setManagementFee' | 'setProtocolFeePercentage'
+  value: number
+  target: string // StakeBasket address
+  calldata: string
+  status: 'planned' | 'confirmed' | 'reverted' | 'failed' | 'skipped'
+  txHash?: string
+  blockNumber?: number
+  gasUsed?: string
+  error?: string
+}
+
+/**
+ * A fee change worked out by the dynamic-fees task. In recommend mode it is
+ * only a record; in approval mode an admin approves it before it is sent.
+ */
+export interface FeeProposal {
+  id: string
+  createdAt: string
+  mode: FeeProposalMode
+  status: FeeProposalStatus
+  volatility: VolatilityEstimate
+  current: FeeLevels
+  proposed: FeeSchedule
+  calls: FeeCall[]
+  decidedBy?: string
+  decidedAt?: string
+  reason?: string
+}
+
+export interface FeeManagerOptions {
+  privateKey?: string
+  receiptTimeoutMs: number
+  publicClient?: any
+  walletClient?: any
+}
+
+const DEFAULT_OPTIONS: FeeManagerOptions = {
+  privateKey: process.env.AUTOMATION_PRIVATE_KEY,
+  receiptTimeoutMs: 120000
+}
+
+const OPEN_STATUSES: FeeProposalStatus[] = ['recommended', 'pending']
+
+// CORE and BTC prices from stored price metrics (rollups carry the last price of their bucket), oldest first
+export function pricePointsFromHistory(history: HistoricalMetric[]): PricePoint[] {
+  return history
+    .map(metric => ({
+      timestamp: metric.timestamp,
+      core: parseFloat(metric.data?.corePrice),
+      btc: parseFloat(metric.data?.btcPrice)
+    }))
+    .filter(point => point.core > 0 && point.btc > 0)
+    .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())
+}
+
+/**
+ * Annualised realised volatility from log returns. Samples need not be
+ * evenly spaced: the summed squared returns are divided by the time they span.
+ */
+export function realisedVolatility(points: PricePoint[]): VolatilityEstimate {
+  let coreSquares = 0
+  let btcSquares = 0
+  let years = 0
+
+  for (let i = 1; i < points.length; i++) {
+    const elapsed = new Date(points[i].timestamp).getTime() - new Date(points[i - 1].timestamp).getTime()
+    if (elapsed <= 0) continue
+    coreSquares += Math.log(points[i].core / points[i - 1].core) ** 2
+    btcSquares += Math.log(points[i].btc / points[i - 1].btc) ** 2
+    years += elapsed / YEAR
+  }
+
+  const core = years > 0 ? Math.sqrt(coreSquares / years) : 0
+  const btc = years > 0 ? Math.sqrt(btcSquares / years) : 0
+  return {
+    core,
+    btc,
+    volatility: Math.max(core, btc),
+    samples: points.length,
+    from: points[0]?.timestamp ?? null,
+    to: points[points.length - 1]?.timestamp ?? null
+  }
+}
+
+/**
+ * Whether an estimate rests on enough history to act on: at least minSamples
+ * prices spanning at least minCoverage of the window, since history bunched
+ * at one end of the window misses most of its moves.
+ */
+export function hasVolatilityHistory(estimate: VolatilityEstimate, windowMs: number, minSamples: number, minCoverage: number): boolean {
+  if (estimate.samples < minSamples || !estimate.from || !estimate.to || !(windowMs > 0)) return false
+  const span = new Date(estimate.to).getTime() - new Date(estimate.from).getTime()
+  return span >= windowMs * minCoverage
+}
+
+/**
+ * Fees for a volatility level. The management fee surcharge rises linearly
+ * from zero at the threshold to maxFeeAdjustment at twice the threshold. The
+ * surcharge goes to the protocol: the protocol share is raised so the rest of
+ * the fee stays what it was at the base rate, but by no more than
+ * maxProtocolFeeAdjustment.
+ */
+export function feeScheduleFor(volatility: number, parameters: DynamicFeeParameters): FeeSchedule {
+  const { volatilityThreshold, maxFeeAdjustment, maxProtocolFeeAdjustment, baseManagementFeeBps, baseProtocolFeeBps } = parameters
+  if (!(volatilityThreshold > 0) || !(maxFeeAdjustment >= 0) || !(maxProtocolFeeAdjustment >= 0)) {
+    throw new Error('volatilityThreshold must be positive and maxFeeAdjustment and maxProtocolFeeAdjustment non-negative')
+  }
+
+  const excess = Math.min(1, Math.max(0, volatility - volatilityThreshold) / volatilityThreshold)
+  const managementFeeBps = Math.min(MAX_MANAGEMENT_FEE_BPS, baseManagementFeeBps + Math.round(excess * maxFeeAdjustment * 10000))
+  const surchargeBps = managementFeeBps - baseManagementFeeBps
+  if (surchargeBps <= 0 || managementFeeBps === 0) {
+    return { managementFeeBps, protocolFeeBps: baseProtocolFeeBps, surchargeBps: 0 }
+  }
+
+  const protocolShare = (baseManagementFeeBps * baseProtocolFeeBps / 10000 + surchargeBps) / managementFeeBps
+  return {
+    managementFeeBps,
+    protocolFeeBps: Math.min(
+      MAX_PROTOCOL_FEE_BPS,
+      baseProtocolFeeBps + Math.round(maxProtocolFeeAdjustment * 10000),
+      Math.round(protocolShare * 10000)
+    ),
+    surchargeBps
+  }
+}
+
+/**
+ * Records fee proposals and, once one is approved, sends its
+ * StakeBasket.setManagementFee / setProtocolFeePercentage calls from the
+ * owner key (AUTOMATION_PRIVATE_KEY). Calls are simulated first and sent
+ * one at a time; the first failure stops the rest.
+ */
+export class FeeManager {
+  private options: FeeManagerOptions
+  private publicClient: any
+  private walletClient: any = null
+  private transactions: TransactionManager | null = null
+  private target: string
+
+  constructor(
+    private network: MonitoredNetwork = DEFAULT_NETWORK,
+    private store: FeeProposalStore = new FeeProposalStore(),
+    options: Partial<FeeManagerOptions> = {}
+  ) {
+    this.options = { ...DEFAULT_OPTIONS, ...options }
+    this.target = network.contracts.StakeBasket
+
+    this.publicClient = this.options.publicClient || createPublicClient({
+      chain: network.chain,
+      transport: http()
+    })
+
+    if (this.options.walletClient) {
+      this.walletClient = this.options.walletClient
+      this.transactions = new TransactionManager(this.publicClient, this.walletClient)
+    } else if (this.options.privateKey) {
+      this.transactions = transactionManagerFor(network.chain, this.options.privateKey)
+      this.walletClient = this.transactions.walletClient
+    }
+  }
+
+  getSigner(): string | null {
+    return this.walletClient?.account?.address ?? null
+  }
+
+  getNetwork(): MonitoredNetwork {
+    return this.network
+  }
+
+  async getCurrentFees(): Promise<FeeLevels> {
+    this.requireDeployed()
+    const [managementFeeBps, protocolFeeBps] = await Promise.all([
+      this.publicClient.readContract({ address: this.target, abi: stakeBasketFeeAbi, functionName: 'managementFeeBasisPoints' }),
+      this.publicClient.readContract({ address: this.target, abi: stakeBasketFeeAbi, functionName: 'protocolFeePercentage' })
+    ])
+    return { managementFeeBps: Number(managementFeeBps), protocolFeeBps: Number(protocolFeeBps) }
+  }
+
+  /**
+   * Record a proposal to move from `current` to `proposed` fees. Returns null
+   * when nothing would change or the same change is already open; otherwise
+   * older open proposals are superseded by the new one.
+   */
+  propose(volatility: VolatilityEstimate, current: FeeLevels, proposed: FeeSchedule, mode: FeeProposalMode, now: number = Date.now()): FeeProposal | null {
+    const calls: FeeCall[] = []
+    if (proposed.managementFeeBps !== current.managementFeeBps) {
+      calls.push(this.buildCall('setManagementFee', proposed.managementFeeBps))
+    }
+    if (proposed.protocolFeeBps !== current.protocolFeeBps) {
+      calls.push(this.buildCall('setProtocolFeePercentage', proposed.protocolFeeBps))
+    }
+    if (calls.length === 0) return null
+
+    const open = this.store.list(OPEN_STATUSES, 100)
+    const duplicate = open.find(p =>
+      p.mode === mode &&
+      p.proposed.managementFeeBps === proposed.managementFeeBps &&
+      p.proposed.protocolFeeBps === proposed.protocolFeeBps
+    )
+    if (duplicate) return null
+
+    for (const previous of open) {
+      this.store.save({ ...previous, status: 'superseded', decidedAt: new Date(now).toISOString() })
+    }
+
+    const proposal: FeeProposal = {
+      id: `fees-${now}`,
+      createdAt: new Date(now).toISOString(),
+      mode,
+      status: mode === 'approval' ? 'pending' : 'recommended',
+      volatility,
+      current,
+      proposed,
+      calls
+    }
+    this.store.save(proposal)
+    return proposal
+  }
+
+  getProposal(id: string): FeeProposal | null {
+    return this.store.get(id)
+  }
+
+  getProposals(statuses?: FeeProposalStatus[], limit?: number): FeeProposal[] {
+    return this.store.list(statuses, limit)
+  }
+
+  /**
+   * Approve a pending proposal and send its calls. Without a signer the
+   * proposal is marked approved with its calldata left for a manual send.
+   */
+  async approve(id: string, approvedBy: string): Promise<FeeProposal> {
+    const proposal = this.requirePending(id)
+    proposal.decidedBy = approvedBy
+    proposal.decidedAt = new Date().toISOString()
+
+    if (!this.walletClient) {
+      proposal.status = 'approved'
+      this.store.save(proposal)
+      return proposal
+    }
+
+    this.requireDeployed()
+    for (const [index, call] of proposal.calls.entries()) {
+      try {
+        const { request } = await this.publicClient.simulateContract({
+          account: this.walletClient.account,
+          address: call.target,
+          abi: stakeBasketFeeAbi,
+          functionName: call.functionName,
+          args: [BigInt(call.value)]
+        })
+
+        const { hash, receipt } = await this.transactions!.send(request, { receiptTimeoutMs: this.options.receiptTimeoutMs })
+        call.txHash = hash
+
+        call.blockNumber = Number(receipt.blockNumber)
+        call.gasUsed = receipt.gasUsed.toString()
+        call.status = receipt.status === 'success' ? 'confirmed' : 'reverted'
+      } catch (error) {
+        call.status = 'failed'
+        call.error = error.shortMessage || error.message
+      }
+
+      if (call.status !== 'confirmed') {
+        for (const skipped of proposal.calls.slice(index + 1)) skipped.status = 'skipped'
+        break
+      }
+    }
+
+    proposal.status = proposal.calls.every(call => call.status === 'confirmed') ? 'executed' : 'failed'
+    this.store.save(proposal)
+    return proposal
+  }
+
+  reject(id: string, rejectedBy: string, reason?: string): FeeProposal {
+    const proposal = this.requirePending(id)
+    proposal.status = 'rejected'
+    proposal.decidedBy = rejectedBy
+    proposal.decidedAt = new Date().toISOString()
+    proposal.reason = reason
+    this.store.save(proposal)
+    return proposal
+  }
+
+  private requirePending(id: string): FeeProposal {
+    const proposal = this.store.get(id)
+    if (!proposal) throw new Error(`Unknown fee proposal: ${id}`)
+    if (proposal.status !== 'pending') {
+      throw new Error(`Fee proposal ${id} is ${proposal.status}; only pending proposals can be decided`)
+    }
+    return proposal
+  }
+
+  private buildCall(functionName: FeeCall['functionName'], value: number): FeeCall {
+    return {
+      functionName,
+      value,
+      target: this.target,
+      calldata: encodeFunctionData({ abi: stakeBasketFeeAbi, functionName, args: [BigInt(value)] }),
+      status: 'planned'
+    }
+  }
+
+  private requireDeployed(): void {
+    if (!this.target || /^0x0{40}$/.test(this.target)) {
+      throw new Error(`StakeBasket is not deployed on ${this.network.chain.name}`)
+    }
+  }
+}
@@ -0,0 +1,330 @@
+import { createPublicClient, http, parseAbi } from 'viem'
+import { DEFAULT_NETWORK, MonitoredNetwork } from '../config/networks'
+import { TransactionManager, transactionManagerFor } from './TransactionManager'
+import { GuardianTripStore } from '../storage/GuardianTripStore'
+import type { ContractMetrics, PriceData } from './ContractMonitor'
+import type { ValidatorMetrics } from './ValidatorMonitor'
+
+export const guardedContractAbi = parseAbi([
+  'function paused() view returns (bool)',
+  'function pause()',
+  'function unpause()',
+  'function pauseRebalancing(string reason)',
+  'function resumeRebalancing()'
+])
+
+export type PauseCondition = 'validator_slashing_event' | 'price_feed_failure' | 'high_error_rate' | 'extreme_market_volatility'
+
+export const PAUSE_CONDITIONS: PauseCondition[] = [
+  'validator_slashing_event',
+  'price_feed_failure',
+  'high_error_rate',
+  'extreme_market_volatility'
+]
+
+// What the monitors reported this cycle; missing parts are not evaluated
+export interface GuardianInput {
+  contractMetrics?: ContractMetrics | null
+  validatorMetrics?: ValidatorMetrics | null
+  delegatedValidators?: string[] // operator addresses the protocol has stake with
+  priceData?: PriceData | null
+  priceError?: string | null // checking the price feeds failed outright
+  volatility?: number | null // annualised realised volatility
+}
+
+export interface GuardianThresholds {
+  maxErrorRate: number // failed share of recent StakeBasket transactions, 0-1
+  minErrorRateTransactions: number // transactions needed before the error rate counts
+  extremeVolatility: number // annualised, e.g. 1.5 = 150%
+  slashingWindowMinutes: number // how recent a slash must be to count
+}
+
+export interface TrippedCondition {
+  condition: PauseCondition
+  detail: string
+}
+
+export type GuardedContract = 'StakeBasket' | 'DualStakingBasket' | 'CoreLiquidStakingManager'
+
+export interface GuardianTarget {
+  contract: GuardedContract
+  action: 'pause' | 'pauseRebalancing'
+}
+
+export interface GuardianAction {
+  contract: GuardedContract
+  address: string
+  functionName: 'pause' | 'pauseRebalancing' | 'unpause' | 'resumeRebalancing'
+  status: 'planned' | 'confirmed' | 'reverted' | 'failed' | 'skipped'
+  txHash?: string
+  error?: string
+}
+
+export interface GuardianTrip {
+  id: string
+  trippedAt: string
+  conditions: TrippedCondition[]
+  actions: GuardianAction[]
+  resetAt?: string
+  resetBy?: string
+  resetActions?: GuardianAction[]
+}
+
+export interface GuardianStatus {
+  state: 'armed' | 'tripped'
+  dryRun: boolean
+  signer: string | null
+  targets: GuardianTarget[]
+  current: GuardianTrip | null
+  lastEvaluatedAt: string | null
+  lastConditions: TrippedCondition[]
+  history: GuardianTrip[] // most recent first
+}
+
+export interface GuardianOptions {
+  privateKey?: string
+  dryRun: boolean // only record the calls that would be made
+  receiptTimeoutMs: number
+  targets: GuardianTarget[]
+  publicClient?: any
+  walletClient?: any
+}
+
+const DEFAULT_OPTIONS: GuardianOptions = {
+  privateKey: process.env.AUTOMATION_PRIVATE_KEY,
+  dryRun: process.env.GUARDIAN_DRY_RUN === 'true',
+  receiptTimeoutMs: 120000,
+  targets: [
+    { contract: 'StakeBasket', action: 'pause' },
+    { contract: 'DualStakingBasket', action: process.env.GUARDIAN_DUAL_STAKING_ACTION === 'pauseRebalancing' ? 'pauseRebalancing' : 'pause' },
+    { contract: 'CoreLiquidStakingManager', action: 'pause' }
+  ]
+}
+
+const MAX_HISTORY = 50
+
+// A trip's pauses that did not take effect; they are retried while the trip is open
+export function unconfirmedPauses(trip: GuardianTrip): GuardianAction[] {
+  return trip.actions.filter(action => action.status === 'failed' || action.status === 'reverted')
+}
+
+/**
+ * Check the enabled pause conditions against monitor output. Slashing only
+ * counts for validators the protocol delegates to, and only for events
+ * after `since` (epoch ms).
+ */
+export function evaluatePauseConditions(
+  input: GuardianInput,
+  enabled: string[],
+  thresholds: GuardianThresholds,
+  since: number
+): TrippedCondition[] {
+  const tripped: TrippedCondition[] = []
+  const isEnabled = (condition: PauseCondition) => enabled.includes(condition)
+
+  if (isEnabled('validator_slashing_event') && input.validatorMetrics && input.delegatedValidators) {
+    const delegated = new Set(input.delegatedValidators.map(address => address.toLowerCase()))
+    for (const validator of input.validatorMetrics.validators) {
+      if (!delegated.has(validator.address.toLowerCase())) continue
+      const recent = validator.slashingHistory.filter(event => new Date(event.timestamp).getTime() > since)
+      if (recent.length > 0) {
+        tripped.push({
+          condition: 'validator_slashing_event',
+          detail: `${validator.name || validator.address} slashed ${recent.length} time(s): ${recent[recent.length - 1].reason}`
+        })
+      }
+    }
+  }
+
+  if (isEnabled('price_feed_failure')) {
+    if (input.priceError) {
+      tripped.push({ condition: 'price_feed_failure', detail: `Price feed check failed: ${input.priceError}` })
+    } else if (input.priceData?.isStale) {
+      tripped.push({ condition: 'price_feed_failure', detail: `Price feed is stale (last updated ${input.priceData.lastUpdated})` })
+    }
+  }
+
+  const contract = input.contractMetrics
+  if (isEnabled('high_error_rate') && contract && contract.transactionCount.checked >= thresholds.minErrorRateTransactions && contract.errorRate > thresholds.maxErrorRate) {
+    tripped.push({
+      condition: 'high_error_rate',
+      detail: `${(contract.errorRate * 100).toFixed(1)}% of ${contract.transactionCount.checked} recent StakeBasket transactions failed, above ${(thresholds.maxErrorRate * 100).toFixed(1)}%`
+    })
+  }
+
+  if (isEnabled('extreme_market_volatility') && input.volatility != null && input.volatility > thresholds.extremeVolatility) {
+    tripped.push({
+      condition: 'extreme_market_volatility',
+      detail: `Realised volatility ${(input.volatility * 100).toFixed(0)}% is above ${(thresholds.extremeVolatility * 100).toFixed(0)}%`
+    })
+  }
+
+  return tripped
+}
+
+/**
+ * Circuit breaker for the protocol contracts. When a pause condition trips it
+ * pauses every deployed target from the owner key, then stays tripped until
+ * an admin resets it, which unpauses what the trip paused. Trips are kept in
+ * a GuardianTripStore, so a restart neither forgets an open trip nor counts
+ * slashes from before the last reset again.
+ */
+export class Guardian {
+  private options: GuardianOptions
+  private publicClient: any
+  private walletClient: any = null
+  private transactions: TransactionManager | null = null
+  private current: GuardianTrip | null
+  private lastEvaluatedAt: number | null = null
+  private lastConditions: TrippedCondition[] = []
+  private lastResetAt: number
+
+  constructor(
+    private network: MonitoredNetwork = DEFAULT_NETWORK,
+    options: Partial<GuardianOptions> = {},
+    private store: GuardianTripStore = new GuardianTripStore()
+  ) {
+    this.options = { ...DEFAULT_OPTIONS, ...options }
+    this.current = store.getOpen(network.chain.id)
+    this.lastResetAt = store.getLastResetAt(network.chain.id)
+
+    this.publicClient = this.options.publicClient || createPublicClient({
+      chain: network.chain,
+      transport: http()
+    })
+
+    if (this.options.walletClient) {
+      this.walletClient = this.options.walletClient
+      this.transactions = new TransactionManager(this.publicClient, this.walletClient)
+    } else if (this.options.privateKey) {
+      this.transactions = transactionManagerFor(network.chain, this.options.privateKey)
+      this.walletClient = this.transactions.walletClient
+    }
+  }
+
+  isTripped(): boolean {
+    return this.current !== null
+  }
+
+  // Conditions that hold now; slashes from before the last reset are not counted again
+  evaluate(input: GuardianInput, enabled: string[], thresholds: GuardianThresholds, now: number = Date.now()): TrippedCondition[] {
+    const since = Math.max(now - thresholds.slashingWindowMinutes * 60 * 1000, this.lastResetAt)
+    this.lastEvaluatedAt = now
+    this.lastConditions = evaluatePauseConditions(input, enabled, thresholds, since)
+    return this.lastConditions
+  }
+
+  /**
+   * Pause every target for the given conditions. Returns null when there is
+   * nothing to do or the guardian has already tripped.
+   */
+  async trip(conditions: TrippedCondition[], now: number = Date.now()): Promise<GuardianTrip | null> {
+    if (conditions.length === 0 || this.current) return null
+
+    const actions: GuardianAction[] = []
+    for (const target of this.options.targets) {
+      actions.push(await this.pause(target.contract, target.action, conditions))
+    }
+
+    this.current = { id: `trip-${now}`, trippedAt: new Date(now).toISOString(), conditions, actions }
+    this.store.save(this.network.chain.id, this.current)
+    return this.current
+  }
+
+  /**
+   * Send the current trip's failed or reverted pauses again. Returns the
+   * retried actions with their new outcome, which replaces the old one in the trip.
+   */
+  async retryPauses(): Promise<GuardianAction[]> {
+    const trip = this.current
+    if (!trip) return []
+
+    const retried: GuardianAction[] = []
+    for (const [index, action] of trip.actions.entries()) {
+      if (action.status !== 'failed' && action.status !== 'reverted') continue
+      trip.actions[index] = await this.pause(action.contract, action.functionName as GuardianTarget['action'], trip.conditions)
+      retried.push(trip.actions[index])
+    }
+
+    if (retried.length > 0) this.store.save(this.network.chain.id, trip)
+    return retried
+  }
+
+  // Undo the current trip's pauses and re-arm; only reachable through the admin API
+  async reset(resetBy: string, now: number = Date.now()): Promise<GuardianTrip> {
+    const trip = this.current
+    if (!trip) throw new Error('Guardian is not tripped')
+
+    const resetActions: GuardianAction[] = []
+    // Only undo what this trip did (or would have done, in a dry run)
+    for (const action of trip.actions) {
+      if (action.status !== 'confirmed' && action.status !== 'planned') continue
+      resetActions.push(await this.send(action.contract, action.functionName === 'pauseRebalancing' ? 'resumeRebalancing' : 'unpause'))
+    }
+
+    trip.resetAt = new Date(now).toISOString()
+    trip.resetBy = resetBy
+    trip.resetActions = resetActions
+    this.store.save(this.network.chain.id, trip)
+    this.current = null
+    this.lastResetAt = now
+    return trip
+  }
+
+  getStatus(): GuardianStatus {
+    return {
+      state: this.current ? 'tripped' : 'armed',
+      dryRun: this.options.dryRun || !this.walletClient,
+      signer: this.walletClient?.account?.address ?? null,
+      targets: this.options.targets,
+      current: this.current,
+      lastEvaluatedAt: this.lastEvaluatedAt === null ? null : new Date(this.lastEvaluatedAt).toISOString(),
+      lastConditions: this.lastConditions,
+      history: this.store.list(this.network.chain.id, MAX_HISTORY)
+    }
+  }
+
+  private pause(contract: GuardedContract, functionName: GuardianTarget['action'], conditions: TrippedCondition[]): Promise<GuardianAction> {
+    const reason = conditions.map(c => c.condition).join(', ')
+    return this.send(contract, functionName, functionName === 'pauseRebalancing' ? [`Guardian: ${reason}`] : [])
+  }
+
+  private async send(contract: GuardedContract, functionName: GuardianAction['functionName'], args: any[] = []): Promise<GuardianAction> {
+    const address = this.network.contracts[contract]
+    const action: GuardianAction = { contract, address, functionName, status: 'planned' }
+    if (!address || /^0x0{40}$/.test(address)) {
+      action.status = 'skipped'
+      return action
+    }
+    if (this.options.dryRun || !this.walletClient) return action
+
+    try {
+      // pause() and unpause() revert when the contract is already in that state
+      if (functionName === 'pause' || functionName === 'unpause') {
+        const paused = await this.publicClient.readContract({ address, abi: guardedContractAbi, functionName: 'paused' })
+        if (paused === (functionName === 'pause')) {
+          action.status = 'skipped'
+          action.error = functionName === 'pause' ? 'Already paused' : 'Not paused'
+          return action
+        }
+      }
+
+      const { request } = await this.publicClient.simulateContract({
+        account: this.walletClient.account,
+        address,
+        abi: guardedContractAbi,
+        functionName,
+        args
+      })
+
+      const { hash, receipt } = await this.transactions!.send(request, { receiptTimeoutMs: this.options.receiptTimeoutMs })
+      action.txHash = hash
+      action.status = receipt.status === 'success' ? 'confirmed' : 'reverted'
+    } catch (error) {
+      action.status = 'failed'
+      action.error = error.shortMessage || error.message
+    }
+
+    return action
+  }
+}
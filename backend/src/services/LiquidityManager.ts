@@ -0,0 +1,240 @@
+import { createPublicClient, http, parseAbi } from 'viem'
+import { DEFAULT_NETWORK, MonitoredNetwork } from '../config/networks'
+import { TransactionManager, transactionManagerFor } from './TransactionManager'
+
+export const unbondingQueueAbi = parseAbi([
+  'function getPoolHealth(string assetType) view returns (uint256 utilizationRate, uint256 liquidityRatio, bool isHealthy)',
+  'function getQueueStats() view returns (uint256 totalCoreQueued, uint256 totalLstBTCQueued, uint256 totalRequests, uint256 avgWaitTime)',
+  'function availableLiquidity(string assetType) view returns (uint256)',
+  'function reservePoolSize(string assetType) view returns (uint256)',
+  'function updateAvailableLiquidity(string assetType, uint256 amount)',
+  'function rebalanceLiquidity(string assetType, uint256 targetLiquidity)'
+])
+
+export type LiquidityAsset = 'CORE' | 'lstBTC'
+
+// Instant-withdrawal liquidity of one UnbondingQueue asset; amounts are wei strings
+export interface PoolLiquidity {
+  asset: LiquidityAsset
+  available: string
+  queued: string
+  reservePoolSize: string
+  liquidityRatio: number // available / (available + queued), as a fraction
+  utilizationRate: number // queued / (available + queued), as a fraction
+  isHealthy: boolean // at or above the contract's own reserve ratio
+  queueRequests: number
+  averageWaitSeconds: number
+}
+
+// Ratios are fractions of available + queued
+export interface LiquidityBounds {
+  minLiquidityRatio: number
+  targetLiquidityRatio: number
+  maxLiquidityRatio?: number
+}
+
+export interface LiquidityAdjustment {
+  asset: LiquidityAsset
+  reason: 'below-minimum' | 'above-maximum'
+  fromRatio: number
+  toRatio: number
+  from: string // available liquidity before, wei
+  to: string // available liquidity after, wei
+  method: 'rebalanceLiquidity' | 'updateAvailableLiquidity'
+  status: 'planned' | 'confirmed' | 'reverted' | 'failed'
+  txHash?: string
+  blockNumber?: number
+  gasUsed?: string
+  error?: string
+}
+
+export interface LiquidityManagerOptions {
+  privateKey?: string
+  dryRun: boolean // only plan adjustments, never send
+  receiptTimeoutMs: number
+  publicClient?: any
+  walletClient?: any
+}
+
+const DEFAULT_OPTIONS: LiquidityManagerOptions = {
+  privateKey: process.env.AUTOMATION_PRIVATE_KEY,
+  dryRun: process.env.LIQUIDITY_DRY_RUN !== 'false', // only LIQUIDITY_DRY_RUN=false sends
+  receiptTimeoutMs: 120000
+}
+
+const BPS = 10000n
+
+const toBps = (ratio: number) => BigInt(Math.round(ratio * 10000))
+
+/**
+ * Available liquidity that makes `ratio` of the pool liquid with `queued`
+ * waiting: available / (available + queued) = ratio.
+ */
+export function liquidityForRatio(queued: bigint, ratio: number): bigint {
+  const bps = toBps(ratio)
+  if (bps <= 0n) return 0n
+  if (bps >= BPS) throw new Error('Liquidity ratio must be below 100%')
+  return queued * bps / (BPS - bps)
+}
+
+export function validateLiquidityBounds(bounds: LiquidityBounds): void {
+  const { minLiquidityRatio: min, targetLiquidityRatio: target, maxLiquidityRatio: max } = bounds
+  if (!(min >= 0 && min <= target && target < 1)) {
+    throw new Error('Liquidity ratios must satisfy 0 <= minLiquidityRatio <= targetLiquidityRatio < 1')
+  }
+  if (max !== undefined && max !== null && !(max >= target && max <= 1)) {
+    throw new Error('maxLiquidityRatio must be between targetLiquidityRatio and 1')
+  }
+}
+
+/**
+ * The adjustment that brings a pool back to the target ratio when it is
+ * below the minimum (or above the maximum, if one is set), or null when it
+ * is within bounds. An empty queue leaves nothing to size liquidity against.
+ */
+export function planLiquidityAdjustment(pool: PoolLiquidity, bounds: LiquidityBounds): LiquidityAdjustment | null {
+  validateLiquidityBounds(bounds)
+
+  const queued = BigInt(pool.queued)
+  const available = BigInt(pool.available)
+  if (queued === 0n) return null
+
+  const max = bounds.maxLiquidityRatio
+  let reason: LiquidityAdjustment['reason']
+  if (pool.liquidityRatio < bounds.minLiquidityRatio) {
+    reason = 'below-minimum'
+  } else if (max !== undefined && max !== null && pool.liquidityRatio > max) {
+    reason = 'above-maximum'
+  } else {
+    return null
+  }
+
+  const to = liquidityForRatio(queued, bounds.targetLiquidityRatio)
+  if (to === available) return null
+
+  // rebalanceLiquidity only accepts up to 120% of the sized reserve pool;
+  // beyond that, setting the liquidity directly also re-sizes the reserve
+  const method = to <= BigInt(pool.reservePoolSize) * 120n / 100n ? 'rebalanceLiquidity' : 'updateAvailableLiquidity'
+
+  return {
+    asset: pool.asset,
+    reason,
+    fromRatio: pool.liquidityRatio,
+    toRatio: Number(to * BPS / (to + queued)) / 10000,
+    from: available.toString(),
+    to: to.toString(),
+    method,
+    status: 'planned'
+  }
+}
+
+/**
+ * Reads instant-withdrawal liquidity from the UnbondingQueue and applies
+ * adjustments with the owner key (AUTOMATION_PRIVATE_KEY). Each write is
+ * simulated first and awaited until it is mined.
+ */
+export class LiquidityManager {
+  private options: LiquidityManagerOptions
+  private publicClient: any
+  private walletClient: any = null
+  private transactions: TransactionManager | null = null
+  private target: string
+
+  constructor(private network: MonitoredNetwork = DEFAULT_NETWORK, options: Partial<LiquidityManagerOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options }
+    this.target = network.contracts.UnbondingQueue
+
+    this.publicClient = this.options.publicClient || createPublicClient({
+      chain: network.chain,
+      transport: http()
+    })
+
+    if (this.options.walletClient) {
+      this.walletClient = this.options.walletClient
+      this.transactions = new TransactionManager(this.publicClient, this.walletClient)
+    } else if (this.options.privateKey) {
+      this.transactions = transactionManagerFor(network.chain, this.options.privateKey)
+      this.walletClient = this.transactions.walletClient
+    }
+  }
+
+  getSigner(): string | null {
+    return this.walletClient?.account?.address ?? null
+  }
+
+  // False when the network has no UnbondingQueue address (unset or the zero address)
+  isDeployed(): boolean {
+    return Boolean(this.target) && !/^0x0{40}$/.test(this.target)
+  }
+
+  async getPool(asset: LiquidityAsset): Promise<PoolLiquidity> {
+    this.requireDeployed()
+
+    const [[utilizationRate, liquidityRatio, isHealthy], [coreQueued, lstBTCQueued, totalRequests, avgWaitTime], available, reservePoolSize] =
+      await Promise.all([
+        this.read('getPoolHealth', [asset]),
+        this.read('getQueueStats'),
+        this.read('availableLiquidity', [asset]),
+        this.read('reservePoolSize', [asset])
+      ])
+
+    return {
+      asset,
+      available: available.toString(),
+      queued: (asset === 'CORE' ? coreQueued : lstBTCQueued).toString(),
+      reservePoolSize: reservePoolSize.toString(),
+      liquidityRatio: Number(liquidityRatio) / 10000,
+      utilizationRate: Number(utilizationRate) / 10000,
+      isHealthy,
+      queueRequests: Number(totalRequests),
+      averageWaitSeconds: Number(avgWaitTime)
+    }
+  }
+
+  /**
+   * Send a planned adjustment, unless this is a dry run or no signer is
+   * configured, in which case it is returned still planned.
+   */
+  async apply(adjustment: LiquidityAdjustment, dryRun: boolean = this.options.dryRun): Promise<LiquidityAdjustment> {
+    this.requireDeployed()
+    const result = { ...adjustment }
+    if (dryRun || !this.walletClient) return result
+
+    try {
+      const { request } = await this.publicClient.simulateContract({
+        account: this.walletClient.account,
+        address: this.target,
+        abi: unbondingQueueAbi,
+        functionName: adjustment.method,
+        args: [adjustment.asset, BigInt(adjustment.to)]
+      })
+
+      const { hash, receipt } = await this.transactions!.send(request, { receiptTimeoutMs: this.options.receiptTimeoutMs })
+      result.txHash = hash
+
+      result.blockNumber = Number(receipt.blockNumber)
+      result.gasUsed = receipt.gasUsed.toString()
+      result.status = receipt.status === 'success' ? 'confirmed' : 'reverted'
+    } catch (error) {
+      result.status = 'failed'
+      result.error = error.shortMessage || error.message
+    }
+
+    return result
+  }
+
+  private requireDeployed(): void {
+    if (!this.isDeployed()) {
+      throw new Error(`UnbondingQueue is not deployed on ${this.network.chain.name}`)
+    }
+  }
+
+  private read(functionName: string, args: any[] = []): Promise<any> {
+    return this.publicClient.readContract({
+      address: this.target,
+      abi: unbondingQueueAbi,
+      functionName,
+      args
+    })
+  }
+}
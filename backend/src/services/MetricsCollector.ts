@@ -1,58 +1,88 @@
+import { MetricsStorage, createMetricsStorage } from '../storage/MetricsStorage'
+import { RequestStats, RouteHistogram, WINDOWS } from './RequestStats'
+
 export interface HistoricalMetric {
   id: string
   type: string
   data: any
   timestamp: string
+  resolution: string // 'raw' for collected points, rollup label (e.g. '1h') for downsampled ones
+  samples: number // number of raw points folded into this one
+  chainId?: number | null // network the metric was collected from; null for chain-independent metrics
+}
+
+export interface RetentionPolicy {
+  rawRetention: number // ms to keep raw points before downsampling them
+  rollupInterval: number // ms bucket size for downsampled points
+  rollupLabel: string
+  rollupRetention: number // ms to keep downsampled points before deleting them
+}
+
+const HOUR = 60 * 60 * 1000
+const DAY = 24 * HOUR
+
+export const DEFAULT_RETENTION_POLICIES: Record<string, RetentionPolicy> = {
+  contract: { rawRetention: DAY, rollupInterval: HOUR, rollupLabel: '1h', rollupRetention: 90 * DAY },
+  validators: { rawRetention: DAY, rollupInterval: HOUR, rollupLabel: '1h', rollupRetention: 90 * DAY },
+  default: { rawRetention: 7 * DAY, rollupInterval: HOUR, rollupLabel: '1h', rollupRetention: 30 * DAY }
+}
+
+export const TIMEFRAMES: Record<string, number> = {
+  '1h': HOUR,
+  '24h': DAY,
+  '7d': 7 * DAY,
+  '30d': 30 * DAY,
+  '90d': 90 * DAY
 }
 
 export class MetricsCollector {
-  private metrics: HistoricalMetric[] = []
+  private storage: MetricsStorage
+  private retentionPolicies: Record<string, RetentionPolicy>
+  private requestStats = new RequestStats()
+
+  constructor(
+    storage: MetricsStorage = createMetricsStorage(),
+    retentionPolicies: Record<string, RetentionPolicy> = DEFAULT_RETENTION_POLICIES
+  ) {
+    this.storage = storage
+    this.retentionPolicies = retentionPolicies
+  }
 
-  async store(type: string, data: any): Promise<void> {
+  async store(type: string, data: any, chainId?: number): Promise<void> {
     const metric: HistoricalMetric = {
-      id: `${type}-${Date.now()}`,
+      id: chainId === undefined ? `${type}-${Date.now()}` : `${type}-${chainId}-${Date.now()}`,
       type,
       data,
-      timestamp: new Date().toISOString()
-    }
-    
-    this.metrics.push(metric)
-    
-    // Keep only last 1000 metrics to prevent memory issues
-    if (this.metrics.length > 1000) {
-      this.metrics = this.metrics.slice(-1000)
+      timestamp: new Date().toISOString(),
+      resolution: 'raw',
+      samples: 1,
+      chainId: chainId ?? null
     }
+
+    await this.storage.insert(metric)
   }
 
-  async getHistory(type: string, limit: number, timeframe: string): Promise<HistoricalMetric[]> {
-    // Calculate time cutoff based on timeframe
-    const now = Date.now()
-    let cutoffTime = now
-    
-    switch (timeframe) {
-      case '1h':
-        cutoffTime = now - (60 * 60 * 1000)
-        break
-      case '24h':
-        cutoffTime = now - (24 * 60 * 60 * 1000)
-        break
-      case '7d':
-        cutoffTime = now - (7 * 24 * 60 * 60 * 1000)
-        break
-      case '30d':
-        cutoffTime = now - (30 * 24 * 60 * 60 * 1000)
-        break
-    }
-    
-    return this.metrics
-      .filter(m => m.type === type && new Date(m.timestamp).getTime() > cutoffTime)
-      .slice(-limit)
-      .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())
+  async getHistory(type: string, limit: number, timeframe: string, chainId?: number): Promise<HistoricalMetric[]> {
+    return this.storage.query({
+      type,
+      from: this.getTimeframeStart(timeframe),
+      limit,
+      chainId
+    })
+  }
+
+  async getLatest(type: string, chainId?: number): Promise<HistoricalMetric | null> {
+    const [latest] = await this.storage.query({ type, from: 0, resolution: 'raw', limit: 1, chainId })
+    return latest || null
   }
 
-  async getSummary(timeframe: string): Promise<any> {
-    const history = await this.getHistory('contract', 100, timeframe)
-    
+  async getSummary(timeframe: string, chainId?: number): Promise<any> {
+    const history = await this.storage.query({
+      type: 'contract',
+      from: this.getTimeframeStart(timeframe),
+      chainId
+    })
+
     if (history.length === 0) {
       return {
         totalTransactions: 0,
@@ -62,52 +92,158 @@ export class MetricsCollector {
         averagePerformance: 0
       }
     }
-    
-    const totalTxns = history.reduce((sum, h) => sum + (h.data.transactionCount?.total || 0), 0)
-    const avgGas = history.reduce((sum, h) => sum + (h.data.gasUsage?.average || 0), 0) / history.length
-    const avgErrorRate = history.reduce((sum, h) => sum + (h.data.errorRate || 0), 0) / history.length
-    const avgPerformance = history.reduce((sum, h) => sum + (h.data.performanceScore || 0), 0) / history.length
-    
+
+    // Downsampled points stand in for several raw samples, so weight them accordingly
+    const totalSamples = history.reduce((sum, h) => sum + h.samples, 0)
+    const weightedAverage = (pick: (data: any) => number) =>
+      history.reduce((sum, h) => sum + pick(h.data) * h.samples, 0) / totalSamples
+
+    const totalTxns = history.reduce((sum, h) => sum + (h.data.transactionCount?.total || 0) * h.samples, 0)
+    const avgGas = weightedAverage(data => data.gasUsage?.average || 0)
+    const avgErrorRate = weightedAverage(data => data.errorRate || 0)
+    const avgPerformance = weightedAverage(data => data.performanceScore || 0)
+
     return {
-      totalTransactions: totalTxns,
+      totalTransactions: Math.round(totalTxns),
       averageGasUsage: Math.round(avgGas),
       errorRate: avgErrorRate,
       uptimePercentage: Math.max(0, 100 - (avgErrorRate * 100)),
       averagePerformance: avgPerformance,
       dataPoints: history.length,
+      samples: totalSamples,
       timeframe
     }
   }
 
-  async getPerformanceMetrics(): Promise<any> {
-    const recentMetrics = this.metrics.slice(-10) // Last 10 metrics
-    
-    if (recentMetrics.length === 0) {
-      return {
-        responseTime: 0,
-        throughput: 0,
-        errorRate: 0,
-        availability: 100
-      }
+  recordRequest(route: string, duration: number, status: number): void {
+    this.requestStats.record(route, duration, status)
+  }
+
+  /**
+   * API performance over a time window, measured by the requestMetrics middleware
+   */
+  async getPerformanceMetrics(window: string = '5m'): Promise<any> {
+    const windowMs = WINDOWS[window]
+    if (!windowMs) {
+      throw new Error(`Unsupported window: ${window}. Use one of: ${Object.keys(WINDOWS).join(', ')}`)
     }
-    
+
+    const overall = this.requestStats.getOverallStats(windowMs)
+    const routes = this.requestStats.getRouteStats(windowMs)
+      .sort((a, b) => b.latency.count - a.latency.count)
+
     return {
-      responseTime: 150 + Math.random() * 50, // Mock response time 150-200ms
-      throughput: 50 + Math.random() * 30, // Mock throughput 50-80 req/min
-      errorRate: Math.random() * 0.02, // Mock error rate 0-2%
-      availability: 99.5 + Math.random() * 0.5, // Mock availability 99.5-100%
+      window,
+      responseTime: overall.latency.average,
+      latency: overall.latency,
+      throughput: overall.throughput, // req/min
+      errorRate: overall.errorRate,
+      availability: (1 - overall.errorRate) * 100,
+      statusCodes: overall.statusCodes,
+      routes,
       lastUpdated: new Date().toISOString()
     }
   }
 
-  getMetricsCount(): number {
-    return this.metrics.length
+  getRequestHistograms(): RouteHistogram[] {
+    return this.requestStats.getHistograms()
   }
 
-  clearOldMetrics(maxAge: number = 7 * 24 * 60 * 60 * 1000): void {
+  async getMetricsCount(type?: string): Promise<number> {
+    return this.storage.count(type)
+  }
+
+  getRetentionPolicy(type: string): RetentionPolicy {
+    return this.retentionPolicies[type] || this.retentionPolicies.default
+  }
+
+  /**
+   * Downsample raw points older than each type's raw retention into rollup
+   * buckets, and drop rollups that have aged out entirely.
+   */
+  async applyRetention(now: number = Date.now()): Promise<{ downsampled: number; deleted: number }> {
+    let downsampled = 0
+    let deleted = 0
+
+    for (const type of await this.storage.getTypes()) {
+      const policy = this.getRetentionPolicy(type)
+
+      // Only roll up complete buckets so a bucket is never split across runs
+      const rawCutoff = Math.floor((now - policy.rawRetention) / policy.rollupInterval) * policy.rollupInterval
+      const rawPoints = await this.storage.query({ type, from: 0, to: rawCutoff, resolution: 'raw' })
+
+      if (rawPoints.length > 0) {
+        // Bucket per network so points from different chains are never averaged together
+        const buckets = new Map<string, { bucket: number; chainId: number | null; points: HistoricalMetric[] }>()
+        for (const point of rawPoints) {
+          const bucket = Math.floor(new Date(point.timestamp).getTime() / policy.rollupInterval) * policy.rollupInterval
+          const chainId = point.chainId ?? null
+          const key = `${chainId ?? ''}:${bucket}`
+          const entry = buckets.get(key) || { bucket, chainId, points: [] }
+          entry.points.push(point)
+          buckets.set(key, entry)
+        }
+
+        const rollups: HistoricalMetric[] = [...buckets.values()].map(({ bucket, chainId, points }) => ({
+          id: chainId === null ? `${type}-${policy.rollupLabel}-${bucket}` : `${type}-${chainId}-${policy.rollupLabel}-${bucket}`,
+          type,
+          data: downsample(points.map(p => p.data), points.map(p => p.samples)),
+          timestamp: new Date(bucket).toISOString(),
+          resolution: policy.rollupLabel,
+          samples: points.reduce((sum, p) => sum + p.samples, 0),
+          chainId
+        }))
+
+        await this.storage.insertMany(rollups)
+        downsampled += await this.storage.deleteRange({ type, from: 0, to: rawCutoff, resolution: 'raw' })
+      }
+
+      deleted += await this.storage.deleteRange({
+        type,
+        from: 0,
+        to: now - policy.rollupRetention,
+        resolution: policy.rollupLabel
+      })
+    }
+
+    return { downsampled, deleted }
+  }
+
+  async clearOldMetrics(maxAge: number = 7 * 24 * 60 * 60 * 1000): Promise<void> {
     const cutoffTime = Date.now() - maxAge
-    this.metrics = this.metrics.filter(m => 
-      new Date(m.timestamp).getTime() > cutoffTime
-    )
+    for (const type of await this.storage.getTypes()) {
+      await this.storage.deleteRange({ type, from: 0, to: cutoffTime })
+    }
+  }
+
+  private getTimeframeStart(timeframe: string): number {
+    const now = Date.now()
+    return now - (TIMEFRAMES[timeframe] ?? 0)
+  }
+}
+
+/**
+ * Merge several metric payloads into one: numbers become a weighted mean,
+ * nested objects are merged key by key, anything else keeps the latest value.
+ */
+export function downsample(values: any[], weights: number[]): any {
+  const latest = values[values.length - 1]
+
+  if (values.every(v => typeof v === 'number')) {
+    const totalWeight = weights.reduce((sum, w) => sum + w, 0)
+    return values.reduce((sum, v, i) => sum + v * weights[i], 0) / totalWeight
   }
-}
\ No newline at end of file
+
+  const isPlainObject = (v: any) => v !== null && typeof v === 'object' && !Array.isArray(v)
+  if (values.every(isPlainObject)) {
+    const merged: Record<string, any> = {}
+    const keys = new Set(values.flatMap(v => Object.keys(v)))
+    for (const key of keys) {
+      const present = values.map((v, i) => ({ value: v[key], weight: weights[i] })).filter(e => e.value !== undefined)
+      merged[key] = downsample(present.map(e => e.value), present.map(e => e.weight))
+    }
+    return merged
+  }
+
+  return latest
+}
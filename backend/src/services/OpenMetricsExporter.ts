@@ -0,0 +1,243 @@
+import type { ContractMetrics, PriceData } from './ContractMonitor'
+import type { ValidatorMetrics } from './ValidatorMonitor'
+import type { MetricsCollector } from './MetricsCollector'
+import type { AlertManager } from './AlertManager'
+import type { AutomationEngine } from './AutomationEngine'
+import type { AutomatedRebalancer } from './AutomatedRebalancer'
+import { LATENCY_BUCKETS } from './RequestStats'
+
+type Labels = Record<string, string | number>
+
+interface MetricFamily {
+  name: string
+  type: 'gauge' | 'counter' | 'histogram'
+  help: string
+  unit?: string
+  samples: Array<{ suffix?: string; labels?: Labels; value: number }>
+}
+
+export const OPENMETRICS_CONTENT_TYPE = 'application/openmetrics-text; version=1.0.0; charset=utf-8'
+
+const PREFIX = 'stakebasket'
+
+/**
+ * Renders the backend's monitoring state in the OpenMetrics text format for
+ * Prometheus scraping. Values come from the latest stored snapshots, so a
+ * scrape never triggers RPC calls of its own.
+ */
+export class OpenMetricsExporter {
+  constructor(
+    private metricsCollector: MetricsCollector,
+    private alertManager: AlertManager,
+    private automationEngine: AutomationEngine,
+    private rebalancer: AutomatedRebalancer,
+    private chainIds: number[] = [] // monitored networks; contract, price and validator samples get a chain_id label
+  ) {}
+
+  async render(): Promise<string> {
+    const chainFamilies = this.chainIds.length > 0
+      ? (await Promise.all(this.chainIds.map(chainId => this.snapshotFamilies(chainId)))).flat()
+      : await this.snapshotFamilies()
+
+    const families: MetricFamily[] = [
+      ...mergeFamilies(chainFamilies),
+      ...this.alertFamilies(),
+      ...this.automationFamilies(),
+      ...this.httpFamilies()
+    ]
+
+    return families.map(formatFamily).join('') + '# EOF\n'
+  }
+
+  private async snapshotFamilies(chainId?: number): Promise<MetricFamily[]> {
+    const [contract, price, validators] = await Promise.all([
+      this.metricsCollector.getLatest('contract', chainId),
+      this.metricsCollector.getLatest('price', chainId),
+      this.metricsCollector.getLatest('validators', chainId)
+    ])
+
+    const families = [
+      ...(contract ? this.contractFamilies(contract.data) : []),
+      ...(price ? this.priceFamilies(price.data) : []),
+      ...(validators ? this.validatorFamilies(validators.data) : [])
+    ]
+
+    return chainId === undefined
+      ? families
+      : families.map(family => ({
+        ...family,
+        samples: family.samples.map(sample => ({ ...sample, labels: { chain_id: chainId, ...sample.labels } }))
+      }))
+  }
+
+  private contractFamilies(metrics: ContractMetrics): MetricFamily[] {
+    return [
+      gauge('contract_total_aum', 'Total assets under management of StakeBasket', [{ value: parseFloat(metrics.totalAUM) }]),
+      gauge('contract_nav_per_share', 'Net asset value per BASKET share', [{ value: parseFloat(metrics.navPerShare) }]),
+      gauge('contract_total_supply', 'Total supply of BASKET shares', [{ value: parseFloat(metrics.totalSupply) }]),
+      gauge('contract_error_rate', 'Share of failed StakeBasket transactions in recent blocks', [{ value: metrics.errorRate }], 'ratio'),
+      gauge('contract_performance_score', 'Contract performance score (0-100)', [{ value: metrics.performanceScore }]),
+      gauge('contract_gas_usage', 'Average gas used per StakeBasket transaction', [
+        { labels: { operation: 'deposit' }, value: metrics.gasUsage.deposit },
+        { labels: { operation: 'withdraw' }, value: metrics.gasUsage.withdraw },
+        { labels: { operation: 'average' }, value: metrics.gasUsage.average }
+      ]),
+      gauge('contract_recent_transactions', 'StakeBasket transactions in recent blocks', [
+        { labels: { kind: 'deposit' }, value: metrics.transactionCount.deposits },
+        { labels: { kind: 'withdrawal' }, value: metrics.transactionCount.withdrawals }
+      ]),
+      gauge('contract_last_collected', 'Time the contract metrics were collected', [
+        { value: new Date(metrics.timestamp).getTime() / 1000 }
+      ], 'seconds')
+    ]
+  }
+
+  private priceFamilies(priceData: PriceData): MetricFamily[] {
+    return [
+      gauge('price_feed_price', 'Price reported by the on-chain price feed', [
+        { labels: { asset: 'CORE' }, value: parseFloat(priceData.corePrice) },
+        { labels: { asset: 'lstBTC' }, value: parseFloat(priceData.lstBTCPrice) },
+        { labels: { asset: 'BTC' }, value: parseFloat(priceData.btcPrice) }
+      ]),
+      gauge('price_feed_stale', 'Whether any price feed is stale (1) or fresh (0)', [{ value: priceData.isStale ? 1 : 0 }]),
+      gauge('price_feed_deviation', 'Deviation of the CORE price from its reference', [{ value: priceData.deviation }], 'ratio'),
+      gauge('price_feed_age', 'Seconds since the price feed was last updated', [
+        { value: Math.max(0, (Date.now() - new Date(priceData.lastUpdated).getTime()) / 1000) }
+      ], 'seconds')
+    ]
+  }
+
+  private validatorFamilies(metrics: ValidatorMetrics): MetricFamily[] {
+    const perValidator = (pick: (v: ValidatorMetrics['validators'][number]) => number) =>
+      metrics.validators.map(v => ({ labels: { validator: v.address, name: v.name }, value: pick(v) }))
+
+    return [
+      gauge('validators', 'Number of monitored validators', [
+        { labels: { state: 'active' }, value: metrics.activeValidators },
+        { labels: { state: 'inactive' }, value: metrics.totalValidators - metrics.activeValidators }
+      ]),
+      gauge('validators_average_uptime', 'Average validator uptime percentage', [{ value: metrics.averageUptime }], 'percent'),
+      gauge('validators_average_performance', 'Average validator performance score', [{ value: metrics.averagePerformance }]),
+      gauge('validators_slashing_events', 'Slashing events across monitored validators', [{ value: metrics.totalSlashingEvents }]),
+      gauge('validator_uptime', 'Validator uptime percentage', perValidator(v => v.uptime), 'percent'),
+      gauge('validator_performance', 'Validator performance score', perValidator(v => v.performance)),
+      gauge('validator_commission', 'Validator commission percentage', perValidator(v => v.commission), 'percent'),
+      gauge('validator_total_delegated', 'Stake delegated to the validator', perValidator(v => parseFloat(v.totalDelegated))),
+      gauge('validator_active', 'Whether the validator is active (1) or not (0)', perValidator(v => v.isActive ? 1 : 0))
+    ]
+  }
+
+  private alertFamilies(): MetricFamily[] {
+    const alerts = this.alertManager.getAlerts()
+    const severities = ['warning', 'error', 'critical'] as const
+
+    return [
+      gauge('alerts', 'Alerts currently held by the alert manager', severities.map(severity => ({
+        labels: { severity },
+        value: alerts.filter(a => a.type === severity).length
+      }))),
+      gauge('alerts_unacknowledged', 'Alerts not yet acknowledged', severities.map(severity => ({
+        labels: { severity },
+        value: alerts.filter(a => a.type === severity && !a.acknowledged).length
+      })))
+    ]
+  }
+
+  private automationFamilies(): MetricFamily[] {
+    const tasks = this.automationEngine.getAutomationTasks()
+    const rebalancerStats = this.rebalancer.getStatistics()
+    const rebalancerStatus = this.rebalancer.getStatus()
+
+    return [
+      counter('automation_task_runs', 'Automation task executions', tasks.map(t => ({ labels: { task: t.id }, value: t.runCount }))),
+      counter('automation_task_failures', 'Automation task executions that failed', tasks.map(t => ({ labels: { task: t.id }, value: t.failureCount }))),
+      gauge('automation_task_enabled', 'Whether the automation task is enabled (1) or not (0)', tasks.map(t => ({ labels: { task: t.id }, value: t.enabled ? 1 : 0 }))),
+      gauge('rebalancer_recent_runs', 'Rebalancing checks in the retained rebalancer history (last 100)', [
+        { labels: { outcome: 'executed' }, value: rebalancerStats.successfulRebalances },
+        { labels: { outcome: 'skipped_or_failed' }, value: rebalancerStats.failedRebalances }
+      ]),
+      gauge('rebalancer_enabled', 'Whether the automated rebalancer is enabled (1) or not (0)', [{ value: rebalancerStatus.enabled ? 1 : 0 }])
+    ]
+  }
+
+  private httpFamilies(): MetricFamily[] {
+    const histograms = this.metricsCollector.getRequestHistograms()
+    if (histograms.length === 0) return []
+
+    return [
+      {
+        name: `${PREFIX}_http_request_duration_seconds`,
+        type: 'histogram',
+        unit: 'seconds',
+        help: 'API request latency by route',
+        samples: histograms.flatMap((h): MetricFamily['samples'] => [
+          ...LATENCY_BUCKETS.map((bound, i) => ({ suffix: '_bucket', labels: { route: h.route, le: bound / 1000 }, value: h.buckets[i] })),
+          { suffix: '_bucket', labels: { route: h.route, le: '+Inf' }, value: h.count },
+          { suffix: '_count', labels: { route: h.route }, value: h.count },
+          { suffix: '_sum', labels: { route: h.route }, value: h.sum / 1000 }
+        ])
+      },
+      counter('http_responses', 'API responses by route and status code', histograms.flatMap(h =>
+        Object.entries(h.statusCodes).map(([status, count]) => ({ labels: { route: h.route, status }, value: count }))
+      ))
+    ]
+  }
+}
+
+function gauge(name: string, help: string, samples: MetricFamily['samples'], unit?: string): MetricFamily {
+  return { name: `${PREFIX}_${name}${unit ? `_${unit}` : ''}`, type: 'gauge', help, unit, samples }
+}
+
+function counter(name: string, help: string, samples: MetricFamily['samples']): MetricFamily {
+  return {
+    name: `${PREFIX}_${name}`,
+    type: 'counter',
+    help,
+    samples: samples.map(s => ({ ...s, suffix: '_total' }))
+  }
+}
+
+// Combine same-named families (one per network) so each family is emitted once
+function mergeFamilies(families: MetricFamily[]): MetricFamily[] {
+  const merged = new Map<string, MetricFamily>()
+  for (const family of families) {
+    const existing = merged.get(family.name)
+    if (existing) {
+      existing.samples.push(...family.samples)
+    } else {
+      merged.set(family.name, { ...family, samples: [...family.samples] })
+    }
+  }
+  return [...merged.values()]
+}
+
+function formatFamily(family: MetricFamily): string {
+  const lines = [
+    `# TYPE ${family.name} ${family.type}`,
+    ...(family.unit ? [`# UNIT ${family.name} ${family.unit}`] : []),
+    `# HELP ${family.name} ${family.help}`
+  ]
+
+  for (const sample of family.samples) {
+    lines.push(`${family.name}${sample.suffix || ''}${formatLabels(sample.labels)} ${formatValue(sample.value)}`)
+  }
+
+  return lines.join('\n') + '\n'
+}
+
+function formatLabels(labels?: Labels): string {
+  if (!labels || Object.keys(labels).length === 0) return ''
+
+  const pairs = Object.entries(labels).map(([key, value]) => {
+    const escaped = String(value).replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')
+    return `${key}="${escaped}"`
+  })
+  return `{${pairs.join(',')}}`
+}
+
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) return 'NaN'
+  if (value === Infinity) return '+Inf'
+  if (value === -Infinity) return '-Inf'
+  return String(value)
+}
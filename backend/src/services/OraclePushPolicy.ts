@@ -0,0 +1,118 @@
+export interface AssetPushSettings {
+  deviationBps: number // push when the new price is this far from the on-chain one
+  heartbeatSeconds: number // push when the on-chain price is at least this old
+  enabled: boolean // false never pushes the asset from the scheduled updater
+}
+
+// The oracle's current value for an asset; nulls when it has never been set or can't be read
+export interface OnChainPrice {
+  price: number | null // USD
+  updatedAt: number | null // unix seconds
+  fresh: boolean // isPriceFresh, i.e. within the contract's staleness threshold
+}
+
+export type PushReason = 'forced' | 'no-onchain-price' | 'stale' | 'heartbeat' | 'deviation' | 'within-policy' | 'disabled'
+
+export interface PushDecision {
+  asset: string
+  push: boolean
+  reason: PushReason
+  price: number // aggregated USD price
+  onChainPrice: number | null
+  deviationBps: number | null
+  ageSeconds: number | null
+  settings: AssetPushSettings
+}
+
+// CoreOracle treats prices older than an hour as stale, so the default heartbeat stays under that
+export const DEFAULT_PUSH_SETTINGS: AssetPushSettings = {
+  deviationBps: parseInt(process.env.ORACLE_DEVIATION_BPS || '50'),
+  heartbeatSeconds: parseInt(process.env.ORACLE_HEARTBEAT_SECONDS || '3000'),
+  enabled: true
+}
+
+/**
+ * Per-asset overrides from ORACLE_PUSH_POLICY, a JSON object such as
+ * {"BTC": {"deviationBps": 25}, "coreBTC": {"heartbeatSeconds": 1800}}.
+ */
+export function loadPushOverrides(json: string | undefined = process.env.ORACLE_PUSH_POLICY): Record<string, Partial<AssetPushSettings>> {
+  if (!json) return {}
+  try {
+    return JSON.parse(json)
+  } catch (error) {
+    throw new Error(`ORACLE_PUSH_POLICY is not valid JSON: ${error.message}`)
+  }
+}
+
+/**
+ * Whether one asset's aggregated price should be written on-chain: always
+ * when the oracle has no fresh value, otherwise only once the heartbeat has
+ * elapsed or the price has moved by more than the deviation threshold.
+ */
+export function decidePush(
+  asset: string,
+  price: number,
+  onChain: OnChainPrice,
+  settings: AssetPushSettings,
+  nowSeconds: number,
+  force: boolean = false
+): PushDecision {
+  const ageSeconds = onChain.updatedAt ? Math.max(0, nowSeconds - onChain.updatedAt) : null
+  const deviationBps = onChain.price ? Math.abs(price - onChain.price) / onChain.price * 10000 : null
+  const decision = (push: boolean, reason: PushReason): PushDecision =>
+    ({ asset, push, reason, price, onChainPrice: onChain.price, deviationBps, ageSeconds, settings })
+
+  if (force) return decision(true, 'forced')
+  if (!settings.enabled) return decision(false, 'disabled')
+  if (onChain.price === null || ageSeconds === null) return decision(true, 'no-onchain-price')
+  if (!onChain.fresh) return decision(true, 'stale')
+  if (ageSeconds >= settings.heartbeatSeconds) return decision(true, 'heartbeat')
+  if (deviationBps !== null && deviationBps > settings.deviationBps) return decision(true, 'deviation')
+  return decision(false, 'within-policy')
+}
+
+/**
+ * Deviation and heartbeat settings for each oracle asset, editable at runtime.
+ * Assets without their own settings use the defaults.
+ */
+export class OraclePushPolicy {
+  private settings = new Map<string, AssetPushSettings>()
+
+  constructor(
+    private defaults: AssetPushSettings = DEFAULT_PUSH_SETTINGS,
+    overrides: Record<string, Partial<AssetPushSettings>> = loadPushOverrides()
+  ) {
+    for (const [asset, override] of Object.entries(overrides)) {
+      this.set(asset, override)
+    }
+  }
+
+  get(asset: string): AssetPushSettings {
+    return this.settings.get(asset) ?? { ...this.defaults }
+  }
+
+  getAll(assets: string[]): Record<string, AssetPushSettings> {
+    const all: Record<string, AssetPushSettings> = {}
+    for (const asset of new Set([...assets, ...this.settings.keys()])) {
+      all[asset] = this.get(asset)
+    }
+    return all
+  }
+
+  set(asset: string, changes: Partial<AssetPushSettings>): AssetPushSettings {
+    const next = { ...this.get(asset), ...changes }
+    if (!(next.deviationBps > 0 && next.deviationBps <= 10000)) {
+      throw new Error(`deviationBps for ${asset} must be between 0 and 10000`)
+    }
+    if (!(next.heartbeatSeconds > 0)) {
+      throw new Error(`heartbeatSeconds for ${asset} must be positive`)
+    }
+
+    this.settings.set(asset, next)
+    return next
+  }
+
+  decide(asset: string, price: number, onChain: OnChainPrice, nowSeconds: number = Math.floor(Date.now() / 1000), force: boolean = false): PushDecision {
+    return decidePush(asset, price, onChain, this.get(asset), nowSeconds, force)
+  }
+}
@@ -1,5 +1,13 @@
 import { ethers } from 'ethers';
+import { parseAbi } from 'viem';
 import { CoreAPIService } from './CoreAPIService.js';
+import { AggregationResult, PriceAggregator } from './PriceAggregator.js';
+import { createPriceSources } from './PriceSources.js';
+import { OnChainPrice, OraclePushPolicy, PushDecision } from './OraclePushPolicy.js';
+import { DerivedPrice, DerivedPriceCalculator } from './DerivedPrices.js';
+import type { PriceHistory } from './PriceHistory.js';
+import { DEFAULT_NETWORK } from '../config/networks.js';
+import { TransactionManager, transactionManagerFor } from './TransactionManager.js';
 
 interface OracleConfig {
   contractAddress: string;
@@ -8,41 +16,67 @@ interface OracleConfig {
   updateInterval: number; // in milliseconds
 }
 
+export const ORACLE_ASSETS = ['CORE', 'BTC', 'lstBTC', 'coreBTC'];
+
+// Writes go through viem and the signer's transaction manager; reads stay on ethers
+const oracleWriteAbi = parseAbi([
+  'function updatePrice(string asset, uint256 price)',
+  'function updatePrices(string[] assets, uint256[] prices)'
+]);
+
 /**
  * @class OracleUpdater
- * @description Automated service that fetches real-time prices from Core APIs
- * and updates the CoreOracle smart contract on Core Testnet2
+ * @description Automated service that aggregates real-time prices from several
+ * price sources and updates the CoreOracle smart contract on Core Testnet2
  */
 export class OracleUpdater {
   private coreAPI: CoreAPIService;
   private provider: ethers.Provider;
-  private signer: ethers.Wallet;
+  private transactions: TransactionManager;
   private oracleContract: ethers.Contract;
   private config: OracleConfig;
   private updateTimer?: NodeJS.Timeout;
+  private updateInProgress = false;
+  private aggregator: PriceAggregator;
+  private lastAggregation: AggregationResult | null = null;
+  private pushPolicy: OraclePushPolicy;
+  private lastDecisions: PushDecision[] = [];
+  private derivedPrices: DerivedPriceCalculator;
+  private lastDerived: Record<string, DerivedPrice> = {};
   
   // Oracle contract ABI (minimal interface)
   private readonly oracleABI = [
     "function updatePrice(string memory asset, uint256 price) external",
     "function updatePrices(string[] memory assets, uint256[] memory prices) external",
     "function getPrice(string memory asset) external view returns (uint256)",
+    "function getPriceWithTimestamp(string memory asset) external view returns (uint256 price, uint256 timestamp)",
     "function isPriceFresh(string memory asset) external view returns (bool)",
     "event PriceUpdated(string indexed asset, uint256 price, uint256 timestamp)"
   ];
   
-  constructor(config: OracleConfig, apiKey?: string) {
+  constructor(
+    config: OracleConfig,
+    apiKey?: string,
+    aggregator?: PriceAggregator,
+    pushPolicy?: OraclePushPolicy,
+    derivedPrices?: DerivedPriceCalculator,
+    private priceHistory?: PriceHistory
+  ) {
     this.config = config;
     this.coreAPI = new CoreAPIService(apiKey);
+    this.aggregator = aggregator || new PriceAggregator(createPriceSources(DEFAULT_NETWORK, this.coreAPI));
+    this.pushPolicy = pushPolicy || new OraclePushPolicy();
+    this.derivedPrices = derivedPrices || new DerivedPriceCalculator(DEFAULT_NETWORK);
     
-    // Initialize ethers provider and signer
+    // Initialize ethers provider and the signer's transaction manager
     this.provider = new ethers.JsonRpcProvider(config.rpcUrl);
-    this.signer = new ethers.Wallet(config.privateKey, this.provider);
+    this.transactions = transactionManagerFor(DEFAULT_NETWORK.chain, config.privateKey, config.rpcUrl);
     
     // Initialize oracle contract
     this.oracleContract = new ethers.Contract(
       config.contractAddress,
       this.oracleABI,
-      this.signer
+      this.provider
     );
   }
   
@@ -57,12 +91,20 @@ export class OracleUpdater {
     // Initial update
     await this.updateAllPrices();
     
-    // Set up recurring updates
+    // Set up recurring updates; a tick is skipped while the previous update is still running
     this.updateTimer = setInterval(async () => {
+      if (this.updateInProgress) {
+        console.warn('⏭️ Previous price update still running, skipping this tick');
+        return;
+      }
+      
+      this.updateInProgress = true;
       try {
         await this.updateAllPrices();
       } catch (error) {
         console.error('❌ Error in scheduled update:', error);
+      } finally {
+        this.updateInProgress = false;
       }
     }, this.config.updateInterval);
     
@@ -81,94 +123,202 @@ export class OracleUpdater {
   }
   
   /**
-   * Update all supported asset prices
+   * Update the asset prices the push policy says are due: those that moved
+   * past their deviation threshold or whose heartbeat elapsed. `force`
+   * pushes every aggregated price regardless.
    */
-  async updateAllPrices(): Promise<void> {
+  async updateAllPrices(options: { force?: boolean } = {}): Promise<PushDecision[]> {
     try {
-      console.log('📈 Fetching latest prices from Core API...');
+      console.log('📈 Fetching latest prices from price sources...');
       
-      // Fetch real-time data from Core APIs
-      const [priceData, networkStats] = await Promise.all([
-        this.coreAPI.getCorePrice(),
-        this.coreAPI.getNetworkStats()
+      // Network stats are only logged, so a Core API outage mustn't hold up the push
+      const [{ assets, prices, decisions }, networkStats] = await Promise.all([
+        this.planPriceUpdates(options.force),
+        this.coreAPI.getNetworkStats().catch(error => {
+          console.warn('⚠️ Could not fetch network stats:', error.message);
+          return null;
+        })
       ]);
       
-      // Prepare price updates
-      const assets: string[] = [];
-      const prices: bigint[] = [];
-      
-      // CORE price in USD (convert to 8 decimals)
-      const coreUsdPrice = Math.round(parseFloat(priceData.coreusd) * 1e8);
-      assets.push('CORE');
-      prices.push(BigInt(coreUsdPrice));
-      
-      // BTC price (estimate from CORE/BTC ratio)
-      const btcPrice = Math.round(parseFloat(priceData.coreusd) / parseFloat(priceData.corebtc) * 1e8);
-      assets.push('BTC');
-      prices.push(BigInt(btcPrice));
-      
-      // lstBTC price (same as BTC for now, can be enhanced with real lstBTC data)
-      assets.push('lstBTC');
-      prices.push(BigInt(btcPrice));
-      
-      // coreBTC price (same as BTC)
-      assets.push('coreBTC');
-      prices.push(BigInt(btcPrice));
+      if (assets.length === 0) {
+        console.log('⏭️ All prices within deviation and heartbeat, nothing to push');
+        return decisions;
+      }
       
       console.log('💰 Price Updates:');
-      console.log(`  CORE: $${(coreUsdPrice / 1e8).toFixed(4)}`);
-      console.log(`  BTC:  $${(Number(btcPrice) / 1e8).toFixed(2)}`);
+      decisions.filter(d => d.push).forEach(d => console.log(`  ${d.asset}: $${d.price.toFixed(4)} (${d.reason})`));
       
       // Update oracle contract
       console.log('⬆️ Updating oracle contract...');
-      const tx = await this.oracleContract.updatePrices(assets, prices);
+      const { hash, receipt, replacements } = await this.sendUpdate('updatePrices', [assets, prices]);
       
-      console.log(`📝 Transaction hash: ${tx.hash}`);
-      const receipt = await tx.wait();
+      console.log(`📝 Transaction hash: ${hash}${replacements ? ` (after ${replacements} fee bump(s))` : ''}`);
       console.log(`✅ Prices updated successfully! Gas used: ${receipt.gasUsed}`);
       
       // Log network stats
-      console.log('📊 Network Stats:');
-      console.log(`  Active Validators: ${networkStats.validators.active}`);
-      console.log(`  Total Staked: ${(parseFloat(networkStats.validators.totalStaked) / 1e18).toFixed(0)} CORE`);
-      console.log(`  Market Cap: $${networkStats.supply.marketCap}M`);
+      if (networkStats) {
+        console.log('📊 Network Stats:');
+        console.log(`  Active Validators: ${networkStats.validators.active}`);
+        console.log(`  Total Staked: ${(parseFloat(networkStats.validators.totalStaked) / 1e18).toFixed(0)} CORE`);
+        console.log(`  Market Cap: $${networkStats.supply.marketCap}M`);
+      }
       
+      return decisions;
     } catch (error) {
       console.error('❌ Error updating prices:', error);
       throw error;
     }
   }
   
+  /**
+   * Aggregated prices with the push decision for each asset against its
+   * current on-chain value; `assets`/`prices` hold only those to push
+   */
+  async planPriceUpdates(force: boolean = false): Promise<{
+    assets: string[];
+    prices: bigint[];
+    aggregation: AggregationResult;
+    derived: Record<string, DerivedPrice>;
+    decisions: PushDecision[];
+  }> {
+    const updates = await this.fetchPriceUpdates();
+    const nowSeconds = Math.floor(Date.now() / 1000);
+    
+    const decisions = await Promise.all(updates.assets.map(async (asset, i) =>
+      this.pushPolicy.decide(asset, Number(updates.prices[i]) / 1e8, await this.getOnChainPrice(asset), nowSeconds, force)
+    ));
+    this.lastDecisions = decisions;
+    
+    const due = updates.assets.map((_, i) => i).filter(i => decisions[i].push);
+    return {
+      assets: due.map(i => updates.assets[i]),
+      prices: due.map(i => updates.prices[i]),
+      aggregation: updates.aggregation,
+      derived: updates.derived,
+      decisions
+    };
+  }
+  
+  /**
+   * Current on-chain price and age of an asset; getPriceWithTimestamp doesn't
+   * revert on stale prices the way getPrice does
+   */
+  async getOnChainPrice(asset: string): Promise<OnChainPrice> {
+    const [priceWithTimestamp, fresh] = await Promise.all([
+      this.oracleContract.getPriceWithTimestamp(asset).catch(() => null),
+      this.oracleContract.isPriceFresh(asset).catch(() => false)
+    ]);
+    
+    if (!priceWithTimestamp) {
+      return { price: null, updatedAt: null, fresh: false };
+    }
+    const [price, timestamp] = priceWithTimestamp;
+    return { price: Number(price) / 1e8, updatedAt: Number(timestamp), fresh };
+  }
+  
+  /**
+   * Prices updateAllPrices would write, as 8-decimal USD values. CORE and
+   * BTC are the median of the configured price sources, left out when they
+   * miss the source quorum; coreBTC and lstBTC are derived from BTC through
+   * the coreBTC peg and the lstBTC exchange rate.
+   */
+  async fetchPriceUpdates(): Promise<{
+    assets: string[];
+    prices: bigint[];
+    aggregation: AggregationResult;
+    derived: Record<string, DerivedPrice>;
+  }> {
+    // coreBTC is only quoted when its peg comes from the market
+    const quoted = this.derivedPrices.getOptions().coreBTCPegSource === 'market' ? ['CORE', 'BTC', 'coreBTC'] : ['CORE', 'BTC'];
+    const aggregation = await this.aggregator.aggregate(quoted);
+    this.lastAggregation = aggregation;
+    
+    for (const { source, error } of aggregation.sourceErrors) {
+      console.warn(`⚠️ Price source ${source} failed: ${error}`);
+    }
+    for (const { asset, reason } of aggregation.failures) {
+      console.warn(`⚠️ No ${asset} price this round: ${reason}`);
+    }
+    
+    let derived: Record<string, DerivedPrice> = {};
+    if (aggregation.prices.BTC) {
+      const result = await this.derivedPrices.derive(aggregation.prices.BTC.price, aggregation.prices.coreBTC?.price);
+      derived = result.prices;
+      for (const { asset, error } of result.errors) {
+        console.warn(`⚠️ No ${asset} price this round: ${error}`);
+      }
+    }
+    this.lastDerived = derived;
+    this.priceHistory?.recordAggregation(DEFAULT_NETWORK.chain.id, aggregation, derived);
+    
+    const assets: string[] = [];
+    const prices: bigint[] = [];
+    for (const asset of ORACLE_ASSETS) {
+      const price = derived[asset]?.price ?? (asset === 'CORE' || asset === 'BTC' ? aggregation.prices[asset]?.price : undefined);
+      if (price === undefined) continue;
+      
+      assets.push(asset);
+      prices.push(BigInt(Math.round(price * 1e8)));
+    }
+    
+    if (assets.length === 0) {
+      throw new Error('No asset reached the price source quorum');
+    }
+    return { assets, prices, aggregation, derived };
+  }
+  
   /**
    * Update a single asset price
    */
   async updateSinglePrice(asset: string): Promise<void> {
     try {
-      if (asset === 'CORE') {
-        const priceData = await this.coreAPI.getCorePrice();
-        const coreUsdPrice = Math.round(parseFloat(priceData.coreusd) * 1e8);
-        
-        const tx = await this.oracleContract.updatePrice('CORE', BigInt(coreUsdPrice));
-        await tx.wait();
-        
-        console.log(`✅ Updated ${asset} price: $${(coreUsdPrice / 1e8).toFixed(4)}`);
-      } else {
+      if (!ORACLE_ASSETS.includes(asset)) {
         throw new Error(`Unsupported asset: ${asset}`);
       }
+      
+      const { assets, prices } = await this.fetchPriceUpdates();
+      const index = assets.indexOf(asset);
+      if (index === -1) {
+        throw new Error(`No ${asset} price available this round`);
+      }
+      
+      await this.sendUpdate('updatePrice', [asset, prices[index]]);
+      
+      console.log(`✅ Updated ${asset} price: $${(Number(prices[index]) / 1e8).toFixed(4)}`);
     } catch (error) {
       console.error(`❌ Error updating ${asset} price:`, error);
       throw error;
     }
   }
   
+  /**
+   * Simulate and send an oracle write through the signer's transaction
+   * manager, which queues it behind the signer's other transactions and
+   * bumps its fees while it is stuck
+   */
+  private async sendUpdate(functionName: 'updatePrice' | 'updatePrices', args: any[]) {
+    const { request } = await this.transactions.publicClient.simulateContract({
+      account: this.transactions.walletClient.account,
+      address: this.config.contractAddress,
+      abi: oracleWriteAbi,
+      functionName,
+      args
+    });
+    
+    const result = await this.transactions.send(request);
+    if (result.receipt.status !== 'success') {
+      throw new Error(`${functionName} reverted in ${result.hash}`);
+    }
+    return result;
+  }
+  
   /**
    * Check if oracle prices are fresh
    */
   async checkPriceFreshness(): Promise<Record<string, boolean>> {
-    const assets = ['CORE', 'BTC', 'lstBTC', 'coreBTC'];
     const freshness: Record<string, boolean> = {};
     
-    for (const asset of assets) {
+    for (const asset of ORACLE_ASSETS) {
       try {
         freshness[asset] = await this.oracleContract.isPriceFresh(asset);
       } catch (error) {
@@ -184,10 +334,9 @@ export class OracleUpdater {
    * Get current oracle prices
    */
   async getCurrentPrices(): Promise<Record<string, number>> {
-    const assets = ['CORE', 'BTC', 'lstBTC', 'coreBTC'];
     const prices: Record<string, number> = {};
     
-    for (const asset of assets) {
+    for (const asset of ORACLE_ASSETS) {
       try {
         const price = await this.oracleContract.getPrice(asset);
         prices[asset] = Number(price) / 1e8; // Convert from 8 decimals to USD
@@ -219,9 +368,18 @@ export class OracleUpdater {
   getStatus() {
     return {
       isRunning: this.updateTimer !== undefined,
+      updateInProgress: this.updateInProgress,
       contractAddress: this.config.contractAddress,
       updateInterval: this.config.updateInterval,
-      lastUpdate: new Date().toISOString()
+      lastUpdate: new Date().toISOString(),
+      priceSources: this.aggregator.getSourceNames(),
+      aggregation: this.aggregator.getOptions(),
+      lastAggregation: this.lastAggregation,
+      derivedPricing: this.derivedPrices.getOptions(),
+      lastDerived: this.lastDerived,
+      pushPolicy: this.pushPolicy.getAll(ORACLE_ASSETS),
+      lastDecisions: this.lastDecisions,
+      transactions: this.transactions.getStatus()
     };
   }
 }
\ No newline at end of file
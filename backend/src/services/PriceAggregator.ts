@@ -0,0 +1,120 @@
+import type { PriceQuotes, PriceSource } from './PriceSources'
+
+export interface AggregationOptions {
+  minSources: number // agreeing quotes needed before an asset's price is used
+  maxDeviation: number // fraction a quote may sit from the median before it is dropped, e.g. 0.05
+}
+
+export interface SourceQuote {
+  source: string
+  price: number
+  deviation: number // from the median of all quotes for the asset
+}
+
+export interface AggregatedPrice {
+  asset: string
+  price: number // median of the accepted quotes
+  accepted: SourceQuote[]
+  rejected: SourceQuote[]
+}
+
+export interface AggregationResult {
+  timestamp: string
+  prices: Record<string, AggregatedPrice>
+  failures: Array<{ asset: string; reason: string }> // assets without a usable price
+  sourceErrors: Array<{ source: string; error: string }>
+}
+
+const DEFAULT_OPTIONS: AggregationOptions = {
+  minSources: parseInt(process.env.PRICE_MIN_SOURCES || '2'),
+  maxDeviation: parseFloat(process.env.PRICE_MAX_DEVIATION || '0.05')
+}
+
+export function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2
+}
+
+/**
+ * Combine each source's quotes into one price per asset. Quotes further than
+ * maxDeviation from the median of all quotes are dropped, and the price is the
+ * median of the rest; an asset with fewer than minSources of those gets no
+ * price at all, so a single bad or lone source can't move the oracle.
+ */
+export function aggregatePrices(
+  assets: string[],
+  quotesBySource: Record<string, PriceQuotes>,
+  options: AggregationOptions
+): Pick<AggregationResult, 'prices' | 'failures'> {
+  const prices: Record<string, AggregatedPrice> = {}
+  const failures: AggregationResult['failures'] = []
+
+  for (const asset of assets) {
+    const quotes = Object.entries(quotesBySource)
+      .map(([source, sourceQuotes]) => ({ source, price: sourceQuotes[asset] }))
+      .filter(quote => Number.isFinite(quote.price) && quote.price > 0)
+
+    if (quotes.length === 0) {
+      failures.push({ asset, reason: 'No source quoted a price' })
+      continue
+    }
+
+    const reference = median(quotes.map(quote => quote.price))
+    const scored = quotes.map(quote => ({ ...quote, deviation: Math.abs(quote.price - reference) / reference }))
+    const accepted = scored.filter(quote => quote.deviation <= options.maxDeviation)
+    const rejected = scored.filter(quote => quote.deviation > options.maxDeviation)
+
+    if (accepted.length < options.minSources) {
+      failures.push({
+        asset,
+        reason: `${accepted.length} of ${quotes.length} quote(s) within ${(options.maxDeviation * 100).toFixed(1)}% of the median; ${options.minSources} required`
+      })
+      continue
+    }
+
+    prices[asset] = { asset, price: median(accepted.map(quote => quote.price)), accepted, rejected }
+  }
+
+  return { prices, failures }
+}
+
+/**
+ * Queries every price source in parallel and aggregates whatever came back;
+ * a source that fails is recorded and simply contributes no quotes.
+ */
+export class PriceAggregator {
+  private options: AggregationOptions
+
+  constructor(private sources: PriceSource[], options: Partial<AggregationOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options }
+    if (this.options.minSources < 1) {
+      throw new Error('PRICE_MIN_SOURCES must be at least 1')
+    }
+  }
+
+  getSourceNames(): string[] {
+    return this.sources.map(source => source.name)
+  }
+
+  getOptions(): AggregationOptions {
+    return this.options
+  }
+
+  async aggregate(assets: string[], now: number = Date.now()): Promise<AggregationResult> {
+    const results = await Promise.allSettled(this.sources.map(source => source.getPrices(assets)))
+
+    const quotesBySource: Record<string, PriceQuotes> = {}
+    const sourceErrors: AggregationResult['sourceErrors'] = []
+    results.forEach((result, i) => {
+      const name = this.sources[i].name
+      if (result.status === 'fulfilled') {
+        quotesBySource[name] = result.value
+      } else {
+        sourceErrors.push({ source: name, error: result.reason?.message ?? String(result.reason) })
+      }
+    })
+
+    return { timestamp: new Date(now).toISOString(), ...aggregatePrices(assets, quotesBySource, this.options), sourceErrors }
+  }
+}
@@ -0,0 +1,199 @@
+import { PriceHistoryStore, PriceObservation } from '../storage/PriceHistoryStore'
+import { median } from './PriceAggregator'
+import type { AggregationResult } from './PriceAggregator'
+import type { DerivedPrice } from './DerivedPrices'
+import type { PriceData } from './ContractMonitor'
+import type { PricePoint } from './FeeManager'
+
+const MINUTE = 60 * 1000
+const DAY = 24 * 60 * MINUTE
+
+export const CANDLE_INTERVALS: Record<string, number> = {
+  '1m': MINUTE,
+  '5m': 5 * MINUTE,
+  '15m': 15 * MINUTE,
+  '1h': 60 * MINUTE,
+  '4h': 4 * 60 * MINUTE,
+  '1d': DAY
+}
+
+// The price the oracle updater settled on: the median of the accepted quotes, or the derived price
+export const ORACLE_SOURCE = 'oracle'
+
+// The protocol's PriceFeed contract, as read by ContractMonitor and the price-feed price source
+export const PRICE_FEED_SOURCE = 'price-feed'
+
+// How far the quoting sources were apart at the end of a candle
+export interface SourceSpread {
+  prices: Record<string, number> // each source's last price in the candle
+  min: number
+  max: number
+  spreadBps: number // (max - min) relative to the median of the sources
+}
+
+export interface PriceCandle {
+  time: string // start of the interval
+  source: string // series the candle was built from
+  open: number
+  high: number
+  low: number
+  close: number
+  samples: number
+  spread: SourceSpread | null // null unless at least two sources quoted the asset in the interval
+}
+
+export interface PriceCandles {
+  chainId: number
+  asset: string
+  interval: string
+  source: string | null // the requested series, else that of the latest candle; null when there is no history
+  from: string
+  to: string
+  candles: PriceCandle[]
+}
+
+export interface PriceHistoryOptions {
+  retentionDays: number
+}
+
+const DEFAULT_OPTIONS: PriceHistoryOptions = {
+  retentionDays: parseInt(process.env.PRICE_HISTORY_RETENTION_DAYS || '90')
+}
+
+/**
+ * OHLC candles, one per interval, of the first of `sources` that quoted in
+ * it. The spread compares every other source except the oracle's own
+ * consolidated price, which is derived from them.
+ */
+export function buildCandles(observations: PriceObservation[], intervalMs: number, sources: string | string[]): PriceCandle[] {
+  const preference = typeof sources === 'string' ? [sources] : sources
+
+  const buckets = new Map<number, PriceObservation[]>()
+  for (const observation of observations) {
+    const start = Math.floor(new Date(observation.timestamp).getTime() / intervalMs) * intervalMs
+    if (!buckets.has(start)) buckets.set(start, [])
+    buckets.get(start)!.push(observation)
+  }
+
+  const candles: PriceCandle[] = []
+  for (const [start, bucket] of [...buckets.entries()].sort(([a], [b]) => a - b)) {
+    const source = preference.find(name => bucket.some(observation => observation.source === name))
+    if (!source) continue
+    const series = bucket.filter(observation => observation.source === source).map(observation => observation.price)
+
+    const latest: Record<string, number> = {}
+    for (const observation of bucket) {
+      if (observation.source !== ORACLE_SOURCE) latest[observation.source] = observation.price
+    }
+    const quotes = Object.values(latest)
+
+    candles.push({
+      time: new Date(start).toISOString(),
+      source,
+      open: series[0],
+      high: Math.max(...series),
+      low: Math.min(...series),
+      close: series[series.length - 1],
+      samples: series.length,
+      spread: quotes.length < 2 ? null : {
+        prices: latest,
+        min: Math.min(...quotes),
+        max: Math.max(...quotes),
+        spreadBps: (Math.max(...quotes) - Math.min(...quotes)) / median(quotes) * 10000
+      }
+    })
+  }
+  return candles
+}
+
+/**
+ * Every price the backend observes, from the PriceFeed checks and each oracle
+ * updater round, kept per asset and source and served as candles.
+ */
+export class PriceHistory {
+  private options: PriceHistoryOptions
+
+  constructor(private store: PriceHistoryStore = new PriceHistoryStore(), options: Partial<PriceHistoryOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options }
+  }
+
+  record(observations: PriceObservation[]): void {
+    if (observations.length === 0) return
+    this.store.insertMany(observations)
+
+    const newest = Math.max(...observations.map(observation => new Date(observation.timestamp).getTime()))
+    this.store.deleteBefore(newest - this.options.retentionDays * DAY)
+  }
+
+  // ContractMonitor reports PriceFeed prices in cents
+  recordPriceFeed(priceData: PriceData, now: number = Date.now()): void {
+    const prices: Record<string, string> = { CORE: priceData.corePrice, BTC: priceData.btcPrice, lstBTC: priceData.lstBTCPrice }
+    this.record(Object.entries(prices)
+      .map(([asset, cents]) => ({ asset, price: parseFloat(cents) / 100 }))
+      .filter(({ price }) => price > 0)
+      .map(({ asset, price }) => ({ chainId: priceData.chainId, asset, source: PRICE_FEED_SOURCE, timestamp: new Date(now).toISOString(), price })))
+  }
+
+  // Every quote of an oracle updater round, rejected ones included, plus the prices it settled on
+  recordAggregation(chainId: number, aggregation: AggregationResult, derived: Record<string, DerivedPrice>): void {
+    const timestamp = aggregation.timestamp
+    const observations: PriceObservation[] = []
+
+    for (const { asset, accepted, rejected } of Object.values(aggregation.prices)) {
+      for (const quote of [...accepted, ...rejected]) {
+        observations.push({ chainId, asset, source: quote.source, timestamp, price: quote.price })
+      }
+    }
+
+    const settled: Record<string, number> = {}
+    for (const { asset, price } of Object.values(aggregation.prices)) settled[asset] = price
+    for (const { asset, price } of Object.values(derived)) settled[asset] = price
+    for (const [asset, price] of Object.entries(settled)) {
+      observations.push({ chainId, asset, source: ORACLE_SOURCE, timestamp, price })
+    }
+
+    this.record(observations)
+  }
+
+  /**
+   * The last `limit` candles of an asset, up to now. Without a source each
+   * candle is built from the oracle's consolidated price, or the PriceFeed
+   * readings for intervals the oracle updater didn't run in.
+   */
+  getCandles(chainId: number, asset: string, interval: string, limit: number, source?: string, now: number = Date.now()): PriceCandles {
+    const intervalMs = CANDLE_INTERVALS[interval]
+    if (!intervalMs) {
+      throw new Error(`Unknown interval: ${interval}. Use ${Object.keys(CANDLE_INTERVALS).join(', ')}`)
+    }
+
+    const from = (Math.floor(now / intervalMs) - limit + 1) * intervalMs
+    const observations = this.store.getObservations(chainId, asset, from, now + 1)
+    const preference = source ? [source] : [...new Set([ORACLE_SOURCE, PRICE_FEED_SOURCE, ...observations.map(observation => observation.source)])]
+    const candles = buildCandles(observations, intervalMs, preference)
+
+    return {
+      chainId,
+      asset,
+      interval,
+      source: source ?? candles[candles.length - 1]?.source ?? null,
+      from: new Date(from).toISOString(),
+      to: new Date(now).toISOString(),
+      candles
+    }
+  }
+
+  // CORE and BTC closes of the intervals both have a candle for, oldest first, for volatility
+  getPricePoints(chainId: number, from: number, interval: string = '5m', now: number = Date.now()): PricePoint[] {
+    const intervalMs = CANDLE_INTERVALS[interval]
+    const limit = Math.floor(now / intervalMs) - Math.floor(from / intervalMs) + 1
+    const btc = new Map(this.getCandles(chainId, 'BTC', interval, limit, undefined, now).candles.map(candle => [candle.time, candle.close]))
+
+    return this.getCandles(chainId, 'CORE', interval, limit, undefined, now).candles
+      .filter(candle => btc.has(candle.time))
+      .map(candle => ({ timestamp: candle.time, core: candle.close, btc: btc.get(candle.time)! }))
+  }
+
+  getAssets(chainId: number): string[] {
+    return this.store.getAssets(chainId)
+  }
+}
@@ -0,0 +1,166 @@
+import { readFile } from 'fs/promises'
+import { formatEther, parseAbi } from 'viem'
+import { MonitoredNetwork } from '../config/networks'
+import type { CoreAPIService } from './CoreAPIService'
+import { publicClientFor } from './ValidatorDataSource'
+
+// USD prices keyed by asset symbol; a source leaves out assets it doesn't quote
+export type PriceQuotes = Record<string, number>
+
+export interface PriceSource {
+  readonly name: string
+  getPrices(assets: string[]): Promise<PriceQuotes>
+}
+
+const REQUEST_TIMEOUT_MS = 10000
+
+/**
+ * CORE/USD from the Core API, and BTC/USD derived from its CORE/BTC rate.
+ */
+export class CoreAPIPriceSource implements PriceSource {
+  readonly name = 'core-api'
+
+  constructor(private coreAPI: Pick<CoreAPIService, 'getCorePrice'>) {}
+
+  async getPrices(assets: string[]): Promise<PriceQuotes> {
+    const priceData = await this.coreAPI.getCorePrice()
+    const coreUsd = parseFloat(priceData.coreusd)
+    const coreBtc = parseFloat(priceData.corebtc)
+
+    const quotes: PriceQuotes = {}
+    if (assets.includes('CORE')) quotes.CORE = coreUsd
+    if (assets.includes('BTC') && coreBtc > 0) quotes.BTC = coreUsd / coreBtc
+    return quotes
+  }
+}
+
+export const DEFAULT_COINGECKO_IDS: Record<string, string> = {
+  CORE: 'coredaoorg',
+  BTC: 'bitcoin'
+}
+
+/**
+ * Any API answering CoinGecko's /simple/price shape:
+ * GET {baseUrl}/simple/price?ids=bitcoin,coredaoorg&vs_currencies=usd -> {"bitcoin": {"usd": 97000}, ...}
+ */
+export class CoinGeckoPriceSource implements PriceSource {
+  readonly name = 'coingecko'
+
+  constructor(
+    private baseUrl: string = 'https://api.coingecko.com/api/v3',
+    private ids: Record<string, string> = DEFAULT_COINGECKO_IDS,
+    private apiKey?: string,
+    private fetchFn: typeof fetch = fetch
+  ) {}
+
+  async getPrices(assets: string[]): Promise<PriceQuotes> {
+    const wanted = assets.filter(asset => this.ids[asset])
+    if (wanted.length === 0) return {}
+
+    const url = `${this.baseUrl}/simple/price?ids=${wanted.map(asset => this.ids[asset]).join(',')}&vs_currencies=usd`
+    const response = await this.fetchFn(url, {
+      headers: this.apiKey ? { 'x-cg-demo-api-key': this.apiKey } : {},
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+    })
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status} from ${new URL(url).host}`)
+    }
+
+    const body = await response.json() as Record<string, { usd?: number }>
+    const quotes: PriceQuotes = {}
+    for (const asset of wanted) {
+      const price = body[this.ids[asset]]?.usd
+      if (typeof price === 'number') quotes[asset] = price
+    }
+    return quotes
+  }
+}
+
+/**
+ * Prices from a JSON file, either {"CORE": 1.2, ...} or {"prices": {...}}.
+ * Read on every call so it can be edited while the backend runs.
+ */
+export class FixturePriceSource implements PriceSource {
+  readonly name = 'fixture'
+
+  constructor(private path: string) {}
+
+  async getPrices(assets: string[]): Promise<PriceQuotes> {
+    const parsed = JSON.parse(await readFile(this.path, 'utf8'))
+    const prices = parsed.prices ?? parsed
+    if (typeof prices !== 'object' || prices === null) {
+      throw new Error(`Price fixture ${this.path} has no prices object`)
+    }
+
+    const quotes: PriceQuotes = {}
+    for (const asset of assets) {
+      if (typeof prices[asset] === 'number') quotes[asset] = prices[asset]
+    }
+    return quotes
+  }
+}
+
+const priceFeedAbi = parseAbi(['function getPrice(string memory asset) view returns (uint256)'])
+
+/**
+ * The protocol's own on-chain PriceFeed (18 decimal USD prices). Counting it
+ * as a source anchors the median to what the contracts already use.
+ */
+export class PriceFeedSource implements PriceSource {
+  readonly name = 'price-feed'
+
+  constructor(private network: MonitoredNetwork, private client: any = publicClientFor(network)) {}
+
+  async getPrices(assets: string[]): Promise<PriceQuotes> {
+    const address = this.network.contracts.PriceFeed
+    if (!address || /^0x0{40}$/.test(address)) {
+      throw new Error(`PriceFeed is not deployed on ${this.network.chain.name}`)
+    }
+
+    const quotes: PriceQuotes = {}
+    for (const asset of assets) {
+      try {
+        const price = await this.client.readContract({ address, abi: priceFeedAbi, functionName: 'getPrice', args: [asset] }) as bigint
+        if (price > 0n) quotes[asset] = Number(formatEther(price))
+      } catch {
+        // The feed reverts for assets it has no (fresh) price for; leave them out
+      }
+    }
+    return quotes
+  }
+}
+
+/**
+ * Price sources from PRICE_SOURCES (comma-separated core-api, coingecko,
+ * fixture, price-feed). Without it: core-api, coingecko and price-feed,
+ * plus the fixture when PRICE_FIXTURE_PATH is set.
+ */
+export function createPriceSources(network: MonitoredNetwork, coreAPI: Pick<CoreAPIService, 'getCorePrice'>): PriceSource[] {
+  const fixturePath = process.env.PRICE_FIXTURE_PATH
+  const names = (process.env.PRICE_SOURCES || ['core-api', 'coingecko', 'price-feed', ...(fixturePath ? ['fixture'] : [])].join(','))
+    .split(',')
+    .map(name => name.trim())
+    .filter(Boolean)
+
+  return names.map(name => {
+    switch (name) {
+      case 'core-api':
+        return new CoreAPIPriceSource(coreAPI)
+      case 'coingecko':
+        return new CoinGeckoPriceSource(
+          process.env.COINGECKO_API_URL || undefined,
+          process.env.COINGECKO_IDS ? JSON.parse(process.env.COINGECKO_IDS) : undefined,
+          process.env.COINGECKO_API_KEY || undefined
+        )
+      case 'fixture':
+        if (!fixturePath) {
+          throw new Error('PRICE_FIXTURE_PATH must be set to use the fixture price source')
+        }
+        return new FixturePriceSource(fixturePath)
+      case 'price-feed':
+        return new PriceFeedSource(network)
+      default:
+        throw new Error(`Unknown price source: ${name}. Use core-api, coingecko, fixture or price-feed`)
+    }
+  })
+}
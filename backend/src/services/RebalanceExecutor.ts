@@ -0,0 +1,167 @@
+import { createPublicClient, encodeFunctionData, http, parseAbi } from 'viem'
+import { DEFAULT_NETWORK, MonitoredNetwork } from '../config/networks'
+import { TransactionManager, transactionManagerFor } from './TransactionManager'
+import type { RebalanceRecommendation } from './ValidatorMonitor'
+
+export const coreLiquidStakingManagerAbi = parseAbi([
+  'function manualRebalance(address fromValidator, address toValidator, uint256 amount)'
+])
+
+// One manualRebalance call: move `amount` wei of delegation between two validators
+export interface RebalanceMove {
+  from: string
+  to: string
+  amount: string
+}
+
+export interface RebalanceCall extends RebalanceMove {
+  target: string // CoreLiquidStakingManager address
+  calldata: string
+  status: 'planned' | 'confirmed' | 'reverted' | 'failed' | 'skipped'
+  txHash?: string
+  blockNumber?: number
+  gasUsed?: string
+  error?: string
+}
+
+export interface RebalanceExecution {
+  dryRun: boolean
+  signer: string | null
+  calls: RebalanceCall[]
+  success: boolean // every call confirmed (or planned, for a dry run)
+}
+
+export interface RebalanceExecutorOptions {
+  privateKey?: string
+  dryRun: boolean // only build the calldata plan, never send
+  receiptTimeoutMs: number
+  publicClient?: any
+  walletClient?: any
+}
+
+const DEFAULT_OPTIONS: RebalanceExecutorOptions = {
+  privateKey: process.env.REBALANCER_PRIVATE_KEY || process.env.AUTOMATION_PRIVATE_KEY,
+  dryRun: process.env.REBALANCER_DRY_RUN !== 'false', // only REBALANCER_DRY_RUN=false sends
+  receiptTimeoutMs: parseInt(process.env.REBALANCER_RECEIPT_TIMEOUT_MS || '120000')
+}
+
+/**
+ * Pair the validators a recommendation drains with the ones it fills, in
+ * order, so that each pair becomes one manualRebalance(from, to, amount).
+ */
+export function planRebalanceMoves(recommendation: RebalanceRecommendation): RebalanceMove[] {
+  const sources = recommendation.fromValidators.map(v => ({ address: v.address, remaining: BigInt(v.amount) }))
+  const targets = recommendation.toValidators.map(v => ({ address: v.address, remaining: BigInt(v.amount) }))
+  const moves: RebalanceMove[] = []
+
+  let i = 0
+  let j = 0
+  while (i < sources.length && j < targets.length) {
+    const amount = sources[i].remaining < targets[j].remaining ? sources[i].remaining : targets[j].remaining
+    if (amount > 0n && sources[i].address.toLowerCase() !== targets[j].address.toLowerCase()) {
+      moves.push({ from: sources[i].address, to: targets[j].address, amount: amount.toString() })
+    }
+
+    sources[i].remaining -= amount
+    targets[j].remaining -= amount
+    if (sources[i].remaining === 0n) i++
+    if (targets[j].remaining === 0n) j++
+  }
+
+  return moves
+}
+
+/**
+ * Sends rebalancing moves to CoreLiquidStakingManager.manualRebalance from the
+ * configured operator key, one at a time: each call is simulated, sent and
+ * awaited before the next, and the run stops at the first failure.
+ */
+export class RebalanceExecutor {
+  private options: RebalanceExecutorOptions
+  private publicClient: any
+  private walletClient: any = null
+  private transactions: TransactionManager | null = null
+  private target: string
+
+  constructor(private network: MonitoredNetwork = DEFAULT_NETWORK, options: Partial<RebalanceExecutorOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options }
+    this.target = network.contracts.CoreLiquidStakingManager
+
+    this.publicClient = this.options.publicClient || createPublicClient({
+      chain: network.chain,
+      transport: http()
+    })
+
+    if (this.options.walletClient) {
+      this.walletClient = this.options.walletClient
+      this.transactions = new TransactionManager(this.publicClient, this.walletClient)
+    } else if (this.options.privateKey) {
+      this.transactions = transactionManagerFor(network.chain, this.options.privateKey)
+      this.walletClient = this.transactions.walletClient
+    }
+  }
+
+  getSigner(): string | null {
+    return this.walletClient?.account?.address ?? null
+  }
+
+  isDryRun(): boolean {
+    return this.options.dryRun
+  }
+
+  /**
+   * Build the calldata for each move and, unless this is a dry run, execute
+   * them. A run without a configured signer is always a dry run.
+   */
+  async execute(moves: RebalanceMove[], dryRun: boolean = this.options.dryRun): Promise<RebalanceExecution> {
+    if (!this.target || /^0x0{40}$/.test(this.target)) {
+      throw new Error(`CoreLiquidStakingManager is not deployed on ${this.network.chain.name}`)
+    }
+
+    const calls: RebalanceCall[] = moves.map(move => ({
+      ...move,
+      target: this.target,
+      calldata: encodeFunctionData({
+        abi: coreLiquidStakingManagerAbi,
+        functionName: 'manualRebalance',
+        args: [move.from as `0x${string}`, move.to as `0x${string}`, BigInt(move.amount)]
+      }),
+      status: 'planned'
+    }))
+
+    const signer = this.getSigner()
+    if (dryRun || !this.walletClient) {
+      return { dryRun: true, signer, calls, success: true }
+    }
+
+    for (const [index, call] of calls.entries()) {
+      try {
+        // Simulating first surfaces a revert reason without spending gas
+        const { request } = await this.publicClient.simulateContract({
+          account: this.walletClient.account,
+          address: call.target,
+          abi: coreLiquidStakingManagerAbi,
+          functionName: 'manualRebalance',
+          args: [call.from, call.to, BigInt(call.amount)]
+        })
+
+        const { hash, receipt } = await this.transactions!.send(request, { receiptTimeoutMs: this.options.receiptTimeoutMs })
+        call.txHash = hash
+
+        call.blockNumber = Number(receipt.blockNumber)
+        call.gasUsed = receipt.gasUsed.toString()
+        call.status = receipt.status === 'success' ? 'confirmed' : 'reverted'
+      } catch (error) {
+        call.status = 'failed'
+        call.error = error.shortMessage || error.message
+      }
+
+      if (call.status !== 'confirmed') {
+        for (const skipped of calls.slice(index + 1)) skipped.status = 'skipped'
+        return { dryRun: false, signer, calls, success: false }
+      }
+    }
+
+    return { dryRun: false, signer, calls, success: true }
+  }
+}
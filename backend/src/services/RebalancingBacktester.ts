@@ -0,0 +1,200 @@
+import { formatEther } from 'viem'
+import {
+  AllocationParams,
+  AllocationStrategyId,
+  allocateAmount,
+  recommendRebalance,
+  targetAllocation
+} from './AllocationStrategies'
+import { RebalanceMove, planRebalanceMoves } from './RebalanceExecutor'
+import type { ValidatorInfo } from './ValidatorMonitor'
+
+const YEAR = 365 * 24 * 60 * 60 * 1000
+const RATE_SCALE = 1_000_000_000_000n // accrual factors are applied in fixed point
+
+// One point in time of the validator set, as collected by ValidatorMonitor
+export interface BacktestSnapshot {
+  timestamp: string
+  validators: ValidatorInfo[]
+}
+
+export interface BacktestOptions {
+  strategy: string
+  params: AllocationParams
+  minImprovement: number // percent APY a rebalance has to gain, as in the rebalancer thresholds
+  initialStake: bigint // wei
+  gasPerMove: number // gas units per manualRebalance call
+  gasPriceGwei: number
+}
+
+export const DEFAULT_BACKTEST_GAS = {
+  gasPerMove: 250_000,
+  gasPriceGwei: 30
+}
+
+export interface BacktestEvent {
+  timestamp: string
+  reason: string
+  estimatedImprovementAPY: number
+  moves: RebalanceMove[]
+  gasCost: string // wei
+}
+
+export interface BacktestReport {
+  strategy: AllocationStrategyId
+  params: AllocationParams
+  period: {
+    from: string
+    to: string
+    days: number
+    snapshots: number
+  }
+  rebalances: number
+  moves: number
+  gas: {
+    units: number
+    priceGwei: number
+    cost: string // wei
+    costCORE: string
+  }
+  initialStake: string // wei
+  finalValue: string // wei, before gas
+  counterfactualValue: string // wei, initial allocation held without rebalancing
+  realisedAPY: number
+  counterfactualAPY: number
+  netAPY: number // realised APY after paying for gas out of the stake
+  maxConcentration: number // largest single-validator share seen at any snapshot
+  counterfactualMaxConcentration: number
+  events: BacktestEvent[]
+}
+
+/**
+ * Turn stored or imported records into snapshots, oldest first. Accepts
+ * ValidatorMetrics objects as well as MetricsCollector history entries,
+ * whose payload sits under `data`.
+ */
+export function toBacktestSnapshots(records: any[]): BacktestSnapshot[] {
+  return records
+    .map(record => ({
+      timestamp: record.timestamp,
+      validators: record.validators ?? record.data?.validators
+    }))
+    .filter((snapshot): snapshot is BacktestSnapshot => Array.isArray(snapshot.validators) && !!snapshot.timestamp)
+    .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())
+}
+
+// Grow every position by its validator's effective APY over `elapsed` ms
+function accrue(portfolio: Record<string, bigint>, validators: ValidatorInfo[], elapsed: number): void {
+  const apyOf = new Map(validators.map(v => [v.address, v.isActive ? v.effectiveAPY : 0]))
+  for (const [address, amount] of Object.entries(portfolio)) {
+    const rate = (apyOf.get(address) || 0) / 100 * elapsed / YEAR
+    portfolio[address] = amount + amount * BigInt(Math.round(rate * Number(RATE_SCALE))) / RATE_SCALE
+  }
+}
+
+function totalOf(portfolio: Record<string, bigint>): bigint {
+  return Object.values(portfolio).reduce((sum, amount) => sum + amount, 0n)
+}
+
+function concentration(portfolio: Record<string, bigint>): number {
+  const total = totalOf(portfolio)
+  if (total === 0n) return 0
+  const largest = Object.values(portfolio).reduce((max, amount) => amount > max ? amount : max, 0n)
+  return Number(largest * 1_000_000n / total) / 1_000_000
+}
+
+// Simple (non-compounded) annualisation of the growth from `start` to `end`
+function annualise(start: bigint, end: bigint, elapsed: number): number {
+  if (start === 0n || elapsed <= 0) return 0
+  const growth = Number((end - start) * 1_000_000_000n / start) / 1_000_000_000
+  return growth * YEAR / elapsed * 100
+}
+
+/**
+ * Replay validator snapshots through the rebalancing recommendation logic.
+ * The stake starts in the strategy's target allocation for the first
+ * snapshot and earns each validator's effective APY until the next one;
+ * at every later snapshot the recommendation is applied when the rebalancer
+ * would act on it. The counterfactual keeps the starting allocation.
+ */
+export function runBacktest(snapshots: BacktestSnapshot[], options: BacktestOptions): BacktestReport {
+  if (snapshots.length < 2) {
+    throw new Error('A backtest needs at least two validator snapshots')
+  }
+
+  const [first] = snapshots
+  const last = snapshots[snapshots.length - 1]
+  const initial = targetAllocation(options.strategy, first.validators, options.params)
+  if (initial.validatorCount === 0) {
+    throw new Error(`No validators are eligible under the ${initial.name} strategy limits in the first snapshot`)
+  }
+
+  const portfolio = allocateAmount(options.initialStake, initial.weights)
+  const counterfactual = { ...portfolio }
+  const gasCostPerMove = BigInt(options.gasPerMove) * BigInt(Math.round(options.gasPriceGwei * 1e9))
+  const events: BacktestEvent[] = []
+  let maxConcentration = concentration(portfolio)
+  let counterfactualMaxConcentration = maxConcentration
+
+  for (let i = 1; i < snapshots.length; i++) {
+    const previous = snapshots[i - 1]
+    const snapshot = snapshots[i]
+    const elapsed = new Date(snapshot.timestamp).getTime() - new Date(previous.timestamp).getTime()
+    accrue(portfolio, previous.validators, elapsed)
+    accrue(counterfactual, previous.validators, elapsed)
+
+    const recommendation = recommendRebalance(snapshot.validators, portfolio, options.strategy, options.params)
+    if (recommendation.shouldRebalance && recommendation.estimatedImprovementAPY >= options.minImprovement) {
+      const moves = planRebalanceMoves(recommendation)
+      for (const move of moves) {
+        portfolio[move.from] = (portfolio[move.from] || 0n) - BigInt(move.amount)
+        portfolio[move.to] = (portfolio[move.to] || 0n) + BigInt(move.amount)
+      }
+
+      events.push({
+        timestamp: snapshot.timestamp,
+        reason: recommendation.reason,
+        estimatedImprovementAPY: recommendation.estimatedImprovementAPY,
+        moves,
+        gasCost: (gasCostPerMove * BigInt(moves.length)).toString()
+      })
+    }
+
+    maxConcentration = Math.max(maxConcentration, concentration(portfolio))
+    counterfactualMaxConcentration = Math.max(counterfactualMaxConcentration, concentration(counterfactual))
+  }
+
+  const elapsed = new Date(last.timestamp).getTime() - new Date(first.timestamp).getTime()
+  const moves = events.reduce((sum, event) => sum + event.moves.length, 0)
+  const gasCost = gasCostPerMove * BigInt(moves)
+  const finalValue = totalOf(portfolio)
+  const counterfactualValue = totalOf(counterfactual)
+
+  return {
+    strategy: initial.strategy,
+    params: options.params,
+    period: {
+      from: first.timestamp,
+      to: last.timestamp,
+      days: elapsed / (24 * 60 * 60 * 1000),
+      snapshots: snapshots.length
+    },
+    rebalances: events.length,
+    moves,
+    gas: {
+      units: options.gasPerMove * moves,
+      priceGwei: options.gasPriceGwei,
+      cost: gasCost.toString(),
+      costCORE: formatEther(gasCost)
+    },
+    initialStake: options.initialStake.toString(),
+    finalValue: finalValue.toString(),
+    counterfactualValue: counterfactualValue.toString(),
+    realisedAPY: annualise(options.initialStake, finalValue, elapsed),
+    counterfactualAPY: annualise(options.initialStake, counterfactualValue, elapsed),
+    netAPY: annualise(options.initialStake, finalValue - gasCost, elapsed),
+    maxConcentration,
+    counterfactualMaxConcentration,
+    events
+  }
+}
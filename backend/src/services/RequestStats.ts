@@ -0,0 +1,143 @@
+export interface RequestSample {
+  timestamp: number
+  duration: number // ms
+  status: number
+}
+
+export interface LatencySummary {
+  count: number
+  average: number
+  p50: number
+  p95: number
+  p99: number
+  max: number
+}
+
+export interface RouteStats {
+  route: string
+  latency: LatencySummary
+  throughput: number // requests per minute over the window
+  errorRate: number // share of 5xx responses
+  statusCodes: Record<string, number>
+}
+
+export interface RouteHistogram {
+  route: string
+  buckets: number[] // cumulative counts, aligned with LATENCY_BUCKETS
+  count: number
+  sum: number // ms
+  statusCodes: Record<string, number>
+}
+
+// Upper bounds (ms) of the latency histogram buckets; anything slower only counts towards +Inf
+export const LATENCY_BUCKETS = [5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000]
+
+export const WINDOWS: Record<string, number> = {
+  '1m': 60 * 1000,
+  '5m': 5 * 60 * 1000,
+  '15m': 15 * 60 * 1000,
+  '1h': 60 * 60 * 1000,
+  '24h': 24 * 60 * 60 * 1000
+}
+
+const MAX_WINDOW = WINDOWS['24h']
+const MAX_SAMPLES_PER_ROUTE = 50000
+
+/**
+ * In-memory per-route request statistics: raw samples for windowed
+ * percentiles plus cumulative latency histograms and status counts.
+ */
+export class RequestStats {
+  private samples: Map<string, RequestSample[]> = new Map()
+  private histograms: Map<string, RouteHistogram> = new Map()
+  private startedAt = Date.now()
+
+  record(route: string, duration: number, status: number, timestamp: number = Date.now()): void {
+    const routeSamples = this.samples.get(route) || []
+    routeSamples.push({ timestamp, duration, status })
+
+    // Drop samples that fell out of the largest window (samples arrive in time order)
+    const cutoff = timestamp - MAX_WINDOW
+    let expired = 0
+    while (expired < routeSamples.length && routeSamples[expired].timestamp < cutoff) expired++
+    expired = Math.max(expired, routeSamples.length - MAX_SAMPLES_PER_ROUTE)
+    if (expired > 0) routeSamples.splice(0, expired)
+
+    this.samples.set(route, routeSamples)
+
+    const histogram: RouteHistogram = this.histograms.get(route) || {
+      route,
+      buckets: new Array(LATENCY_BUCKETS.length).fill(0),
+      count: 0,
+      sum: 0,
+      statusCodes: {}
+    }
+    LATENCY_BUCKETS.forEach((bound, i) => {
+      if (duration <= bound) histogram.buckets[i]++
+    })
+    histogram.count++
+    histogram.sum += duration
+    histogram.statusCodes[status] = (histogram.statusCodes[status] || 0) + 1
+    this.histograms.set(route, histogram)
+  }
+
+  getRouteStats(windowMs: number, now: number = Date.now()): RouteStats[] {
+    return [...this.samples.keys()]
+      .map(route => this.summarize(route, this.getSamples(route, windowMs, now), windowMs, now))
+      .filter(stats => stats.latency.count > 0)
+  }
+
+  getOverallStats(windowMs: number, now: number = Date.now()): RouteStats {
+    const all = [...this.samples.keys()].flatMap(route => this.getSamples(route, windowMs, now))
+    return this.summarize('*', all, windowMs, now)
+  }
+
+  getHistograms(): RouteHistogram[] {
+    return [...this.histograms.values()]
+  }
+
+  reset(): void {
+    this.samples.clear()
+    this.histograms.clear()
+    this.startedAt = Date.now()
+  }
+
+  private getSamples(route: string, windowMs: number, now: number): RequestSample[] {
+    const from = now - windowMs
+    return (this.samples.get(route) || []).filter(s => s.timestamp >= from && s.timestamp <= now)
+  }
+
+  private summarize(route: string, samples: RequestSample[], windowMs: number, now: number): RouteStats {
+    const durations = samples.map(s => s.duration).sort((a, b) => a - b)
+    const statusCodes: Record<string, number> = {}
+    for (const sample of samples) {
+      statusCodes[sample.status] = (statusCodes[sample.status] || 0) + 1
+    }
+    const serverErrors = samples.filter(s => s.status >= 500).length
+
+    // Don't spread requests over time the process wasn't running for
+    const observedMs = Math.max(1, Math.min(windowMs, now - this.startedAt))
+
+    return {
+      route,
+      latency: {
+        count: durations.length,
+        average: durations.length ? durations.reduce((sum, d) => sum + d, 0) / durations.length : 0,
+        p50: percentile(durations, 50),
+        p95: percentile(durations, 95),
+        p99: percentile(durations, 99),
+        max: durations.length ? durations[durations.length - 1] : 0
+      },
+      throughput: samples.length / (observedMs / 60000),
+      errorRate: samples.length ? serverErrors / samples.length : 0,
+      statusCodes
+    }
+  }
+}
+
+// Nearest-rank percentile over an ascending array
+export function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0
+  const rank = Math.ceil((p / 100) * sorted.length)
+  return sorted[Math.min(sorted.length, Math.max(1, rank)) - 1]
+}
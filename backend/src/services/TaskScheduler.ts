@@ -0,0 +1,196 @@
+import { StoredTaskState, TaskRun, TaskSchedule, TaskStore } from '../storage/TaskStore'
+import { nextCronRun } from '../utils/cron'
+
+const MINUTE = 60 * 1000
+
+export interface ScheduledTaskDefinition {
+  id: string
+  schedule: TaskSchedule
+  enabled: boolean
+  parameters: Record<string, any>
+}
+
+export interface ScheduledTaskState extends StoredTaskState {
+  running: boolean
+}
+
+// A handler may return a summary of what it did, which is kept with the run
+export type TaskHandler = (parameters: Record<string, any>) => Promise<Record<string, any> | void>
+
+export class TaskBusyError extends Error {
+  constructor(taskId: string) {
+    super(`Task ${taskId} is already running`)
+    this.name = 'TaskBusyError'
+  }
+}
+
+export function nextRunTime(schedule: TaskSchedule, after: number): number {
+  return schedule.type === 'interval' ? after + schedule.minutes * MINUTE : nextCronRun(schedule.expression, after)
+}
+
+/**
+ * Runs tasks on their own interval or cron schedule. Task state is persisted
+ * in a TaskStore, so schedules, edits and counters survive restarts; a task
+ * never runs twice at the same time, and every run is recorded with its
+ * duration and outcome.
+ */
+export class TaskScheduler {
+  private states = new Map<string, StoredTaskState>()
+  private handlers = new Map<string, TaskHandler>()
+  private running = new Set<string>()
+  private timer: ReturnType<typeof setInterval> | null = null
+
+  constructor(private store: TaskStore = new TaskStore(), private tickMs: number = 15 * 1000) {}
+
+  /**
+   * Add a task. Persisted state (enabled, schedule, parameters, counters)
+   * wins over the definition; new default parameters are still picked up.
+   */
+  register(definition: ScheduledTaskDefinition, handler: TaskHandler, now: number = Date.now()): void {
+    const stored = this.store.getState(definition.id)
+    const state: StoredTaskState = stored
+      ? { ...stored, parameters: { ...definition.parameters, ...stored.parameters } }
+      : {
+          id: definition.id,
+          enabled: definition.enabled,
+          schedule: definition.schedule,
+          parameters: definition.parameters,
+          lastRun: null,
+          nextRun: null,
+          runCount: 0,
+          failureCount: 0
+        }
+
+    if (state.enabled && state.nextRun === null) {
+      state.nextRun = new Date(nextRunTime(state.schedule, now)).toISOString()
+    }
+
+    this.states.set(definition.id, state)
+    this.handlers.set(definition.id, handler)
+    this.store.saveState(state)
+  }
+
+  start(): void {
+    if (this.timer) return
+    this.timer = setInterval(() => {
+      this.tick().catch(error => console.error('Task scheduler error:', error))
+    }, this.tickMs)
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+  }
+
+  /**
+   * Start every enabled task that is due and not already running. A task
+   * that was due several times while the backend was down runs once.
+   */
+  async tick(now: number = Date.now()): Promise<TaskRun[]> {
+    const due = [...this.states.values()].filter(state =>
+      state.enabled &&
+      state.nextRun !== null &&
+      new Date(state.nextRun).getTime() <= now &&
+      !this.running.has(state.id)
+    )
+
+    return Promise.all(due.map(state => this.execute(state.id, 'schedule', now)))
+  }
+
+  // Run a task now, outside its schedule; throws TaskBusyError if it is running
+  async runNow(id: string): Promise<TaskRun> {
+    this.requireState(id)
+    if (this.running.has(id)) throw new TaskBusyError(id)
+    return this.execute(id, 'manual', Date.now())
+  }
+
+  pause(id: string): ScheduledTaskState {
+    return this.update(id, { enabled: false })
+  }
+
+  resume(id: string): ScheduledTaskState {
+    return this.update(id, { enabled: true })
+  }
+
+  /**
+   * Change whether a task is enabled, its schedule and/or its parameters
+   * (merged into the current ones). The next run is recalculated from now.
+   */
+  update(id: string, changes: { enabled?: boolean; schedule?: TaskSchedule; parameters?: Record<string, any> }, now: number = Date.now()): ScheduledTaskState {
+    const state = this.requireState(id)
+    if (changes.schedule) {
+      nextRunTime(changes.schedule, now) // throws on an invalid cron expression before anything changes
+      state.schedule = changes.schedule
+    }
+    if (changes.parameters) state.parameters = { ...state.parameters, ...changes.parameters }
+    if (changes.enabled !== undefined) state.enabled = changes.enabled
+
+    if (!state.enabled) {
+      state.nextRun = null
+    } else if (changes.schedule || changes.enabled !== undefined || state.nextRun === null) {
+      state.nextRun = new Date(nextRunTime(state.schedule, now)).toISOString()
+    }
+
+    this.store.saveState(state)
+    return this.getTask(id)!
+  }
+
+  getTask(id: string): ScheduledTaskState | null {
+    const state = this.states.get(id)
+    return state ? { ...state, parameters: { ...state.parameters }, running: this.running.has(id) } : null
+  }
+
+  getTasks(): ScheduledTaskState[] {
+    return [...this.states.keys()].map(id => this.getTask(id)!)
+  }
+
+  getRuns(id: string, limit?: number): TaskRun[] {
+    return this.store.getRuns(id, limit)
+  }
+
+  private requireState(id: string): StoredTaskState {
+    const state = this.states.get(id)
+    if (!state) throw new Error(`Unknown task: ${id}`)
+    return state
+  }
+
+  private async execute(id: string, trigger: TaskRun['trigger'], now: number): Promise<TaskRun> {
+    const state = this.requireState(id)
+    const handler = this.handlers.get(id)!
+    this.running.add(id)
+
+    const started = Date.now()
+    let error: string | null = null
+    let result: Record<string, any> | null = null
+    try {
+      result = (await handler({ ...state.parameters })) || null
+    } catch (err) {
+      error = err instanceof Error ? err.message : String(err)
+    } finally {
+      this.running.delete(id)
+    }
+    const finished = Date.now()
+
+    state.runCount++
+    if (error !== null) state.failureCount++
+    state.lastRun = new Date(started).toISOString()
+    if (state.enabled) {
+      // Scheduled runs move on from their due time; a manual run doesn't shift the schedule
+      state.nextRun = trigger === 'schedule' ? new Date(nextRunTime(state.schedule, Math.max(now, finished))).toISOString() : state.nextRun
+    }
+    this.store.saveState(state)
+
+    return this.store.addRun({
+      taskId: id,
+      trigger,
+      startedAt: new Date(started).toISOString(),
+      finishedAt: new Date(finished).toISOString(),
+      durationMs: finished - started,
+      outcome: error === null ? 'success' : 'failed',
+      error,
+      result
+    })
+  }
+}
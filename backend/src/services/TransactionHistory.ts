@@ -0,0 +1,89 @@
+import type { EventStore, IndexedEvent } from '../storage/EventStore'
+
+export type TransactionType =
+  | 'deposit'
+  | 'redeem'
+  | 'requestWithdrawal'
+  | 'processWithdrawal'
+  | 'instantRedeem'
+  | 'dualDeposit'
+  | 'sparksRedemption'
+  | 'governanceVote'
+
+export interface UserTransaction {
+  hash: string
+  type: TransactionType
+  method: string
+  contract: string
+  timestamp: number // ms, from the block
+  blockNumber: number
+  logIndex: number
+  value: string // main amount of the action in wei (CORE, shares, Sparks or vote weight)
+  status: 'success' // only successful transactions emit events
+  details: Record<string, any>
+}
+
+interface TypeMapping {
+  type: TransactionType
+  method: string
+  valueArg: string
+}
+
+// Indexed events ("Contract.Event") that count as a user transaction, and how to present them
+const EVENT_TYPES: Record<string, TypeMapping> = {
+  'StakeBasket.Deposited': { type: 'deposit', method: 'Deposit', valueArg: 'coreAmount' },
+  'StakeBasket.Redeemed': { type: 'redeem', method: 'Redeem', valueArg: 'coreAmount' },
+  'StakeBasket.WithdrawalRequested': { type: 'requestWithdrawal', method: 'Request Withdrawal', valueArg: 'shares' },
+  'StakeBasket.WithdrawalProcessed': { type: 'processWithdrawal', method: 'Process Withdrawal', valueArg: 'coreAmount' },
+  'StakeBasket.InstantRedeemExecuted': { type: 'instantRedeem', method: 'Instant Redeem', valueArg: 'coreAmount' },
+  'DualStakingBasket.Deposited': { type: 'dualDeposit', method: 'Dual Staking Deposit', valueArg: 'coreAmount' },
+  'DualStakingBasket.Redeemed': { type: 'redeem', method: 'Dual Staking Redeem', valueArg: 'coreAmount' },
+  'SparksManager.SparksSpent': { type: 'sparksRedemption', method: 'Sparks Redemption', valueArg: 'amount' },
+  'BasketGovernance.VoteCast': { type: 'governanceVote', method: 'Governance Vote', valueArg: 'weight' }
+}
+
+export const TRANSACTION_TYPES = [...new Set(Object.values(EVENT_TYPES).map(m => m.type))]
+
+export function isTransactionType(value: string): value is TransactionType {
+  return (TRANSACTION_TYPES as string[]).includes(value)
+}
+
+/**
+ * Per-user transaction history, read from the events the EventIndexer stored
+ */
+export class TransactionHistory {
+  constructor(private store: EventStore) {}
+
+  getTransactions(address: string, options: { types?: TransactionType[]; chainId?: number; limit?: number; offset?: number } = {}) {
+    const eventKeys = Object.entries(EVENT_TYPES)
+      .filter(([, mapping]) => !options.types || options.types.length === 0 || options.types.includes(mapping.type))
+      .map(([key]) => key)
+
+    const { events, total } = this.store.queryEvents({
+      account: address,
+      chainId: options.chainId,
+      eventKeys,
+      limit: options.limit,
+      offset: options.offset
+    })
+
+    return { transactions: events.map(toTransaction), total }
+  }
+}
+
+function toTransaction(event: IndexedEvent): UserTransaction {
+  const mapping = EVENT_TYPES[`${event.contract}.${event.eventName}`]
+
+  return {
+    hash: event.transactionHash,
+    type: mapping.type,
+    method: mapping.method,
+    contract: event.contract,
+    timestamp: new Date(event.timestamp).getTime(),
+    blockNumber: event.blockNumber,
+    logIndex: event.logIndex,
+    value: String(event.args[mapping.valueArg] ?? '0'),
+    status: 'success',
+    details: event.args
+  }
+}
@@ -0,0 +1,283 @@
+import { createPublicClient, createWalletClient, http, type Chain } from 'viem'
+import { privateKeyToAccount } from 'viem/accounts'
+
+export type ManagedTransactionStatus = 'queued' | 'pending' | 'confirmed' | 'reverted' | 'failed' | 'timeout'
+
+// Fee fields for one submission, in wei: EIP-1559 on chains with a base fee, gasPrice otherwise
+export type TransactionFees = { maxFeePerGas: bigint; maxPriorityFeePerGas: bigint } | { gasPrice: bigint }
+
+export interface ManagedTransaction {
+  id: number
+  functionName: string
+  to: string
+  status: ManagedTransactionStatus
+  nonce?: number
+  hashes: string[] // the original submission first, then each replacement
+  fees?: Record<string, string> // of the latest submission
+  queuedAt: string
+  submittedAt?: string
+  finishedAt?: string
+  blockNumber?: number
+  error?: string
+}
+
+export interface ManagedReceipt {
+  hash: string // the submission that was mined
+  nonce: number
+  replacements: number
+  receipt: any
+}
+
+export interface TransactionManagerOptions {
+  receiptTimeoutMs: number // give up on a transaction, replacements included, after this long
+  replaceAfterMs: number // resubmit with higher fees when nothing was mined for this long
+  gasBumpPercent: number // fee increase per replacement; nodes reject replacements under 10%
+  maxReplacements: number
+  pollIntervalMs: number
+  historySize: number
+}
+
+const DEFAULT_OPTIONS: TransactionManagerOptions = {
+  receiptTimeoutMs: parseInt(process.env.TX_RECEIPT_TIMEOUT_MS || '180000'),
+  replaceAfterMs: parseInt(process.env.TX_REPLACE_AFTER_MS || '45000'),
+  gasBumpPercent: parseFloat(process.env.TX_GAS_BUMP_PERCENT || '15'),
+  maxReplacements: parseInt(process.env.TX_MAX_REPLACEMENTS || '3'),
+  pollIntervalMs: 2000,
+  historySize: 50
+}
+
+export class TransactionTimeoutError extends Error {
+  constructor(message: string, public hash: string, public nonce: number) {
+    super(message)
+    this.name = 'TransactionTimeoutError'
+  }
+}
+
+const NONCE_USED = /nonce too low|nonce has already been used|already known/i
+
+/**
+ * Raise every fee field by `percent`, rounding up so a replacement is never
+ * priced below the minimum bump nodes accept.
+ */
+export function bumpFees(fees: TransactionFees, percent: number): TransactionFees {
+  const factor = 10000n + BigInt(Math.round(percent * 100))
+  const bump = (value: bigint) => (value * factor + 9999n) / 10000n
+  return 'gasPrice' in fees
+    ? { gasPrice: bump(fees.gasPrice) }
+    : { maxFeePerGas: bump(fees.maxFeePerGas), maxPriorityFeePerGas: bump(fees.maxPriorityFeePerGas) }
+}
+
+// The higher of each fee field, so a replacement also keeps up with the network's current fees
+export function maxFees(a: TransactionFees, b: TransactionFees): TransactionFees {
+  const max = (x: bigint, y: bigint) => x > y ? x : y
+  if ('gasPrice' in a && 'gasPrice' in b) return { gasPrice: max(a.gasPrice, b.gasPrice) }
+  if (!('gasPrice' in a) && !('gasPrice' in b)) {
+    return { maxFeePerGas: max(a.maxFeePerGas, b.maxFeePerGas), maxPriorityFeePerGas: max(a.maxPriorityFeePerGas, b.maxPriorityFeePerGas) }
+  }
+  return a
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+/**
+ * Sends one signer's transactions strictly one at a time. Nonces are tracked
+ * locally; a transaction not mined within replaceAfterMs is resubmitted at the
+ * same nonce with bumped fees, and one still unmined after receiptTimeoutMs is
+ * given up on so it can't block the queue. The next send then reuses that
+ * nonce at a higher fee, replacing the stuck transaction.
+ */
+export class TransactionManager {
+  private options: TransactionManagerOptions
+  private tail: Promise<unknown> = Promise.resolve()
+  private nextNonce: number | null = null
+  private stuck: { nonce: number; fees: TransactionFees } | null = null
+  private legacyFees = false
+  private sequence = 0
+  private history: ManagedTransaction[] = []
+
+  constructor(readonly publicClient: any, readonly walletClient: any, options: Partial<TransactionManagerOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options }
+    if (!(this.options.gasBumpPercent >= 10)) {
+      throw new Error('TX_GAS_BUMP_PERCENT must be at least 10')
+    }
+  }
+
+  getSigner(): string {
+    return this.walletClient.account.address
+  }
+
+  /**
+   * Queue a write, normally the `request` from simulateContract, and resolve
+   * with its receipt once mined. Rejects with TransactionTimeoutError when no
+   * submission was mined in time; reverted transactions resolve normally.
+   */
+  send(request: Record<string, any>, options: { receiptTimeoutMs?: number } = {}): Promise<ManagedReceipt> {
+    const record: ManagedTransaction = {
+      id: ++this.sequence,
+      functionName: request.functionName ?? 'transaction',
+      to: request.address ?? request.to,
+      status: 'queued',
+      hashes: [],
+      queuedAt: new Date().toISOString()
+    }
+    this.history.unshift(record)
+    this.history.length = Math.min(this.history.length, this.options.historySize)
+
+    const run = this.tail.then(() => this.submit(record, request, options.receiptTimeoutMs ?? this.options.receiptTimeoutMs))
+    this.tail = run.catch(() => undefined)
+    return run
+  }
+
+  getStatus() {
+    return {
+      signer: this.getSigner(),
+      nextNonce: this.nextNonce,
+      stuckNonce: this.stuck?.nonce ?? null,
+      queued: this.history.filter(tx => tx.status === 'queued').length,
+      inFlight: this.history.find(tx => tx.status === 'pending') ?? null,
+      recent: this.history,
+      options: this.options
+    }
+  }
+
+  private async submit(record: ManagedTransaction, request: Record<string, any>, timeoutMs: number): Promise<ManagedReceipt> {
+    const started = Date.now()
+    try {
+      let nonce = await this.reserveNonce()
+      let fees = await this.feesFor(nonce)
+      let hash: string
+      try {
+        hash = await this.broadcast(request, nonce, fees)
+      } catch (error) {
+        // Something else used the nonce (another process, or a tx we gave up on got mined)
+        if (!NONCE_USED.test(error.message)) throw error
+        this.nextNonce = null
+        this.stuck = null
+        nonce = await this.reserveNonce()
+        fees = await this.feesFor(nonce)
+        hash = await this.broadcast(request, nonce, fees)
+      }
+
+      this.nextNonce = Math.max(this.nextNonce ?? 0, nonce + 1)
+      Object.assign(record, { status: 'pending', nonce, submittedAt: new Date().toISOString() })
+      this.recordSubmission(record, hash, fees)
+
+      let lastSentAt = Date.now()
+      let replacements = 0
+      while (true) {
+        const mined = await this.findReceipt(record.hashes)
+        if (mined) {
+          if (this.stuck?.nonce === nonce) this.stuck = null
+          record.status = mined.receipt.status === 'success' ? 'confirmed' : 'reverted'
+          record.blockNumber = Number(mined.receipt.blockNumber)
+          record.finishedAt = new Date().toISOString()
+          return { hash: mined.hash, nonce, replacements, receipt: mined.receipt }
+        }
+
+        if (Date.now() - started >= timeoutMs) break
+
+        if (Date.now() - lastSentAt >= this.options.replaceAfterMs && replacements < this.options.maxReplacements) {
+          fees = maxFees(bumpFees(fees, this.options.gasBumpPercent), await this.estimateFees())
+          try {
+            this.recordSubmission(record, await this.broadcast(request, nonce, fees), fees)
+            replacements++
+          } catch (error) {
+            // Usually an earlier submission just got mined; the next poll picks it up
+            console.warn(`Replacement for nonce ${nonce} not accepted: ${error.shortMessage || error.message}`)
+          }
+          lastSentAt = Date.now()
+        }
+
+        await sleep(this.options.pollIntervalMs)
+      }
+
+      this.stuck = { nonce, fees }
+      throw new TransactionTimeoutError(
+        `${record.functionName} (nonce ${nonce}) not mined within ${Math.round(timeoutMs / 1000)}s after ${replacements} replacement(s); last hash ${record.hashes[record.hashes.length - 1]}`,
+        record.hashes[record.hashes.length - 1],
+        nonce
+      )
+    } catch (error) {
+      record.status = error instanceof TransactionTimeoutError ? 'timeout' : 'failed'
+      record.error = error.shortMessage || error.message
+      record.finishedAt = new Date().toISOString()
+      throw error
+    }
+  }
+
+  // A nonce we gave up on is reused while it is still unmined, so the new transaction replaces it
+  private async reserveNonce(): Promise<number> {
+    const address = this.getSigner()
+    if (this.stuck) {
+      const mined = await this.publicClient.getTransactionCount({ address, blockTag: 'latest' })
+      if (mined <= this.stuck.nonce) return this.stuck.nonce
+      this.stuck = null
+    }
+    if (this.nextNonce === null) {
+      this.nextNonce = await this.publicClient.getTransactionCount({ address, blockTag: 'pending' }) as number
+    }
+    return this.nextNonce
+  }
+
+  private async feesFor(nonce: number): Promise<TransactionFees> {
+    const fees = await this.estimateFees()
+    return this.stuck?.nonce === nonce ? maxFees(bumpFees(this.stuck.fees, this.options.gasBumpPercent), fees) : fees
+  }
+
+  private async estimateFees(): Promise<TransactionFees> {
+    if (!this.legacyFees) {
+      try {
+        const { maxFeePerGas, maxPriorityFeePerGas } = await this.publicClient.estimateFeesPerGas()
+        return { maxFeePerGas, maxPriorityFeePerGas }
+      } catch (error) {
+        if (error.name !== 'Eip1559FeesNotSupportedError') throw error
+        this.legacyFees = true
+      }
+    }
+    return { gasPrice: await this.publicClient.getGasPrice() }
+  }
+
+  private broadcast(request: Record<string, any>, nonce: number, fees: TransactionFees): Promise<string> {
+    return this.walletClient.writeContract({ ...request, nonce, ...fees })
+  }
+
+  private recordSubmission(record: ManagedTransaction, hash: string, fees: TransactionFees): void {
+    record.hashes.push(hash)
+    record.fees = Object.fromEntries(Object.entries(fees).map(([field, value]) => [field, value.toString()]))
+  }
+
+  private async findReceipt(hashes: string[]): Promise<{ hash: string; receipt: any } | null> {
+    for (const hash of hashes) {
+      // viem throws TransactionReceiptNotFoundError until the transaction is mined
+      const receipt = await this.publicClient.getTransactionReceipt({ hash }).catch(() => null)
+      if (receipt) return { hash, receipt }
+    }
+    return null
+  }
+}
+
+const sharedManagers = new Map<string, TransactionManager>()
+
+/**
+ * The transaction manager for a signer key on a chain. Services configured
+ * with the same key share it, so their transactions queue behind each other
+ * instead of racing for nonces.
+ */
+export function transactionManagerFor(chain: Chain, privateKey: string, rpcUrl?: string): TransactionManager {
+  const account = privateKeyToAccount(privateKey as `0x${string}`)
+  const key = `${chain.id}:${account.address.toLowerCase()}`
+
+  let manager = sharedManagers.get(key)
+  if (!manager) {
+    manager = new TransactionManager(
+      createPublicClient({ chain, transport: http(rpcUrl) }),
+      createWalletClient({ account, chain, transport: http(rpcUrl) })
+    )
+    sharedManagers.set(key, manager)
+  }
+  return manager
+}
+
+export function getTransactionManagers(): TransactionManager[] {
+  return [...sharedManagers.values()]
+}
@@ -0,0 +1,231 @@
+import { readFile } from 'fs/promises'
+import { createPublicClient, http, parseAbi, parseAbiItem } from 'viem'
+import { MonitoredNetwork } from '../config/networks'
+import type { SlashingEvent } from './ValidatorMonitor'
+
+// Raw validator facts; ValidatorMonitor derives performance, APY and risk from these
+export interface ValidatorRecord {
+  address: string // operator address
+  consensusAddress?: string
+  name: string
+  isActive: boolean
+  totalDelegated: string // wei
+  commission: number // percent
+  uptime: number // percent of the blocks the validator was expected to produce this round
+  slashingHistory: SlashingEvent[]
+}
+
+export interface ValidatorDataSource {
+  readonly name: string
+  getValidators(): Promise<ValidatorRecord[]>
+}
+
+// Core genesis system contracts; the addresses are the same on every Core network
+export const CORE_SYSTEM_CONTRACTS = {
+  ValidatorSet: '0x0000000000000000000000000000000000001000',
+  SlashIndicator: '0x0000000000000000000000000000000000001001',
+  CandidateHub: '0x0000000000000000000000000000000000001005',
+  CoreAgent: '0x0000000000000000000000000000000000001011'
+} as const
+
+const candidateHubAbi = parseAbi([
+  'function getCandidates() view returns (address[])',
+  'function operateMap(address operator) view returns (uint256)',
+  'function candidateSet(uint256 index) view returns (address operateAddr, address consensusAddr, address feeAddr, uint32 commissionThousandths, uint256 margin, uint32 status, uint256 commissionLastChangeRound, uint256 commissionLastRoundValue)'
+])
+const coreAgentAbi = parseAbi(['function candidateMap(address operator) view returns (uint256 amount, uint256 realtimeAmount)'])
+const slashIndicatorAbi = parseAbi(['function indicators(address consensusAddr) view returns (uint256 height, uint256 count, bool exist)'])
+const misdemeanorEvent = parseAbiItem('event validatorMisdemeanor(address indexed validator, uint256 amount)')
+const felonyEvent = parseAbiItem('event validatorFelony(address indexed validator, uint256 amount)')
+
+// CandidateHub status bits
+const STATUS_INACTIVE = 2
+const STATUS_JAILED = 4
+const STATUS_VALIDATOR = 16
+
+const BLOCKS_PER_ROUND = 28800 // one-day rounds of 3 second blocks
+const SLASHING_LOG_BATCH = 5000n
+
+/**
+ * Reads block production and slashing from the Core system contracts.
+ * Missed blocks come from SlashIndicator, which counts them per round;
+ * slashing events are scanned incrementally over a lookback window.
+ */
+export class ValidatorHealthReader {
+  private slashingEvents: Array<SlashingEvent & { blockNumber: bigint }> = []
+  private scannedTo: bigint | null = null
+
+  constructor(
+    private client: any,
+    private lookbackBlocks: bigint = BigInt(process.env.VALIDATOR_SLASHING_LOOKBACK_BLOCKS || String(BLOCKS_PER_ROUND * 7))
+  ) {}
+
+  // Uptime per consensus address, from the blocks missed against an even share of the round
+  async getUptime(consensusAddresses: string[], activeCount: number): Promise<Map<string, number>> {
+    const expected = BLOCKS_PER_ROUND / Math.max(activeCount, 1)
+    const uptime = new Map<string, number>()
+
+    for (const address of consensusAddresses) {
+      const [, count] = await this.client.readContract({
+        address: CORE_SYSTEM_CONTRACTS.SlashIndicator,
+        abi: slashIndicatorAbi,
+        functionName: 'indicators',
+        args: [address]
+      }) as [bigint, bigint, boolean]
+      uptime.set(address.toLowerCase(), Math.max(0, 100 * (1 - Number(count) / expected)))
+    }
+
+    return uptime
+  }
+
+  // Slashing events in the lookback window, keyed by lowercased consensus address
+  async getSlashingEvents(): Promise<Map<string, SlashingEvent[]>> {
+    const head: bigint = await this.client.getBlockNumber()
+    const windowStart = head > this.lookbackBlocks ? head - this.lookbackBlocks : 0n
+    let from = this.scannedTo !== null && this.scannedTo + 1n > windowStart ? this.scannedTo + 1n : windowStart
+
+    while (from <= head) {
+      const to = from + SLASHING_LOG_BATCH - 1n < head ? from + SLASHING_LOG_BATCH - 1n : head
+      const logs = await this.client.getLogs({
+        address: CORE_SYSTEM_CONTRACTS.ValidatorSet,
+        events: [misdemeanorEvent, felonyEvent],
+        fromBlock: from,
+        toBlock: to
+      })
+
+      for (const log of logs) {
+        const block = await this.client.getBlock({ blockNumber: log.blockNumber })
+        this.slashingEvents.push({
+          timestamp: new Date(Number(block.timestamp) * 1000).toISOString(),
+          amount: log.args.amount.toString(),
+          reason: log.eventName === 'validatorFelony' ? 'Felony: missed too many blocks, jailed' : 'Misdemeanor: missed blocks',
+          validator: log.args.validator,
+          blockNumber: log.blockNumber
+        })
+      }
+
+      this.scannedTo = to
+      from = to + 1n
+    }
+
+    this.slashingEvents = this.slashingEvents.filter(event => event.blockNumber >= windowStart)
+
+    const byValidator = new Map<string, SlashingEvent[]>()
+    for (const { blockNumber, ...event } of this.slashingEvents) {
+      const key = event.validator.toLowerCase()
+      byValidator.set(key, [...(byValidator.get(key) || []), event])
+    }
+    return byValidator
+  }
+}
+
+export function publicClientFor(network: MonitoredNetwork) {
+  return createPublicClient({ chain: network.chain, transport: http() })
+}
+
+/**
+ * Validators straight from the chain: the CandidateHub candidate set for
+ * status and commission, CoreAgent for delegated CORE, and the slashing
+ * contracts for uptime and slashes.
+ */
+export class CandidateHubValidatorSource implements ValidatorDataSource {
+  readonly name = 'candidate-hub'
+  private health: ValidatorHealthReader
+
+  constructor(network: MonitoredNetwork, private client: any = publicClientFor(network)) {
+    this.health = new ValidatorHealthReader(client)
+  }
+
+  async getValidators(): Promise<ValidatorRecord[]> {
+    const operators = await this.client.readContract({
+      address: CORE_SYSTEM_CONTRACTS.CandidateHub,
+      abi: candidateHubAbi,
+      functionName: 'getCandidates'
+    }) as string[]
+
+    const candidates = []
+    for (const operator of operators) {
+      const index = await this.client.readContract({
+        address: CORE_SYSTEM_CONTRACTS.CandidateHub,
+        abi: candidateHubAbi,
+        functionName: 'operateMap',
+        args: [operator]
+      }) as bigint
+
+      // operateMap is 1-based; 0 means the candidate has unregistered
+      if (index === 0n) continue
+      const [operateAddr, consensusAddr, , commissionThousandths, , status] = await this.client.readContract({
+        address: CORE_SYSTEM_CONTRACTS.CandidateHub,
+        abi: candidateHubAbi,
+        functionName: 'candidateSet',
+        args: [index - 1n]
+      })
+      candidates.push({
+        operateAddr: operateAddr as string,
+        consensusAddr: consensusAddr as string,
+        commission: Number(commissionThousandths) / 10,
+        isActive: (Number(status) & STATUS_VALIDATOR) !== 0 && (Number(status) & (STATUS_INACTIVE | STATUS_JAILED)) === 0
+      })
+    }
+
+    const activeCount = candidates.filter(c => c.isActive).length
+    const uptime = await this.health.getUptime(candidates.map(c => c.consensusAddr), activeCount)
+    const slashes = await this.health.getSlashingEvents()
+
+    const records: ValidatorRecord[] = []
+    for (const candidate of candidates) {
+      records.push({
+        address: candidate.operateAddr,
+        consensusAddress: candidate.consensusAddr,
+        name: candidate.operateAddr,
+        isActive: candidate.isActive,
+        totalDelegated: await this.getDelegated(candidate.operateAddr),
+        commission: candidate.commission,
+        uptime: candidate.isActive ? uptime.get(candidate.consensusAddr.toLowerCase()) ?? 0 : 0,
+        slashingHistory: slashes.get(candidate.consensusAddr.toLowerCase()) || []
+      })
+    }
+    return records
+  }
+
+  private async getDelegated(operator: string): Promise<string> {
+    try {
+      const [, realtimeAmount] = await this.client.readContract({
+        address: CORE_SYSTEM_CONTRACTS.CoreAgent,
+        abi: coreAgentAbi,
+        functionName: 'candidateMap',
+        args: [operator]
+      }) as [bigint, bigint]
+      return realtimeAmount.toString()
+    } catch (error) {
+      console.warn(`Could not read delegated CORE for ${operator}:`, error)
+      return '0'
+    }
+  }
+}
+
+/**
+ * Validators from a JSON file, either an array of records or an object with
+ * a `validators` array. The file is read on every call, so it can be edited
+ * while the backend runs.
+ */
+export class FixtureValidatorSource implements ValidatorDataSource {
+  readonly name = 'fixture'
+
+  // The path is checked when read, so a missing VALIDATOR_FIXTURE_PATH fails the check, not startup
+  constructor(private path?: string) {}
+
+  async getValidators(): Promise<ValidatorRecord[]> {
+    if (!this.path) {
+      throw new Error('VALIDATOR_FIXTURE_PATH must be set to use the fixture validator data source')
+    }
+
+    const parsed = JSON.parse(await readFile(this.path, 'utf8'))
+    const validators = Array.isArray(parsed) ? parsed : parsed.validators
+    if (!Array.isArray(validators)) {
+      throw new Error(`Validator fixture ${this.path} has no validators array`)
+    }
+
+    return validators.map(v => ({ slashingHistory: [], ...v }))
+  }
+}
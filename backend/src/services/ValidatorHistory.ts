@@ -0,0 +1,162 @@
+import { ValidatorHistoryStore, ValidatorSnapshot } from '../storage/ValidatorHistoryStore'
+import type { ValidatorInfo, ValidatorMetrics } from './ValidatorMonitor'
+
+const DAY = 24 * 60 * 60 * 1000
+
+// Changes over a trailing window, attached to each validator so alert rules can use them
+export interface ValidatorSignals {
+  windowDays: number
+  since: string | null // oldest snapshot in the window; null when there is no history yet
+  commissionChange: number // percentage points since the window start
+  commissionRaised: boolean // commission is above its lowest value in the window
+  uptimeChange: number
+  delegatedChangePercent: number
+  effectiveAPYChange: number
+  riskScoreChange: number
+  newSlashingEvents: number
+  becameInactive: boolean
+}
+
+export interface CommissionChange {
+  timestamp: string
+  from: number
+  to: number
+}
+
+export interface ValidatorTrend {
+  chainId: number
+  address: string
+  from: string
+  to: string
+  points: ValidatorSnapshot[] // evenly thinned to at most maxPoints, always keeping the latest
+  commissionChanges: CommissionChange[]
+}
+
+export interface ValidatorHistoryOptions {
+  retentionDays: number
+  signalWindowDays: number
+}
+
+const DEFAULT_OPTIONS: ValidatorHistoryOptions = {
+  retentionDays: parseInt(process.env.VALIDATOR_HISTORY_RETENTION_DAYS || '30'),
+  signalWindowDays: 7
+}
+
+function thin<T>(points: T[], maxPoints: number): T[] {
+  if (points.length <= maxPoints) return points
+  const step = points.length / maxPoints
+  const thinned = Array.from({ length: maxPoints - 1 }, (_, i) => points[Math.floor(i * step)])
+  return [...thinned, points[points.length - 1]]
+}
+
+// Delegated amounts are wei strings; anything else (e.g. a decimal from an API) counts as unknown
+const toWei = (amount: string) => /^\d+$/.test(amount) ? BigInt(amount) : 0n
+
+/**
+ * Keeps a snapshot of every validator per monitoring cycle and derives
+ * trends and signals (commission raised, uptime or delegation falling) from them.
+ */
+export class ValidatorHistory {
+  private options: ValidatorHistoryOptions
+
+  constructor(private store: ValidatorHistoryStore = new ValidatorHistoryStore(), options: Partial<ValidatorHistoryOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options }
+  }
+
+  record(metrics: ValidatorMetrics): void {
+    this.store.insertMany(metrics.validators.map(v => ({
+      chainId: metrics.chainId,
+      address: v.address,
+      timestamp: metrics.timestamp,
+      isActive: v.isActive,
+      commission: v.commission,
+      uptime: v.uptime,
+      performance: v.performance,
+      totalDelegated: v.totalDelegated,
+      effectiveAPY: v.effectiveAPY,
+      riskScore: v.riskScore,
+      slashingEvents: v.slashingHistory.length
+    })))
+    this.store.deleteBefore(new Date(metrics.timestamp).getTime() - this.options.retentionDays * DAY)
+  }
+
+  getTrend(chainId: number, address: string, days: number, maxPoints: number = 500, now: number = Date.now()): ValidatorTrend {
+    const from = now - days * DAY
+    const snapshots = this.store.getHistory(chainId, address, from)
+
+    const commissionChanges: CommissionChange[] = []
+    for (let i = 1; i < snapshots.length; i++) {
+      if (snapshots[i].commission !== snapshots[i - 1].commission) {
+        commissionChanges.push({ timestamp: snapshots[i].timestamp, from: snapshots[i - 1].commission, to: snapshots[i].commission })
+      }
+    }
+
+    return {
+      chainId,
+      address: address.toLowerCase(),
+      from: new Date(from).toISOString(),
+      to: new Date(now).toISOString(),
+      points: thin(snapshots, Math.max(maxPoints, 2)),
+      commissionChanges
+    }
+  }
+
+  // Signals for each validator, comparing its current state with the oldest snapshot in the window
+  getSignals(metrics: ValidatorMetrics, windowDays: number = this.options.signalWindowDays): Map<string, ValidatorSignals> {
+    const from = new Date(metrics.timestamp).getTime() - windowDays * DAY
+    const earliest = this.store.getEarliestSince(metrics.chainId, from)
+    const minCommission = this.store.getMinCommissionSince(metrics.chainId, from)
+
+    return new Map(metrics.validators.map(v => {
+      const key = v.address.toLowerCase()
+      return [key, this.signalsFor(v, earliest.get(key), minCommission.get(key), windowDays)]
+    }))
+  }
+
+  /**
+   * The metrics with `signals` on every validator, so validator alert rules
+   * can match e.g. `signals.commissionRaised == true` per validator.
+   */
+  withSignals(metrics: ValidatorMetrics, windowDays?: number): ValidatorMetrics {
+    const signals = this.getSignals(metrics, windowDays)
+    return {
+      ...metrics,
+      validators: metrics.validators.map(v => ({ ...v, signals: signals.get(v.address.toLowerCase()) }))
+    }
+  }
+
+  private signalsFor(validator: ValidatorInfo, baseline: ValidatorSnapshot | undefined, minCommission: number | undefined, windowDays: number): ValidatorSignals {
+    if (!baseline) {
+      return {
+        windowDays,
+        since: null,
+        commissionChange: 0,
+        commissionRaised: false,
+        uptimeChange: 0,
+        delegatedChangePercent: 0,
+        effectiveAPYChange: 0,
+        riskScoreChange: 0,
+        newSlashingEvents: 0,
+        becameInactive: false
+      }
+    }
+
+    const delegatedBefore = toWei(baseline.totalDelegated)
+    const delegatedNow = toWei(validator.totalDelegated)
+
+    return {
+      windowDays,
+      since: baseline.timestamp,
+      commissionChange: validator.commission - baseline.commission,
+      commissionRaised: validator.commission > Math.min(minCommission ?? validator.commission, baseline.commission),
+      uptimeChange: validator.uptime - baseline.uptime,
+      delegatedChangePercent: delegatedBefore > 0n
+        ? Number((delegatedNow - delegatedBefore) * 1_000_000n / delegatedBefore) / 10_000
+        : 0,
+      effectiveAPYChange: validator.effectiveAPY - baseline.effectiveAPY,
+      riskScoreChange: validator.riskScore - baseline.riskScore,
+      newSlashingEvents: Math.max(0, validator.slashingHistory.length - baseline.slashingEvents),
+      becameInactive: baseline.isActive && !validator.isActive
+    }
+  }
+}
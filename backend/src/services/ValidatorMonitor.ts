@@ -1,6 +1,20 @@
 import { createPublicClient, http, parseAbi } from 'viem'
-import { coreTestnet2 } from '../config/chains'
-import { CONTRACT_ADDRESSES } from '../config/contracts'
+import { DEFAULT_NETWORK, MonitoredNetwork } from '../config/networks'
+import {
+  AllocationParams,
+  AllocationStrategyId,
+  AllocationSummary,
+  DEFAULT_ALLOCATION_PARAMS,
+  recommendRebalance
+} from './AllocationStrategies'
+import type { ValidatorSignals } from './ValidatorHistory'
+import { CoreAPIValidatorSource } from './CoreAPIValidatorSource'
+import {
+  CandidateHubValidatorSource,
+  FixtureValidatorSource,
+  ValidatorDataSource,
+  ValidatorRecord
+} from './ValidatorDataSource'
 
 export interface ValidatorInfo {
   address: string
@@ -10,8 +24,11 @@ export interface ValidatorInfo {
   commission: number
   uptime: number
   performance: number
+  effectiveAPY: number // delegator APY after commission and missed uptime
+  riskScore: number // 0 (safe) to 100
   slashingHistory: SlashingEvent[]
   lastUpdate: string
+  signals?: ValidatorSignals // trends from ValidatorHistory, set before alert rules run
 }
 
 export interface SlashingEvent {
@@ -22,66 +39,105 @@ export interface SlashingEvent {
 }
 
 export interface ValidatorMetrics {
+  chainId: number
   validators: ValidatorInfo[]
   totalValidators: number
   activeValidators: number
   averageUptime: number
   averagePerformance: number
+  averageEffectiveAPY: number
   totalSlashingEvents: number
   recommendations: string[]
   timestamp: string
 }
 
+export interface RebalanceRecommendation {
+  shouldRebalance: boolean
+  reason: string
+  fromValidators: Array<{ address: string; amount: string; reason: string }> // amounts in wei
+  toValidators: Array<{ address: string; amount: string; expectedAPY: number }>
+  estimatedImprovementAPY: number
+  strategy?: AllocationStrategyId
+  target?: AllocationSummary // the allocation the moves work towards
+}
+
+// Gross staking APY before commission; used to estimate what delegators earn
+const BASE_STAKING_APY = 8
+const SLASHING_PERFORMANCE_PENALTY = 10 // performance points per recent slash
+
+/**
+ * Data source from VALIDATOR_DATA_SOURCE (core-api, candidate-hub or fixture).
+ * Without it, VALIDATOR_FIXTURE_PATH selects the fixture, Core mainnet uses
+ * the Core API and other networks read the candidate hub. Monitors are
+ * created at import, so a bad setting is logged rather than thrown.
+ */
+export function createValidatorDataSource(network: MonitoredNetwork): ValidatorDataSource {
+  const fixturePath = process.env.VALIDATOR_FIXTURE_PATH
+  const fallback = fixturePath ? 'fixture' : network.key === 'coreMainnet' ? 'core-api' : 'candidate-hub'
+  let source = process.env.VALIDATOR_DATA_SOURCE || fallback
+  if (!['fixture', 'core-api', 'candidate-hub'].includes(source)) {
+    console.error(`Unknown VALIDATOR_DATA_SOURCE: ${source}. Use core-api, candidate-hub or fixture; using ${fallback}`)
+    source = fallback
+  }
+
+  switch (source) {
+    case 'fixture':
+      return new FixtureValidatorSource(fixturePath)
+    case 'core-api':
+      return new CoreAPIValidatorSource(network)
+    default:
+      return new CandidateHubValidatorSource(network)
+  }
+}
+
 export class ValidatorMonitor {
   private client: any
-  private mockCoreStaking: any
+  private stakingManager: any
+  private network: MonitoredNetwork
+  private dataSource: ValidatorDataSource
 
-  constructor() {
+  constructor(network: MonitoredNetwork = DEFAULT_NETWORK, dataSource: ValidatorDataSource = createValidatorDataSource(network)) {
+    this.network = network
+    this.dataSource = dataSource
     this.client = createPublicClient({
-      chain: coreTestnet2,
+      chain: network.chain,
       transport: http()
     })
 
-    // Mock Core Staking ABI for validator monitoring
-    const mockCoreStakingAbi = parseAbi([
-      'function getValidators() view returns (address[])',
-      'function validators(address) view returns (bool isActive, string memory name, uint256 totalDelegated, uint256 commission)',
-      'function getTotalDelegated(address validator) view returns (uint256)',
-      'function getValidatorPerformance(address validator) view returns (uint256)',
-      'event ValidatorSlashed(address indexed validator, uint256 amount, string reason)'
-    ])
-
-    this.mockCoreStaking = {
-      address: CONTRACT_ADDRESSES.coreTestnet2.MockCoreStaking,
-      abi: mockCoreStakingAbi
+    const stakingManagerAddress = network.contracts.CoreLiquidStakingManager
+    this.stakingManager = {
+      // Unset or zero means not deployed on this network; delegations then read as 0
+      address: stakingManagerAddress && !/^0x0{40}$/.test(stakingManagerAddress) ? stakingManagerAddress : '',
+      abi: parseAbi(['function delegatedAmountByValidator(address validator) view returns (uint256)'])
     }
   }
 
   async checkValidators(): Promise<ValidatorMetrics> {
     try {
-      // Get list of validators
-      const validatorAddresses = await this.getValidatorList()
-      
-      // Get detailed info for each validator
-      const validators = await Promise.all(
-        validatorAddresses.map(address => this.getValidatorInfo(address))
-      )
+      const records = await this.dataSource.getValidators()
+      const validators = records.map(record => this.toValidatorInfo(record))
 
       // Calculate aggregate metrics
       const activeValidators = validators.filter(v => v.isActive).length
-      const averageUptime = validators.reduce((sum, v) => sum + v.uptime, 0) / validators.length
-      const averagePerformance = validators.reduce((sum, v) => sum + v.performance, 0) / validators.length
+      // An empty validator set averages to 0 rather than NaN
+      const average = (value: (v: ValidatorInfo) => number) =>
+        validators.length > 0 ? validators.reduce((sum, v) => sum + value(v), 0) / validators.length : 0
+      const averageUptime = average(v => v.uptime)
+      const averagePerformance = average(v => v.performance)
+      const averageEffectiveAPY = average(v => v.effectiveAPY)
       const totalSlashingEvents = validators.reduce((sum, v) => sum + v.slashingHistory.length, 0)
 
       // Generate recommendations
       const recommendations = this.generateRecommendations(validators)
 
       return {
+        chainId: this.network.chain.id,
         validators,
         totalValidators: validators.length,
         activeValidators,
         averageUptime,
         averagePerformance,
+        averageEffectiveAPY,
         totalSlashingEvents,
         recommendations,
         timestamp: new Date().toISOString()
@@ -92,127 +148,34 @@ export class ValidatorMonitor {
     }
   }
 
-  private async getValidatorList(): Promise<string[]> {
-    try {
-      // In a real implementation, this would call the actual Core staking contract
-      // For now, we'll return mock validator addresses
-      return [
-        '0x1234567890123456789012345678901234567890',
-        '0x2345678901234567890123456789012345678901',
-        '0x3456789012345678901234567890123456789012'
-      ]
-    } catch (error) {
-      console.error('Error getting validator list:', error)
-      return []
-    }
-  }
+  private toValidatorInfo(record: ValidatorRecord): ValidatorInfo {
+    const performance = this.calculateValidatorPerformance(record.uptime, record.slashingHistory.length)
 
-  private async getValidatorInfo(address: string): Promise<ValidatorInfo> {
-    try {
-      // Mock validator data - in production, this would query real validator APIs
-      const mockData = this.getMockValidatorData(address)
-      
-      // Simulate real-time performance metrics
-      const performance = this.calculateValidatorPerformance(address)
-      const uptime = this.calculateValidatorUptime(address)
-      
-      return {
-        address,
-        name: mockData.name,
-        isActive: mockData.isActive,
-        totalDelegated: mockData.totalDelegated,
-        commission: mockData.commission,
-        uptime,
-        performance,
-        slashingHistory: await this.getSlashingHistory(address),
-        lastUpdate: new Date().toISOString()
-      }
-    } catch (error) {
-      console.error(`Error getting info for validator ${address}:`, error)
-      return {
-        address,
-        name: 'Unknown Validator',
-        isActive: false,
-        totalDelegated: '0',
-        commission: 0,
-        uptime: 0,
-        performance: 0,
-        slashingHistory: [],
-        lastUpdate: new Date().toISOString()
-      }
+    return {
+      address: record.address,
+      name: record.name,
+      isActive: record.isActive,
+      totalDelegated: record.totalDelegated,
+      commission: record.commission,
+      uptime: record.uptime,
+      performance,
+      effectiveAPY: record.isActive ? BASE_STAKING_APY * (1 - record.commission / 100) * (record.uptime / 100) : 0,
+      riskScore: this.calculateRiskScore(record.isActive, record.uptime, performance, record.slashingHistory.length),
+      slashingHistory: record.slashingHistory,
+      lastUpdate: new Date().toISOString()
     }
   }
 
-  private getMockValidatorData(address: string) {
-    // Mock data for different validators
-    const mockValidators = {
-      '0x1234567890123456789012345678901234567890': {
-        name: 'Validator Alpha',
-        isActive: true,
-        totalDelegated: '1000000',
-        commission: 5
-      },
-      '0x2345678901234567890123456789012345678901': {
-        name: 'Validator Beta',
-        isActive: true,
-        totalDelegated: '750000',
-        commission: 3
-      },
-      '0x3456789012345678901234567890123456789012': {
-        name: 'Validator Gamma',
-        isActive: false,
-        totalDelegated: '500000',
-        commission: 10
-      }
-    }
-
-    return mockValidators[address as keyof typeof mockValidators] || {
-      name: 'Unknown Validator',
-      isActive: false,
-      totalDelegated: '0',
-      commission: 0
-    }
+  // Block production, less a penalty for each slash in the data source's lookback window
+  private calculateValidatorPerformance(uptime: number, slashingEvents: number): number {
+    return Math.max(0, Math.min(100, uptime - slashingEvents * SLASHING_PERFORMANCE_PENALTY))
   }
 
-  private calculateValidatorPerformance(address: string): number {
-    // Simulate performance calculation based on various factors
-    const basePerformance = 85
-    const randomVariance = (Math.random() - 0.5) * 20 // ±10 points
-    const addressHash = parseInt(address.slice(-4), 16)
-    const consistencyFactor = (addressHash % 100) / 10 // 0-10 points
-    
-    return Math.max(0, Math.min(100, basePerformance + randomVariance + consistencyFactor))
-  }
-
-  private calculateValidatorUptime(address: string): number {
-    // Simulate uptime calculation
-    const baseUptime = 95
-    const randomVariance = (Math.random() - 0.5) * 10 // ±5 points
-    
-    return Math.max(0, Math.min(100, baseUptime + randomVariance))
-  }
+  private calculateRiskScore(isActive: boolean, uptime: number, performance: number, slashingEvents: number): number {
+    if (!isActive) return 100
 
-  private async getSlashingHistory(address: string): Promise<SlashingEvent[]> {
-    try {
-      // In production, this would query blockchain events
-      // For now, return mock slashing history
-      const mockEvents: SlashingEvent[] = []
-      
-      // Simulate some slashing events for testing
-      if (address === '0x3456789012345678901234567890123456789012') {
-        mockEvents.push({
-          timestamp: new Date(Date.now() - 86400000).toISOString(), // 1 day ago
-          amount: '1000',
-          reason: 'Double signing',
-          validator: address
-        })
-      }
-      
-      return mockEvents
-    } catch (error) {
-      console.error(`Error getting slashing history for ${address}:`, error)
-      return []
-    }
+    const score = (100 - uptime) * 4 + (100 - performance) * 0.5 + slashingEvents * 25
+    return Math.max(0, Math.min(100, score))
   }
 
   private generateRecommendations(validators: ValidatorInfo[]): string[] {
@@ -276,104 +239,28 @@ export class ValidatorMonitor {
     return recommendations
   }
   
-  private async generateRebalanceRecommendation(validators: ValidatorInfo[]): Promise<RebalanceRecommendation> {
+  /**
+   * Compare current delegations with the target allocation of a strategy and
+   * list the stake to move. Amounts are in wei, as tracked by
+   * CoreLiquidStakingManager.
+   */
+  async getRebalanceRecommendation(
+    validators: ValidatorInfo[],
+    strategyId: AllocationStrategyId = 'equal-weight',
+    params: AllocationParams = DEFAULT_ALLOCATION_PARAMS
+  ): Promise<RebalanceRecommendation> {
     try {
-      // Check with StakingManager if rebalancing is needed
-      let shouldRebalance = false
-      let reason = 'No rebalancing needed'
-      
-      if (this.stakingManager.address) {
-        try {
-          const [needsRebalance, contractReason] = await this.client.readContract({
-            address: this.stakingManager.address,
-            abi: this.stakingManager.abi,
-            functionName: 'shouldRebalance'
-          })
-          shouldRebalance = needsRebalance
-          reason = contractReason
-        } catch (error) {
-          console.warn('Could not check rebalancing status from contract:', error)
-        }
-      }
-      
-      // Fallback logic if contract call fails
-      if (!shouldRebalance) {
-        const analysisResult = this.analyzeRebalancingNeed(validators)
-        shouldRebalance = analysisResult.shouldRebalance
-        if (analysisResult.shouldRebalance) reason = analysisResult.reason
-      }
-      
-      const fromValidators: Array<{ address: string; amount: string; reason: string }> = []
-      const toValidators: Array<{ address: string; amount: string; expectedAPY: number }> = []
-      let estimatedImprovementAPY = 0
-      
-      if (shouldRebalance) {
-        // Find validators to move funds away from
-        const problemValidators = validators.filter(v => 
-          !v.isActive || 
-          v.riskScore > 60 || 
-          v.effectiveAPY < 6 || 
-          v.commission > 8
-        )
-        
-        // Find good validators to move funds to
-        const goodValidators = validators.filter(v => 
-          v.isActive && 
-          v.riskScore < 40 && 
-          v.effectiveAPY > 7 && 
-          v.commission < 6
-        ).sort((a, b) => b.effectiveAPY - a.effectiveAPY)
-        
-        // Calculate rebalancing moves
-        for (const badValidator of problemValidators) {
-          const delegatedAmount = await this.getCurrentDelegation(badValidator.address)
-          if (delegatedAmount > 0) {
-            fromValidators.push({
-              address: badValidator.address,
-              amount: delegatedAmount.toString(),
-              reason: this.getRebalanceReason(badValidator)
-            })
-          }
-        }
-        
-        // Distribute to good validators
-        const totalToRebalance = fromValidators.reduce((sum, v) => sum + parseInt(v.amount), 0)
-        const avgAPYBefore = fromValidators.reduce((sum, v, i) => {
-          const validator = problemValidators.find(pv => pv.address === v.address)
-          return sum + (validator?.effectiveAPY || 0)
-        }, 0) / fromValidators.length
-        
-        if (goodValidators.length > 0 && totalToRebalance > 0) {
-          const perValidatorAmount = Math.floor(totalToRebalance / Math.min(goodValidators.length, 3))
-          let remainingAmount = totalToRebalance
-          
-          goodValidators.slice(0, 3).forEach((validator, index) => {
-            const amount = index === 2 ? remainingAmount : perValidatorAmount
-            toValidators.push({
-              address: validator.address,
-              amount: amount.toString(),
-              expectedAPY: validator.effectiveAPY
-            })
-            remainingAmount -= amount
-          })
-          
-          const avgAPYAfter = toValidators.reduce((sum, v) => sum + v.expectedAPY, 0) / toValidators.length
-          estimatedImprovementAPY = avgAPYAfter - avgAPYBefore
-        }
-      }
-      
-      return {
-        shouldRebalance,
-        reason,
-        fromValidators,
-        toValidators,
-        estimatedImprovementAPY
+      const current: Record<string, bigint> = {}
+      for (const validator of validators) {
+        current[validator.address] = await this.getCurrentDelegation(validator.address)
       }
+
+      return recommendRebalance(validators, current, strategyId, params)
     } catch (error) {
       console.error('Error generating rebalance recommendation:', error)
       return {
         shouldRebalance: false,
-        reason: 'Error analyzing rebalancing need',
+        reason: `Error analyzing rebalancing need: ${error instanceof Error ? error.message : 'Unknown error'}`,
         fromValidators: [],
         toValidators: [],
         estimatedImprovementAPY: 0
@@ -381,60 +268,38 @@ export class ValidatorMonitor {
     }
   }
   
-  private analyzeRebalancingNeed(validators: ValidatorInfo[]): { shouldRebalance: boolean; reason: string } {
-    // Check for inactive validators
-    const inactiveValidators = validators.filter(v => !v.isActive)
-    if (inactiveValidators.length > 0) {
-      return { shouldRebalance: true, reason: `${inactiveValidators.length} validators are inactive` }
+  // Addresses of the validators CoreLiquidStakingManager has stake delegated to
+  async getDelegatedValidators(validators: ValidatorInfo[]): Promise<string[]> {
+    const delegated: string[] = []
+    for (const validator of validators) {
+      if (await this.getCurrentDelegation(validator.address) > 0n) delegated.push(validator.address)
     }
-    
-    // Check for high-risk validators
-    const highRiskValidators = validators.filter(v => v.riskScore > 60)
-    if (highRiskValidators.length > 0) {
-      return { shouldRebalance: true, reason: `${highRiskValidators.length} validators have high risk scores` }
-    }
-    
-    // Check for low APY validators
-    const lowAPYValidators = validators.filter(v => v.effectiveAPY < 6)
-    if (lowAPYValidators.length > 0) {
-      return { shouldRebalance: true, reason: `${lowAPYValidators.length} validators have low effective APY` }
-    }
-    
-    return { shouldRebalance: false, reason: 'All validators performing adequately' }
+    return delegated
   }
   
-  private async getCurrentDelegation(validatorAddress: string): Promise<number> {
+  private async getCurrentDelegation(validatorAddress: string): Promise<bigint> {
     try {
-      if (!this.stakingManager.address) return 0
+      if (!this.stakingManager.address) return 0n
       
       const delegation = await this.client.readContract({
         address: this.stakingManager.address,
         abi: this.stakingManager.abi,
-        functionName: 'delegatedCoreByValidator',
+        functionName: 'delegatedAmountByValidator',
         args: [validatorAddress]
       })
       
-      return parseInt(delegation.toString())
+      return delegation as bigint
     } catch (error) {
       console.warn(`Could not get delegation for validator ${validatorAddress}:`, error)
-      return 0
+      return 0n
     }
   }
   
-  private getRebalanceReason(validator: ValidatorInfo): string {
-    if (!validator.isActive) return 'Validator inactive'
-    if (validator.riskScore > 80) return 'Very high risk score'
-    if (validator.riskScore > 60) return 'High risk score'
-    if (validator.effectiveAPY < 5) return 'Very low APY'
-    if (validator.effectiveAPY < 6.5) return 'Low APY'
-    if (validator.commission > 10) return 'Very high commission'
-    if (validator.commission > 8) return 'High commission'
-    return 'Underperforming'
-  }
-
   async getValidatorDetails(address: string): Promise<ValidatorInfo | null> {
     try {
-      return await this.getValidatorInfo(address)
+      const records = await this.dataSource.getValidators()
+      const record = records.find(r => r.address.toLowerCase() === address.toLowerCase())
+      return record ? this.toValidatorInfo(record) : null
     } catch (error) {
       console.error(`Error getting validator details for ${address}:`, error)
       return null
@@ -453,118 +318,4 @@ export class ValidatorMonitor {
       return []
     }
   }
-  
-  // New methods for automated rebalancing
-  
-  /**
-   * Execute automated rebalancing if conditions are met
-   */
-  async executeAutomatedRebalancing(): Promise<{ success: boolean; message: string; txHash?: string }> {
-    try {
-      if (!this.walletClient) {
-        return { success: false, message: 'Wallet client not configured for automation' }
-      }
-      
-      const metrics = await this.checkValidators()
-      const rebalanceRec = metrics.rebalanceRecommendation
-      
-      if (!rebalanceRec.shouldRebalance) {
-        return { success: true, message: 'No rebalancing needed' }
-      }
-      
-      if (rebalanceRec.fromValidators.length === 0 || rebalanceRec.toValidators.length === 0) {
-        return { success: false, message: 'No valid rebalancing moves identified' }
-      }
-      
-      console.log(`Executing automated rebalancing: ${rebalanceRec.reason}`)
-      console.log(`Moving funds from ${rebalanceRec.fromValidators.length} validators to ${rebalanceRec.toValidators.length} validators`)
-      console.log(`Expected APY improvement: ${rebalanceRec.estimatedImprovementAPY.toFixed(2)}%`)
-      
-      // Prepare transaction parameters
-      const fromValidators = rebalanceRec.fromValidators.map(v => v.address)
-      const fromAmounts = rebalanceRec.fromValidators.map(v => BigInt(v.amount))
-      const toValidators = rebalanceRec.toValidators.map(v => v.address)
-      const toAmounts = rebalanceRec.toValidators.map(v => BigInt(v.amount))
-      
-      // Execute rebalancing transaction
-      const txHash = await this.walletClient.writeContract({
-        address: this.stakingManager.address,
-        abi: this.stakingManager.abi,
-        functionName: 'rebalanceCoreStaking',
-        args: [fromValidators, fromAmounts, toValidators, toAmounts]
-      })
-      
-      console.log(`Rebalancing transaction submitted: ${txHash}`)
-      
-      return {
-        success: true,
-        message: `Rebalancing executed successfully. Expected APY improvement: ${rebalanceRec.estimatedImprovementAPY.toFixed(2)}%`,
-        txHash
-      }
-    } catch (error) {
-      console.error('Error executing automated rebalancing:', error)
-      return {
-        success: false,
-        message: `Rebalancing failed: ${error instanceof Error ? error.message : 'Unknown error'}`
-      }
-    }
-  }
-  
-  /**
-   * Simulate validator state changes for testing
-   */
-  async simulateValidatorStateChange(validatorAddress: string, changes: {
-    status?: boolean
-    commission?: number
-    hybridScore?: number
-  }): Promise<{ success: boolean; message: string }> {
-    try {
-      if (!this.walletClient) {
-        return { success: false, message: 'Wallet client not configured for simulation' }
-      }
-      
-      const results = []
-      
-      if (changes.status !== undefined) {
-        const txHash = await this.walletClient.writeContract({
-          address: this.mockCoreStaking.address,
-          abi: this.mockCoreStaking.abi,
-          functionName: 'setValidatorStatus',
-          args: [validatorAddress, changes.status]
-        })
-        results.push(`Status changed to ${changes.status}: ${txHash}`)
-      }
-      
-      if (changes.commission !== undefined) {
-        const txHash = await this.walletClient.writeContract({
-          address: this.mockCoreStaking.address,
-          abi: this.mockCoreStaking.abi,
-          functionName: 'setValidatorCommission',
-          args: [validatorAddress, BigInt(changes.commission * 100)] // Convert to basis points
-        })
-        results.push(`Commission changed to ${changes.commission}%: ${txHash}`)
-      }
-      
-      if (changes.hybridScore !== undefined) {
-        const txHash = await this.walletClient.writeContract({
-          address: this.mockCoreStaking.address,
-          abi: this.mockCoreStaking.abi,
-          functionName: 'setValidatorHybridScore',
-          args: [validatorAddress, BigInt(changes.hybridScore * 10)] // Convert to contract format
-        })
-        results.push(`Hybrid score changed to ${changes.hybridScore}%: ${txHash}`)
-      }
-      
-      return {
-        success: true,
-        message: `Validator state changes applied: ${results.join(', ')}`
-      }
-    } catch (error) {
-      console.error('Error simulating validator state change:', error)
-      return {
-        success: false,
-        message: `Simulation failed: ${error instanceof Error ? error.message : 'Unknown error'}`
-      }
-    }
-  }
 }
\ No newline at end of file
@@ -0,0 +1,97 @@
+import { MetricsCollector } from './MetricsCollector'
+import { AlertManager } from './AlertManager'
+import { AlertNotifier } from './AlertNotifier'
+import { AutomationEngine } from './AutomationEngine'
+import { AutomatedRebalancer } from './AutomatedRebalancer'
+import { RebalanceExecutor } from './RebalanceExecutor'
+import { ActionRequestManager } from './ActionRequests'
+import { FeeManager } from './FeeManager'
+import { Guardian } from './Guardian'
+import { LiquidityManager } from './LiquidityManager'
+import { TaskScheduler } from './TaskScheduler'
+import { ContractMonitor } from './ContractMonitor'
+import { ValidatorMonitor } from './ValidatorMonitor'
+import { ValidatorHistory } from './ValidatorHistory'
+import { PriceHistory } from './PriceHistory'
+import { EventIndexer, createEventIndexer } from './EventIndexer'
+import { EventStore } from '../storage/EventStore'
+import { MonitoredNetwork, getMonitoredNetworks } from '../config/networks'
+
+export interface NetworkMonitor {
+  network: MonitoredNetwork
+  chainId: number
+  contractMonitor: ContractMonitor
+  validatorMonitor: ValidatorMonitor
+  eventIndexer: EventIndexer
+}
+
+// Service instances shared between the scheduled jobs in index.ts and the
+// API routes, so both read and write the same state
+export const metricsCollector = new MetricsCollector()
+export const alertManager = new AlertManager()
+export const alertNotifier = new AlertNotifier()
+alertManager.setNotifier(alertNotifier)
+export const validatorHistory = new ValidatorHistory()
+export const priceHistory = new PriceHistory()
+
+// One set of monitors per network in MONITORED_NETWORKS, all indexing into one event store
+const eventStore = new EventStore()
+export const networkMonitors: NetworkMonitor[] = getMonitoredNetworks().map(network => ({
+  network,
+  chainId: network.chain.id,
+  contractMonitor: new ContractMonitor(network, eventStore),
+  validatorMonitor: new ValidatorMonitor(network),
+  eventIndexer: createEventIndexer(network, eventStore)
+}))
+
+/**
+ * Monitors for a chain id, or for the default (first configured) network when
+ * none is given. Returns undefined for a chain that isn't monitored.
+ */
+export function getNetworkMonitor(chainId?: number): NetworkMonitor | undefined {
+  return chainId === undefined ? networkMonitors[0] : networkMonitors.find(m => m.chainId === chainId)
+}
+
+export function isMonitoredChain(chainId: number): boolean {
+  return networkMonitors.some(m => m.chainId === chainId)
+}
+
+export const { eventIndexer, contractMonitor } = networkMonitors[0]
+
+/**
+ * Monitors of the one network the automation engine, fee and liquidity
+ * managers, guardian and rebalancer act on: AUTOMATION_NETWORK, or the
+ * default network when unset. Other monitored networks are only observed.
+ */
+function getAutomationMonitor(): NetworkMonitor {
+  const key = process.env.AUTOMATION_NETWORK
+  if (!key) return networkMonitors[0]
+
+  const monitor = networkMonitors.find(m => m.network.key === key)
+  if (!monitor) {
+    throw new Error(`AUTOMATION_NETWORK ${key} is not one of MONITORED_NETWORKS: ${networkMonitors.map(m => m.network.key).join(', ')}`)
+  }
+  return monitor
+}
+
+export const automationMonitor = getAutomationMonitor()
+export const feeManager = new FeeManager(automationMonitor.network)
+export const automationEngine = new AutomationEngine(
+  alertManager,
+  automationMonitor.contractMonitor,
+  new TaskScheduler(),
+  new LiquidityManager(automationMonitor.network),
+  feeManager,
+  metricsCollector,
+  new Guardian(automationMonitor.network),
+  priceHistory,
+  automationMonitor.validatorMonitor
+)
+export const rebalancer = new AutomatedRebalancer(
+  60, // 60 minute intervals
+  automationMonitor.validatorMonitor,
+  new RebalanceExecutor(automationMonitor.network)
+)
+
+// Privileged actions queued for admin approval; route modules register their action types
+export const actionRequests = new ActionRequestManager()
@@ -0,0 +1,113 @@
+import type { Database } from 'bun:sqlite'
+import { openDatabase } from './database'
+import type { ActionAuditEntry, ActionRequest, ActionRequestStatus } from '../services/ActionRequests'
+
+interface AuditRow {
+  id: number
+  request_id: string
+  timestamp: number
+  actor: string
+  role: string
+  event: ActionAuditEntry['event']
+  detail: string | null
+}
+
+/**
+ * SQLite store for privileged action requests (kept as JSON, with type,
+ * status and creation time as columns) and their append-only audit trail.
+ */
+export class ActionRequestStore {
+  private db: Database
+
+  constructor(databaseName: string = 'automation') {
+    this.db = openDatabase(databaseName)
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS action_requests (
+        id TEXT PRIMARY KEY,
+        type TEXT NOT NULL,
+        status TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        data TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_action_requests_status ON action_requests (status, created_at);
+      CREATE TABLE IF NOT EXISTS action_audit (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        request_id TEXT NOT NULL,
+        timestamp INTEGER NOT NULL,
+        actor TEXT NOT NULL,
+        role TEXT NOT NULL,
+        event TEXT NOT NULL,
+        detail TEXT
+      );
+      CREATE INDEX IF NOT EXISTS idx_action_audit_request ON action_audit (request_id, id);
+    `)
+  }
+
+  save(request: ActionRequest): void {
+    this.db
+      .prepare('INSERT OR REPLACE INTO action_requests (id, type, status, created_at, data) VALUES (?, ?, ?, ?, ?)')
+      .run(request.id, request.type, request.status, new Date(request.requestedAt).getTime(), JSON.stringify(request))
+  }
+
+  get(id: string): ActionRequest | null {
+    const row = this.db.prepare('SELECT data FROM action_requests WHERE id = ?').get(id) as { data: string } | null
+    return row ? JSON.parse(row.data) : null
+  }
+
+  // Requests newest first, optionally filtered by status and type
+  list(filter: { status?: ActionRequestStatus; type?: string } = {}, limit: number = 50): ActionRequest[] {
+    const clauses: string[] = []
+    const params: any[] = []
+    if (filter.status) {
+      clauses.push('status = ?')
+      params.push(filter.status)
+    }
+    if (filter.type) {
+      clauses.push('type = ?')
+      params.push(filter.type)
+    }
+
+    const where = clauses.length > 0 ? `WHERE ${clauses.join(' AND ')}` : ''
+    const rows = this.db
+      .prepare(`SELECT data FROM action_requests ${where} ORDER BY created_at DESC LIMIT ?`)
+      .all(...params, limit) as Array<{ data: string }>
+    return rows.map(row => JSON.parse(row.data))
+  }
+
+  addAudit(entry: Omit<ActionAuditEntry, 'id'>): ActionAuditEntry {
+    const result = this.db.prepare(`
+      INSERT INTO action_audit (request_id, timestamp, actor, role, event, detail)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `).run(
+      entry.requestId,
+      new Date(entry.timestamp).getTime(),
+      entry.actor,
+      entry.role,
+      entry.event,
+      entry.detail === undefined ? null : JSON.stringify(entry.detail)
+    )
+    return { id: Number(result.lastInsertRowid), ...entry }
+  }
+
+  // Audit entries oldest first, for one request or (newest `limit`) across all of them
+  getAudit(requestId?: string, limit: number = 200): ActionAuditEntry[] {
+    const rows = (requestId
+      ? this.db.prepare('SELECT * FROM action_audit WHERE request_id = ? ORDER BY id ASC').all(requestId)
+      : this.db.prepare('SELECT * FROM (SELECT * FROM action_audit ORDER BY id DESC LIMIT ?) ORDER BY id ASC').all(limit)
+    ) as AuditRow[]
+
+    return rows.map(row => ({
+      id: row.id,
+      requestId: row.request_id,
+      timestamp: new Date(row.timestamp).toISOString(),
+      actor: row.actor,
+      role: row.role,
+      event: row.event,
+      detail: row.detail === null ? undefined : JSON.parse(row.detail)
+    }))
+  }
+
+  close(): void {
+    this.db.close()
+  }
+}
@@ -0,0 +1,68 @@
+import * as fs from 'fs'
+import * as path from 'path'
+import YAML from 'yaml'
+import { z } from 'zod'
+import { DATA_DIR } from './database'
+import { alertRuleSchema } from '../middleware/validation'
+import { DEFAULT_ALERT_RULES } from '../config/alertRules'
+import type { AlertRule } from '../services/AlertManager'
+
+const rulesFileSchema = z.union([
+  z.array(alertRuleSchema),
+  z.object({ rules: z.array(alertRuleSchema) })
+])
+
+/**
+ * Loads and saves declarative alert rules as a JSON or YAML file (chosen by
+ * extension). A file path of null keeps rules in memory only.
+ */
+export class AlertRuleStore {
+  constructor(
+    private filePath: string | null = process.env.ALERT_RULES_FILE || path.join(DATA_DIR, 'alert-rules.json')
+  ) {}
+
+  load(): AlertRule[] {
+    if (!this.filePath || !fs.existsSync(this.filePath)) {
+      return DEFAULT_ALERT_RULES.map(rule => ({ ...rule }))
+    }
+
+    const content = fs.readFileSync(this.filePath, 'utf8')
+    const raw = this.isYaml() ? YAML.parse(content) : JSON.parse(content)
+    const parsed = rulesFileSchema.parse(raw)
+    const rules = Array.isArray(parsed) ? parsed : parsed.rules
+
+    const ids = new Set<string>()
+    for (const rule of rules) {
+      if (ids.has(rule.id)) throw new Error(`Duplicate alert rule id in ${this.filePath}: ${rule.id}`)
+      ids.add(rule.id)
+    }
+
+    return rules as AlertRule[]
+  }
+
+  save(rules: AlertRule[]): void {
+    if (!this.filePath) return
+
+    const dir = path.dirname(this.filePath)
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true })
+    }
+
+    const content = this.isYaml()
+      ? YAML.stringify({ rules })
+      : JSON.stringify({ rules }, null, 2) + '\n'
+
+    // Write then rename so a crash never leaves a half-written rules file
+    const tmpPath = `${this.filePath}.tmp`
+    fs.writeFileSync(tmpPath, content)
+    fs.renameSync(tmpPath, this.filePath)
+  }
+
+  getFilePath(): string | null {
+    return this.filePath
+  }
+
+  private isYaml(): boolean {
+    return /\.ya?ml$/i.test(this.filePath || '')
+  }
+}
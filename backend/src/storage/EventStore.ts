@@ -0,0 +1,252 @@
+import type { Database } from 'bun:sqlite'
+import { openDatabase } from './database'
+
+export type EventCategory = 'deposit' | 'redeem' | 'withdrawal' | 'rebalance' | 'fee' | 'rewards' | 'sparks' | 'governance'
+
+export interface IndexedEvent {
+  id: string // `${chainId}:${transactionHash}:${logIndex}`
+  chainId: number
+  contract: string // e.g. 'StakeBasket'
+  address: string
+  eventName: string
+  category: EventCategory
+  account: string | null // lowercased user/voter/keeper/recipient the event concerns
+  blockNumber: number
+  blockHash: string
+  transactionHash: string
+  logIndex: number
+  timestamp: string // block timestamp
+  gasUsed: number | null
+  args: Record<string, any> // decoded arguments, uint256 values as decimal strings
+}
+
+export interface EventQuery {
+  chainId?: number
+  contract?: string
+  eventName?: string
+  eventKeys?: string[] // `${contract}.${eventName}` pairs, e.g. 'StakeBasket.Deposited'
+  categories?: EventCategory[]
+  account?: string
+  fromBlock?: number
+  toBlock?: number
+  limit?: number
+  offset?: number
+}
+
+export interface BlockCursor {
+  blockNumber: number
+  blockHash: string
+  updatedAt: string
+}
+
+interface EventRow {
+  id: string
+  chain_id: number
+  contract: string
+  address: string
+  event_name: string
+  category: EventCategory
+  account: string | null
+  block_number: number
+  block_hash: string
+  transaction_hash: string
+  log_index: number
+  timestamp: number
+  gas_used: number | null
+  args: string
+}
+
+/**
+ * SQLite store for decoded contract events, the per-chain block cursor of the
+ * indexer and the recent block hashes it uses to detect reorgs.
+ */
+export class EventStore {
+  private db: Database
+
+  constructor(databaseName: string = 'events') {
+    this.db = openDatabase(databaseName)
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS events (
+        id TEXT PRIMARY KEY,
+        chain_id INTEGER NOT NULL,
+        contract TEXT NOT NULL,
+        address TEXT NOT NULL,
+        event_name TEXT NOT NULL,
+        category TEXT NOT NULL,
+        account TEXT,
+        block_number INTEGER NOT NULL,
+        block_hash TEXT NOT NULL,
+        transaction_hash TEXT NOT NULL,
+        log_index INTEGER NOT NULL,
+        timestamp INTEGER NOT NULL,
+        gas_used INTEGER,
+        args TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_events_chain_block ON events (chain_id, block_number, log_index);
+      CREATE INDEX IF NOT EXISTS idx_events_account ON events (account, block_number);
+      CREATE TABLE IF NOT EXISTS blocks (
+        chain_id INTEGER NOT NULL,
+        block_number INTEGER NOT NULL,
+        block_hash TEXT NOT NULL,
+        PRIMARY KEY (chain_id, block_number)
+      );
+      CREATE TABLE IF NOT EXISTS cursors (
+        chain_id INTEGER PRIMARY KEY,
+        block_number INTEGER NOT NULL,
+        block_hash TEXT NOT NULL,
+        updated_at INTEGER NOT NULL
+      );
+    `)
+  }
+
+  /**
+   * Store a synced block range atomically: its events, the hashes of the
+   * blocks seen, and the advanced cursor.
+   */
+  commitRange(chainId: number, events: IndexedEvent[], blocks: Array<{ number: number; hash: string }>, cursor: { number: number; hash: string }): void {
+    const insertEvent = this.db.prepare(`
+      INSERT OR REPLACE INTO events
+        (id, chain_id, contract, address, event_name, category, account, block_number, block_hash, transaction_hash, log_index, timestamp, gas_used, args)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `)
+    const insertBlock = this.db.prepare('INSERT OR REPLACE INTO blocks (chain_id, block_number, block_hash) VALUES (?, ?, ?)')
+
+    this.db.transaction(() => {
+      for (const event of events) {
+        insertEvent.run(
+          event.id,
+          event.chainId,
+          event.contract,
+          event.address,
+          event.eventName,
+          event.category,
+          event.account,
+          event.blockNumber,
+          event.blockHash,
+          event.transactionHash,
+          event.logIndex,
+          new Date(event.timestamp).getTime(),
+          event.gasUsed,
+          JSON.stringify(event.args)
+        )
+      }
+      for (const block of blocks) {
+        insertBlock.run(chainId, block.number, block.hash)
+      }
+      this.setCursor(chainId, cursor.number, cursor.hash)
+    })()
+  }
+
+  queryEvents(query: EventQuery): { events: IndexedEvent[]; total: number } {
+    const conditions: string[] = []
+    const params: any[] = []
+
+    if (query.chainId !== undefined) {
+      conditions.push('chain_id = ?')
+      params.push(query.chainId)
+    }
+    if (query.contract) {
+      conditions.push('contract = ?')
+      params.push(query.contract)
+    }
+    if (query.eventName) {
+      conditions.push('event_name = ?')
+      params.push(query.eventName)
+    }
+    if (query.eventKeys && query.eventKeys.length > 0) {
+      conditions.push(`(contract || '.' || event_name) IN (${query.eventKeys.map(() => '?').join(', ')})`)
+      params.push(...query.eventKeys)
+    }
+    if (query.categories && query.categories.length > 0) {
+      conditions.push(`category IN (${query.categories.map(() => '?').join(', ')})`)
+      params.push(...query.categories)
+    }
+    if (query.account) {
+      conditions.push('account = ?')
+      params.push(query.account.toLowerCase())
+    }
+    if (query.fromBlock !== undefined) {
+      conditions.push('block_number >= ?')
+      params.push(query.fromBlock)
+    }
+    if (query.toBlock !== undefined) {
+      conditions.push('block_number <= ?')
+      params.push(query.toBlock)
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''
+    const { total } = this.db.prepare(`SELECT COUNT(*) AS total FROM events ${where}`).get(...params) as { total: number }
+    const rows = this.db
+      .prepare(`SELECT * FROM events ${where} ORDER BY block_number DESC, log_index DESC LIMIT ? OFFSET ?`)
+      .all(...params, query.limit ?? 50, query.offset ?? 0) as EventRow[]
+
+    return { events: rows.map(toEvent), total }
+  }
+
+  getCursor(chainId: number): BlockCursor | null {
+    const row = this.db
+      .prepare('SELECT block_number, block_hash, updated_at FROM cursors WHERE chain_id = ?')
+      .get(chainId) as { block_number: number; block_hash: string; updated_at: number } | null
+
+    return row
+      ? { blockNumber: row.block_number, blockHash: row.block_hash, updatedAt: new Date(row.updated_at).toISOString() }
+      : null
+  }
+
+  // Recorded block hashes, newest first
+  getBlockHashes(chainId: number, limit: number): Array<{ number: number; hash: string }> {
+    const rows = this.db
+      .prepare('SELECT block_number, block_hash FROM blocks WHERE chain_id = ? ORDER BY block_number DESC LIMIT ?')
+      .all(chainId, limit) as Array<{ block_number: number; block_hash: string }>
+
+    return rows.map(row => ({ number: row.block_number, hash: row.block_hash }))
+  }
+
+  /**
+   * Drop everything above a block (events, block hashes) and move the cursor
+   * back to it. Returns the number of events removed.
+   */
+  rollback(chainId: number, blockNumber: number, blockHash: string): number {
+    let removed = 0
+    this.db.transaction(() => {
+      removed = this.db.prepare('DELETE FROM events WHERE chain_id = ? AND block_number > ?').run(chainId, blockNumber).changes
+      this.db.prepare('DELETE FROM blocks WHERE chain_id = ? AND block_number > ?').run(chainId, blockNumber)
+      this.setCursor(chainId, blockNumber, blockHash)
+    })()
+    return removed
+  }
+
+  // Forget block hashes too old to matter for reorg detection
+  pruneBlockHashes(chainId: number, belowBlock: number): void {
+    this.db.prepare('DELETE FROM blocks WHERE chain_id = ? AND block_number < ?').run(chainId, belowBlock)
+  }
+
+  close(): void {
+    this.db.close()
+  }
+
+  private setCursor(chainId: number, blockNumber: number, blockHash: string): void {
+    this.db
+      .prepare('INSERT OR REPLACE INTO cursors (chain_id, block_number, block_hash, updated_at) VALUES (?, ?, ?, ?)')
+      .run(chainId, blockNumber, blockHash, Date.now())
+  }
+}
+
+function toEvent(row: EventRow): IndexedEvent {
+  return {
+    id: row.id,
+    chainId: row.chain_id,
+    contract: row.contract,
+    address: row.address,
+    eventName: row.event_name,
+    category: row.category,
+    account: row.account,
+    blockNumber: row.block_number,
+    blockHash: row.block_hash,
+    transactionHash: row.transaction_hash,
+    logIndex: row.log_index,
+    timestamp: new Date(row.timestamp).toISOString(),
+    gasUsed: row.gas_used,
+    args: JSON.parse(row.args)
+  }
+}
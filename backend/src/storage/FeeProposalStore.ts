@@ -0,0 +1,48 @@
+import type { Database } from 'bun:sqlite'
+import { openDatabase } from './database'
+import type { FeeProposal, FeeProposalStatus } from '../services/FeeManager'
+
+/**
+ * SQLite store for fee change proposals. Each proposal is kept as JSON,
+ * with its status and creation time as columns to filter on.
+ */
+export class FeeProposalStore {
+  private db: Database
+
+  constructor(databaseName: string = 'automation') {
+    this.db = openDatabase(databaseName)
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS fee_proposals (
+        id TEXT PRIMARY KEY,
+        created_at INTEGER NOT NULL,
+        status TEXT NOT NULL,
+        data TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_fee_proposals_status ON fee_proposals (status, created_at);
+    `)
+  }
+
+  save(proposal: FeeProposal): void {
+    this.db
+      .prepare('INSERT OR REPLACE INTO fee_proposals (id, created_at, status, data) VALUES (?, ?, ?, ?)')
+      .run(proposal.id, new Date(proposal.createdAt).getTime(), proposal.status, JSON.stringify(proposal))
+  }
+
+  get(id: string): FeeProposal | null {
+    const row = this.db.prepare('SELECT data FROM fee_proposals WHERE id = ?').get(id) as { data: string } | null
+    return row ? JSON.parse(row.data) : null
+  }
+
+  // Proposals newest first, optionally only those in one of `statuses`
+  list(statuses: FeeProposalStatus[] = [], limit: number = 50): FeeProposal[] {
+    const where = statuses.length > 0 ? `WHERE status IN (${statuses.map(() => '?').join(', ')})` : ''
+    const rows = this.db
+      .prepare(`SELECT data FROM fee_proposals ${where} ORDER BY created_at DESC LIMIT ?`)
+      .all(...statuses, limit) as Array<{ data: string }>
+    return rows.map(row => JSON.parse(row.data))
+  }
+
+  close(): void {
+    this.db.close()
+  }
+}
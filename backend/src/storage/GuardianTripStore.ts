@@ -0,0 +1,61 @@
+import type { Database } from 'bun:sqlite'
+import { openDatabase } from './database'
+import type { GuardianTrip } from '../services/Guardian'
+
+/**
+ * SQLite store for guardian trips, per chain. Each trip is kept as JSON, with
+ * its trip and reset times as columns so the open trip and the last reset can
+ * be found after a restart.
+ */
+export class GuardianTripStore {
+  private db: Database
+
+  constructor(databaseName: string = 'automation') {
+    this.db = openDatabase(databaseName)
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS guardian_trips (
+        id TEXT NOT NULL,
+        chain_id INTEGER NOT NULL,
+        tripped_at INTEGER NOT NULL,
+        reset_at INTEGER,
+        data TEXT NOT NULL,
+        PRIMARY KEY (chain_id, id)
+      );
+      CREATE INDEX IF NOT EXISTS idx_guardian_trips_chain ON guardian_trips (chain_id, tripped_at);
+    `)
+  }
+
+  save(chainId: number, trip: GuardianTrip): void {
+    this.db
+      .prepare('INSERT OR REPLACE INTO guardian_trips (id, chain_id, tripped_at, reset_at, data) VALUES (?, ?, ?, ?, ?)')
+      .run(trip.id, chainId, new Date(trip.trippedAt).getTime(), trip.resetAt ? new Date(trip.resetAt).getTime() : null, JSON.stringify(trip))
+  }
+
+  // The trip that hasn't been reset yet, if any
+  getOpen(chainId: number): GuardianTrip | null {
+    const row = this.db
+      .prepare('SELECT data FROM guardian_trips WHERE chain_id = ? AND reset_at IS NULL ORDER BY tripped_at DESC LIMIT 1')
+      .get(chainId) as { data: string } | null
+    return row ? JSON.parse(row.data) : null
+  }
+
+  // Epoch ms of the most recent reset, 0 when the guardian was never reset
+  getLastResetAt(chainId: number): number {
+    const row = this.db
+      .prepare('SELECT MAX(reset_at) AS reset_at FROM guardian_trips WHERE chain_id = ?')
+      .get(chainId) as { reset_at: number | null }
+    return row.reset_at ?? 0
+  }
+
+  // Trips newest first
+  list(chainId: number, limit: number = 50): GuardianTrip[] {
+    const rows = this.db
+      .prepare('SELECT data FROM guardian_trips WHERE chain_id = ? ORDER BY tripped_at DESC LIMIT ?')
+      .all(chainId, limit) as Array<{ data: string }>
+    return rows.map(row => JSON.parse(row.data))
+  }
+
+  close(): void {
+    this.db.close()
+  }
+}
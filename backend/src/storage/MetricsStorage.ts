@@ -0,0 +1,88 @@
+import type { HistoricalMetric } from '../services/MetricsCollector'
+import { SqliteMetricsStorage } from './SqliteMetricsStorage'
+
+export interface MetricsQuery {
+  type: string
+  from: number // epoch ms, inclusive
+  to?: number // epoch ms, exclusive (defaults to now)
+  resolution?: string // 'raw' or a rollup label such as '1h'
+  limit?: number // most recent N points within the range
+  chainId?: number // only points collected from this network
+}
+
+/**
+ * Storage backend for historical metrics. Implementations must return
+ * query results in ascending timestamp order.
+ */
+export interface MetricsStorage {
+  insert(metric: HistoricalMetric): Promise<void>
+  insertMany(metrics: HistoricalMetric[]): Promise<void>
+  query(query: MetricsQuery): Promise<HistoricalMetric[]>
+  deleteRange(query: Omit<MetricsQuery, 'limit'>): Promise<number>
+  getTypes(): Promise<string[]>
+  count(type?: string): Promise<number>
+  close(): void
+}
+
+const toMillis = (metric: HistoricalMetric) => new Date(metric.timestamp).getTime()
+
+function matches(metric: HistoricalMetric, query: Omit<MetricsQuery, 'limit'>): boolean {
+  const time = toMillis(metric)
+  const to = query.to ?? Date.now()
+
+  return metric.type === query.type &&
+    time >= query.from &&
+    time < to &&
+    (query.resolution === undefined || metric.resolution === query.resolution) &&
+    (query.chainId === undefined || metric.chainId === query.chainId)
+}
+
+export class MemoryMetricsStorage implements MetricsStorage {
+  private metrics: HistoricalMetric[] = []
+
+  async insert(metric: HistoricalMetric): Promise<void> {
+    this.metrics.push(metric)
+    this.metrics.sort((a, b) => toMillis(a) - toMillis(b))
+  }
+
+  async insertMany(metrics: HistoricalMetric[]): Promise<void> {
+    this.metrics.push(...metrics)
+    this.metrics.sort((a, b) => toMillis(a) - toMillis(b))
+  }
+
+  async query(query: MetricsQuery): Promise<HistoricalMetric[]> {
+    const results = this.metrics.filter(m => matches(m, query))
+    return query.limit ? results.slice(-query.limit) : results
+  }
+
+  async deleteRange(query: Omit<MetricsQuery, 'limit'>): Promise<number> {
+    const before = this.metrics.length
+    this.metrics = this.metrics.filter(m => !matches(m, query))
+    return before - this.metrics.length
+  }
+
+  async getTypes(): Promise<string[]> {
+    return [...new Set(this.metrics.map(m => m.type))]
+  }
+
+  async count(type?: string): Promise<number> {
+    return type ? this.metrics.filter(m => m.type === type).length : this.metrics.length
+  }
+
+  close(): void {
+    this.metrics = []
+  }
+}
+
+/**
+ * Create the storage backend selected by METRICS_STORAGE ('sqlite' by default, or 'memory')
+ */
+export function createMetricsStorage(): MetricsStorage {
+  const backend = process.env.METRICS_STORAGE || 'sqlite'
+
+  if (backend === 'memory') {
+    return new MemoryMetricsStorage()
+  }
+
+  return new SqliteMetricsStorage()
+}
@@ -0,0 +1,95 @@
+import type { Database } from 'bun:sqlite'
+import { openDatabase } from './database'
+
+// One USD price for an asset, as one source reported it at one moment
+export interface PriceObservation {
+  chainId: number
+  asset: string
+  source: string
+  timestamp: string
+  price: number
+}
+
+interface ObservationRow {
+  chain_id: number
+  asset: string
+  source: string
+  timestamp: number
+  price: number
+}
+
+function toObservation(row: ObservationRow): PriceObservation {
+  return {
+    chainId: row.chain_id,
+    asset: row.asset,
+    source: row.source,
+    timestamp: new Date(row.timestamp).toISOString(),
+    price: row.price
+  }
+}
+
+/**
+ * SQLite store for every price the backend observes, per asset and source,
+ * read back as time series for candles and volatility.
+ */
+export class PriceHistoryStore {
+  private db: Database
+
+  constructor(databaseName: string = 'prices') {
+    this.db = openDatabase(databaseName)
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS price_observations (
+        chain_id INTEGER NOT NULL,
+        asset TEXT NOT NULL,
+        source TEXT NOT NULL,
+        timestamp INTEGER NOT NULL,
+        price REAL NOT NULL,
+        PRIMARY KEY (chain_id, asset, source, timestamp)
+      );
+      CREATE INDEX IF NOT EXISTS idx_price_observations_asset_time ON price_observations (chain_id, asset, timestamp);
+      CREATE INDEX IF NOT EXISTS idx_price_observations_time ON price_observations (timestamp);
+    `)
+  }
+
+  insertMany(observations: PriceObservation[]): void {
+    const insert = this.db.prepare(`
+      INSERT OR REPLACE INTO price_observations (chain_id, asset, source, timestamp, price)
+      VALUES (?, ?, ?, ?, ?)
+    `)
+
+    this.db.transaction(() => {
+      for (const observation of observations) {
+        insert.run(
+          observation.chainId,
+          observation.asset,
+          observation.source,
+          new Date(observation.timestamp).getTime(),
+          observation.price
+        )
+      }
+    })()
+  }
+
+  // One asset's observations from every source in [from, to) (epoch ms), oldest first
+  getObservations(chainId: number, asset: string, from: number, to: number): PriceObservation[] {
+    const rows = this.db
+      .prepare('SELECT * FROM price_observations WHERE chain_id = ? AND asset = ? AND timestamp >= ? AND timestamp < ? ORDER BY timestamp ASC')
+      .all(chainId, asset, from, to) as ObservationRow[]
+    return rows.map(toObservation)
+  }
+
+  getAssets(chainId: number): string[] {
+    const rows = this.db
+      .prepare('SELECT DISTINCT asset FROM price_observations WHERE chain_id = ? ORDER BY asset')
+      .all(chainId) as Array<{ asset: string }>
+    return rows.map(row => row.asset)
+  }
+
+  deleteBefore(timestamp: number): number {
+    return this.db.prepare('DELETE FROM price_observations WHERE timestamp < ?').run(timestamp).changes
+  }
+
+  close(): void {
+    this.db.close()
+  }
+}
@@ -0,0 +1,128 @@
+import type { Database } from 'bun:sqlite'
+import type { HistoricalMetric } from '../services/MetricsCollector'
+import type { MetricsQuery, MetricsStorage } from './MetricsStorage'
+import { openDatabase } from './database'
+
+interface MetricRow {
+  id: string
+  type: string
+  resolution: string
+  timestamp: number
+  samples: number
+  chain_id: number | null
+  data: string
+}
+
+/**
+ * SQLite-backed metrics storage. Survives restarts and keeps as much history
+ * as the retention policies in MetricsCollector allow.
+ */
+export class SqliteMetricsStorage implements MetricsStorage {
+  private db: Database
+
+  constructor(databaseName: string = 'metrics') {
+    this.db = openDatabase(databaseName)
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS metrics (
+        id TEXT PRIMARY KEY,
+        type TEXT NOT NULL,
+        resolution TEXT NOT NULL DEFAULT 'raw',
+        timestamp INTEGER NOT NULL,
+        samples INTEGER NOT NULL DEFAULT 1,
+        data TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_metrics_type_time ON metrics (type, timestamp);
+    `)
+
+    // Databases created before multi-chain monitoring have no chain_id column
+    const columns = this.db.prepare('PRAGMA table_info(metrics)').all() as Array<{ name: string }>
+    if (!columns.some(column => column.name === 'chain_id')) {
+      this.db.exec('ALTER TABLE metrics ADD COLUMN chain_id INTEGER')
+    }
+  }
+
+  async insert(metric: HistoricalMetric): Promise<void> {
+    await this.insertMany([metric])
+  }
+
+  async insertMany(metrics: HistoricalMetric[]): Promise<void> {
+    const statement = this.db.prepare(
+      'INSERT OR REPLACE INTO metrics (id, type, resolution, timestamp, samples, chain_id, data) VALUES (?, ?, ?, ?, ?, ?, ?)'
+    )
+    const insertAll = this.db.transaction((rows: HistoricalMetric[]) => {
+      for (const metric of rows) {
+        statement.run(
+          metric.id,
+          metric.type,
+          metric.resolution,
+          new Date(metric.timestamp).getTime(),
+          metric.samples,
+          metric.chainId ?? null,
+          JSON.stringify(metric.data)
+        )
+      }
+    })
+    insertAll(metrics)
+  }
+
+  async query(query: MetricsQuery): Promise<HistoricalMetric[]> {
+    const { clause, params } = this.buildWhere(query)
+
+    // Take the most recent N inside the range, then return them oldest first
+    const sql = query.limit
+      ? `SELECT * FROM (SELECT * FROM metrics WHERE ${clause} ORDER BY timestamp DESC LIMIT ?) ORDER BY timestamp ASC`
+      : `SELECT * FROM metrics WHERE ${clause} ORDER BY timestamp ASC`
+    const rows = this.db
+      .prepare(sql)
+      .all(...(query.limit ? [...params, query.limit] : params)) as MetricRow[]
+
+    return rows.map(row => ({
+      id: row.id,
+      type: row.type,
+      resolution: row.resolution,
+      samples: row.samples,
+      chainId: row.chain_id,
+      data: JSON.parse(row.data),
+      timestamp: new Date(row.timestamp).toISOString()
+    }))
+  }
+
+  async deleteRange(query: Omit<MetricsQuery, 'limit'>): Promise<number> {
+    const { clause, params } = this.buildWhere(query)
+    const result = this.db.prepare(`DELETE FROM metrics WHERE ${clause}`).run(...params)
+    return result.changes
+  }
+
+  async getTypes(): Promise<string[]> {
+    const rows = this.db.prepare('SELECT DISTINCT type FROM metrics').all() as Array<{ type: string }>
+    return rows.map(row => row.type)
+  }
+
+  async count(type?: string): Promise<number> {
+    const row = type
+      ? this.db.prepare('SELECT COUNT(*) AS total FROM metrics WHERE type = ?').get(type)
+      : this.db.prepare('SELECT COUNT(*) AS total FROM metrics').get()
+    return (row as { total: number }).total
+  }
+
+  close(): void {
+    this.db.close()
+  }
+
+  private buildWhere(query: Omit<MetricsQuery, 'limit'>) {
+    const conditions = ['type = ?', 'timestamp >= ?', 'timestamp < ?']
+    const params: Array<string | number> = [query.type, query.from, query.to ?? Date.now()]
+
+    if (query.resolution !== undefined) {
+      conditions.push('resolution = ?')
+      params.push(query.resolution)
+    }
+
+    if (query.chainId !== undefined) {
+      conditions.push('chain_id = ?')
+      params.push(query.chainId)
+    }
+
+    return { clause: conditions.join(' AND '), params }
+  }
+}
@@ -0,0 +1,173 @@
+import type { Database } from 'bun:sqlite'
+import { openDatabase } from './database'
+
+// A task runs every N minutes, or on a 5-field cron expression evaluated in UTC
+export type TaskSchedule =
+  | { type: 'interval'; minutes: number }
+  | { type: 'cron'; expression: string }
+
+// Scheduler state of a task that survives restarts
+export interface StoredTaskState {
+  id: string
+  enabled: boolean
+  schedule: TaskSchedule
+  parameters: Record<string, any>
+  lastRun: string | null
+  nextRun: string | null // null while the task is paused
+  runCount: number
+  failureCount: number
+}
+
+export interface TaskRun {
+  id: number
+  taskId: string
+  trigger: 'schedule' | 'manual'
+  startedAt: string
+  finishedAt: string
+  durationMs: number
+  outcome: 'success' | 'failed'
+  error: string | null
+  result: Record<string, any> | null // what the run did, as reported by the task
+}
+
+interface TaskStateRow {
+  id: string
+  enabled: number
+  schedule: string
+  parameters: string
+  last_run: number | null
+  next_run: number | null
+  run_count: number
+  failure_count: number
+}
+
+interface TaskRunRow {
+  id: number
+  task_id: string
+  trigger: TaskRun['trigger']
+  started_at: number
+  finished_at: number
+  duration_ms: number
+  outcome: TaskRun['outcome']
+  error: string | null
+  result: string | null
+}
+
+const toIso = (ms: number | null) => ms === null ? null : new Date(ms).toISOString()
+const toMs = (iso: string | null) => iso === null ? null : new Date(iso).getTime()
+
+/**
+ * SQLite store for automation task state (schedule, parameters, last and
+ * next run, counters) and the history of task runs.
+ */
+export class TaskStore {
+  private db: Database
+
+  constructor(databaseName: string = 'automation', private runsPerTask: number = 200) {
+    this.db = openDatabase(databaseName)
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS task_state (
+        id TEXT PRIMARY KEY,
+        enabled INTEGER NOT NULL,
+        schedule TEXT NOT NULL,
+        parameters TEXT NOT NULL,
+        last_run INTEGER,
+        next_run INTEGER,
+        run_count INTEGER NOT NULL,
+        failure_count INTEGER NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS task_runs (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        task_id TEXT NOT NULL,
+        trigger TEXT NOT NULL,
+        started_at INTEGER NOT NULL,
+        finished_at INTEGER NOT NULL,
+        duration_ms INTEGER NOT NULL,
+        outcome TEXT NOT NULL,
+        error TEXT,
+        result TEXT
+      );
+      CREATE INDEX IF NOT EXISTS idx_task_runs_task ON task_runs (task_id, id);
+    `)
+  }
+
+  getState(id: string): StoredTaskState | null {
+    const row = this.db.prepare('SELECT * FROM task_state WHERE id = ?').get(id) as TaskStateRow | null
+    if (!row) return null
+
+    return {
+      id: row.id,
+      enabled: row.enabled === 1,
+      schedule: JSON.parse(row.schedule),
+      parameters: JSON.parse(row.parameters),
+      lastRun: toIso(row.last_run),
+      nextRun: toIso(row.next_run),
+      runCount: row.run_count,
+      failureCount: row.failure_count
+    }
+  }
+
+  saveState(state: StoredTaskState): void {
+    this.db.prepare(`
+      INSERT OR REPLACE INTO task_state (id, enabled, schedule, parameters, last_run, next_run, run_count, failure_count)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      state.id,
+      state.enabled ? 1 : 0,
+      JSON.stringify(state.schedule),
+      JSON.stringify(state.parameters),
+      toMs(state.lastRun),
+      toMs(state.nextRun),
+      state.runCount,
+      state.failureCount
+    )
+  }
+
+  // Record a finished run, keeping only the most recent runsPerTask for the task
+  addRun(run: Omit<TaskRun, 'id'>): TaskRun {
+    const result = this.db.prepare(`
+      INSERT INTO task_runs (task_id, trigger, started_at, finished_at, duration_ms, outcome, error, result)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      run.taskId,
+      run.trigger,
+      toMs(run.startedAt),
+      toMs(run.finishedAt),
+      run.durationMs,
+      run.outcome,
+      run.error,
+      run.result === null ? null : JSON.stringify(run.result)
+    )
+
+    this.db.prepare(`
+      DELETE FROM task_runs WHERE task_id = ? AND id NOT IN (
+        SELECT id FROM task_runs WHERE task_id = ? ORDER BY id DESC LIMIT ?
+      )
+    `).run(run.taskId, run.taskId, this.runsPerTask)
+
+    return { id: Number(result.lastInsertRowid), ...run }
+  }
+
+  // Runs of a task, newest first
+  getRuns(taskId: string, limit: number = 50): TaskRun[] {
+    const rows = this.db
+      .prepare('SELECT * FROM task_runs WHERE task_id = ? ORDER BY id DESC LIMIT ?')
+      .all(taskId, limit) as TaskRunRow[]
+
+    return rows.map(row => ({
+      id: row.id,
+      taskId: row.task_id,
+      trigger: row.trigger,
+      startedAt: toIso(row.started_at)!,
+      finishedAt: toIso(row.finished_at)!,
+      durationMs: row.duration_ms,
+      outcome: row.outcome,
+      error: row.error,
+      result: row.result === null ? null : JSON.parse(row.result)
+    }))
+  }
+
+  close(): void {
+    this.db.close()
+  }
+}
@@ -0,0 +1,139 @@
+import type { Database } from 'bun:sqlite'
+import { openDatabase } from './database'
+
+// One validator's state as seen in one monitoring cycle
+export interface ValidatorSnapshot {
+  chainId: number
+  address: string // lowercased operator address
+  timestamp: string
+  isActive: boolean
+  commission: number
+  uptime: number
+  performance: number
+  totalDelegated: string
+  effectiveAPY: number
+  riskScore: number
+  slashingEvents: number // slashes in the data source's lookback window
+}
+
+interface SnapshotRow {
+  chain_id: number
+  address: string
+  timestamp: number
+  is_active: number
+  commission: number
+  uptime: number
+  performance: number
+  total_delegated: string
+  effective_apy: number
+  risk_score: number
+  slashing_events: number
+}
+
+function toSnapshot(row: SnapshotRow): ValidatorSnapshot {
+  return {
+    chainId: row.chain_id,
+    address: row.address,
+    timestamp: new Date(row.timestamp).toISOString(),
+    isActive: row.is_active === 1,
+    commission: row.commission,
+    uptime: row.uptime,
+    performance: row.performance,
+    totalDelegated: row.total_delegated,
+    effectiveAPY: row.effective_apy,
+    riskScore: row.risk_score,
+    slashingEvents: row.slashing_events
+  }
+}
+
+/**
+ * SQLite store for per-validator snapshots, written every validator
+ * monitoring cycle and read back as time series.
+ */
+export class ValidatorHistoryStore {
+  private db: Database
+
+  constructor(databaseName: string = 'validators') {
+    this.db = openDatabase(databaseName)
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS validator_snapshots (
+        chain_id INTEGER NOT NULL,
+        address TEXT NOT NULL,
+        timestamp INTEGER NOT NULL,
+        is_active INTEGER NOT NULL,
+        commission REAL NOT NULL,
+        uptime REAL NOT NULL,
+        performance REAL NOT NULL,
+        total_delegated TEXT NOT NULL,
+        effective_apy REAL NOT NULL,
+        risk_score REAL NOT NULL,
+        slashing_events INTEGER NOT NULL,
+        PRIMARY KEY (chain_id, address, timestamp)
+      );
+      CREATE INDEX IF NOT EXISTS idx_validator_snapshots_time ON validator_snapshots (timestamp);
+    `)
+  }
+
+  insertMany(snapshots: ValidatorSnapshot[]): void {
+    const insert = this.db.prepare(`
+      INSERT OR REPLACE INTO validator_snapshots
+        (chain_id, address, timestamp, is_active, commission, uptime, performance, total_delegated, effective_apy, risk_score, slashing_events)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `)
+
+    this.db.transaction(() => {
+      for (const snapshot of snapshots) {
+        insert.run(
+          snapshot.chainId,
+          snapshot.address.toLowerCase(),
+          new Date(snapshot.timestamp).getTime(),
+          snapshot.isActive ? 1 : 0,
+          snapshot.commission,
+          snapshot.uptime,
+          snapshot.performance,
+          snapshot.totalDelegated,
+          snapshot.effectiveAPY,
+          snapshot.riskScore,
+          snapshot.slashingEvents
+        )
+      }
+    })()
+  }
+
+  // One validator's snapshots since `from` (epoch ms), oldest first
+  getHistory(chainId: number, address: string, from: number): ValidatorSnapshot[] {
+    const rows = this.db
+      .prepare('SELECT * FROM validator_snapshots WHERE chain_id = ? AND address = ? AND timestamp >= ? ORDER BY timestamp ASC')
+      .all(chainId, address.toLowerCase(), from) as SnapshotRow[]
+    return rows.map(toSnapshot)
+  }
+
+  // The oldest snapshot of each validator since `from`, keyed by address
+  getEarliestSince(chainId: number, from: number): Map<string, ValidatorSnapshot> {
+    const rows = this.db.prepare(`
+      SELECT s.* FROM validator_snapshots s
+      JOIN (
+        SELECT address, MIN(timestamp) AS first FROM validator_snapshots
+        WHERE chain_id = ? AND timestamp >= ? GROUP BY address
+      ) f ON s.address = f.address AND s.timestamp = f.first
+      WHERE s.chain_id = ?
+    `).all(chainId, from, chainId) as SnapshotRow[]
+    return new Map(rows.map(row => [row.address, toSnapshot(row)]))
+  }
+
+  // Lowest commission each validator had since `from`, keyed by address
+  getMinCommissionSince(chainId: number, from: number): Map<string, number> {
+    const rows = this.db
+      .prepare('SELECT address, MIN(commission) AS commission FROM validator_snapshots WHERE chain_id = ? AND timestamp >= ? GROUP BY address')
+      .all(chainId, from) as Array<{ address: string; commission: number }>
+    return new Map(rows.map(row => [row.address, row.commission]))
+  }
+
+  deleteBefore(timestamp: number): number {
+    return this.db.prepare('DELETE FROM validator_snapshots WHERE timestamp < ?').run(timestamp).changes
+  }
+
+  close(): void {
+    this.db.close()
+  }
+}
@@ -0,0 +1,24 @@
+import { Database } from 'bun:sqlite'
+import * as fs from 'fs'
+import * as path from 'path'
+
+// Directory holding the backend's embedded SQLite databases
+export const DATA_DIR = process.env.DATA_DIR || path.join(process.cwd(), 'data')
+
+/**
+ * Open (or create) a named SQLite database under DATA_DIR.
+ * Pass ':memory:' to get a throwaway in-memory database (used by tests).
+ */
+export function openDatabase(name: string): Database {
+  if (name === ':memory:') {
+    return new Database(':memory:')
+  }
+
+  if (!fs.existsSync(DATA_DIR)) {
+    fs.mkdirSync(DATA_DIR, { recursive: true })
+  }
+
+  const db = new Database(path.join(DATA_DIR, `${name}.db`), { create: true })
+  db.exec('PRAGMA journal_mode = WAL')
+  return db
+}
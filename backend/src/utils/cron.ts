@@ -0,0 +1,101 @@
+const MINUTE = 60 * 1000
+const DAY = 24 * 60 * MINUTE
+
+interface CronFields {
+  minutes: Set<number>
+  hours: Set<number>
+  daysOfMonth: Set<number>
+  months: Set<number>
+  daysOfWeek: Set<number>
+  anyDayOfMonth: boolean
+  anyDayOfWeek: boolean
+}
+
+function parseCronField(field: string, min: number, max: number): Set<number> {
+  const values = new Set<number>()
+
+  for (const part of field.split(',')) {
+    const [range, stepText] = part.split('/')
+    const step = stepText === undefined ? 1 : Number(stepText)
+    let [low, high] = range === '*' ? [min, max] : range.split('-').map(Number)
+    if (high === undefined) high = stepText === undefined ? low : max
+
+    if (![step, low, high].every(Number.isInteger) || step < 1 || low < min || high > max || low > high) {
+      throw new Error(`"${part}" is not valid here (allowed ${min}-${max})`)
+    }
+    for (let value = low; value <= high; value += step) values.add(value)
+  }
+
+  return values
+}
+
+/**
+ * Parse a standard 5-field cron expression (minute hour day-of-month month
+ * day-of-week) with lists, ranges and steps. Sunday is 0 or 7.
+ */
+export function parseCron(expression: string): CronFields {
+  const fields = expression.trim().split(/\s+/)
+  if (fields.length !== 5) {
+    throw new Error(`Invalid cron expression "${expression}": expected 5 fields`)
+  }
+
+  try {
+    const daysOfWeek = parseCronField(fields[4], 0, 7)
+    if (daysOfWeek.delete(7)) daysOfWeek.add(0)
+
+    return {
+      minutes: parseCronField(fields[0], 0, 59),
+      hours: parseCronField(fields[1], 0, 23),
+      daysOfMonth: parseCronField(fields[2], 1, 31),
+      months: parseCronField(fields[3], 1, 12),
+      daysOfWeek,
+      anyDayOfMonth: fields[2] === '*',
+      anyDayOfWeek: fields[4] === '*'
+    }
+  } catch (error) {
+    throw new Error(`Invalid cron expression "${expression}": ${error.message}`)
+  }
+}
+
+// The first minute strictly after `after` (epoch ms) that matches the expression, in UTC
+export function nextCronRun(expression: string, after: number): number {
+  const cron = parseCron(expression)
+  const date = new Date(after)
+  date.setUTCSeconds(0, 0)
+  date.setUTCMinutes(date.getUTCMinutes() + 1)
+
+  const limit = after + 366 * DAY
+  while (date.getTime() <= limit) {
+    if (!cron.months.has(date.getUTCMonth() + 1)) {
+      date.setUTCMonth(date.getUTCMonth() + 1, 1)
+      date.setUTCHours(0, 0)
+      continue
+    }
+
+    // As in cron, when both day fields are restricted either one may match
+    const domMatch = cron.daysOfMonth.has(date.getUTCDate())
+    const dowMatch = cron.daysOfWeek.has(date.getUTCDay())
+    const dayMatch = cron.anyDayOfMonth || cron.anyDayOfWeek
+      ? domMatch && dowMatch
+      : domMatch || dowMatch
+    if (!dayMatch) {
+      date.setUTCDate(date.getUTCDate() + 1)
+      date.setUTCHours(0, 0)
+      continue
+    }
+
+    if (!cron.hours.has(date.getUTCHours())) {
+      date.setUTCHours(date.getUTCHours() + 1, 0)
+      continue
+    }
+
+    if (!cron.minutes.has(date.getUTCMinutes())) {
+      date.setUTCMinutes(date.getUTCMinutes() + 1)
+      continue
+    }
+
+    return date.getTime()
+  }
+
+  throw new Error(`Cron expression "${expression}" never matches`)
+}
@@ -0,0 +1,143 @@
+import { describe, test, expect } from "bun:test"
+import { ActionRequestError, ActionRequestManager, loadApprovalPolicies } from '../src/services/ActionRequests'
+import { ActionRequestStore } from '../src/storage/ActionRequestStore'
+import { UserRole } from '../src/middleware/auth'
+
+const HOUR = 60 * 60 * 1000
+const start = Date.UTC(2025, 0, 1)
+
+const operator = { id: 'olivia', role: UserRole.OPERATOR }
+const alice = { id: 'alice', role: UserRole.ADMIN }
+const bob = { id: 'bob', role: UserRole.ADMIN }
+const mallory = { id: 'mallory', role: UserRole.ADMIN }
+
+function setup(policies = {}) {
+  const executed: any[] = []
+  const manager = new ActionRequestManager(new ActionRequestStore(':memory:'), policies, 24 * HOUR)
+  manager.register({
+    type: 'test.transfer',
+    description: 'Move funds',
+    policy: { approvals: 1 },
+    preview: async (params) => {
+      if (!params.amount) throw new Error('amount required')
+      return { effect: `Moves ${params.amount}` }
+    },
+    execute: async (params) => {
+      if (params.amount === 'boom') throw new Error('reverted')
+      executed.push(params)
+      return { moved: params.amount }
+    }
+  })
+  return { manager, executed }
+}
+
+async function rejection(promise: Promise<any> | (() => any)) {
+  try {
+    await (typeof promise === 'function' ? promise() : promise)
+  } catch (error) {
+    return error as ActionRequestError
+  }
+  throw new Error('expected an ActionRequestError')
+}
+
+describe('action requests', () => {
+  test('queues a submission with its preview and runs it only after approval', async () => {
+    const { manager, executed } = setup()
+    const request = await manager.submit('test.transfer', { amount: '10' }, operator, start)
+
+    expect(request.status).toBe('pending')
+    expect(request.preview).toEqual({ effect: 'Moves 10' })
+    expect(request.expiresAt).toBe(new Date(start + 24 * HOUR).toISOString())
+    expect(executed).toHaveLength(0)
+
+    const approved = await manager.approve(request.id, alice, 'looks right', start + HOUR)
+    expect(approved.status).toBe('executed')
+    expect(approved.result).toEqual({ moved: '10' })
+    expect(executed).toEqual([{ amount: '10' }])
+
+    expect(manager.getAudit(request.id).map(entry => [entry.event, entry.actor])).toEqual([
+      ['submitted', 'olivia'],
+      ['approved', 'alice'],
+      ['executed', 'alice']
+    ])
+  })
+
+  test('refuses unknown types and parameters the preview rejects', async () => {
+    const { manager } = setup()
+
+    expect((await rejection(manager.submit('test.unknown', {}, operator))).status).toBe(400)
+    const invalid = await rejection(manager.submit('test.transfer', {}, operator))
+    expect(invalid.status).toBe(400)
+    expect(invalid.message).toContain('amount required')
+    expect(manager.getRequests()).toHaveLength(0)
+  })
+
+  test('needs N distinct approvers from the configured M', async () => {
+    const { manager, executed } = setup({ 'test.transfer': { approvals: 2, approvers: ['alice', 'bob', 'carol'] } })
+    expect(manager.getTypes()[0].policy).toEqual({ approvals: 2, approvers: ['alice', 'bob', 'carol'] })
+
+    const request = await manager.submit('test.transfer', { amount: '5' }, operator, start)
+    expect((await rejection(manager.approve(request.id, mallory, undefined, start))).status).toBe(403)
+
+    const first = await manager.approve(request.id, alice, undefined, start)
+    expect(first.status).toBe('pending')
+    expect(first.approvals.map(a => a.userId)).toEqual(['alice'])
+    expect((await rejection(manager.approve(request.id, alice, undefined, start))).status).toBe(409)
+    expect(executed).toHaveLength(0)
+
+    const second = await manager.approve(request.id, bob, undefined, start)
+    expect(second.status).toBe('executed')
+    expect(executed).toHaveLength(1)
+  })
+
+  test('rejects policies that ask for more approvals than approvers', () => {
+    expect(() => setup({ 'test.transfer': { approvals: 3, approvers: ['alice', 'bob'] } })).toThrow('lists 2 approvers')
+    expect(() => setup({ 'test.transfer': { approvals: 0 } })).toThrow('at least one approval')
+  })
+
+  test('does not let requesters or operators approve', async () => {
+    const { manager } = setup()
+    const own = await manager.submit('test.transfer', { amount: '1' }, alice, start)
+    expect((await rejection(manager.approve(own.id, alice, undefined, start))).status).toBe(403)
+
+    const request = await manager.submit('test.transfer', { amount: '1' }, operator, start)
+    expect((await rejection(manager.approve(request.id, { id: 'oscar', role: UserRole.OPERATOR }, undefined, start))).status).toBe(403)
+  })
+
+  test('records failed executions', async () => {
+    const { manager } = setup()
+    const request = await manager.submit('test.transfer', { amount: 'boom' }, operator, start)
+    const failed = await manager.approve(request.id, alice, undefined, start)
+
+    expect(failed.status).toBe('failed')
+    expect(failed.error).toBe('reverted')
+    expect(manager.getAudit(request.id).at(-1)).toMatchObject({ event: 'failed', detail: { error: 'reverted' } })
+    expect((await rejection(manager.approve(request.id, bob, undefined, start))).status).toBe(409)
+  })
+
+  test('rejects, cancels and expires pending requests', async () => {
+    const { manager, executed } = setup()
+
+    const rejected = await manager.submit('test.transfer', { amount: '1' }, operator, start)
+    expect(manager.reject(rejected.id, alice, 'not now', start)).toMatchObject({ status: 'rejected', decidedBy: 'alice', reason: 'not now' })
+
+    const cancelled = await manager.submit('test.transfer', { amount: '2' }, operator, start)
+    expect((await rejection(() => manager.cancel(cancelled.id, { id: 'oscar', role: UserRole.OPERATOR }, undefined, start))).status).toBe(403)
+    expect(manager.cancel(cancelled.id, operator, undefined, start).status).toBe('cancelled')
+
+    const stale = await manager.submit('test.transfer', { amount: '3' }, operator, start)
+    expect(manager.getRequest(stale.id, start + 25 * HOUR)!.status).toBe('expired')
+    expect((await rejection(manager.approve(stale.id, alice, undefined, start + 25 * HOUR))).status).toBe(409)
+    expect(manager.getAudit(stale.id).at(-1)).toMatchObject({ event: 'expired', actor: 'system' })
+
+    expect(executed).toHaveLength(0)
+    expect(manager.getRequests({ status: 'pending' }, 50, start + 25 * HOUR)).toHaveLength(0)
+    expect((await rejection(manager.approve('action-missing', alice))).status).toBe(404)
+  })
+
+  test('parses ACTION_APPROVAL_POLICY', () => {
+    expect(loadApprovalPolicies(undefined)).toEqual({})
+    expect(loadApprovalPolicies('{"test.transfer":{"approvals":2}}')).toEqual({ 'test.transfer': { approvals: 2 } })
+    expect(() => loadApprovalPolicies('{nope')).toThrow('not valid JSON')
+  })
+})
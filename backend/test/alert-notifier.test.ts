@@ -0,0 +1,125 @@
+import { describe, test, expect, afterAll } from "bun:test"
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { AlertNotifier, loadNotificationConfig } from '../src/services/AlertNotifier'
+import type { Alert } from '../src/services/AlertManager'
+
+// Webhook receiver that answers 500 to the first `failures[hook]` posts it gets for that hook
+const received: Record<string, any[]> = {}
+const failures: Record<string, number> = {}
+const server = Bun.serve({
+  port: 0,
+  async fetch(request) {
+    const hook = new URL(request.url).pathname.slice(1)
+    received[hook] = [...(received[hook] || []), await request.json()]
+    if ((failures[hook] || 0) >= received[hook].length) return new Response('down', { status: 500 })
+    return new Response('ok')
+  }
+})
+afterAll(() => server.stop(true))
+
+const hook = (name: string) => ({ id: name, type: 'webhook' as const, url: `http://localhost:${server.port}/${name}` })
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+function alert(overrides: Partial<Alert> = {}): Alert {
+  return {
+    id: 'alert-1',
+    type: 'warning',
+    category: 'contract',
+    title: 'Test',
+    message: 'Something happened',
+    timestamp: new Date().toISOString(),
+    acknowledged: false,
+    ...overrides
+  }
+}
+
+describe('AlertNotifier', () => {
+  test('routes alerts to channels by severity and category', async () => {
+    const notifier = new AlertNotifier({
+      channels: [hook('route-ops'), hook('route-pager'), hook('route-prices')],
+      routes: [
+        { channels: ['route-ops'] },
+        { channels: ['route-pager'], severities: ['critical'] },
+        { channels: ['route-prices', 'route-unknown'], categories: ['price'] }
+      ]
+    })
+
+    const channelsFor = (overrides: Partial<Alert>) => notifier.getChannelsFor(alert(overrides)).map(channel => channel.id)
+    expect(channelsFor({ type: 'warning', category: 'contract' })).toEqual(['route-ops'])
+    expect(channelsFor({ type: 'critical', category: 'price' })).toEqual(['route-ops', 'route-pager', 'route-prices'])
+
+    const records = await notifier.notify(alert({ type: 'critical', category: 'validator' }))
+    expect(records.map(record => [record.channel, record.status])).toEqual([['route-ops', 'delivered'], ['route-pager', 'delivered']])
+    expect(received['route-ops'][0]).toMatchObject({ event: 'alert', alert: { id: 'alert-1', type: 'critical' } })
+    expect(received['route-prices']).toBeUndefined()
+  })
+
+  test('retries failed deliveries with backoff until they succeed or run out of attempts', async () => {
+    failures['retry-flaky'] = 2
+    failures['retry-down'] = 100
+    const notifier = new AlertNotifier({
+      channels: [hook('retry-flaky'), hook('retry-down')],
+      retry: { maxAttempts: 3, baseDelayMs: 20, maxDelayMs: 30 }
+    })
+
+    const [flaky, down] = await notifier.notify(alert())
+    expect(flaky).toMatchObject({ status: 'retrying', attempts: 1, lastError: expect.stringContaining('HTTP 500') })
+    expect(new Date(flaky.nextAttemptAt!).getTime() - new Date(flaky.updatedAt).getTime()).toBeGreaterThanOrEqual(19)
+
+    await wait(10)
+    expect(received['retry-flaky']).toHaveLength(1) // the first retry waits baseDelayMs
+    await wait(150)
+
+    expect(flaky).toMatchObject({ status: 'delivered', attempts: 3, lastError: undefined, nextAttemptAt: undefined })
+    expect(down).toMatchObject({ status: 'failed', attempts: 3 })
+    expect(received['retry-down']).toHaveLength(3)
+    notifier.destroy()
+  })
+
+  test('keeps every delivery of a re-notified alert in the history', async () => {
+    const notifier = new AlertNotifier({ channels: [hook('history-ops')] })
+
+    await notifier.notify(alert({ id: 'alert-7' }))
+    await notifier.notify(alert({ id: 'alert-7', escalationLevel: 1 }))
+    await notifier.notify(alert({ id: 'alert-8' }))
+
+    const history = notifier.getDeliveries({ alertId: 'alert-7' })
+    expect(history).toHaveLength(2)
+    expect(new Set(history.map(record => record.id)).size).toBe(2)
+    expect(notifier.getDeliveries({ limit: 1 })[0].alertId).toBe('alert-8') // most recent first
+    expect(notifier.getChannelSummaries()).toEqual([{ id: 'history-ops', type: 'webhook', delivered: 3, failed: 0, pending: 0 }])
+  })
+})
+
+describe('loadNotificationConfig', () => {
+  test('falls back to no channels when the config file is invalid', () => {
+    const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'notifier-')), 'notifications.json')
+    fs.writeFileSync(file, '{ "channels": [ { "id": "slack", "type": "slack" ')
+    const previous = process.env.ALERT_NOTIFICATIONS_CONFIG
+    process.env.ALERT_NOTIFICATIONS_CONFIG = file
+
+    try {
+      expect(loadNotificationConfig()).toEqual({ channels: [] })
+      fs.writeFileSync(file, JSON.stringify({ channels: [{ id: 'slack', type: 'slack', url: 'not a url' }] }))
+      expect(loadNotificationConfig()).toEqual({ channels: [] })
+    } finally {
+      if (previous === undefined) delete process.env.ALERT_NOTIFICATIONS_CONFIG
+      else process.env.ALERT_NOTIFICATIONS_CONFIG = previous
+      fs.rmSync(path.dirname(file), { recursive: true, force: true })
+    }
+  })
+
+  test('falls back to no channels when an environment channel is malformed', () => {
+    const previous = process.env.ALERT_WEBHOOK_URL
+    process.env.ALERT_WEBHOOK_URL = 'not a url'
+
+    try {
+      expect(loadNotificationConfig()).toEqual({ channels: [] })
+    } finally {
+      if (previous === undefined) delete process.env.ALERT_WEBHOOK_URL
+      else process.env.ALERT_WEBHOOK_URL = previous
+    }
+  })
+})
@@ -0,0 +1,271 @@
+import { describe, test, expect } from "bun:test"
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { AlertManager, AlertRule } from '../src/services/AlertManager'
+import { AlertRuleEvaluator, resolveMetric } from '../src/services/AlertRuleEvaluator'
+import { AlertRuleStore } from '../src/storage/AlertRuleStore'
+import { alertRuleSchema } from '../src/middleware/validation'
+import { DEFAULT_ALERT_RULES } from '../src/config/alertRules'
+
+const MINUTE = 60 * 1000
+
+function rule(overrides: Partial<AlertRule>): AlertRule {
+  return {
+    id: 'test-rule',
+    name: 'Test Rule',
+    category: 'contract',
+    metric: 'errorRate',
+    comparator: '>',
+    threshold: 0.05,
+    severity: 'warning',
+    message: 'Value is {value}',
+    cooldown: 0,
+    enabled: true,
+    ...overrides
+  }
+}
+
+describe('resolveMetric', () => {
+  test('resolves nested paths, numeric strings and ratios', () => {
+    const data = { gasUsage: { average: 420000 }, totalAUM: '1234.5', activeValidators: 3, totalValidators: 4 }
+
+    expect(resolveMetric(data, 'gasUsage.average')).toBe(420000)
+    expect(resolveMetric(data, 'totalAUM')).toBe(1234.5)
+    expect(resolveMetric(data, 'activeValidators / totalValidators')).toBe(0.75)
+    expect(resolveMetric(data, 'missing.path')).toBeNull()
+    expect(resolveMetric({ a: 1, b: 0 }, 'a / b')).toBeNull()
+  })
+})
+
+describe('AlertRuleEvaluator', () => {
+  test('compares plain and boolean metrics', () => {
+    const evaluator = new AlertRuleEvaluator()
+
+    expect(evaluator.evaluate(rule({}), { errorRate: 0.1 }).triggered).toBe(true)
+    expect(evaluator.evaluate(rule({}), { errorRate: 0.01 }).triggered).toBe(false)
+    expect(evaluator.evaluate(rule({ metric: 'isStale', comparator: '==', threshold: true }), { isStale: true }).triggered).toBe(true)
+  })
+
+  test('percentChange over a window only looks at samples inside it', () => {
+    const evaluator = new AlertRuleEvaluator()
+    const navDrop = rule({ metric: 'navPerShare', comparator: '<', threshold: -3, window: { minutes: 60, aggregation: 'percentChange' } })
+    const start = Date.now()
+
+    // A single sample has no change yet
+    expect(evaluator.evaluate(navDrop, { navPerShare: '1.00' }, start).value).toBeNull()
+    expect(evaluator.evaluate(navDrop, { navPerShare: '0.99' }, start + 30 * MINUTE).triggered).toBe(false)
+
+    const drop = evaluator.evaluate(navDrop, { navPerShare: '0.96' }, start + 50 * MINUTE)
+    expect(drop.triggered).toBe(true)
+    expect(drop.value).toBeCloseTo(-4)
+
+    // Once the 1.00 sample leaves the window the drop is measured from 0.99
+    expect(evaluator.evaluate(navDrop, { navPerShare: '0.96' }, start + 70 * MINUTE).triggered).toBe(true)
+    expect(evaluator.evaluate(navDrop, { navPerShare: '0.97' }, start + 100 * MINUTE).triggered).toBe(false)
+  })
+})
+
+describe('AlertManager rules', () => {
+  test('triggers declarative rules, formats messages and honours cooldown', async () => {
+    const manager = new AlertManager(new AlertRuleStore(null))
+    for (const r of manager.getRules()) manager.deleteRule(r.id)
+    manager.createRule(rule({ cooldown: 10 }))
+
+    const metrics: any = { errorRate: 0.2 }
+    const [alert] = await manager.checkContractAlerts(metrics)
+    expect(alert.message).toBe('Value is 0.2')
+    expect(await manager.checkContractAlerts(metrics)).toHaveLength(0)
+  })
+
+  test('skips disabled rules', async () => {
+    const manager = new AlertManager(new AlertRuleStore(null))
+    for (const r of manager.getRules()) manager.deleteRule(r.id)
+    manager.createRule(rule({ enabled: false }))
+
+    expect(await manager.checkContractAlerts({ errorRate: 0.2 } as any)).toHaveLength(0)
+  })
+
+  test('persists rule changes to a YAML rules file', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'alert-rules-'))
+    const file = path.join(dir, 'rules.yaml')
+
+    try {
+      const manager = new AlertManager(new AlertRuleStore(file))
+      manager.createRule(rule({ id: 'custom-rule' }))
+      manager.deleteRule('low-aum')
+
+      const reloaded = new AlertRuleStore(file).load()
+      expect(reloaded.some(r => r.id === 'custom-rule')).toBe(true)
+      expect(reloaded.some(r => r.id === 'low-aum')).toBe(false)
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true })
+    }
+  })
+
+  test('falls back to the built-in rules when the rules file is invalid', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'alert-rules-'))
+    const file = path.join(dir, 'rules.json')
+    fs.writeFileSync(file, JSON.stringify({ rules: [rule({ id: 'broken', comparator: 'about' as any })] }))
+
+    try {
+      const manager = new AlertManager(new AlertRuleStore(file))
+      expect(manager.getRules().map(r => r.id)).toEqual(DEFAULT_ALERT_RULES.map(r => r.id))
+      expect(() => manager.reloadRules()).toThrow()
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true })
+    }
+  })
+})
+
+describe('alertRuleSchema', () => {
+  test('rejects ordering comparators on boolean thresholds', () => {
+    expect(alertRuleSchema.safeParse(rule({ metric: 'isStale', comparator: '>', threshold: true })).success).toBe(false)
+    expect(alertRuleSchema.safeParse(rule({ metric: 'bad path!' })).success).toBe(false)
+    expect(alertRuleSchema.safeParse(rule({})).success).toBe(true)
+  })
+})
+
+describe('AlertManager lifecycle', () => {
+  function managerWith(r: AlertRule): AlertManager {
+    const manager = new AlertManager(new AlertRuleStore(null))
+    for (const existing of manager.getRules()) manager.deleteRule(existing.id)
+    manager.createRule(r)
+    return manager
+  }
+
+  test('auto-resolves open alerts once the condition clears', async () => {
+    const manager = managerWith(rule({}))
+
+    const [alert] = await manager.checkContractAlerts({ errorRate: 0.2 } as any)
+    expect(alert.resolved).toBe(false)
+
+    // A missing metric must not count as recovery
+    await manager.checkContractAlerts({} as any)
+    expect(manager.getAlert(alert.id)?.resolved).toBe(false)
+
+    await manager.checkContractAlerts({ errorRate: 0.01 } as any)
+    expect(manager.getAlert(alert.id)).toMatchObject({ resolved: true, resolvedBy: 'system' })
+  })
+
+  test('silenced alerts are recorded but neither notified nor escalated', async () => {
+    const manager = managerWith(rule({}))
+    const notified: string[] = []
+    manager.setNotifier({ notify: async (a: any) => { notified.push(a.id); return [] } } as any)
+
+    const silence = manager.createSilence({
+      ruleId: 'test-rule',
+      reason: 'maintenance',
+      createdBy: 'ops',
+      endsAt: new Date(Date.now() + 60 * MINUTE).toISOString()
+    })
+    const [alert] = await manager.checkContractAlerts({ errorRate: 0.2 } as any)
+
+    expect(alert.silencedBy).toBe(silence.id)
+    expect(notified).toHaveLength(0)
+    expect(manager.processEscalations(Date.now() + 59 * MINUTE)).toHaveLength(0)
+  })
+
+  test('escalates unacknowledged alerts step by step', async () => {
+    const manager = managerWith(rule({}))
+    manager.setEscalationPolicy({
+      warning: { afterMinutes: 10, to: 'error' },
+      error: { afterMinutes: 10, to: 'critical' }
+    })
+    const [alert] = await manager.checkContractAlerts({ errorRate: 0.2 } as any)
+    const start = new Date(alert.timestamp).getTime()
+
+    expect(manager.processEscalations(start + 5 * MINUTE)).toHaveLength(0)
+    expect(manager.processEscalations(start + 11 * MINUTE)[0].type).toBe('error')
+    expect(manager.processEscalations(start + 15 * MINUTE)).toHaveLength(0)
+    expect(manager.processEscalations(start + 22 * MINUTE)[0]).toMatchObject({ type: 'critical', escalationLevel: 2 })
+
+    manager.acknowledgeAlert(alert.id, 'ops')
+    expect(manager.getAlert(alert.id)?.acknowledgedBy).toBe('ops')
+  })
+})
+
+describe('AlertManager deduplication and grouping', () => {
+  function managerWith(r: AlertRule): AlertManager {
+    const manager = new AlertManager(new AlertRuleStore(null))
+    for (const existing of manager.getRules()) manager.deleteRule(existing.id)
+    manager.createRule(r)
+    return manager
+  }
+
+  const validators = (uptimes: Record<string, number>): any => ({
+    validators: Object.entries(uptimes).map(([address, uptime]) => ({ address, uptime }))
+  })
+
+  test('repeat detections update one open alert instead of raising new ones', async () => {
+    const manager = managerWith(rule({}))
+
+    const [alert] = await manager.checkContractAlerts({ errorRate: 0.2 } as any)
+    expect(await manager.checkContractAlerts({ errorRate: 0.3 } as any)).toHaveLength(0)
+
+    expect(manager.getAlerts()).toHaveLength(1)
+    expect(manager.getAlert(alert.id)).toMatchObject({ occurrences: 2, message: 'Value is 0.3', fingerprint: 'test-rule' })
+  })
+
+  test('groups every affected validator into a single alert', async () => {
+    const manager = managerWith(rule({
+      category: 'validator',
+      metric: 'uptime',
+      comparator: '<',
+      threshold: 90,
+      forEach: { path: 'validators', key: 'address', group: true },
+      message: '{count} below threshold: {subjects}'
+    }))
+
+    const [alert] = await manager.checkValidatorAlerts(validators({ a: 80, b: 85, c: 99 }))
+    expect(alert).toMatchObject({ subjects: ['a', 'b'], message: '2 below threshold: a, b' })
+
+    await manager.checkValidatorAlerts(validators({ a: 80, b: 95, c: 70 }))
+    expect(manager.getAlerts()).toHaveLength(1)
+    expect(manager.getAlert(alert.id)).toMatchObject({ occurrences: 2, subjects: ['a', 'c'] })
+
+    await manager.checkValidatorAlerts(validators({ a: 99, b: 99, c: 99 }))
+    expect(manager.getAlert(alert.id)?.resolved).toBe(true)
+  })
+
+  test('ungrouped rules keep one open alert per subject', async () => {
+    const manager = managerWith(rule({
+      category: 'validator',
+      metric: 'uptime',
+      comparator: '<',
+      threshold: 90,
+      forEach: { path: 'validators', key: 'address', group: false },
+      message: '{subject} uptime is {value}%'
+    }))
+
+    const raised = await manager.checkValidatorAlerts(validators({ a: 80, b: 85 }))
+    expect(raised.map(a => a.message)).toEqual(['a uptime is 80%', 'b uptime is 85%'])
+
+    await manager.checkValidatorAlerts(validators({ a: 80, b: 95 }))
+    const open = manager.getAlerts(undefined, undefined, false)
+    expect(open).toHaveLength(1)
+    expect(open[0]).toMatchObject({ subject: 'a', occurrences: 2 })
+  })
+
+  test('custom alerts fold repeats per key and re-open once resolved', () => {
+    const manager = new AlertManager(new AlertRuleStore(null))
+    const notified: string[] = []
+    manager.setNotifier({ notify: async (a: any) => { notified.push(a.id); return [] } } as any)
+
+    const failed = manager.addCustomAlert('error', 'automation', 'Automation Task Failed', 'RPC down', undefined, 'fees')
+    manager.addCustomAlert('error', 'automation', 'Automation Task Failed', 'RPC still down', undefined, 'fees')
+    const other = manager.addCustomAlert('error', 'automation', 'Automation Task Failed', 'Reverted', undefined, 'liquidity')
+
+    expect(other.id).not.toBe(failed.id)
+    expect(failed).toMatchObject({ occurrences: 2, message: 'RPC still down' })
+    expect(notified).toEqual([failed.id, other.id])
+
+    manager.resolveCustomAlert('automation', 'Automation Task Failed', 'fees')
+    expect(manager.getAlert(failed.id)).toMatchObject({ resolved: true, resolvedBy: 'system' })
+    expect(manager.getAlert(other.id)?.resolved).toBe(false)
+
+    const again = manager.addCustomAlert('error', 'automation', 'Automation Task Failed', 'RPC down again', undefined, 'fees')
+    expect(again.id).not.toBe(failed.id)
+    expect(notified).toHaveLength(3)
+  })
+})
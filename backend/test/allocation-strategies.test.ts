@@ -0,0 +1,68 @@
+import { describe, test, expect } from "bun:test"
+import {
+  DEFAULT_ALLOCATION_PARAMS,
+  capWeights,
+  compareStrategies,
+  diffAllocation,
+  targetAllocation
+} from '../src/services/AllocationStrategies'
+import type { ValidatorInfo } from '../src/services/ValidatorMonitor'
+
+function validator(address: string, effectiveAPY: number, riskScore: number, overrides: Partial<ValidatorInfo> = {}): ValidatorInfo {
+  return {
+    address,
+    name: address,
+    isActive: true,
+    totalDelegated: '0',
+    commission: 5,
+    uptime: 99,
+    performance: 90,
+    effectiveAPY,
+    riskScore,
+    slashingHistory: [],
+    lastUpdate: new Date(0).toISOString(),
+    ...overrides
+  }
+}
+
+const validators = [
+  validator('a', 9, 10),
+  validator('b', 7, 40),
+  validator('c', 8, 20),
+  validator('d', 10, 30, { isActive: false })
+]
+
+describe('allocation strategies', () => {
+  test('only allocate to eligible validators, within maxValidators', () => {
+    const params = { ...DEFAULT_ALLOCATION_PARAMS, maxValidators: 2 }
+
+    expect(targetAllocation('equal-weight', validators, params).weights).toEqual({ a: 0.5, c: 0.5 })
+    expect(targetAllocation('risk-parity', validators, params).weights.a).toBeCloseTo(2 / 3)
+  })
+
+  test('reports expected APY and concentration side by side', () => {
+    const summaries = compareStrategies(validators, DEFAULT_ALLOCATION_PARAMS)
+
+    expect(summaries.map(s => s.strategy)).toEqual(['equal-weight', 'apy-weighted', 'risk-parity', 'capped'])
+    const equal = summaries[0]
+    expect(equal.expectedAPY).toBeCloseTo(8)
+    expect(equal.herfindahlIndex).toBeCloseTo(1 / 3)
+    expect(summaries.every(s => !('d' in s.weights))).toBe(true)
+  })
+
+  test('capWeights redistributes the excess over the cap', () => {
+    const capped = capWeights({ a: 0.7, b: 0.2, c: 0.1 }, 0.5)
+
+    expect(capped.a).toBeCloseTo(0.5)
+    expect(capped.b).toBeCloseTo(0.2 + 0.2 * (2 / 3))
+    expect(capped.c).toBeCloseTo(0.1 + 0.2 * (1 / 3))
+  })
+
+  test('diffAllocation moves stake off validators outside the target', () => {
+    const diff = diffAllocation({ a: 100n, b: 0n, d: 100n }, { a: 0.5, b: 0.5 })
+
+    expect(diff.decreases).toEqual([{ address: 'd', amount: 100n }])
+    expect(diff.increases).toEqual([{ address: 'b', amount: 100n }])
+    expect(diff.drift).toBe(0.5)
+  })
+})
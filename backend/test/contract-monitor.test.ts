@@ -0,0 +1,58 @@
+import { describe, test, expect } from "bun:test"
+import { ContractMonitor } from '../src/services/ContractMonitor'
+import { getNetwork } from '../src/config/networks'
+import { EventStore } from '../src/storage/EventStore'
+
+const BASKET = '0x1111111111111111111111111111111111111111'
+const OTHER = '0x2222222222222222222222222222222222222222'
+const network = { ...getNetwork('hardhat'), contracts: { ...getNetwork('hardhat').contracts, StakeBasket: BASKET } }
+
+// Every block holds one StakeBasket call, reverted in every fourth block, and one unrelated transfer
+function fakeClient() {
+  const fetched: number[] = []
+  let head = 150n
+  const client = {
+    readContract: async ({ functionName }: any) => functionName === 'paused' ? false : 10n ** 18n,
+    getBlockNumber: async () => head,
+    getBlock: async ({ blockNumber }: any) => {
+      fetched.push(Number(blockNumber))
+      return {
+        transactions: [
+          { hash: `0xbasket${blockNumber}`, to: BASKET.toUpperCase().replace('0X', '0x') },
+          { hash: `0xother${blockNumber}`, to: OTHER },
+          { hash: `0xcreate${blockNumber}`, to: null }
+        ]
+      }
+    },
+    getTransactionReceipt: async ({ hash }: any) => {
+      const block = Number(hash.replace(/^0x[a-z]+/, ''))
+      return { status: hash.startsWith('0xbasket') && block % 4 === 0 ? 'reverted' : 'success' }
+    }
+  }
+  return { client, fetched, advance: (blocks: number) => { head += BigInt(blocks) } }
+}
+
+describe('ContractMonitor', () => {
+  test('derives the error rate from StakeBasket receipts in recent blocks', async () => {
+    const { client, fetched, advance } = fakeClient()
+    const monitor = new ContractMonitor(network, new EventStore(':memory:'), client)
+
+    const metrics = await monitor.collectMetrics()
+    expect(fetched).toHaveLength(101) // blocks 50-150
+    expect(metrics.transactionCount.checked).toBe(101)
+    expect(metrics.errorRate).toBeCloseTo(25 / 101)
+    expect(metrics.performanceScore).toBeCloseTo(100 - (25 / 101) * 30)
+
+    // Only blocks that arrived since the last cycle are fetched again
+    advance(3)
+    await monitor.collectMetrics()
+    expect(fetched.slice(101)).toEqual([151, 152, 153])
+  })
+
+  test('reports no errors when there are no StakeBasket transactions', async () => {
+    const { client } = fakeClient()
+    const monitor = new ContractMonitor({ ...network, contracts: { ...network.contracts, StakeBasket: '0x3333333333333333333333333333333333333333' } }, new EventStore(':memory:'), client)
+
+    expect((await monitor.collectMetrics()).errorRate).toBe(0)
+  })
+})
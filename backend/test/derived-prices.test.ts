@@ -0,0 +1,81 @@
+import { describe, test, expect } from "bun:test"
+import { DerivedPriceCalculator, deriveCoreBTCPrice, deriveLstBTCPrice } from '../src/services/DerivedPrices'
+import { getNetwork } from '../src/config/networks'
+
+const LST_BTC = '0x9999999999999999999999999999999999999999'
+const base = getNetwork('hardhat')
+
+function network(contracts: Record<string, string>) {
+  return { ...base, contracts: { ...base.contracts, LstBTC: '', MockLstBTC: '', ...contracts } } as any
+}
+
+function rateClient(rate: bigint, calls: string[] = []) {
+  return {
+    readContract: async ({ address, functionName }: any) => {
+      calls.push(`${address}.${functionName}`)
+      return rate
+    }
+  }
+}
+
+describe('derived BTC wrapper prices', () => {
+  test('prices coreBTC from a fixed peg or the market quote', () => {
+    expect(deriveCoreBTCPrice(100000, { coreBTCPegSource: 'fixed', coreBTCPeg: 0.995 }, 101000))
+      .toEqual({ asset: 'coreBTC', price: 99500, method: 'fixed-peg', btcPrice: 100000, peg: 0.995 })
+
+    const market = deriveCoreBTCPrice(100000, { coreBTCPegSource: 'market', coreBTCPeg: 1 }, 99000)
+    expect(market).toMatchObject({ price: 99000, method: 'market' })
+    expect(market.peg).toBeCloseTo(0.99, 10)
+
+    // No market quote this round: back to the fixed peg
+    expect(deriveCoreBTCPrice(100000, { coreBTCPegSource: 'market', coreBTCPeg: 1 }, null).method).toBe('fixed-peg')
+  })
+
+  test('prices lstBTC at its exchange rate in coreBTC', () => {
+    const coreBTC = deriveCoreBTCPrice(100000, { coreBTCPegSource: 'fixed', coreBTCPeg: 0.99 })
+    const lstBTC = deriveLstBTCPrice(coreBTC, 1.06)
+
+    expect(lstBTC.price).toBeCloseTo(104940, 6)
+    expect(lstBTC).toMatchObject({ asset: 'lstBTC', method: 'exchange-rate', exchangeRate: 1.06, peg: 0.99 })
+  })
+
+  test('reads the exchange rate from LstBTC, falling back to MockLstBTC', async () => {
+    const calls: string[] = []
+    const calculator = new DerivedPriceCalculator(network({ MockLstBTC: LST_BTC }), {
+      lstBTCAddress: undefined,
+      coreBTCPegSource: 'fixed',
+      coreBTCPeg: 1,
+      client: rateClient(1050000000000000000n, calls)
+    })
+
+    const { prices, errors } = await calculator.derive(100000)
+    expect(errors).toEqual([])
+    expect(prices.coreBTC.price).toBe(100000)
+    expect(prices.lstBTC.price).toBeCloseTo(105000, 6)
+    expect(calls).toEqual([`${LST_BTC}.getExchangeRate`])
+
+    const real = new DerivedPriceCalculator(network({ LstBTC: '0x1111111111111111111111111111111111111111', MockLstBTC: LST_BTC }), {
+      lstBTCAddress: undefined,
+      client: rateClient(1n)
+    })
+    expect(real.getLstBTCAddress()).toBe('0x1111111111111111111111111111111111111111')
+  })
+
+  test('leaves lstBTC out when no exchange rate is available', async () => {
+    const undeployed = new DerivedPriceCalculator(network({ MockLstBTC: '0x0000000000000000000000000000000000000000' }), {
+      lstBTCAddress: undefined,
+      client: rateClient(0n)
+    })
+    const missing = await undeployed.derive(100000)
+    expect(missing.prices.lstBTC).toBeUndefined()
+    expect(missing.prices.coreBTC).toBeDefined()
+    expect(missing.errors[0].error).toContain('not deployed')
+
+    const zero = await new DerivedPriceCalculator(network({ MockLstBTC: LST_BTC }), { lstBTCAddress: undefined, client: rateClient(0n) }).derive(100000)
+    expect(zero.errors).toEqual([{ asset: 'lstBTC', error: 'lstBTC exchange rate is zero' }])
+  })
+
+  test('rejects a non-positive peg', () => {
+    expect(() => new DerivedPriceCalculator(network({}), { coreBTCPeg: 0, client: rateClient(1n) })).toThrow('COREBTC_PEG')
+  })
+})
@@ -0,0 +1,108 @@
+import { describe, test, expect } from "bun:test"
+import { encodeAbiParameters, encodeEventTopics, parseAbiParameters } from 'viem'
+import { EventIndexer, stakeBasketEventsAbi } from '../src/services/EventIndexer'
+import { EventStore } from '../src/storage/EventStore'
+
+const BASKET = '0x00000000000000000000000000000000000000b1'
+const USER = '0x00000000000000000000000000000000000000a1'
+
+// Minimal in-memory chain: block hashes can be swapped to simulate a reorg
+function fakeChain(head: number) {
+  const hashes = new Map<number, string>()
+  const logs: any[] = []
+  for (let n = 0; n <= head; n++) hashes.set(n, `0xhash${n}`)
+
+  const client: any = {
+    chain: { id: 1114 },
+    getBlockNumber: async () => BigInt(head),
+    getBlock: async ({ blockNumber }: { blockNumber: bigint }) => ({
+      hash: hashes.get(Number(blockNumber)),
+      timestamp: 1_700_000_000n + blockNumber
+    }),
+    getLogs: async ({ fromBlock, toBlock }: { fromBlock: bigint; toBlock: bigint }) =>
+      logs.filter(l => l.blockNumber >= fromBlock && l.blockNumber <= toBlock),
+    getTransactionReceipt: async () => ({ gasUsed: 150000n })
+  }
+
+  const deposit = (block: number, amount: bigint, tag = '') => {
+    logs.push({
+      address: BASKET,
+      blockNumber: BigInt(block),
+      blockHash: hashes.get(block),
+      transactionHash: `0xtx${block}${tag}`,
+      logIndex: 0,
+      topics: encodeEventTopics({ abi: stakeBasketEventsAbi, eventName: 'Deposited', args: { user: USER } }),
+      data: encodeAbiParameters(parseAbiParameters('uint256, uint256'), [amount, amount])
+    })
+  }
+
+  const reorg = (fromBlock: number) => {
+    for (let n = fromBlock; n <= head; n++) hashes.set(n, `0xfork${n}`)
+    for (let i = logs.length - 1; i >= 0; i--) {
+      if (Number(logs[i].blockNumber) >= fromBlock) logs.splice(i, 1)
+    }
+  }
+
+  const advance = (blocks: number) => {
+    for (let i = 0; i < blocks; i++) hashes.set(++head, `0xhash${head}`)
+  }
+
+  return { client, deposit, reorg, advance }
+}
+
+describe('EventIndexer', () => {
+  test('decodes events with block timestamps and persists the cursor', async () => {
+    const chain = fakeChain(20)
+    chain.deposit(5, 10n ** 18n)
+    chain.deposit(12, 2n * 10n ** 18n)
+
+    const store = new EventStore(':memory:')
+    const indexer = new EventIndexer(chain.client, store, [{ name: 'StakeBasket', address: BASKET, abi: stakeBasketEventsAbi }], {
+      startBlock: 0,
+      confirmations: 2,
+      batchSize: 8
+    })
+
+    const result = await indexer.sync()
+    expect(result).toMatchObject({ fromBlock: 0, toBlock: 18, indexed: 2, reorg: null })
+    expect(store.getCursor(1114)?.blockNumber).toBe(18)
+
+    const { events, total } = store.queryEvents({ account: USER })
+    expect(total).toBe(2)
+    expect(events[0]).toMatchObject({
+      eventName: 'Deposited',
+      category: 'deposit',
+      blockNumber: 12,
+      gasUsed: 150000,
+      timestamp: new Date((1_700_000_000 + 12) * 1000).toISOString(),
+      account: USER,
+      args: { coreAmount: '2000000000000000000' }
+    })
+  })
+
+  test('rolls back events from orphaned blocks after a reorg', async () => {
+    const chain = fakeChain(20)
+    chain.deposit(5, 1n)
+    chain.deposit(16, 2n)
+
+    const store = new EventStore(':memory:')
+    const indexer = new EventIndexer(chain.client, store, [{ name: 'StakeBasket', address: BASKET, abi: stakeBasketEventsAbi }], {
+      startBlock: 0,
+      confirmations: 0
+    })
+    await indexer.sync()
+    expect(store.queryEvents({}).total).toBe(2)
+
+    // Blocks 15+ are replaced; the deposit at 16 lands in 17 on the new fork instead
+    chain.reorg(15)
+    chain.deposit(17, 3n, 'b')
+    chain.advance(2)
+
+    const result = await indexer.sync()
+    expect(result?.reorg).toEqual({ ancestor: 5, removed: 1 })
+
+    const { events } = store.queryEvents({})
+    expect(events.map(e => e.blockNumber)).toEqual([17, 5])
+    expect(store.getCursor(1114)).toMatchObject({ blockNumber: 22, blockHash: '0xhash22' })
+  })
+})
@@ -0,0 +1,60 @@
+// Public and wallet clients for services that send through a TransactionManager
+
+export const SIGNER = '0x5555555555555555555555555555555555555555'
+
+export interface ContractCall {
+  address: string
+  functionName: string
+  args: readonly any[]
+  [key: string]: any
+}
+
+export interface FakeClientOptions {
+  read?: (call: ContractCall) => any // answers readContract
+  onSend?: (request: ContractCall) => void // e.g. to update what later reads return
+  revertedHashes?: string[] // receipts for these hashes report a revert
+  blockNumber?: bigint // of every receipt
+  gasUsed?: bigint
+}
+
+export interface FakeClients {
+  publicClient: {
+    readContract: (call: ContractCall) => Promise<any>
+    simulateContract: (call: ContractCall) => Promise<{ request: ContractCall }>
+    getTransactionCount: () => Promise<number>
+    estimateFeesPerGas: () => Promise<{ maxFeePerGas: bigint; maxPriorityFeePerGas: bigint }>
+    getTransactionReceipt: (args: { hash: string }) => Promise<{ status: 'success' | 'reverted'; blockNumber: bigint; gasUsed: bigint }>
+  }
+  walletClient: {
+    account: { address: string }
+    writeContract: (request: ContractCall) => Promise<string>
+  }
+  sent: ContractCall[] // every request sent, in order
+}
+
+// Sends succeed with sequential hashes ('0x1', '0x2', ...) and are mined straight away
+export function fakeClients(options: FakeClientOptions = {}): FakeClients {
+  const { read, onSend, revertedHashes = [], blockNumber = 10n, gasUsed = 21000n } = options
+  const sent: ContractCall[] = []
+
+  const publicClient: FakeClients['publicClient'] = {
+    readContract: async (call) => read?.(call),
+    simulateContract: async (call) => ({ request: call }),
+    getTransactionCount: async () => 0,
+    estimateFeesPerGas: async () => ({ maxFeePerGas: 2000000000n, maxPriorityFeePerGas: 1000000000n }),
+    getTransactionReceipt: async ({ hash }) => ({
+      status: revertedHashes.includes(hash) ? 'reverted' : 'success',
+      blockNumber,
+      gasUsed
+    })
+  }
+  const walletClient: FakeClients['walletClient'] = {
+    account: { address: SIGNER },
+    writeContract: async (request) => {
+      sent.push(request)
+      onSend?.(request)
+      return `0x${sent.length}`
+    }
+  }
+  return { publicClient, walletClient, sent }
+}
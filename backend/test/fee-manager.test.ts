@@ -0,0 +1,100 @@
+import { describe, test, expect } from "bun:test"
+import { FeeManager, feeScheduleFor, hasVolatilityHistory, pricePointsFromHistory, realisedVolatility } from '../src/services/FeeManager'
+import { FeeProposalStore } from '../src/storage/FeeProposalStore'
+import { getNetwork } from '../src/config/networks'
+import { fakeClients } from './fake-clients'
+
+const BASKET = '0x7777777777777777777777777777777777777777'
+const HOUR = 60 * 60 * 1000
+const start = Date.UTC(2025, 0, 1)
+
+const network = { ...getNetwork('hardhat'), contracts: { ...getNetwork('hardhat').contracts, StakeBasket: BASKET } }
+const parameters = { volatilityThreshold: 0.15, maxFeeAdjustment: 0.002, maxProtocolFeeAdjustment: 0.3, baseManagementFeeBps: 50, baseProtocolFeeBps: 2000 }
+const volatility = { core: 0.4, btc: 0.2, volatility: 0.4, samples: 48, from: null, to: null }
+
+// StakeBasket charges a 50 bps management fee with a 20% protocol share
+const feeClients = () => fakeClients({ read: ({ functionName }) => functionName === 'managementFeeBasisPoints' ? 50n : 2000n })
+
+describe('realised volatility', () => {
+  test('annualises squared log returns over the time they span', () => {
+    // CORE alternates +-1% every hour; BTC doesn't move
+    const history = Array.from({ length: 25 }, (_, i) => ({
+      id: String(i),
+      type: 'price',
+      timestamp: new Date(start + i * HOUR).toISOString(),
+      data: { corePrice: String(i % 2 === 0 ? 100 : 101), btcPrice: '6000000' },
+      resolution: 'raw',
+      samples: 1
+    })).reverse()
+
+    const estimate = realisedVolatility(pricePointsFromHistory(history))
+
+    expect(estimate.samples).toBe(25)
+    expect(estimate.from).toBe(new Date(start).toISOString())
+    expect(estimate.btc).toBe(0)
+    expect(estimate.core).toBeCloseTo(Math.log(1.01) * Math.sqrt(365 * 24), 6)
+    expect(estimate.volatility).toBe(estimate.core)
+  })
+
+  test('needs enough samples spread across the window before it counts', () => {
+    const estimate = (samples: number, hours: number) => ({
+      core: 2, btc: 0, volatility: 2, samples,
+      from: new Date(start).toISOString(),
+      to: new Date(start + hours * HOUR).toISOString()
+    })
+
+    expect(hasVolatilityHistory(estimate(24, 20), 24 * HOUR, 24, 0.75)).toBe(true)
+    expect(hasVolatilityHistory(estimate(2, 20), 24 * HOUR, 24, 0.75)).toBe(false)
+    expect(hasVolatilityHistory(estimate(60, 1), 24 * HOUR, 24, 0.75)).toBe(false) // a burst of samples in the last hour
+    expect(hasVolatilityHistory({ ...estimate(0, 0), from: null, to: null }, 24 * HOUR, 0, 0)).toBe(false)
+  })
+
+  test('maps volatility to a bounded fee schedule whose surcharge goes to the protocol', () => {
+    expect(feeScheduleFor(0.1, parameters)).toEqual({ managementFeeBps: 50, protocolFeeBps: 2000, surchargeBps: 0 })
+    expect(feeScheduleFor(0.225, parameters).managementFeeBps).toBe(60)
+    expect(feeScheduleFor(5, parameters)).toEqual({ managementFeeBps: 70, protocolFeeBps: 4286, surchargeBps: 20 })
+  })
+
+  test('caps the protocol share increase at maxProtocolFeeAdjustment', () => {
+    expect(feeScheduleFor(5, { ...parameters, maxProtocolFeeAdjustment: 0.1 })).toEqual({ managementFeeBps: 70, protocolFeeBps: 3000, surchargeBps: 20 })
+    expect(feeScheduleFor(0.225, { ...parameters, maxProtocolFeeAdjustment: 0 })).toEqual({ managementFeeBps: 60, protocolFeeBps: 2000, surchargeBps: 10 })
+    expect(() => feeScheduleFor(5, { ...parameters, maxProtocolFeeAdjustment: NaN })).toThrow('maxProtocolFeeAdjustment')
+  })
+})
+
+describe('fee proposals', () => {
+  test('recommendations are recorded but cannot be approved', async () => {
+    const { publicClient, walletClient, sent } = feeClients()
+    const manager = new FeeManager(network, new FeeProposalStore(':memory:'), { publicClient, walletClient })
+
+    const current = await manager.getCurrentFees()
+    const proposal = manager.propose(volatility, current, feeScheduleFor(0.4, parameters), 'recommend', start)!
+
+    expect(proposal.status).toBe('recommended')
+    expect(proposal.calls.map(call => [call.functionName, call.value])).toEqual([['setManagementFee', 70], ['setProtocolFeePercentage', 4286]])
+    expect(manager.propose(volatility, current, feeScheduleFor(0.4, parameters), 'recommend', start + HOUR)).toBeNull()
+    expect(manager.propose(volatility, current, feeScheduleFor(0.1, parameters), 'recommend', start + HOUR)).toBeNull()
+    await expect(manager.approve(proposal.id, 'admin')).rejects.toThrow('only pending proposals')
+    expect(sent).toHaveLength(0)
+  })
+
+  test('an approved proposal sends its calls and supersedes older ones', async () => {
+    const { publicClient, walletClient, sent } = feeClients()
+    const manager = new FeeManager(network, new FeeProposalStore(':memory:'), { publicClient, walletClient })
+    const current = await manager.getCurrentFees()
+
+    const first = manager.propose(volatility, current, feeScheduleFor(0.2, parameters), 'approval', start)!
+    const second = manager.propose(volatility, current, feeScheduleFor(0.4, parameters), 'approval', start + HOUR)!
+    expect(manager.getProposal(first.id)!.status).toBe('superseded')
+
+    const executed = await manager.approve(second.id, 'admin')
+
+    expect(executed).toMatchObject({ status: 'executed', decidedBy: 'admin' })
+    expect(executed.calls.map(call => call.status)).toEqual(['confirmed', 'confirmed'])
+    expect(sent.map(request => [request.address, request.functionName, request.args[0]])).toEqual([
+      [BASKET, 'setManagementFee', 70n],
+      [BASKET, 'setProtocolFeePercentage', 4286n]
+    ])
+    expect(manager.getProposals(['executed']).map(p => p.id)).toEqual([second.id])
+  })
+})
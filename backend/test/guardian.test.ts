@@ -0,0 +1,137 @@
+import { describe, test, expect } from "bun:test"
+import { Guardian, PAUSE_CONDITIONS, evaluatePauseConditions, unconfirmedPauses } from '../src/services/Guardian'
+import { getNetwork } from '../src/config/networks'
+import { GuardianTripStore } from '../src/storage/GuardianTripStore'
+import { fakeClients } from './fake-clients'
+
+const BASKET = '0x1111111111111111111111111111111111111111'
+const MANAGER = '0x3333333333333333333333333333333333333333'
+const VALIDATOR = '0x9999999999999999999999999999999999999999'
+const MINUTE = 60 * 1000
+const now = Date.UTC(2025, 0, 1, 12, 0)
+
+// DualStakingBasket is left undeployed
+const network = {
+  ...getNetwork('hardhat'),
+  contracts: { ...getNetwork('hardhat').contracts, StakeBasket: BASKET, DualStakingBasket: '', CoreLiquidStakingManager: MANAGER }
+}
+const thresholds = { maxErrorRate: 0.25, minErrorRateTransactions: 20, extremeVolatility: 1.5, slashingWindowMinutes: 60 }
+
+function contract(errorRate: number, checked: number) {
+  return { errorRate, transactionCount: { deposits: 0, withdrawals: 0, total: 0, checked } } as any
+}
+
+function validators(slashedAt: number) {
+  return {
+    validators: [{
+      address: VALIDATOR,
+      name: 'Validator 9',
+      slashingHistory: [{ timestamp: new Date(slashedAt).toISOString(), amount: '1', reason: 'Misdemeanor: missed blocks', validator: VALIDATOR }]
+    }]
+  } as any
+}
+
+// Targets report `paused` and track the pause and unpause calls sent to them
+function pausableClients(paused: Record<string, boolean>) {
+  return fakeClients({
+    read: ({ address }) => paused[address] ?? false,
+    onSend: request => { paused[request.address] = request.functionName === 'pause' }
+  })
+}
+
+describe('pause conditions', () => {
+  test('trip on recent slashes of delegated validators, feed failures, failing transactions and volatility', () => {
+    const input = {
+      contractMetrics: contract(0.3, 40),
+      validatorMetrics: validators(now - 10 * MINUTE),
+      delegatedValidators: [VALIDATOR.toUpperCase().replace('0X', '0x')],
+      priceError: 'execution reverted',
+      volatility: 2
+    }
+
+    expect(evaluatePauseConditions(input, PAUSE_CONDITIONS, thresholds, now - 60 * MINUTE).map(c => c.condition)).toEqual(PAUSE_CONDITIONS)
+    expect(evaluatePauseConditions(input, ['price_feed_failure'], thresholds, now - 60 * MINUTE).map(c => c.condition)).toEqual(['price_feed_failure'])
+
+    // Old slashes, validators without stake, healthy transactions and calm markets don't count
+    const calm = { ...input, contractMetrics: contract(0.1, 40), priceError: null, priceData: { isStale: false } as any, volatility: 0.5 }
+    expect(evaluatePauseConditions(calm, PAUSE_CONDITIONS, thresholds, now - 5 * MINUTE)).toEqual([])
+    expect(evaluatePauseConditions({ ...calm, delegatedValidators: [] }, PAUSE_CONDITIONS, thresholds, now - 60 * MINUTE)).toEqual([])
+  })
+
+  test('only judge the error rate on enough transactions', () => {
+    const failing = (checked: number) => evaluatePauseConditions({ contractMetrics: contract(0.5, checked) }, PAUSE_CONDITIONS, thresholds, now)
+
+    expect(failing(4)).toEqual([])
+    expect(failing(20)).toEqual([{ condition: 'high_error_rate', detail: '50.0% of 20 recent StakeBasket transactions failed, above 25.0%' }])
+  })
+})
+
+describe('Guardian', () => {
+  test('pauses deployed targets once and only an explicit reset unpauses them', async () => {
+    const { publicClient, walletClient, sent } = pausableClients({ [MANAGER]: true })
+    const guardian = new Guardian(network, { dryRun: false, publicClient, walletClient }, new GuardianTripStore(':memory:'))
+    const conditions = guardian.evaluate({ validatorMetrics: validators(now - MINUTE), delegatedValidators: [VALIDATOR] }, PAUSE_CONDITIONS, thresholds, now)
+
+    const trip = (await guardian.trip(conditions, now))!
+    expect(trip.actions.map(a => [a.contract, a.functionName, a.status])).toEqual([
+      ['StakeBasket', 'pause', 'confirmed'],
+      ['DualStakingBasket', 'pause', 'skipped'],
+      ['CoreLiquidStakingManager', 'pause', 'skipped'] // it was already paused
+    ])
+    expect(guardian.getStatus().state).toBe('tripped')
+    expect(await guardian.trip(conditions, now + MINUTE)).toBeNull()
+
+    const reset = await guardian.reset('admin-1', now + 2 * MINUTE)
+    expect(reset.resetActions!.map(a => [a.contract, a.functionName, a.status])).toEqual([['StakeBasket', 'unpause', 'confirmed']])
+    expect(sent.map(r => r.functionName)).toEqual(['pause', 'unpause'])
+    expect(guardian.getStatus()).toMatchObject({ state: 'armed', history: [{ resetBy: 'admin-1' }] })
+
+    // The slash that caused the trip doesn't trip it again after the reset
+    expect(guardian.evaluate({ validatorMetrics: validators(now - MINUTE), delegatedValidators: [VALIDATOR] }, PAUSE_CONDITIONS, thresholds, now + 3 * MINUTE)).toEqual([])
+    await expect(guardian.reset('admin-1')).rejects.toThrow('not tripped')
+  })
+
+  test('keeps an open trip and the last reset across restarts', async () => {
+    const store = new GuardianTripStore(':memory:')
+    const { publicClient, walletClient, sent } = pausableClients({})
+    const slashed = { validatorMetrics: validators(now - MINUTE), delegatedValidators: [VALIDATOR] }
+
+    const before = new Guardian(network, { dryRun: false, publicClient, walletClient }, store)
+    await before.trip(before.evaluate(slashed, PAUSE_CONDITIONS, thresholds, now), now)
+
+    // The contracts are still paused, and the restarted guardian can unpause them
+    const restarted = new Guardian(network, { dryRun: false, publicClient, walletClient }, store)
+    expect(restarted.getStatus()).toMatchObject({ state: 'tripped', current: { id: `trip-${now}` } })
+    await restarted.reset('admin-1', now + MINUTE)
+    expect(sent.map(r => [r.address, r.functionName])).toEqual([[BASKET, 'pause'], [MANAGER, 'pause'], [BASKET, 'unpause'], [MANAGER, 'unpause']])
+
+    const again = new Guardian(network, { dryRun: false, publicClient, walletClient }, store)
+    expect(again.getStatus()).toMatchObject({ state: 'armed', current: null, history: [{ resetBy: 'admin-1' }] })
+    expect(again.evaluate(slashed, PAUSE_CONDITIONS, thresholds, now + 2 * MINUTE)).toEqual([])
+  })
+  test('retries pauses that failed until they land, and reports them as not paused', async () => {
+    const store = new GuardianTripStore(':memory:')
+    const { publicClient, walletClient, sent } = pausableClients({})
+    const send = walletClient.writeContract
+    let outage = true
+    walletClient.writeContract = async (request: any) => {
+      if (outage && request.address === MANAGER) throw new Error('nonce too low')
+      return send(request)
+    }
+    const guardian = new Guardian(network, { dryRun: false, publicClient, walletClient }, store)
+
+    const trip = (await guardian.trip([{ condition: 'price_feed_failure', detail: 'stale' }], now))!
+    expect(trip.actions.map(a => [a.contract, a.status])).toEqual([['StakeBasket', 'confirmed'], ['DualStakingBasket', 'skipped'], ['CoreLiquidStakingManager', 'failed']])
+    expect(unconfirmedPauses(trip).map(a => a.contract)).toEqual(['CoreLiquidStakingManager'])
+
+    expect((await guardian.retryPauses()).map(a => a.status)).toEqual(['failed'])
+    outage = false
+    expect((await guardian.retryPauses()).map(a => [a.contract, a.status])).toEqual([['CoreLiquidStakingManager', 'confirmed']])
+    expect(await guardian.retryPauses()).toEqual([])
+
+    // The retried pause is kept with the trip, so a reset undoes it too
+    expect(unconfirmedPauses(store.getOpen(network.chain.id)!)).toEqual([])
+    await guardian.reset('admin-1', now + MINUTE)
+    expect(sent.map(r => [r.address, r.functionName])).toEqual([[BASKET, 'pause'], [MANAGER, 'pause'], [BASKET, 'unpause'], [MANAGER, 'unpause']])
+  })
+})
@@ -0,0 +1,87 @@
+import { describe, test, expect } from "bun:test"
+import { LiquidityManager, PoolLiquidity, planLiquidityAdjustment } from '../src/services/LiquidityManager'
+import { getNetwork } from '../src/config/networks'
+import { fakeClients } from './fake-clients'
+
+const QUEUE = '0x6666666666666666666666666666666666666666'
+const ETHER = 10n ** 18n
+
+const network = { ...getNetwork('hardhat'), contracts: { ...getNetwork('hardhat').contracts, UnbondingQueue: QUEUE } }
+const bounds = { minLiquidityRatio: 0.05, targetLiquidityRatio: 0.10, maxLiquidityRatio: 0.20 }
+
+// An UnbondingQueue holding `available` liquid and `queued` waiting CORE, as the contract reports it
+function queueClient(available: bigint, queued: bigint, reservePoolSize: bigint) {
+  const total = available + queued
+  const reads: Record<string, any> = {
+    getPoolHealth: [queued * 10000n / total, available * 10000n / total, available * 10000n / total >= 500n],
+    getQueueStats: [queued, 0n, 3n, 86400n],
+    availableLiquidity: available,
+    reservePoolSize
+  }
+  return fakeClients({ read: ({ functionName }) => reads[functionName], blockNumber: 7n, gasUsed: 40000n })
+}
+
+describe('planLiquidityAdjustment', () => {
+  const pool = (available: bigint, queued: bigint, reservePoolSize: bigint = 0n): PoolLiquidity => ({
+    asset: 'CORE',
+    available: available.toString(),
+    queued: queued.toString(),
+    reservePoolSize: reservePoolSize.toString(),
+    liquidityRatio: Number(available * 10000n / (available + queued)) / 10000,
+    utilizationRate: 0,
+    isHealthy: true,
+    queueRequests: 1,
+    averageWaitSeconds: 0
+  })
+
+  test('restores the target ratio when liquidity leaves the bounds', () => {
+    // 3 liquid against 97 queued is 3%; 10% needs 97 * 10 / 90
+    const low = planLiquidityAdjustment(pool(3n * ETHER, 97n * ETHER, 5n * ETHER), bounds)!
+    expect(low).toMatchObject({ reason: 'below-minimum', method: 'updateAvailableLiquidity', to: (97n * ETHER * 1000n / 9000n).toString() })
+    expect(low.toRatio).toBeCloseTo(0.10, 3)
+
+    // Lowering to 10% of the pool fits within 120% of the sized reserve
+    const high = planLiquidityAdjustment(pool(30n * ETHER, 70n * ETHER, 10n * ETHER), bounds)!
+    expect(high).toMatchObject({ reason: 'above-maximum', method: 'rebalanceLiquidity' })
+
+    expect(planLiquidityAdjustment(pool(8n * ETHER, 92n * ETHER), bounds)).toBeNull()
+    expect(planLiquidityAdjustment(pool(5n * ETHER, 0n), bounds)).toBeNull()
+    expect(() => planLiquidityAdjustment(pool(1n, 1n), { minLiquidityRatio: 0.2, targetLiquidityRatio: 0.1 })).toThrow()
+  })
+})
+
+describe('LiquidityManager', () => {
+  test('reads pool health and queue stats, then sends the adjustment', async () => {
+    const { publicClient, walletClient, sent } = queueClient(3n * ETHER, 97n * ETHER, 5n * ETHER)
+    const manager = new LiquidityManager(network, { dryRun: false, publicClient, walletClient })
+
+    const pool = await manager.getPool('CORE')
+    expect(pool).toMatchObject({ liquidityRatio: 0.03, queued: (97n * ETHER).toString(), queueRequests: 3, isHealthy: false })
+
+    const adjustment = await manager.apply(planLiquidityAdjustment(pool, bounds)!)
+    expect(adjustment).toMatchObject({ status: 'confirmed', txHash: '0x1', blockNumber: 7, gasUsed: '40000' })
+    expect(sent[0]).toMatchObject({ address: QUEUE, functionName: 'updateAvailableLiquidity', args: ['CORE', BigInt(adjustment.to)] })
+  })
+
+  test('only plans when dry running or the queue is not deployed', async () => {
+    const { publicClient, walletClient, sent } = queueClient(3n * ETHER, 97n * ETHER, 5n * ETHER)
+    const manager = new LiquidityManager(network, { dryRun: true, publicClient, walletClient })
+
+    const adjustment = await manager.apply(planLiquidityAdjustment(await manager.getPool('CORE'), bounds)!)
+    expect(adjustment.status).toBe('planned')
+    expect(sent).toHaveLength(0)
+
+    const undeployed = new LiquidityManager(getNetwork('coreTestnet2'), { publicClient, walletClient })
+    expect([manager.isDeployed(), undeployed.isDeployed()]).toEqual([true, false])
+    await expect(undeployed.getPool('CORE')).rejects.toThrow('UnbondingQueue is not deployed')
+  })
+
+  test('dry runs unless LIQUIDITY_DRY_RUN is false', async () => {
+    const { publicClient, walletClient, sent } = queueClient(3n * ETHER, 97n * ETHER, 5n * ETHER)
+    const manager = new LiquidityManager(network, { publicClient, walletClient })
+
+    const adjustment = await manager.apply(planLiquidityAdjustment(await manager.getPool('CORE'), bounds)!)
+    expect(adjustment.status).toBe(process.env.LIQUIDITY_DRY_RUN === 'false' ? 'confirmed' : 'planned')
+    expect(sent).toHaveLength(process.env.LIQUIDITY_DRY_RUN === 'false' ? 1 : 0)
+  })
+})
@@ -0,0 +1,89 @@
+import { describe, test, expect } from "bun:test"
+import { MetricsCollector, HistoricalMetric, RetentionPolicy } from '../src/services/MetricsCollector'
+import { MemoryMetricsStorage, MetricsStorage } from '../src/storage/MetricsStorage'
+import { SqliteMetricsStorage } from '../src/storage/SqliteMetricsStorage'
+
+const HOUR = 60 * 60 * 1000
+
+const policies: Record<string, RetentionPolicy> = {
+  default: { rawRetention: 2 * HOUR, rollupInterval: HOUR, rollupLabel: '1h', rollupRetention: 48 * HOUR }
+}
+
+function rawPoint(type: string, time: number, data: any): HistoricalMetric {
+  return { id: `${type}-${time}`, type, data, timestamp: new Date(time).toISOString(), resolution: 'raw', samples: 1 }
+}
+
+const backends: Array<[string, () => MetricsStorage]> = [
+  ['memory', () => new MemoryMetricsStorage()],
+  ['sqlite', () => new SqliteMetricsStorage(':memory:')]
+]
+
+for (const [name, createStorage] of backends) {
+  describe(`MetricsCollector with ${name} storage`, () => {
+    test('returns the most recent points of a range in ascending order', async () => {
+      const storage = createStorage()
+      const now = Date.now()
+      await storage.insertMany([1, 2, 3, 4].map(i => rawPoint('contract', now - i * 60_000, { errorRate: i })))
+
+      const collector = new MetricsCollector(storage, policies)
+      const history = await collector.getHistory('contract', 2, '1h')
+
+      expect(history.map(h => h.data.errorRate)).toEqual([2, 1])
+    })
+
+    test('downsamples raw points past retention into hourly rollups', async () => {
+      const storage = createStorage()
+      const now = Date.UTC(2024, 0, 2, 12)
+      const oldBucket = now - 5 * HOUR
+
+      await storage.insertMany([
+        rawPoint('contract', oldBucket + 60_000, { errorRate: 0.1, gasUsage: { average: 100 }, totalAUM: '10' }),
+        rawPoint('contract', oldBucket + 120_000, { errorRate: 0.3, gasUsage: { average: 300 }, totalAUM: '12' }),
+        rawPoint('contract', now - 30 * 60_000, { errorRate: 0.5, gasUsage: { average: 500 }, totalAUM: '15' })
+      ])
+
+      const collector = new MetricsCollector(storage, policies)
+      const result = await collector.applyRetention(now)
+
+      expect(result.downsampled).toBe(2)
+      const rollups = await storage.query({ type: 'contract', from: 0, to: now, resolution: '1h' })
+      expect(rollups).toHaveLength(1)
+      expect(rollups[0].samples).toBe(2)
+      expect(rollups[0].data.errorRate).toBeCloseTo(0.2)
+      expect(rollups[0].data.gasUsage.average).toBe(200)
+      expect(rollups[0].data.totalAUM).toBe('12')
+      expect(await storage.count('contract')).toBe(2)
+    })
+
+    test('keeps each network\'s points and rollups separate', async () => {
+      const storage = createStorage()
+      const now = Date.UTC(2024, 0, 2, 12)
+      const oldBucket = now - 5 * HOUR
+
+      await storage.insertMany([
+        { ...rawPoint('contract', oldBucket + 60_000, { errorRate: 0.1 }), id: 'a', chainId: 1114 },
+        { ...rawPoint('contract', oldBucket + 60_000, { errorRate: 0.9 }), id: 'b', chainId: 1116 }
+      ])
+
+      const collector = new MetricsCollector(storage, policies)
+      await collector.applyRetention(now)
+
+      const testnet = await storage.query({ type: 'contract', from: 0, to: now, chainId: 1114 })
+      const mainnet = await storage.query({ type: 'contract', from: 0, to: now, chainId: 1116 })
+      expect(testnet.map(m => [m.resolution, m.data.errorRate])).toEqual([['1h', 0.1]])
+      expect(mainnet.map(m => [m.resolution, m.data.errorRate])).toEqual([['1h', 0.9]])
+    })
+
+    test('drops rollups older than their retention', async () => {
+      const storage = createStorage()
+      const now = Date.UTC(2024, 0, 5)
+      await storage.insert({ ...rawPoint('contract', now - 72 * HOUR, { errorRate: 0 }), resolution: '1h', samples: 60 })
+
+      const collector = new MetricsCollector(storage, policies)
+      const result = await collector.applyRetention(now)
+
+      expect(result.deleted).toBe(1)
+      expect(await storage.count()).toBe(0)
+    })
+  })
+}
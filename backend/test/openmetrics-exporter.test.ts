@@ -0,0 +1,77 @@
+import { describe, test, expect } from "bun:test"
+import { OpenMetricsExporter } from '../src/services/OpenMetricsExporter'
+import { LATENCY_BUCKETS, RequestStats } from '../src/services/RequestStats'
+
+function exporter(options: { price?: any; chainIds?: number[]; stats?: RequestStats; alerts?: any[] } = {}) {
+  const stats = options.stats ?? new RequestStats()
+  const metricsCollector = {
+    getLatest: async (type: string, chainId?: number) => type === 'price' && options.price ? { data: { ...options.price, chainId } } : null,
+    getRequestHistograms: () => stats.getHistograms()
+  } as any
+  const alertManager = { getAlerts: () => options.alerts ?? [] } as any
+  const automationEngine = { getAutomationTasks: () => [{ id: 'price-oracle-update', runCount: 3, failureCount: 1, enabled: true }] } as any
+  const rebalancer = {
+    getStatistics: () => ({ successfulRebalances: 2, failedRebalances: 5 }),
+    getStatus: () => ({ enabled: false })
+  } as any
+  return new OpenMetricsExporter(metricsCollector, alertManager, automationEngine, rebalancer, options.chainIds)
+}
+
+const price = { corePrice: '1.25', btcPrice: '97000', lstBTCPrice: '97500', isStale: false, deviation: 0.01, lastUpdated: new Date().toISOString() }
+
+describe('OpenMetricsExporter', () => {
+  test('declares each family once and ends with # EOF', async () => {
+    const text = await exporter({ price, chainIds: [1114, 1116] }).render()
+    const lines = text.trimEnd().split('\n')
+
+    expect(text.endsWith('\n# EOF\n')).toBe(true)
+    expect(lines.filter(line => line === '# EOF')).toHaveLength(1)
+    expect(lines.filter(line => line === '# TYPE stakebasket_price_feed_price gauge')).toHaveLength(1)
+    expect(lines).toContain('# TYPE stakebasket_price_feed_deviation_ratio gauge')
+    expect(lines).toContain('# UNIT stakebasket_price_feed_deviation_ratio ratio')
+    expect(lines).toContain('stakebasket_price_feed_price{chain_id="1114",asset="CORE"} 1.25')
+    expect(lines).toContain('stakebasket_price_feed_price{chain_id="1116",asset="BTC"} 97000')
+
+    // Counters are declared without _total and sampled with it
+    expect(lines).toContain('# TYPE stakebasket_automation_task_runs counter')
+    expect(lines).toContain('stakebasket_automation_task_runs_total{task="price-oracle-update"} 3')
+
+    // Every sample line belongs to the family declared above it
+    let family = ''
+    for (const line of lines.slice(0, -1)) {
+      if (line.startsWith('# TYPE ')) family = line.split(' ')[2]
+      else if (!line.startsWith('#')) expect(line.startsWith(family)).toBe(true)
+    }
+  })
+
+  test('escapes backslashes, quotes and newlines in label values', async () => {
+    const stats = new RequestStats()
+    stats.record('GET /a"b\\c\nd', 12, 200)
+    const text = await exporter({ stats }).render()
+
+    expect(text).toContain('stakebasket_http_responses_total{route="GET /a\\"b\\\\c\\nd",status="200"} 1')
+  })
+
+  test('renders request latency as a cumulative histogram in seconds', async () => {
+    const stats = new RequestStats()
+    for (const ms of [3, 40, 40, 700, 20000]) stats.record('GET /api/tasks', ms, 200)
+    const lines = (await exporter({ stats }).render()).split('\n')
+
+    const name = 'stakebasket_http_request_duration_seconds'
+    expect(lines).toContain(`# TYPE ${name} histogram`)
+    expect(lines).toContain(`# UNIT ${name} seconds`)
+
+    const buckets = lines.filter(line => line.startsWith(`${name}_bucket`))
+    expect(buckets).toHaveLength(LATENCY_BUCKETS.length + 1)
+    expect(buckets[0]).toBe(`${name}_bucket{route="GET /api/tasks",le="0.005"} 1`)
+    expect(buckets).toContain(`${name}_bucket{route="GET /api/tasks",le="0.05"} 3`)
+    expect(buckets).toContain(`${name}_bucket{route="GET /api/tasks",le="1"} 4`)
+    expect(buckets[buckets.length - 2]).toBe(`${name}_bucket{route="GET /api/tasks",le="10"} 4`)
+    expect(buckets[buckets.length - 1]).toBe(`${name}_bucket{route="GET /api/tasks",le="+Inf"} 5`)
+
+    const counts = buckets.map(line => Number(line.split(' ').pop()))
+    expect(counts).toEqual([...counts].sort((a, b) => a - b))
+    expect(lines).toContain(`${name}_count{route="GET /api/tasks"} 5`)
+    expect(lines).toContain(`${name}_sum{route="GET /api/tasks"} 20.783`)
+  })
+})
@@ -0,0 +1,69 @@
+import { describe, test, expect } from "bun:test"
+import { OraclePushPolicy, decidePush, loadPushOverrides } from '../src/services/OraclePushPolicy'
+
+const NOW = 1_750_000_000
+const settings = { deviationBps: 50, heartbeatSeconds: 3000, enabled: true }
+const onChain = (price: number | null, age: number | null, fresh = true) =>
+  ({ price, updatedAt: age === null ? null : NOW - age, fresh })
+
+describe('oracle push decisions', () => {
+  test('skips prices within deviation before the heartbeat', () => {
+    const decision = decidePush('BTC', 100040, onChain(100000, 600), settings, NOW)
+
+    expect(decision.push).toBe(false)
+    expect(decision.reason).toBe('within-policy')
+    expect(decision.deviationBps).toBeCloseTo(4, 6)
+    expect(decision.ageSeconds).toBe(600)
+  })
+
+  test('pushes once the price moves past the deviation threshold', () => {
+    const decision = decidePush('BTC', 100600, onChain(100000, 600), settings, NOW)
+    expect(decision).toMatchObject({ push: true, reason: 'deviation', onChainPrice: 100000 })
+    expect(decision.deviationBps).toBeCloseTo(60, 6)
+  })
+
+  test('pushes an unchanged price when the heartbeat elapses', () => {
+    expect(decidePush('CORE', 1.2, onChain(1.2, 3000), settings, NOW)).toMatchObject({ push: true, reason: 'heartbeat' })
+    expect(decidePush('CORE', 1.2, onChain(1.2, 2999), settings, NOW)).toMatchObject({ push: false })
+  })
+
+  test('pushes when the oracle has no price or a stale one', () => {
+    expect(decidePush('lstBTC', 100000, onChain(null, null, false), settings, NOW)).toMatchObject({ push: true, reason: 'no-onchain-price', deviationBps: null })
+    expect(decidePush('lstBTC', 100000, onChain(100000, 100, false), settings, NOW)).toMatchObject({ push: true, reason: 'stale' })
+  })
+
+  test('force overrides the policy and disabled assets are never pushed', () => {
+    expect(decidePush('CORE', 1.2, onChain(1.2, 10), settings, NOW, true)).toMatchObject({ push: true, reason: 'forced' })
+    expect(decidePush('CORE', 2, onChain(1, 99999), { ...settings, enabled: false }, NOW)).toMatchObject({ push: false, reason: 'disabled' })
+  })
+})
+
+describe('oracle push policy settings', () => {
+  test('applies per-asset overrides over the defaults', () => {
+    const policy = new OraclePushPolicy(settings, { BTC: { deviationBps: 25 } })
+
+    expect(policy.get('BTC')).toEqual({ deviationBps: 25, heartbeatSeconds: 3000, enabled: true })
+    expect(policy.getAll(['CORE', 'BTC'])).toEqual({
+      CORE: settings,
+      BTC: { deviationBps: 25, heartbeatSeconds: 3000, enabled: true }
+    })
+    expect(policy.decide('BTC', 100300, onChain(100000, 60), NOW).push).toBe(true)
+    expect(policy.decide('CORE', 1.003, onChain(1, 60), NOW).push).toBe(false)
+  })
+
+  test('changes settings at runtime and rejects invalid ones', () => {
+    const policy = new OraclePushPolicy(settings, {})
+
+    expect(policy.set('CORE', { heartbeatSeconds: 600 })).toEqual({ ...settings, heartbeatSeconds: 600 })
+    expect(policy.decide('CORE', 1, onChain(1, 700), NOW).reason).toBe('heartbeat')
+    expect(() => policy.set('CORE', { deviationBps: 0 })).toThrow('deviationBps')
+    expect(() => policy.set('CORE', { heartbeatSeconds: -1 })).toThrow('heartbeatSeconds')
+    expect(policy.get('CORE').heartbeatSeconds).toBe(600)
+  })
+
+  test('parses ORACLE_PUSH_POLICY', () => {
+    expect(loadPushOverrides(undefined)).toEqual({})
+    expect(loadPushOverrides('{"BTC":{"deviationBps":25}}')).toEqual({ BTC: { deviationBps: 25 } })
+    expect(() => loadPushOverrides('nope')).toThrow('not valid JSON')
+  })
+})
@@ -0,0 +1,126 @@
+import { describe, test, expect } from "bun:test"
+import { mkdtempSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { PriceAggregator, aggregatePrices, median } from '../src/services/PriceAggregator'
+import { CoinGeckoPriceSource, CoreAPIPriceSource, FixturePriceSource, PriceFeedSource } from '../src/services/PriceSources'
+import { getNetwork } from '../src/config/networks'
+
+const options = { minSources: 2, maxDeviation: 0.05 }
+
+function staticSource(name: string, quotes: Record<string, number>) {
+  return { name, getPrices: async () => quotes }
+}
+
+describe('price aggregation', () => {
+  test('takes the median of odd and even numbers of quotes', () => {
+    expect(median([3, 1, 2])).toBe(2)
+    expect(median([4, 1, 3, 2])).toBe(2.5)
+  })
+
+  test('drops a quote far from the median so it cannot move the price', () => {
+    const { prices, failures } = aggregatePrices(['CORE'], {
+      'core-api': { CORE: 1.0 },
+      coingecko: { CORE: 1.02 },
+      'price-feed': { CORE: 1.01 },
+      fixture: { CORE: 5 }
+    }, options)
+
+    expect(failures).toEqual([])
+    expect(prices.CORE.price).toBeCloseTo(1.01, 10)
+    expect(prices.CORE.accepted.map(q => q.source)).toEqual(['core-api', 'coingecko', 'price-feed'])
+    expect(prices.CORE.rejected.map(q => q.source)).toEqual(['fixture'])
+  })
+
+  test('gives no price without a quorum of agreeing sources', () => {
+    const { prices, failures } = aggregatePrices(['CORE', 'BTC', 'lstBTC'], {
+      'core-api': { CORE: 1.0, BTC: 100000 },
+      coingecko: { CORE: 2.0, BTC: 100500 },
+      'price-feed': { lstBTC: 100000 }
+    }, options)
+
+    // Two sources 2x apart: both are 33% off their midpoint
+    expect(prices.CORE).toBeUndefined()
+    expect(prices.BTC.price).toBe(100250)
+    expect(prices.lstBTC).toBeUndefined()
+    expect(failures.map(f => f.asset)).toEqual(['CORE', 'lstBTC'])
+    expect(failures[0].reason).toContain('0 of 2')
+  })
+
+  test('ignores missing, zero and non-finite quotes', () => {
+    const { prices } = aggregatePrices(['BTC'], {
+      a: { BTC: 100000 },
+      b: { BTC: 0 },
+      c: { BTC: NaN },
+      d: {}
+    }, { minSources: 1, maxDeviation: 0.05 })
+
+    expect(prices.BTC.accepted).toHaveLength(1)
+  })
+
+  test('records failing sources and aggregates the rest', async () => {
+    const aggregator = new PriceAggregator([
+      staticSource('a', { CORE: 1.0 }),
+      { name: 'broken', getPrices: async () => { throw new Error('HTTP 503') } },
+      staticSource('b', { CORE: 1.04 })
+    ], options)
+
+    const result = await aggregator.aggregate(['CORE'], Date.UTC(2025, 0, 1))
+    expect(result.timestamp).toBe('2025-01-01T00:00:00.000Z')
+    expect(result.prices.CORE.price).toBeCloseTo(1.02, 10)
+    expect(result.sourceErrors).toEqual([{ source: 'broken', error: 'HTTP 503' }])
+  })
+})
+
+describe('price sources', () => {
+  test('derives BTC from the Core API CORE/BTC rate', async () => {
+    const source = new CoreAPIPriceSource({
+      getCorePrice: async () => ({ coreusd: '1.5', corebtc: '0.000015', coreusd_timestamp: '0', corebtc_timestamp: '0' })
+    })
+
+    const quotes = await source.getPrices(['CORE', 'BTC', 'lstBTC'])
+    expect(quotes.CORE).toBe(1.5)
+    expect(quotes.BTC).toBeCloseTo(100000, 6)
+    expect(quotes.lstBTC).toBeUndefined()
+  })
+
+  test('reads CoinGecko-style simple prices for mapped assets only', async () => {
+    const urls: string[] = []
+    const fetchFn = (async (url: string) => {
+      urls.push(url)
+      return new Response(JSON.stringify({ bitcoin: { usd: 98000 }, coredaoorg: { usd: 1.1 } }))
+    }) as any
+    const source = new CoinGeckoPriceSource('https://prices.example', { CORE: 'coredaoorg', BTC: 'bitcoin' }, undefined, fetchFn)
+
+    expect(await source.getPrices(['CORE', 'BTC', 'coreBTC'])).toEqual({ CORE: 1.1, BTC: 98000 })
+    expect(urls).toEqual(['https://prices.example/simple/price?ids=coredaoorg,bitcoin&vs_currencies=usd'])
+  })
+
+  test('fails on HTTP errors', async () => {
+    const source = new CoinGeckoPriceSource('https://prices.example', undefined, undefined, (async () => new Response('', { status: 429 })) as any)
+    await expect(source.getPrices(['BTC'])).rejects.toThrow('HTTP 429')
+  })
+
+  test('reads a fixture file in either shape', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'prices-'))
+    writeFileSync(join(dir, 'flat.json'), JSON.stringify({ CORE: 1.2, BTC: 99000 }))
+    writeFileSync(join(dir, 'nested.json'), JSON.stringify({ prices: { lstBTC: 99500 } }))
+
+    expect(await new FixturePriceSource(join(dir, 'flat.json')).getPrices(['CORE', 'lstBTC'])).toEqual({ CORE: 1.2 })
+    expect(await new FixturePriceSource(join(dir, 'nested.json')).getPrices(['lstBTC'])).toEqual({ lstBTC: 99500 })
+  })
+
+  test('reads 18-decimal prices from the on-chain PriceFeed and skips reverts', async () => {
+    const base = getNetwork('hardhat')
+    const network = { ...base, contracts: { ...base.contracts, PriceFeed: '0x8888888888888888888888888888888888888888' } }
+    const client = {
+      readContract: async ({ args }: any) => {
+        if (args[0] === 'coreBTC') throw new Error('Price is stale')
+        return args[0] === 'CORE' ? 1250000000000000000n : 97000000000000000000000n
+      }
+    }
+
+    const quotes = await new PriceFeedSource(network, client).getPrices(['CORE', 'BTC', 'coreBTC'])
+    expect(quotes).toEqual({ CORE: 1.25, BTC: 97000 })
+  })
+})
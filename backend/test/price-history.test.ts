@@ -0,0 +1,117 @@
+import { describe, test, expect } from "bun:test"
+import { buildCandles, PriceHistory } from '../src/services/PriceHistory'
+import { PriceHistoryStore } from '../src/storage/PriceHistoryStore'
+import type { AggregationResult } from '../src/services/PriceAggregator'
+
+const MINUTE = 60 * 1000
+const HOUR = 60 * MINUTE
+const DAY = 24 * HOUR
+const start = Date.UTC(2025, 0, 1)
+
+const at = (ms: number) => new Date(start + ms).toISOString()
+const observation = (ms: number, source: string, price: number, asset: string = 'CORE') =>
+  ({ chainId: 1114, asset, source, timestamp: at(ms), price })
+
+function aggregation(ms: number, quotes: Record<string, number>, rejected: Record<string, number> = {}): AggregationResult {
+  const toQuotes = (prices: Record<string, number>) => Object.entries(prices).map(([source, price]) => ({ source, price, deviation: 0 }))
+  const accepted = Object.values(quotes).sort((a, b) => a - b)
+  return {
+    timestamp: at(ms),
+    prices: { CORE: { asset: 'CORE', price: accepted[Math.floor(accepted.length / 2)], accepted: toQuotes(quotes), rejected: toQuotes(rejected) } },
+    failures: [],
+    sourceErrors: []
+  }
+}
+
+describe('buildCandles', () => {
+  test('builds OHLC per interval from one source and the spread across the others', () => {
+    const candles = buildCandles([
+      observation(0, 'oracle', 1.00),
+      observation(0, 'coingecko', 1.01),
+      observation(10 * MINUTE, 'oracle', 1.10),
+      observation(20 * MINUTE, 'oracle', 0.95),
+      observation(30 * MINUTE, 'core-api', 0.98),
+      observation(30 * MINUTE, 'coingecko', 1.00),
+      observation(30 * MINUTE, 'oracle', 0.99),
+      observation(HOUR + MINUTE, 'oracle', 1.05)
+    ], HOUR, 'oracle')
+
+    expect(candles).toHaveLength(2)
+    expect(candles[0]).toMatchObject({ time: at(0), open: 1.00, high: 1.10, low: 0.95, close: 0.99, samples: 4 })
+    expect(candles[0].spread!.prices).toEqual({ coingecko: 1.00, 'core-api': 0.98 })
+    expect(candles[0].spread!.spreadBps).toBeCloseTo(0.02 / 0.99 * 10000, 6)
+    expect(candles[1]).toMatchObject({ time: at(HOUR), open: 1.05, close: 1.05, spread: null })
+  })
+
+  test('skips intervals the chosen source did not quote', () => {
+    const candles = buildCandles([observation(0, 'coingecko', 1), observation(HOUR, 'oracle', 1)], HOUR, 'oracle')
+    expect(candles.map(candle => candle.time)).toEqual([at(HOUR)])
+  })
+})
+
+describe('PriceHistory', () => {
+  test('stores every quote of an updater round and the prices it settled on', () => {
+    const history = new PriceHistory(new PriceHistoryStore(':memory:'))
+    history.recordAggregation(1114, aggregation(0, { 'core-api': 1.00, coingecko: 1.02 }, { fixture: 2.00 }), {
+      lstBTC: { asset: 'lstBTC', price: 101000, method: 'exchange-rate', btcPrice: 100000, peg: 1, exchangeRate: 1.01 }
+    })
+
+    const core = history.getCandles(1114, 'CORE', '1h', 24, undefined, start + 30 * MINUTE)
+    expect(core.source).toBe('oracle')
+    expect(core.candles[0].close).toBe(1.02)
+    expect(core.candles[0].spread!.prices).toEqual({ 'core-api': 1.00, coingecko: 1.02, fixture: 2.00 })
+
+    expect(history.getCandles(1114, 'lstBTC', '1h', 24, undefined, start + 30 * MINUTE).candles[0].close).toBe(101000)
+    expect(history.getAssets(1114)).toEqual(['CORE', 'lstBTC'])
+  })
+
+  test('falls back to PriceFeed readings, stored in USD, when the updater has not run', () => {
+    const history = new PriceHistory(new PriceHistoryStore(':memory:'))
+    history.recordPriceFeed({ chainId: 1114, corePrice: '150.00000000', btcPrice: '9700000.00000000', lstBTCPrice: '0', lastUpdated: at(0), isStale: false, deviation: 0 }, start)
+
+    const btc = history.getCandles(1114, 'BTC', '1h', 24, undefined, start + MINUTE)
+    expect(btc.source).toBe('price-feed')
+    expect(btc.candles[0].close).toBe(97000)
+    expect(history.getCandles(1114, 'CORE', '1h', 24, 'coingecko', start + MINUTE).candles).toEqual([])
+    expect(history.getAssets(1114)).toEqual(['BTC', 'CORE'])
+  })
+
+  test('falls back to PriceFeed readings only for the intervals the updater missed', () => {
+    const history = new PriceHistory(new PriceHistoryStore(':memory:'))
+    history.record([
+      observation(0, 'price-feed', 1.00), observation(0, 'oracle', 1.01),
+      observation(HOUR, 'price-feed', 1.05),
+      observation(2 * HOUR, 'coingecko', 1.10), observation(2 * HOUR, 'price-feed', 1.08)
+    ])
+
+    const candles = history.getCandles(1114, 'CORE', '1h', 24, undefined, start + 2 * HOUR + MINUTE)
+    expect(candles.candles.map(candle => [candle.source, candle.close])).toEqual([['oracle', 1.01], ['price-feed', 1.05], ['price-feed', 1.08]])
+    expect(candles.source).toBe('price-feed')
+    expect(history.getCandles(1114, 'CORE', '1h', 24, 'oracle', start + 2 * HOUR + MINUTE).candles).toHaveLength(1)
+  })
+
+  test('returns only the last `limit` intervals and drops observations past retention', () => {
+    const history = new PriceHistory(new PriceHistoryStore(':memory:'), { retentionDays: 2 })
+    for (let hour = 0; hour < 72; hour++) {
+      history.record([observation(hour * HOUR, 'oracle', 100 + hour)])
+    }
+
+    const candles = history.getCandles(1114, 'CORE', '1h', 5, undefined, start + 71 * HOUR + MINUTE)
+    expect(candles.candles.map(candle => candle.close)).toEqual([167, 168, 169, 170, 171])
+    expect(history.getCandles(1114, 'CORE', '1d', 10, undefined, start + 71 * HOUR).candles[0]).toMatchObject({ time: at(0), open: 123, samples: 1 })
+  })
+
+  test('pairs CORE and BTC closes for volatility', () => {
+    const history = new PriceHistory(new PriceHistoryStore(':memory:'))
+    history.record([
+      observation(0, 'oracle', 1.0), observation(0, 'oracle', 100000, 'BTC'),
+      observation(5 * MINUTE, 'oracle', 1.1),
+      observation(10 * MINUTE, 'oracle', 1.2), observation(10 * MINUTE, 'oracle', 101000, 'BTC')
+    ])
+
+    expect(history.getPricePoints(1114, start, '5m', start + 15 * MINUTE)).toEqual([
+      { timestamp: at(0), core: 1.0, btc: 100000 },
+      { timestamp: at(10 * MINUTE), core: 1.2, btc: 101000 }
+    ])
+  })
+})
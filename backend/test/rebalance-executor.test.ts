@@ -0,0 +1,73 @@
+import { describe, test, expect } from "bun:test"
+import { RebalanceExecutor, planRebalanceMoves } from '../src/services/RebalanceExecutor'
+import { getNetwork } from '../src/config/networks'
+import { fakeClients } from './fake-clients'
+
+const A = '0x1111111111111111111111111111111111111111'
+const B = '0x2222222222222222222222222222222222222222'
+const C = '0x3333333333333333333333333333333333333333'
+const MANAGER = '0x4444444444444444444444444444444444444444'
+
+const network = { ...getNetwork('hardhat'), contracts: { ...getNetwork('hardhat').contracts, CoreLiquidStakingManager: MANAGER } }
+
+function recommendation(from: Array<[string, bigint]>, to: Array<[string, bigint]>) {
+  return {
+    shouldRebalance: true,
+    reason: 'test',
+    fromValidators: from.map(([address, amount]) => ({ address, amount: amount.toString(), reason: 'Low APY' })),
+    toValidators: to.map(([address, amount]) => ({ address, amount: amount.toString(), expectedAPY: 8 })),
+    estimatedImprovementAPY: 1
+  }
+}
+
+describe('planRebalanceMoves', () => {
+  test('splits sources across targets so each move is a single from/to pair', () => {
+    const moves = planRebalanceMoves(recommendation([[A, 10n ** 24n]], [[B, 6n * 10n ** 23n], [C, 4n * 10n ** 23n]]))
+
+    expect(moves).toEqual([
+      { from: A, to: B, amount: (6n * 10n ** 23n).toString() },
+      { from: A, to: C, amount: (4n * 10n ** 23n).toString() }
+    ])
+  })
+})
+
+describe('RebalanceExecutor', () => {
+  test('dry run returns manualRebalance calldata without sending', async () => {
+    const { publicClient, walletClient, sent } = fakeClients()
+    const executor = new RebalanceExecutor(network, { dryRun: true, publicClient, walletClient })
+
+    const execution = await executor.execute([{ from: A, to: B, amount: '100' }])
+
+    expect(execution.dryRun).toBe(true)
+    expect(execution.calls[0].status).toBe('planned')
+    expect(execution.calls[0].target).toBe(MANAGER)
+    expect(execution.calls[0].calldata.startsWith('0x')).toBe(true)
+    expect(sent).toHaveLength(0)
+  })
+
+  test('dry runs unless REBALANCER_DRY_RUN is false', async () => {
+    const { publicClient, walletClient, sent } = fakeClients()
+    const executor = new RebalanceExecutor(network, { publicClient, walletClient })
+
+    const execution = await executor.execute([{ from: A, to: B, amount: '100' }])
+    expect(execution.dryRun).toBe(process.env.REBALANCER_DRY_RUN !== 'false')
+    expect(sent).toHaveLength(process.env.REBALANCER_DRY_RUN === 'false' ? 1 : 0)
+  })
+
+  test('records tx hashes and stops at the first reverted call', async () => {
+    const { publicClient, walletClient, sent } = fakeClients({ revertedHashes: ['0x2'] })
+    const executor = new RebalanceExecutor(network, { dryRun: false, publicClient, walletClient })
+
+    const execution = await executor.execute([
+      { from: A, to: B, amount: '100' },
+      { from: A, to: C, amount: '50' },
+      { from: B, to: C, amount: '25' }
+    ])
+
+    expect(execution.success).toBe(false)
+    expect(execution.calls.map(call => call.status)).toEqual(['confirmed', 'reverted', 'skipped'])
+    expect(execution.calls[0].txHash).toBe('0x1')
+    expect(sent).toHaveLength(2)
+    expect(sent.map(request => request.nonce)).toEqual([0, 1])
+  })
+})
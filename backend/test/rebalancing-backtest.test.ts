@@ -0,0 +1,73 @@
+import { describe, test, expect } from "bun:test"
+import { parseEther } from 'viem'
+import { DEFAULT_ALLOCATION_PARAMS } from '../src/services/AllocationStrategies'
+import { runBacktest, toBacktestSnapshots } from '../src/services/RebalancingBacktester'
+import type { ValidatorInfo } from '../src/services/ValidatorMonitor'
+
+function validator(address: string, effectiveAPY: number, overrides: Partial<ValidatorInfo> = {}): ValidatorInfo {
+  return {
+    address,
+    name: address,
+    isActive: true,
+    totalDelegated: '0',
+    commission: 5,
+    uptime: 99,
+    performance: 90,
+    effectiveAPY,
+    riskScore: 20,
+    slashingHistory: [],
+    lastUpdate: new Date(0).toISOString(),
+    ...overrides
+  }
+}
+
+const day = (n: number) => new Date(Date.UTC(2025, 0, 1 + n)).toISOString()
+
+// Validator a goes inactive on day 10, so its stake should move to b
+const snapshots = [
+  { timestamp: day(0), validators: [validator('a', 9), validator('b', 7), validator('c', 8)] },
+  { timestamp: day(10), validators: [validator('a', 0, { isActive: false }), validator('b', 7), validator('c', 8)] },
+  { timestamp: day(30), validators: [validator('a', 0, { isActive: false }), validator('b', 7), validator('c', 8)] }
+]
+
+const options = {
+  strategy: 'equal-weight',
+  params: { ...DEFAULT_ALLOCATION_PARAMS, maxValidators: 2 },
+  minImprovement: 0,
+  initialStake: parseEther('1000'),
+  gasPerMove: 250_000,
+  gasPriceGwei: 30
+}
+
+describe('rebalancing backtest', () => {
+  test('moves stake off an inactive validator and beats holding the initial allocation', () => {
+    const report = runBacktest(snapshots, options)
+
+    expect(report.rebalances).toBe(1)
+    // a drains into b, and into c for the extra yield it earned before going inactive
+    expect(report.events[0].moves.map(m => `${m.from}->${m.to}`)).toEqual(['a->c', 'a->b'])
+    expect(report.moves).toBe(2)
+    expect(report.gas.units).toBe(500_000)
+    expect(report.gas.costCORE).toBe('0.015')
+    expect(report.period.days).toBe(30)
+    expect(report.realisedAPY).toBeGreaterThan(report.counterfactualAPY)
+    expect(report.netAPY).toBeLessThan(report.realisedAPY)
+    expect(report.maxConcentration).toBeCloseTo(0.5, 2)
+  })
+
+  test('holds when the improvement is below minImprovement', () => {
+    const report = runBacktest(snapshots, { ...options, minImprovement: 100 })
+
+    expect(report.rebalances).toBe(0)
+    expect(report.gas.cost).toBe('0')
+    expect(report.finalValue).toBe(report.counterfactualValue)
+    expect(report.realisedAPY).toBeCloseTo(report.counterfactualAPY)
+  })
+
+  test('reads stored metrics history oldest first', () => {
+    const history = [...snapshots].reverse().map(s => ({ timestamp: s.timestamp, data: { validators: s.validators } }))
+
+    expect(toBacktestSnapshots(history).map(s => s.timestamp)).toEqual(snapshots.map(s => s.timestamp))
+    expect(() => runBacktest(snapshots.slice(0, 1), options)).toThrow('at least two')
+  })
+})
@@ -0,0 +1,88 @@
+import { describe, test, expect } from "bun:test"
+import { Hono } from 'hono'
+import { LATENCY_BUCKETS, RequestStats, WINDOWS, percentile } from '../src/services/RequestStats'
+import { requestMetrics } from '../src/middleware/metrics'
+
+const MINUTE = 60 * 1000
+
+describe('percentile', () => {
+  test('uses the nearest rank', () => {
+    const sorted = Array.from({ length: 100 }, (_, i) => i + 1)
+    expect([percentile(sorted, 50), percentile(sorted, 95), percentile(sorted, 99)]).toEqual([50, 95, 99])
+    expect(percentile([7], 99)).toBe(7)
+    expect(percentile([], 50)).toBe(0)
+  })
+})
+
+describe('RequestStats', () => {
+  test('summarises latency percentiles per route and overall', () => {
+    const stats = new RequestStats()
+    const now = Date.now()
+    for (let ms = 1; ms <= 100; ms++) stats.record('GET /api/fast', ms, 200, now - 1000)
+    for (let i = 0; i < 20; i++) stats.record('GET /api/slow', 1000 + i * 100, i < 5 ? 500 : 200, now - 1000)
+
+    const routes = Object.fromEntries(stats.getRouteStats(WINDOWS['5m'], now).map(route => [route.route, route]))
+    expect(routes['GET /api/fast'].latency).toMatchObject({ count: 100, p50: 50, p95: 95, p99: 99, max: 100, average: 50.5 })
+    expect(routes['GET /api/slow'].latency).toMatchObject({ count: 20, p50: 1900, p95: 2800, p99: 2900 })
+    expect(routes['GET /api/slow'].errorRate).toBe(0.25)
+    expect(routes['GET /api/slow'].statusCodes).toEqual({ 200: 15, 500: 5 })
+
+    const overall = stats.getOverallStats(WINDOWS['5m'], now)
+    expect(overall.latency).toMatchObject({ count: 120, p50: 60, p99: 2800, max: 2900 })
+  })
+
+  test('only counts samples inside the window', () => {
+    const stats = new RequestStats()
+    const now = Date.now()
+    stats.record('GET /api/tasks', 900, 200, now - 30 * MINUTE)
+    stats.record('GET /api/tasks', 10, 200, now - 3 * MINUTE)
+    stats.record('GET /api/tasks', 20, 200, now - 30 * 1000)
+    stats.record('GET /api/alerts', 5, 200, now - 10 * MINUTE)
+
+    const inWindow = (window: string) => stats.getRouteStats(WINDOWS[window], now).map(route => [route.route, route.latency.count, route.latency.p99])
+    expect(inWindow('1m')).toEqual([['GET /api/tasks', 1, 20]])
+    expect(inWindow('5m')).toEqual([['GET /api/tasks', 2, 20]])
+    expect(inWindow('15m')).toEqual([['GET /api/tasks', 2, 20], ['GET /api/alerts', 1, 5]])
+    expect(inWindow('1h')).toEqual([['GET /api/tasks', 3, 900], ['GET /api/alerts', 1, 5]])
+  })
+
+  test('keeps cumulative histograms across windows', () => {
+    const stats = new RequestStats()
+    const now = Date.now()
+    stats.record('GET /api/tasks', 3, 200, now - 2 * WINDOWS['24h'])
+    stats.record('GET /api/tasks', 40, 404, now)
+    stats.record('GET /api/tasks', 20000, 200, now)
+
+    const [histogram] = stats.getHistograms()
+    expect(histogram.buckets[LATENCY_BUCKETS.indexOf(5)]).toBe(1)
+    expect(histogram.buckets[LATENCY_BUCKETS.indexOf(50)]).toBe(2)
+    expect(histogram.buckets[LATENCY_BUCKETS.length - 1]).toBe(2) // the 20s request only counts towards +Inf
+    expect(histogram).toMatchObject({ count: 3, sum: 20043, statusCodes: { 200: 2, 404: 1 } })
+    expect(stats.getRouteStats(WINDOWS['24h'], now)[0].latency.count).toBe(2)
+  })
+})
+
+describe('requestMetrics middleware', () => {
+  test('records each request under its route pattern with the response status', async () => {
+    const recorded: Array<[string, number, number]> = []
+    const collector = { recordRequest: (route: string, duration: number, status: number) => recorded.push([route, duration, status]) } as any
+
+    const app = new Hono()
+    app.use('*', requestMetrics(collector))
+    app.get('/validators/:address', (c) => c.json({ address: c.req.param('address') }))
+    app.post('/tasks/:taskId/run', (c) => c.json({ error: 'Task not found' }, 404))
+
+    await app.request('/validators/0xabc')
+    await app.request('/validators/0xdef')
+    await app.request('/tasks/unknown/run', { method: 'POST' })
+    await app.request('/nowhere')
+
+    expect(recorded.map(([route, , status]) => [route, status])).toEqual([
+      ['GET /validators/:address', 200],
+      ['GET /validators/:address', 200],
+      ['POST /tasks/:taskId/run', 404],
+      ['GET unmatched', 404]
+    ])
+    expect(recorded.every(([, duration]) => duration >= 0)).toBe(true)
+  })
+})
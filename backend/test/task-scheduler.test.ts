@@ -0,0 +1,96 @@
+import { describe, test, expect } from "bun:test"
+import { TaskBusyError, TaskScheduler } from '../src/services/TaskScheduler'
+import { nextCronRun, parseCron } from '../src/utils/cron'
+import { TaskStore } from '../src/storage/TaskStore'
+import { automationTaskUpdateSchema } from '../src/middleware/validation'
+
+const MINUTE = 60 * 1000
+const start = Date.UTC(2025, 0, 1, 12, 0) // a Wednesday
+
+const task = (id: string, minutes: number = 10) => ({
+  id,
+  schedule: { type: 'interval' as const, minutes },
+  enabled: true,
+  parameters: { threshold: 1 }
+})
+
+describe('cron schedules', () => {
+  test('find the next matching minute in UTC', () => {
+    expect(nextCronRun('*/15 * * * *', start)).toBe(start + 15 * MINUTE)
+    expect(nextCronRun('0 3 * * *', start)).toBe(Date.UTC(2025, 0, 2, 3, 0))
+    expect(nextCronRun('30 9 * * 1-5', Date.UTC(2025, 0, 3, 10, 0))).toBe(Date.UTC(2025, 0, 6, 9, 30)) // Friday -> Monday
+    expect(nextCronRun('0 0 1 */3 *', start)).toBe(Date.UTC(2025, 3, 1))
+  })
+
+  test('reject malformed expressions', () => {
+    expect(() => parseCron('* * * *')).toThrow('expected 5 fields')
+    expect(() => parseCron('61 * * * *')).toThrow('Invalid cron expression')
+    expect(() => nextCronRun('0 0 31 2 *', start)).toThrow('never matches')
+  })
+
+  test('task edits reject schedules that never fire', () => {
+    expect(automationTaskUpdateSchema.safeParse({ schedule: { type: 'cron', expression: '0 0 31 2 *' } }).success).toBe(false)
+    expect(automationTaskUpdateSchema.safeParse({ schedule: { type: 'cron', expression: '0 0 28 2 *' } }).success).toBe(true)
+  })
+})
+
+describe('task scheduler', () => {
+  test('runs due tasks, records each run and keeps state across restarts', async () => {
+    const store = new TaskStore(':memory:')
+    const scheduler = new TaskScheduler(store)
+    const seen: any[] = []
+    scheduler.register(task('ok'), async parameters => {
+      seen.push(parameters)
+      return { checked: true }
+    }, start)
+    scheduler.register(task('broken', 30), async () => { throw new Error('rpc down') }, start)
+
+    expect(await scheduler.tick(start + 5 * MINUTE)).toEqual([])
+    const runs = await scheduler.tick(start + 30 * MINUTE)
+
+    expect(runs.map(r => [r.taskId, r.outcome, r.error])).toEqual([['ok', 'success', null], ['broken', 'failed', 'rpc down']])
+    expect(seen).toEqual([{ threshold: 1 }])
+    expect(scheduler.getTask('broken')).toMatchObject({ runCount: 1, failureCount: 1 })
+    expect(scheduler.getRuns('broken')[0].trigger).toBe('schedule')
+    expect(scheduler.getRuns('ok')[0].result).toEqual({ checked: true })
+
+    // A new scheduler on the same store picks up counters, schedule and edited parameters
+    scheduler.update('ok', { parameters: { threshold: 2 } })
+    const restarted = new TaskScheduler(store)
+    restarted.register(task('ok'), async parameters => { seen.push(parameters) })
+    expect(restarted.getTask('ok')).toMatchObject({ runCount: 1, parameters: { threshold: 2 } })
+  })
+
+  test('never runs the same task twice at once', async () => {
+    const scheduler = new TaskScheduler(new TaskStore(':memory:'))
+    let release = () => {}
+    let calls = 0
+    scheduler.register(task('slow'), () => {
+      calls++
+      return new Promise<void>(resolve => { release = resolve })
+    }, start)
+
+    const first = scheduler.tick(start + 10 * MINUTE)
+    expect(scheduler.getTask('slow')!.running).toBe(true)
+    expect(await scheduler.tick(start + 20 * MINUTE)).toEqual([])
+    await expect(scheduler.runNow('slow')).rejects.toBeInstanceOf(TaskBusyError)
+
+    release()
+    await first
+    expect(calls).toBe(1)
+    expect(scheduler.getTask('slow')!.running).toBe(false)
+  })
+
+  test('pause, resume and reschedule', async () => {
+    const scheduler = new TaskScheduler(new TaskStore(':memory:'))
+    scheduler.register(task('job'), async () => {}, start)
+
+    expect(scheduler.pause('job')).toMatchObject({ enabled: false, nextRun: null })
+    expect(await scheduler.tick(start + 60 * MINUTE)).toEqual([])
+
+    const resumed = scheduler.update('job', { enabled: true, schedule: { type: 'cron', expression: '0 * * * *' } }, start)
+    expect(resumed.nextRun).toBe(new Date(start + 60 * MINUTE).toISOString())
+    expect(() => scheduler.update('job', { schedule: { type: 'cron', expression: 'every hour' } })).toThrow('Invalid cron expression')
+    expect(() => scheduler.pause('missing')).toThrow('Unknown task')
+  })
+})
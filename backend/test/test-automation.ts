@@ -46,10 +46,12 @@ async function testAutomationEngine() {
   console.log(`  - Check interval: Every ${liquidityTask?.parameters.checkInterval || 30} minutes`)
   
   // Test parameter update
-  const success = engine.updateTaskParameters('liquidity-management', {
-    minLiquidityRatio: 0.08, // 8%
-    targetLiquidityRatio: 0.15 // 15%
-  })
+  const success = engine.editTask('liquidity-management', {
+    parameters: {
+      minLiquidityRatio: 0.08, // 8%
+      targetLiquidityRatio: 0.15 // 15%
+    }
+  }) !== null
   
   console.log(`\nParameter update success: ${success ? '✅' : '❌'}`)
   
@@ -71,11 +73,11 @@ async function testAutomationEngine() {
   console.log(`  - Check interval: Every ${Math.floor((new Date(feeTask?.nextRun || 0).getTime() - new Date(feeTask?.lastRun || 0).getTime()) / (1000 * 60))} minutes`)
   
   // Test enabling fee automation (with caution)
-  const feeToggleSuccess = engine.toggleTask('dynamic-fees', true)
+  const feeToggleSuccess = engine.editTask('dynamic-fees', { enabled: true }) !== null
   console.log(`\nFee automation enable: ${feeToggleSuccess ? '✅' : '❌'}`)
   
   // Immediately disable for safety
-  engine.toggleTask('dynamic-fees', false)
+  engine.editTask('dynamic-fees', { enabled: false })
   console.log('Fee automation disabled for safety: ✅')
   console.log('✅ Dynamic fee adjustment controls working')
   
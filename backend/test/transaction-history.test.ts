@@ -0,0 +1,92 @@
+import { describe, test, expect } from "bun:test"
+import { TransactionHistory, isTransactionType } from '../src/services/TransactionHistory'
+import { EventStore, IndexedEvent } from '../src/storage/EventStore'
+
+const USER = '0x00000000000000000000000000000000000000a1'
+const OTHER = '0x00000000000000000000000000000000000000a2'
+
+function event(block: number, contract: string, eventName: string, args: Record<string, any>, account = USER, chainId = 1114): IndexedEvent {
+  return {
+    id: `${chainId}:0xtx${block}:0`,
+    chainId,
+    contract,
+    address: '0x00000000000000000000000000000000000000b1',
+    eventName,
+    category: 'deposit',
+    account: account.toLowerCase(),
+    blockNumber: block,
+    blockHash: `0xhash${block}`,
+    transactionHash: `0xtx${block}`,
+    logIndex: 0,
+    timestamp: new Date(Date.UTC(2025, 0, 1) + block * 1000).toISOString(),
+    gasUsed: 150000,
+    args
+  }
+}
+
+function seededHistory() {
+  const store = new EventStore(':memory:')
+  const events = [
+    event(1, 'StakeBasket', 'Deposited', { user: USER, coreAmount: '1000000000000000000', sharesIssued: '1000000000000000000' }),
+    event(2, 'StakeBasket', 'WithdrawalRequested', { user: USER, shares: '400000000000000000', requestId: '1' }),
+    event(3, 'StakeBasket', 'Redeemed', { user: USER, shares: '100000000000000000', coreAmount: '100000000000000000' }),
+    event(4, 'DualStakingBasket', 'Deposited', { user: USER, coreAmount: '5000000000000000000', btcAmount: '1' }),
+    event(5, 'BasketGovernance', 'VoteCast', { voter: USER, proposalId: '3', support: true, weight: '42' }),
+    event(6, 'StakeBasket', 'Deposited', { user: OTHER, coreAmount: '7', sharesIssued: '7' }, OTHER),
+    event(7, 'StakeBasket', 'Paused', { account: USER }),
+    event(8, 'StakeBasket', 'Deposited', { user: USER, coreAmount: '9', sharesIssued: '9' }, USER, 1116)
+  ]
+  store.commitRange(1114, events.filter(e => e.chainId === 1114), events.map(e => ({ number: e.blockNumber, hash: e.blockHash })), { number: 8, hash: '0xhash8' })
+  store.commitRange(1116, events.filter(e => e.chainId === 1116), [], { number: 8, hash: '0xhash8' })
+  return new TransactionHistory(store)
+}
+
+describe('TransactionHistory', () => {
+  test("maps a user's indexed events to transactions, newest first", () => {
+    const { transactions, total } = seededHistory().getTransactions(USER.toUpperCase().replace('0X', '0x'), { chainId: 1114 })
+
+    expect(total).toBe(5)
+    expect(transactions.map(tx => [tx.blockNumber, tx.type, tx.method, tx.value])).toEqual([
+      [5, 'governanceVote', 'Governance Vote', '42'],
+      [4, 'dualDeposit', 'Dual Staking Deposit', '5000000000000000000'],
+      [3, 'redeem', 'Redeem', '100000000000000000'],
+      [2, 'requestWithdrawal', 'Request Withdrawal', '400000000000000000'],
+      [1, 'deposit', 'Deposit', '1000000000000000000']
+    ])
+    expect(transactions[4]).toMatchObject({
+      hash: '0xtx1',
+      contract: 'StakeBasket',
+      status: 'success',
+      timestamp: Date.UTC(2025, 0, 1) + 1000,
+      details: { sharesIssued: '1000000000000000000' }
+    })
+  })
+
+  test('pages through the history with limit and offset', () => {
+    const history = seededHistory()
+
+    const first = history.getTransactions(USER, { chainId: 1114, limit: 2 })
+    const second = history.getTransactions(USER, { chainId: 1114, limit: 2, offset: 2 })
+    const last = history.getTransactions(USER, { chainId: 1114, limit: 2, offset: 4 })
+
+    expect([first, second, last].map(page => page.transactions.map(tx => tx.blockNumber))).toEqual([[5, 4], [3, 2], [1]])
+    expect([first.total, second.total, last.total]).toEqual([5, 5, 5])
+  })
+
+  test('filters by transaction type and chain', () => {
+    const history = seededHistory()
+
+    const redeems = history.getTransactions(USER, { chainId: 1114, types: ['redeem', 'governanceVote'] })
+    expect(redeems.transactions.map(tx => tx.type)).toEqual(['governanceVote', 'redeem'])
+    expect(redeems.total).toBe(2)
+
+    expect(history.getTransactions(USER, { types: ['deposit'] }).transactions.map(tx => tx.blockNumber)).toEqual([8, 1])
+    expect(history.getTransactions(USER, { chainId: 1116 }).total).toBe(1)
+    expect(history.getTransactions(OTHER, { chainId: 1114, types: ['redeem'] }).total).toBe(0)
+  })
+
+  test('recognises only the types it maps events to', () => {
+    expect(isTransactionType('instantRedeem')).toBe(true)
+    expect(isTransactionType('other')).toBe(false)
+  })
+})
@@ -0,0 +1,119 @@
+import { describe, test, expect } from "bun:test"
+import { bumpFees, maxFees, TransactionManager, TransactionTimeoutError } from '../src/services/TransactionManager'
+
+const GWEI = 1000000000n
+const fast = { pollIntervalMs: 1, replaceAfterMs: 5, receiptTimeoutMs: 200, gasBumpPercent: 15, maxReplacements: 2 }
+
+// Transactions are mined when `mine` is called with their hash, or on sending from the
+// `mineFrom`th submission on; the signer's pending nonce starts at 7
+function fakeChain(options: { mineFrom?: number; legacy?: boolean } = {}) {
+  const sent: any[] = []
+  const mined = new Map<string, any>()
+  let confirmedNonces = 7
+  const mine = (hash: string) => {
+    mined.set(hash, { status: 'success', blockNumber: 100n, gasUsed: 21000n })
+    confirmedNonces = Math.max(confirmedNonces, sent.find(request => request.hash === hash).nonce + 1)
+  }
+
+  const publicClient = {
+    getTransactionCount: async ({ blockTag }: any) => blockTag === 'pending' ? 7 : confirmedNonces,
+    estimateFeesPerGas: async () => {
+      if (options.legacy) throw Object.assign(new Error('Chain does not support EIP-1559 fees'), { name: 'Eip1559FeesNotSupportedError' })
+      return { maxFeePerGas: 20n * GWEI, maxPriorityFeePerGas: GWEI }
+    },
+    getGasPrice: async () => 10n * GWEI,
+    getTransactionReceipt: async ({ hash }: any) => {
+      const receipt = mined.get(hash)
+      if (!receipt) throw new Error('Transaction receipt not found')
+      return receipt
+    }
+  }
+  const walletClient = {
+    account: { address: '0x5555555555555555555555555555555555555555' },
+    writeContract: async (request: any) => {
+      const hash = `0x${sent.length + 1}`
+      sent.push({ ...request, hash })
+      if (options.mineFrom && sent.length >= options.mineFrom) mine(hash)
+      return hash
+    }
+  }
+  return { publicClient, walletClient, sent, mine, options }
+}
+
+describe('fee bumping', () => {
+  test('raises every field by the percentage, rounding up', () => {
+    expect(bumpFees({ maxFeePerGas: 20n * GWEI, maxPriorityFeePerGas: 3n }, 12.5)).toEqual({ maxFeePerGas: 22500000000n, maxPriorityFeePerGas: 4n })
+    expect(bumpFees({ gasPrice: 10n * GWEI }, 10)).toEqual({ gasPrice: 11n * GWEI })
+  })
+
+  test('keeps the higher of the bumped and current network fees', () => {
+    expect(maxFees({ maxFeePerGas: 30n, maxPriorityFeePerGas: 2n }, { maxFeePerGas: 25n, maxPriorityFeePerGas: 5n }))
+      .toEqual({ maxFeePerGas: 30n, maxPriorityFeePerGas: 5n })
+  })
+})
+
+describe('TransactionManager', () => {
+  test('assigns consecutive nonces from the pending count and sends one at a time', async () => {
+    const { publicClient, walletClient, sent } = fakeChain({ mineFrom: 1 })
+    const manager = new TransactionManager(publicClient, walletClient, fast)
+
+    const results = await Promise.all([
+      manager.send({ address: '0xaa', functionName: 'pause' }),
+      manager.send({ address: '0xbb', functionName: 'pause' }),
+      manager.send({ address: '0xcc', functionName: 'pause' })
+    ])
+
+    expect(sent.map(request => [request.address, request.nonce])).toEqual([['0xaa', 7], ['0xbb', 8], ['0xcc', 9]])
+    expect(results.map(result => result.hash)).toEqual(['0x1', '0x2', '0x3'])
+    expect(sent[0].maxFeePerGas).toBe(20n * GWEI)
+    expect(manager.getStatus().recent.map(tx => tx.status)).toEqual(['confirmed', 'confirmed', 'confirmed'])
+  })
+
+  test('waits for the previous transaction before submitting the next', async () => {
+    const { publicClient, walletClient, sent, mine } = fakeChain()
+    const manager = new TransactionManager(publicClient, walletClient, { ...fast, replaceAfterMs: 1000 })
+
+    const first = manager.send({ address: '0xaa', functionName: 'pause' })
+    const second = manager.send({ address: '0xbb', functionName: 'pause' })
+    await new Promise(resolve => setTimeout(resolve, 20))
+    expect(sent).toHaveLength(1)
+    expect(manager.getStatus().queued).toBe(1)
+
+    mine('0x1')
+    await first
+    await new Promise(resolve => setTimeout(resolve, 20))
+    expect(sent).toHaveLength(2)
+    mine('0x2')
+    expect((await second).nonce).toBe(8)
+  })
+
+  test('resubmits a stuck transaction at the same nonce with bumped fees', async () => {
+    const { publicClient, walletClient, sent } = fakeChain({ mineFrom: 2 })
+    const manager = new TransactionManager(publicClient, walletClient, fast)
+
+    const result = await manager.send({ address: '0xaa', functionName: 'updatePrices' })
+
+    expect(result).toMatchObject({ hash: '0x2', nonce: 7, replacements: 1 })
+    expect(sent.map(request => request.nonce)).toEqual([7, 7])
+    expect(sent[1].maxFeePerGas).toBe(23n * GWEI)
+    expect(manager.getStatus().recent[0].hashes).toEqual(['0x1', '0x2'])
+  })
+
+  test('gives up after the timeout and replaces the stuck nonce with the next transaction', async () => {
+    const { publicClient, walletClient, sent, options } = fakeChain({ legacy: true })
+    const manager = new TransactionManager(publicClient, walletClient, { ...fast, receiptTimeoutMs: 40 })
+
+    const stuck = await manager.send({ address: '0xaa', functionName: 'updatePrices' }).catch(error => error)
+    expect(stuck).toBeInstanceOf(TransactionTimeoutError)
+    expect(stuck.nonce).toBe(7)
+    expect(manager.getStatus().recent[0].status).toBe('timeout')
+
+    const attempts = sent.length
+    options.mineFrom = attempts + 1
+    const next = await manager.send({ address: '0xaa', functionName: 'updatePrices' })
+
+    expect(next).toMatchObject({ nonce: 7, replacements: 0 })
+    expect(sent[attempts].gasPrice > sent[attempts - 1].gasPrice).toBe(true)
+    expect(manager.getStatus().stuckNonce).toBeNull()
+  })
+})
@@ -0,0 +1,68 @@
+import { describe, test, expect } from "bun:test"
+import { join } from 'path'
+import { getNetwork } from '../src/config/networks'
+import { CORE_SYSTEM_CONTRACTS, CandidateHubValidatorSource, FixtureValidatorSource } from '../src/services/ValidatorDataSource'
+
+const operator = '0x00000000000000000000000000000000000000a1'
+const consensus = '0x00000000000000000000000000000000000000c1'
+const jailedOperator = '0x00000000000000000000000000000000000000a2'
+const jailedConsensus = '0x00000000000000000000000000000000000000c2'
+
+// Answers the candidate hub, CoreAgent and SlashIndicator reads for two candidates
+function fakeChainClient() {
+  const candidates = [
+    [operator, consensus, operator, 100, 0n, 17, 0n, 0n], // validator, 10% commission
+    [jailedOperator, jailedConsensus, jailedOperator, 50, 0n, 21, 0n, 0n] // validator, jailed
+  ]
+
+  return {
+    readContract: async ({ address, functionName, args }: any) => {
+      if (address === CORE_SYSTEM_CONTRACTS.CandidateHub) {
+        if (functionName === 'getCandidates') return [operator, jailedOperator]
+        if (functionName === 'operateMap') return args[0] === operator ? 1n : 2n
+        return candidates[Number(args[0])]
+      }
+      if (functionName === 'candidateMap') return [0n, 5_000n]
+      return [0n, args[0] === consensus ? 2880n : 0n, true] // one active validator: 10% of the round missed
+    },
+    getBlockNumber: async () => 100n,
+    getLogs: async ({ fromBlock }: any) => fromBlock === 0n
+      ? [{ eventName: 'validatorFelony', blockNumber: 42n, args: { validator: jailedConsensus, amount: 7n } }]
+      : [],
+    getBlock: async () => ({ timestamp: 1_735_689_600n })
+  }
+}
+
+describe('validator data sources', () => {
+  test('fixture source reads records from a JSON file', async () => {
+    const source = new FixtureValidatorSource(join(import.meta.dir, 'fixtures', 'validators.json'))
+    const validators = await source.getValidators()
+
+    expect(validators).toHaveLength(3)
+    expect(validators[0].slashingHistory).toEqual([])
+    expect(validators[2].slashingHistory[0].reason).toContain('Felony')
+  })
+
+  test('fixture source without a path fails when read, not when created', async () => {
+    const source = new FixtureValidatorSource(undefined)
+    await expect(source.getValidators()).rejects.toThrow('VALIDATOR_FIXTURE_PATH must be set')
+  })
+
+  test('candidate hub source reads status, commission, uptime and slashes from the chain', async () => {
+    const source = new CandidateHubValidatorSource(getNetwork('coreTestnet2'), fakeChainClient())
+    const [active, jailed] = await source.getValidators()
+
+    expect(active).toMatchObject({ address: operator, isActive: true, commission: 10, totalDelegated: '5000' })
+    expect(active.uptime).toBeCloseTo(90)
+    expect(active.slashingHistory).toEqual([])
+
+    expect(jailed.isActive).toBe(false)
+    expect(jailed.uptime).toBe(0)
+    expect(jailed.slashingHistory).toEqual([{
+      timestamp: '2025-01-01T00:00:00.000Z',
+      amount: '7',
+      reason: 'Felony: missed too many blocks, jailed',
+      validator: jailedConsensus
+    }])
+  })
+})
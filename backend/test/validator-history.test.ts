@@ -0,0 +1,82 @@
+import { describe, test, expect } from "bun:test"
+import { ValidatorHistory } from '../src/services/ValidatorHistory'
+import { ValidatorHistoryStore } from '../src/storage/ValidatorHistoryStore'
+import type { ValidatorInfo, ValidatorMetrics } from '../src/services/ValidatorMonitor'
+
+const DAY = 24 * 60 * 60 * 1000
+const start = Date.UTC(2025, 0, 1)
+
+function validator(address: string, overrides: Partial<ValidatorInfo> = {}): ValidatorInfo {
+  return {
+    address,
+    name: address,
+    isActive: true,
+    totalDelegated: '1000',
+    commission: 5,
+    uptime: 99,
+    performance: 99,
+    effectiveAPY: 7.5,
+    riskScore: 10,
+    slashingHistory: [],
+    lastUpdate: new Date(start).toISOString(),
+    ...overrides
+  }
+}
+
+function metrics(day: number, validators: ValidatorInfo[]): ValidatorMetrics {
+  return {
+    chainId: 1114,
+    validators,
+    totalValidators: validators.length,
+    activeValidators: validators.filter(v => v.isActive).length,
+    averageUptime: 0,
+    averagePerformance: 0,
+    averageEffectiveAPY: 0,
+    totalSlashingEvents: 0,
+    recommendations: [],
+    timestamp: new Date(start + day * DAY).toISOString()
+  }
+}
+
+function historyWithCommissionRaise(): ValidatorHistory {
+  const history = new ValidatorHistory(new ValidatorHistoryStore(':memory:'), { retentionDays: 30 })
+  history.record(metrics(0, [validator('0xA'), validator('0xB')]))
+  history.record(metrics(5, [validator('0xA', { commission: 8, totalDelegated: '900' }), validator('0xB')]))
+  return history
+}
+
+describe('validator history', () => {
+  test('returns the time series and commission changes of one validator', () => {
+    const history = historyWithCommissionRaise()
+    const trend = history.getTrend(1114, '0xa', 30, 500, start + 6 * DAY)
+
+    expect(trend.points.map(p => p.commission)).toEqual([5, 8])
+    expect(trend.points[1].totalDelegated).toBe('900')
+    expect(trend.commissionChanges).toEqual([{ timestamp: new Date(start + 5 * DAY).toISOString(), from: 5, to: 8 }])
+    expect(history.getTrend(1, '0xa', 30, 500, start + 6 * DAY).points).toEqual([])
+  })
+
+  test('derives signals against the oldest snapshot in the window', () => {
+    const history = historyWithCommissionRaise()
+    const current = history.withSignals(metrics(6, [
+      validator('0xA', { commission: 8, totalDelegated: '900', riskScore: 40 }),
+      validator('0xB', { isActive: false })
+    ]))
+    const [a, b] = current.validators
+
+    expect(a.signals).toMatchObject({ commissionRaised: true, commissionChange: 3, delegatedChangePercent: -10, riskScoreChange: 30 })
+    expect(b.signals).toMatchObject({ commissionRaised: false, becameInactive: true })
+
+    // Outside the 7 day window the raise is no longer reported
+    const later = history.withSignals(metrics(13, [validator('0xA', { commission: 8, totalDelegated: '900' })]))
+    expect(later.validators[0].signals).toMatchObject({ commissionRaised: false, commissionChange: 0 })
+  })
+
+  test('drops snapshots older than the retention period', () => {
+    const history = historyWithCommissionRaise()
+    history.record(metrics(33, [validator('0xA', { commission: 8 })]))
+
+    expect(history.getTrend(1114, '0xa', 90, 500, start + 33 * DAY).points.map(p => p.timestamp))
+      .toEqual([new Date(start + 5 * DAY).toISOString(), new Date(start + 33 * DAY).toISOString()])
+  })
+})
@@ -1,9 +1,10 @@
 import { ExternalLink } from 'lucide-react'
 import { Button } from './button'
+import type { TransactionType } from '../../hooks/useTransactionHistory'
 
 interface Transaction {
   hash: string
-  type: 'deposit' | 'redeem' | 'other'
+  type: TransactionType
   method: string
   timestamp: number
   status?: 'success' | 'failed' | 'pending'
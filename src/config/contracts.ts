@@ -49,6 +49,7 @@ export const CONTRACT_ADDRESSES = {
     // Mock Staking
     MockCoreStaking: '0x9fE46736679d2D9a65F0992F2272dE9f3c7fa6e0',
     MockLstBTC: '0xCf7Ed3AccA5a467e9e704C703E8D87F634fB0Fc9',
+    LstBTC: '', // real lstBTC token; MockLstBTC's exchange rate is used while this is empty
     
     // StakeBasket Core (UPDATED - 2025-09-03 Production Deployment)
     PriceFeed: '0x930b218f3e63eE452c13561057a8d5E61367d5b7',
@@ -90,6 +91,7 @@ export const CONTRACT_ADDRESSES = {
     MockCoreBTC: '0x01b93AC7b5Ee7e473F90aE66979a9402EbcaCcF7',
     MockCoreStaking: '0xd7c4D6f6f0aFCABaAa3B2c514Fb1C2f62cf8326A',
     MockLstBTC: '0xE03484f1682fa55c2AB9bbCF8e451b857EcE6DA8',
+    LstBTC: '',
     CoreOracle: '0xd3fC275555C46Ffa4a6F9d15380D4edA9D9fb06b', // Using updated PriceFeed with Switchboard
     
     // Governance
@@ -128,6 +130,7 @@ export const CONTRACT_ADDRESSES = {
     MockCoreBTC: '',
     MockCoreStaking: '',
     MockLstBTC: '',
+    LstBTC: '',
     CoreOracle: '',
     
     // Governance
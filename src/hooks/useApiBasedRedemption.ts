@@ -117,7 +117,7 @@ export function useApiBasedRedemption() {
         totalPooledCore: totalPooledCore.toString(),
         totalPooledLstBTC: totalPooledLstBTC?.toString() || '0',
         corePrice: priceData.corePrice,
-        btcPrice: priceData.btcPrice
+        btcPrice: priceData.lstBTCPrice // the pooled BTC is lstBTC, worth more than BTC as yield accrues
       })
 
       setCalculatedReturn(result.coreToReturn)
@@ -1,4 +1,4 @@
-import { useState, useEffect, useRef } from 'react'
+import { useState, useEffect, useRef, useMemo } from 'react'
 import { useChainId, useReadContract } from 'wagmi'
 import { CoreApiClient } from '../utils/coreApi'
 import { getNetworkByChainId } from '../config/contracts'
@@ -7,6 +7,10 @@ import { limitedFetch } from '../utils/requestLimiter'
 interface PriceData {
   corePrice: number
   btcPrice: number
+  coreBTCPrice: number // BTC price at the coreBTC peg
+  lstBTCPrice: number // coreBTC price times the lstBTC exchange rate
+  coreBTCPeg: number // coreBTC per BTC
+  lstBTCExchangeRate: number | null // coreBTC per lstBTC; null when it couldn't be read (priced 1:1)
   lastUpdate: string
   isLoading: boolean
   error?: string
@@ -15,6 +19,9 @@ interface PriceData {
 
 const COINGECKO_API_URL = 'https://api.coingecko.com/api/v3/simple/price'
 
+// coreBTC per BTC; below 1 prices in a discount to BTC
+const COREBTC_PEG = parseFloat(import.meta.env.VITE_COREBTC_PEG || '1')
+
 // Cache to prevent excessive API calls
 let priceCache: { data: any; timestamp: number } | null = null
 const CACHE_DURATION = 60000 // 1 minute cache
@@ -44,6 +51,17 @@ const PRICE_FEED_ABI = [
   }
 ] as const
 
+// ILstBTC / MockLstBTC exchange rate: coreBTC per lstBTC, scaled by 1e18
+const LSTBTC_ABI = [
+  {
+    "inputs": [],
+    "name": "getExchangeRate",
+    "outputs": [{"name": "", "type": "uint256"}],
+    "stateMutability": "view",
+    "type": "function"
+  }
+] as const
+
 // CoinGecko API helper with caching
 async function fetchCoinGeckoPrice() {
   try {
@@ -96,7 +114,7 @@ export function useRealPriceData(enabled: boolean = true): PriceData {
   const chainId = useChainId()
   const { contracts } = getNetworkByChainId(chainId)
   
-  const [priceData, setPriceData] = useState<PriceData>({
+  const [priceData, setPriceData] = useState<Omit<PriceData, 'coreBTCPrice' | 'lstBTCPrice' | 'coreBTCPeg' | 'lstBTCExchangeRate'>>({
     corePrice: 0,
     btcPrice: 0,
     lastUpdate: '',
@@ -172,6 +190,22 @@ export function useRealPriceData(enabled: boolean = true): PriceData {
     }
   })
 
+  // lstBTC accrues yield, so it is priced from its exchange rate rather than 1:1 with BTC
+  const lstBTCAddress = contracts?.LstBTC || contracts?.MockLstBTC
+  const { data: lstBTCRate } = useReadContract({
+    address: lstBTCAddress as `0x${string}`,
+    abi: LSTBTC_ABI,
+    functionName: 'getExchangeRate',
+    query: { 
+      enabled: enabled && !!lstBTCAddress && !/^0x0{40}$/.test(lstBTCAddress),
+      retry: false,
+      refetchOnWindowFocus: false,
+      staleTime: 180000, // Cache for 3 minutes
+      gcTime: 600000, // Keep in cache for 10 minutes
+      refetchInterval: false // Disable automatic refetching
+    }
+  })
+
   // Use useRef to store stable references and prevent unnecessary re-renders
   const oracleDataRef = useRef({
     corePriceOracle,
@@ -360,5 +394,17 @@ export function useRealPriceData(enabled: boolean = true): PriceData {
     }
   }, [chainId, shouldUseOracle, oracleAddress, enabled]) // Include enabled in dependencies
 
-  return priceData
+  // Memoised so consumers that depend on the returned object only re-run when prices change
+  return useMemo(() => {
+    const lstBTCExchangeRate = lstBTCRate ? Number(lstBTCRate) / 1e18 : null
+    const coreBTCPrice = priceData.btcPrice * COREBTC_PEG
+
+    return {
+      ...priceData,
+      coreBTCPrice,
+      lstBTCPrice: coreBTCPrice * (lstBTCExchangeRate ?? 1),
+      coreBTCPeg: COREBTC_PEG,
+      lstBTCExchangeRate
+    }
+  }, [priceData, lstBTCRate])
 }
\ No newline at end of file
@@ -6,12 +6,25 @@ import { getNetworkByChainId } from '../config/contracts'
 let txCache: { [key: string]: { data: Transaction[], timestamp: number } } = {}
 const CACHE_DURATION = 30000 // 30 seconds
 
+const BACKEND_URL = import.meta.env.VITE_BACKEND_URL || 'http://localhost:3001'
+
+export type TransactionType =
+  | 'deposit'
+  | 'redeem'
+  | 'requestWithdrawal'
+  | 'processWithdrawal'
+  | 'instantRedeem'
+  | 'dualDeposit'
+  | 'sparksRedemption'
+  | 'governanceVote'
+  | 'other'
+
 interface Transaction {
   hash: string
   method: string
-  type: 'deposit' | 'redeem' | 'other'
+  type: TransactionType
   timestamp: number
-  value: string
+  value: string // wei, as a decimal string
   status: 'success' | 'failed'
   blockNumber: number
 }
@@ -56,6 +69,16 @@ export function useTransactionHistory(targetAddress?: string) {
       setError(null)
       
       try {
+        // Prefer the backend's event index; fall back to RPC/explorer lookups when it has nothing
+        const indexedTxs = await fetchIndexedTransactions(address, chainId)
+        if (indexedTxs && indexedTxs.length > 0) {
+          if (isMounted) {
+            setTransactions(indexedTxs)
+            txCache[cacheKey] = { data: indexedTxs, timestamp: Date.now() }
+          }
+          return
+        }
+
         // For local Hardhat network, fetch from local RPC
         if (chainId === 31337) {
           console.log('Fetching local transaction history for address:', address)
@@ -126,7 +149,7 @@ export function useTransactionHistory(targetAddress?: string) {
                       method: getMethodName(tx.input || '0x'),
                       type: getTransactionType(tx.input || '0x'),
                       timestamp: parseInt(blockData.result.timestamp, 16) * 1000,
-                      value: tx.value || '0',
+                      value: toWeiString(tx.value),
                       status: 'success', // Local transactions are typically successful if they appear in blocks
                       blockNumber: parseInt(blockData.result.number, 16)
                     })
@@ -202,7 +225,7 @@ export function useTransactionHistory(targetAddress?: string) {
                 method: getMethodName(tx.input || ''),
                 type: getTransactionType(tx.input || ''),
                 timestamp: tx.timeStamp ? Date.parse(tx.timeStamp) : Date.now(),
-                value: tx.value || '0',
+                value: toWeiString(tx.value),
                 status: tx.isError === '0' ? 'success' : 'failed',
                 blockNumber: parseInt(tx.blockNumber || '0')
               }))
@@ -246,6 +269,38 @@ export function useTransactionHistory(targetAddress?: string) {
   return { transactions, loading, error }
 }
 
+async function fetchIndexedTransactions(address: string, chainId: number): Promise<Transaction[] | null> {
+  try {
+    const response = await fetch(`${BACKEND_URL}/api/users/${address}/transactions?chainId=${chainId}&limit=10`)
+    if (!response.ok) return null
+
+    const body = await response.json()
+    if (!body.success || !Array.isArray(body.data)) return null
+
+    return body.data.map((tx: any) => ({
+      hash: tx.hash,
+      method: tx.method,
+      type: tx.type,
+      timestamp: tx.timestamp,
+      value: toWeiString(tx.value),
+      status: tx.status,
+      blockNumber: tx.blockNumber
+    }))
+  } catch (e) {
+    // Backend unreachable
+    return null
+  }
+}
+
+// The backend and explorers report values in decimal, the JSON-RPC node in hex
+function toWeiString(value: string | number | null | undefined): string {
+  try {
+    return BigInt(value || 0).toString()
+  } catch (e) {
+    return '0'
+  }
+}
+
 function getMethodName(input: string): string {
   if (!input || input === '0x' || input === 'null' || input === null) return 'Deposit'
   